@@ -3,14 +3,27 @@ import { HttpModule } from "@nestjs/axios";
 import { TypeOrmModule } from "@nestjs/typeorm";
 import { AiValidationService } from "./ai-validation.service";
 import { SignalValidationProcessor } from "./processors/signal-validation.processor";
+import { XaiSignalValidator } from "./validators/xai.validator";
+import { OpenAiCompatibleSignalValidator } from "./validators/openai-compatible.validator";
+import { RuleBasedSignalValidator } from "./validators/rule-based.validator";
 import { Signal } from "../signals/entities/signal.entity";
+import { SignalsModule } from "../signals/signals.module";
+import { PriceOracleModule } from "../prices/price-oracle.module";
 
 @Module({
   imports: [
     HttpModule,
     TypeOrmModule.forFeature([Signal]),
+    SignalsModule,
+    PriceOracleModule,
+  ],
+  providers: [
+    AiValidationService,
+    SignalValidationProcessor,
+    XaiSignalValidator,
+    OpenAiCompatibleSignalValidator,
+    RuleBasedSignalValidator,
   ],
-  providers: [AiValidationService, SignalValidationProcessor],
   exports: [AiValidationService],
 })
 export class AiValidationModule {}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AiValidationService } from './ai-validation.service';
+import { XaiSignalValidator } from './validators/xai.validator';
+import { OpenAiCompatibleSignalValidator } from './validators/openai-compatible.validator';
+import { RuleBasedSignalValidator } from './validators/rule-based.validator';
+import { CacheService } from '../cache/cache.service';
+
+// price-oracle.service does not type-check under ts-jest; only its injection token is needed here
+jest.mock('../prices/price-oracle.service', () => ({
+  PriceOracleService: class PriceOracleService {},
+}));
+
+describe('AiValidationService', () => {
+  let service: AiValidationService;
+  let config: Record<string, unknown>;
+
+  const request = {
+    assetPair: 'XLM/USDC',
+    action: 'BUY',
+    rationale: 'Holding support with rising volume',
+  };
+
+  const verdict = { score: 72, feedback: 'Reasonable setup', isSpam: false };
+
+  const mockConfigService = {
+    get: jest.fn(
+      (key: string, defaultValue?: unknown) => config[key] ?? defaultValue,
+    ),
+  };
+
+  const mockCacheService = {
+    get: jest.fn(),
+    setWithTTL: jest.fn(),
+  };
+
+  const mockXaiValidator = { name: 'xai', validate: jest.fn() };
+  const mockOpenAiValidator = { name: 'openai', validate: jest.fn() };
+  const mockRuleBasedValidator = { name: 'local', validate: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiValidationService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: XaiSignalValidator, useValue: mockXaiValidator },
+        {
+          provide: OpenAiCompatibleSignalValidator,
+          useValue: mockOpenAiValidator,
+        },
+        { provide: RuleBasedSignalValidator, useValue: mockRuleBasedValidator },
+      ],
+    }).compile();
+
+    service = module.get<AiValidationService>(AiValidationService);
+    config = { 'validation.validator': 'local' };
+    mockCacheService.get.mockResolvedValue(undefined);
+    mockRuleBasedValidator.validate.mockResolvedValue(verdict);
+    mockOpenAiValidator.validate.mockResolvedValue(verdict);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should validate with the configured validator and cache the verdict', async () => {
+    const result = await service.validateSignal(request);
+
+    expect(result).toEqual({ ...verdict, validator: 'local' });
+    expect(mockXaiValidator.validate).not.toHaveBeenCalled();
+    expect(mockCacheService.setWithTTL).toHaveBeenCalledWith(
+      expect.stringMatching(/^stellarswipe:validation:local:[0-9a-f]{64}$/),
+      result,
+      86400,
+    );
+  });
+
+  it('should return a cached verdict without calling the validator', async () => {
+    mockCacheService.get.mockResolvedValue({ ...verdict, validator: 'local' });
+
+    await service.validateSignal(request);
+
+    expect(mockRuleBasedValidator.validate).not.toHaveBeenCalled();
+  });
+
+  it('should send the whole share to the alternate validator at 100%', async () => {
+    config['validation.alternateValidator'] = 'openai';
+    config['validation.alternateShare'] = 100;
+
+    const result = await service.validateSignal(request);
+
+    expect(result.validator).toBe('openai');
+    expect(mockRuleBasedValidator.validate).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to manual review without caching when the validator fails', async () => {
+    mockRuleBasedValidator.validate.mockRejectedValue(new Error('timeout'));
+
+    const result = await service.validateSignal(request);
+
+    expect(result).toEqual(
+      expect.objectContaining({ score: 50, isSpam: false, validator: 'local' }),
+    );
+    expect(mockCacheService.setWithTTL).not.toHaveBeenCalled();
+  });
+});
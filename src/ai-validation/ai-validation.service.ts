@@ -1,94 +1,121 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { HttpService } from "@nestjs/axios";
 import { ConfigService } from "@nestjs/config";
-import { firstValueFrom } from "rxjs";
-import { ValidationResult, XaiResponse } from "./interfaces/xai-client.interface";
+import { createHash } from "crypto";
+import { ValidationResult } from "./interfaces/xai-client.interface";
+import { ValidationRequestDto } from "./dto/validation-request.dto";
+import {
+  SignalValidator,
+  SignalValidatorName,
+} from "./validators/signal-validator.interface";
+import { XaiSignalValidator } from "./validators/xai.validator";
+import { OpenAiCompatibleSignalValidator } from "./validators/openai-compatible.validator";
+import { RuleBasedSignalValidator } from "./validators/rule-based.validator";
+import { CacheService, CachePrefix } from "../cache/cache.service";
 
+/**
+ * Picks the configured SignalValidator for a signal and caches its verdict.
+ * With an alternate validator configured, a fixed share of signals goes to
+ * it instead so providers can be compared on live traffic.
+ */
 @Injectable()
 export class AiValidationService {
   private readonly logger = new Logger(AiValidationService.name);
+  private readonly validators: Record<SignalValidatorName, SignalValidator>;
 
   constructor(
-    private readonly httpService: HttpService,
     private readonly configService: ConfigService,
-  ) {}
+    private readonly cacheService: CacheService,
+    xaiValidator: XaiSignalValidator,
+    openAiValidator: OpenAiCompatibleSignalValidator,
+    ruleBasedValidator: RuleBasedSignalValidator,
+  ) {
+    this.validators = {
+      xai: xaiValidator,
+      openai: openAiValidator,
+      local: ruleBasedValidator,
+    };
+  }
 
   async validateSignal(
-    assetPair: string,
-    action: string,
-    rationale: string,
+    request: ValidationRequestDto,
   ): Promise<ValidationResult> {
-    const apiKey = this.configService.get<string>("xai.apiKey");
-    const model = this.configService.get<string>("xai.model");
-    const apiUrl = this.configService.get<string>("xai.apiUrl");
+    const hash = this.hashRequest(request);
+    const validator = this.selectValidator(hash);
+    const cacheKey = `${CachePrefix.VALIDATION}${validator.name}:${hash}`;
 
-    if (!apiKey) {
-      this.logger.warn("XAI_API_KEY is not set. Falling back to default validation.");
-      return { score: 50, feedback: "API Key missing, manual review required.", isSpam: false };
+    const cached = await this.cacheService.get<ValidationResult>(cacheKey);
+    if (cached) {
+      this.logger.debug(
+        `Using cached ${validator.name} validation for ${request.assetPair}`,
+      );
+      return cached;
     }
 
-    const prompt = `
-      Analyze the following crypto trading signal and provide a quality score (0-100), 
-      brief feedback, and spam detection.
-      
-      Asset Pair: ${assetPair}
-      Action: ${action}
-      Rationale: ${rationale}
-      
-      Your response MUST be in JSON format:
-      {
-        "score": number,
-        "feedback": "string",
-        "isSpam": boolean
-      }
-      
-      Criteria:
-      - Rationale coherence and specificity (0-40 points)
-      - Realistic price targets if any (0-20 points)
-      - Market data references (0-20 points)
-      - Spam/manipulation detection (0-20 points)
-      - Signals with vague rationales like "to the moon" or "trust me" should score very low.
-    `;
-
     try {
-      if (!apiUrl) {
-        throw new Error("XAI_API_URL is not set in config.");
-      }
-      const response = await firstValueFrom(
-        this.httpService.post<XaiResponse>(
-          apiUrl,
-          {
-            model: model,
-            messages: [
-              { role: "system", content: "You are a professional crypto market analyst." },
-              { role: "user", content: prompt },
-            ],
-            response_format: { type: "json_object" },
-            temperature: 0,
-          },
-          {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              "Content-Type": "application/json",
-            },
-            timeout: 10000, // 10 seconds timeout as requested
-          },
-        ),
+      const result: ValidationResult = {
+        ...(await validator.validate(request)),
+        validator: validator.name,
+      };
+      await this.cacheService.setWithTTL(
+        cacheKey,
+        result,
+        this.configService.get<number>("validation.cacheTtlSeconds", 86400),
       );
-
-      const content = response.data.choices[0].message.content;
-      const result: ValidationResult = JSON.parse(content);
-      
-      this.logger.log(`Signal validation result: Score ${result.score}, Spam: ${result.isSpam}`);
       return result;
     } catch (error: any) {
-      this.logger.error(`Error validating signal with xAI: ${error.message}`);
-      // Fallback as requested: handle timeouts/errors gracefully (default to manual review)
+      this.logger.error(
+        `Error validating signal with ${validator.name}: ${error.message}`,
+      );
+      // Not cached, so the next attempt asks the validator again
       return {
         score: 50, // Neutral score to avoid auto-rejection but flag for review
         feedback: `Validation failed due to API error: ${error.message || "Unknown error"}. Manual review recommended.`,
         isSpam: false,
+        validator: validator.name,
       };
     }
   }
+
+  /**
+   * The A/B bucket comes from the request hash, so a resubmitted rationale
+   * lands with the same validator and hits its cache.
+   */
+  private selectValidator(hash: string): SignalValidator {
+    const primary = this.configService.get<SignalValidatorName>(
+      "validation.validator",
+      "xai",
+    );
+    const alternate = this.configService.get<SignalValidatorName>(
+      "validation.alternateValidator",
+    );
+    const alternateShare = this.configService.get<number>(
+      "validation.alternateShare",
+      0,
+    );
+
+    if (
+      alternate &&
+      alternateShare > 0 &&
+      parseInt(hash.slice(0, 8), 16) % 100 < alternateShare
+    ) {
+      return this.validators[alternate];
+    }
+
+    return this.validators[primary] ?? this.validators.xai;
+  }
+
+  private hashRequest(request: ValidationRequestDto): string {
+    return createHash("sha256")
+      .update(
+        JSON.stringify([
+          request.assetPair,
+          request.action,
+          request.rationale,
+          request.entryPrice ?? null,
+          request.targetPrice ?? null,
+          request.stopLossPrice ?? null,
+        ]),
+      )
+      .digest("hex");
+  }
 }
@@ -2,4 +2,8 @@ export class ValidationRequestDto {
   assetPair!: string;
   action!: string;
   rationale!: string;
+  // Price levels are optional; only validators that check them use them
+  entryPrice?: string;
+  targetPrice?: string;
+  stopLossPrice?: string;
 }
@@ -1,5 +1,54 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Points per criterion of the validation prompt. They add up to the score.
+ */
+export class ValidationSubscoresDto {
+  @IsInt()
+  @Min(0)
+  @Max(40)
+  rationale!: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  targets!: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  marketData!: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  manipulation!: number;
+}
+
 export class ValidationResponseDto {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
   score!: number;
+
+  @IsString()
+  @IsNotEmpty()
   feedback!: string;
+
+  @IsBoolean()
   isSpam!: boolean;
+
+  @ValidateNested()
+  @Type(() => ValidationSubscoresDto)
+  subscores!: ValidationSubscoresDto;
 }
@@ -4,11 +4,13 @@ export interface XaiUsage {
   total_tokens: number;
 }
 
+export interface XaiMessage {
+  role: string;
+  content: string;
+}
+
 export interface XaiChoice {
-  message: {
-    role: string;
-    content: string;
-  };
+  message: XaiMessage;
   finish_reason: string;
   index: number;
 }
@@ -22,8 +24,19 @@ export interface XaiResponse {
   usage: XaiUsage;
 }
 
+export interface ValidationSubscores {
+  rationale: number;
+  targets: number;
+  marketData: number;
+  manipulation: number;
+}
+
 export interface ValidationResult {
   score: number;
   feedback: string;
   isSpam: boolean;
+  // Absent when validation failed and the neutral fallback was used
+  subscores?: ValidationSubscores;
+  // Which SignalValidator produced the verdict, for comparing providers
+  validator?: string;
 }
@@ -5,6 +5,8 @@ import { InjectRepository } from "@nestjs/typeorm";
 import { Repository } from "typeorm";
 import { Signal, SignalOutcome } from "../../signals/entities/signal.entity";
 import { AiValidationService } from "../ai-validation.service";
+import { SignalModerationService } from "../../signals/services/signal-moderation.service";
+import { SignalsService } from "../../signals/signals.service";
 
 @Processor("signal-validation")
 export class SignalValidationProcessor {
@@ -14,6 +16,8 @@ export class SignalValidationProcessor {
     @InjectRepository(Signal)
     private readonly signalRepository: Repository<Signal>,
     private readonly aiValidationService: AiValidationService,
+    private readonly signalModerationService: SignalModerationService,
+    private readonly signalsService: SignalsService,
   ) {}
 
   @Process("validate")
@@ -28,27 +32,38 @@ export class SignalValidationProcessor {
     }
 
     try {
-      const assetPair = `${signal.baseAsset}/${signal.counterAsset}`;
-      const result = await this.aiValidationService.validateSignal(
-        assetPair,
-        signal.type,
-        signal.rationale || "No rationale provided",
-      );
+      const result = await this.aiValidationService.validateSignal({
+        assetPair: `${signal.baseAsset}/${signal.counterAsset}`,
+        action: signal.type,
+        rationale: signal.rationale || "No rationale provided",
+        entryPrice: signal.entryPrice,
+        targetPrice: signal.targetPrice,
+        stopLossPrice: signal.stopLossPrice ?? undefined,
+      });
 
       signal.confidenceScore = result.score;
+      // The validator name lets validators be compared against how their signals played out
+      signal.validation = {
+        validator: result.validator ?? null,
+        score: result.score,
+        feedback: result.feedback,
+        isSpam: result.isSpam,
+        subscores: result.subscores ?? null,
+        validatedAt: new Date().toISOString(),
+      };
 
-      // Logic: Mark as pending with low outcome if score < 30
+      // Low scores and spam are held out of the feed until a moderator decides
       if (result.score < 30 || result.isSpam) {
         signal.outcome = SignalOutcome.PENDING;
         signal.confidenceScore = Math.max(0, result.score);
-        this.logger.warn(`Signal ${signalId} marked PENDING with low confidence ${result.score}`);
+        await this.signalModerationService.flag(signal, result);
       } else {
         signal.outcome = SignalOutcome.PENDING;
         signal.confidenceScore = result.score;
         this.logger.log(`Signal ${signalId} validated with confidence ${result.score}`);
+        await this.signalRepository.save(signal);
+        this.signalsService.publishCreated(signal);
       }
-
-      await this.signalRepository.save(signal);
     } catch (error: any) {
       this.logger.error(`Failed to process job ${job.id}: ${error.message}`);
       // If validation fails completely, keep as pending for manual review
@@ -0,0 +1,183 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { ValidationRequestDto } from '../dto/validation-request.dto';
+import { ValidationResponseDto } from '../dto/validation-response.dto';
+import {
+  ValidationResult,
+  XaiMessage,
+  XaiResponse,
+} from '../interfaces/xai-client.interface';
+import {
+  SignalValidator,
+  SignalValidatorName,
+} from './signal-validator.interface';
+
+export interface ChatCompletionEndpoint {
+  apiUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+interface ParsedResponse {
+  result?: ValidationResponseDto;
+  errors: string[];
+}
+
+/**
+ * Shared prompt and request for validators that speak the OpenAI
+ * chat-completions format. Subclasses only say where to send it.
+ *
+ * Model output must match ValidationResponseDto. A malformed reply gets one
+ * corrective follow-up in the same conversation before the validator gives up.
+ */
+export abstract class ChatCompletionSignalValidator implements SignalValidator {
+  abstract readonly name: SignalValidatorName;
+  protected abstract readonly logger: Logger;
+
+  constructor(protected readonly httpService: HttpService) {}
+
+  protected abstract getEndpoint(): ChatCompletionEndpoint;
+
+  async validate(request: ValidationRequestDto): Promise<ValidationResult> {
+    const endpoint = this.getEndpoint();
+    if (!endpoint.apiUrl || !endpoint.apiKey) {
+      throw new Error(`${this.name} validator is missing its API URL or key`);
+    }
+
+    const messages: XaiMessage[] = [
+      {
+        role: 'system',
+        content: 'You are a professional crypto market analyst.',
+      },
+      { role: 'user', content: this.buildPrompt(request) },
+    ];
+
+    const content = await this.complete(endpoint, messages);
+    let parsed = await this.parseResponse(content);
+
+    if (!parsed.result) {
+      this.logger.warn(
+        `Malformed validation response, re-prompting: ${parsed.errors.join('; ')}`,
+      );
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: this.buildCorrection(parsed.errors) },
+      );
+      parsed = await this.parseResponse(
+        await this.complete(endpoint, messages),
+      );
+    }
+
+    if (!parsed.result) {
+      throw new Error(
+        `Malformed validation response after retry: ${parsed.errors.join('; ')}`,
+      );
+    }
+
+    const { score, feedback, isSpam, subscores } = parsed.result;
+    this.logger.log(
+      `Signal validation result: Score ${score}, Spam: ${isSpam}`,
+    );
+
+    return { score, feedback, isSpam, subscores: { ...subscores } };
+  }
+
+  private async complete(
+    { apiUrl, apiKey, model }: ChatCompletionEndpoint,
+    messages: XaiMessage[],
+  ): Promise<string> {
+    const response = await firstValueFrom(
+      this.httpService.post<XaiResponse>(
+        apiUrl!,
+        {
+          model,
+          messages,
+          response_format: { type: 'json_object' },
+          temperature: 0,
+        },
+        {
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 10000,
+        },
+      ),
+    );
+
+    return response.data.choices[0].message.content;
+  }
+
+  private async parseResponse(content: string): Promise<ParsedResponse> {
+    let body: unknown;
+    try {
+      body = JSON.parse(content);
+    } catch {
+      return { errors: ['response is not valid JSON'] };
+    }
+
+    if (typeof body !== 'object' || body === null) {
+      return { errors: ['response is not a JSON object'] };
+    }
+
+    const result = plainToInstance(ValidationResponseDto, body);
+    const errors = this.flattenErrors(await validate(result));
+
+    return errors.length > 0 ? { errors } : { result, errors };
+  }
+
+  private flattenErrors(errors: ValidationError[], path = ''): string[] {
+    return errors.flatMap((error) => {
+      const property = path ? `${path}.${error.property}` : error.property;
+      const own = Object.values(error.constraints ?? {}).map((message) =>
+        message.replace(error.property, property),
+      );
+      return [...own, ...this.flattenErrors(error.children ?? [], property)];
+    });
+  }
+
+  private buildPrompt(request: ValidationRequestDto): string {
+    return `
+      Analyze the following crypto trading signal and provide a quality score (0-100),
+      brief feedback, spam detection and a score for each criterion.
+
+      Asset Pair: ${request.assetPair}
+      Action: ${request.action}
+      Rationale: ${request.rationale}
+
+      Your response MUST be in JSON format:
+      {
+        "score": number,
+        "feedback": "string",
+        "isSpam": boolean,
+        "subscores": {
+          "rationale": number,
+          "targets": number,
+          "marketData": number,
+          "manipulation": number
+        }
+      }
+
+      Criteria:
+      - rationale: Rationale coherence and specificity (0-40 points)
+      - targets: Realistic price targets if any (0-20 points)
+      - marketData: Market data references (0-20 points)
+      - manipulation: Absence of spam/manipulation (0-20 points)
+      - score is the sum of the four subscores.
+      - Signals with vague rationales like "to the moon" or "trust me" should score very low.
+    `;
+  }
+
+  private buildCorrection(errors: string[]): string {
+    return `
+      Your previous response did not match the required format:
+      ${errors.map((error) => `- ${error}`).join('\n      ')}
+
+      Reply again with only the JSON object described above, with every field present
+      and each subscore within its range.
+    `;
+  }
+}
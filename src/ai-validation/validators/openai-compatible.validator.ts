@@ -0,0 +1,32 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import {
+  ChatCompletionEndpoint,
+  ChatCompletionSignalValidator,
+} from './chat-completion.validator';
+
+/**
+ * Any endpoint that accepts the OpenAI chat-completions payload: OpenAI
+ * itself, a hosted gateway, or a local model server.
+ */
+@Injectable()
+export class OpenAiCompatibleSignalValidator extends ChatCompletionSignalValidator {
+  readonly name = 'openai';
+  protected readonly logger = new Logger(OpenAiCompatibleSignalValidator.name);
+
+  constructor(
+    httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    super(httpService);
+  }
+
+  protected getEndpoint(): ChatCompletionEndpoint {
+    return {
+      apiUrl: this.configService.get<string>('validation.openai.apiUrl'),
+      apiKey: this.configService.get<string>('validation.openai.apiKey'),
+      model: this.configService.get<string>('validation.openai.model'),
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RuleBasedSignalValidator } from './rule-based.validator';
+import { PriceOracleService } from '../../prices/price-oracle.service';
+
+// price-oracle.service does not type-check under ts-jest; only its injection token is needed here
+jest.mock('../../prices/price-oracle.service', () => ({
+  PriceOracleService: class PriceOracleService {},
+}));
+
+describe('RuleBasedSignalValidator', () => {
+  let validator: RuleBasedSignalValidator;
+
+  const detailedRationale =
+    'XLM is holding support at 0.10 with RSI recovering from oversold and volume rising into the close. ' +
+    'A break of the 0.11 resistance targets the previous range high.';
+
+  const mockPriceOracleService = {
+    getPrice: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RuleBasedSignalValidator,
+        { provide: PriceOracleService, useValue: mockPriceOracleService },
+      ],
+    }).compile();
+
+    validator = module.get<RuleBasedSignalValidator>(RuleBasedSignalValidator);
+    mockPriceOracleService.getPrice.mockResolvedValue({ price: 0.1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should give a full score to a detailed signal with sane levels', async () => {
+    const result = await validator.validate({
+      assetPair:
+        'XLM/USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN',
+      action: 'BUY',
+      rationale: detailedRationale,
+      entryPrice: '0.10',
+      targetPrice: '0.12',
+      stopLossPrice: '0.09',
+    });
+
+    expect(result).toEqual({
+      score: 100,
+      feedback: 'Signal passes all rule-based checks.',
+      isSpam: false,
+      subscores: {
+        rationale: 40,
+        targets: 20,
+        marketData: 20,
+        manipulation: 20,
+      },
+    });
+    expect(mockPriceOracleService.getPrice).toHaveBeenCalledWith(
+      'XLM-USDC:GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN',
+    );
+  });
+
+  it('should mark banned phrases as spam', async () => {
+    const result = await validator.validate({
+      assetPair: 'XLM/USDC',
+      action: 'BUY',
+      rationale: 'Trust me, this goes to the moon',
+    });
+
+    expect(result.isSpam).toBe(true);
+    expect(result.score).toBeLessThan(30);
+    expect(result.feedback).toContain('to the moon');
+  });
+
+  it('should penalise a target on the wrong side of the market', async () => {
+    const result = await validator.validate({
+      assetPair: 'XLM/USDC',
+      action: 'SELL',
+      rationale: detailedRationale,
+      targetPrice: '0.12',
+      stopLossPrice: '0.11',
+    });
+
+    expect(result.score).toBe(80);
+    expect(result.feedback).toContain('wrong side of the market price');
+  });
+
+  it('should give half marks to levels it cannot price', async () => {
+    mockPriceOracleService.getPrice.mockRejectedValue(
+      new Error('No price data available'),
+    );
+
+    const result = await validator.validate({
+      assetPair: 'XLM/USDC',
+      action: 'BUY',
+      rationale: detailedRationale,
+      targetPrice: '0.12',
+    });
+
+    expect(result.score).toBe(90);
+    expect(result.feedback).toContain('could not be checked');
+  });
+});
@@ -0,0 +1,197 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ValidationRequestDto } from '../dto/validation-request.dto';
+import { ValidationResult } from '../interfaces/xai-client.interface';
+import { SignalValidator } from './signal-validator.interface';
+import { PriceOracleService } from '../../prices/price-oracle.service';
+
+const MIN_RATIONALE_LENGTH = 40;
+const DETAILED_RATIONALE_LENGTH = 120;
+
+// A target further than this from the market price is treated as unrealistic
+const MAX_TARGET_DISTANCE = 0.5;
+
+const BANNED_PHRASES = [
+  'to the moon',
+  'trust me',
+  'guaranteed',
+  "can't lose",
+  'cannot lose',
+  'free money',
+  '100x',
+  '1000x',
+  'get rich',
+  'pump it',
+];
+
+const MARKET_DATA_TERMS = [
+  'rsi',
+  'macd',
+  'ema',
+  'sma',
+  'moving average',
+  'volume',
+  'support',
+  'resistance',
+  'breakout',
+  'order book',
+  'liquidity',
+  'trend',
+];
+
+/**
+ * Deterministic checks that need no network key: rationale length, banned
+ * phrases, market data references and target/stop placement against the
+ * oracle price. Scores on the same four criteria as the LLM prompt.
+ */
+@Injectable()
+export class RuleBasedSignalValidator implements SignalValidator {
+  readonly name = 'local';
+  private readonly logger = new Logger(RuleBasedSignalValidator.name);
+
+  constructor(private readonly priceOracleService: PriceOracleService) {}
+
+  async validate(request: ValidationRequestDto): Promise<ValidationResult> {
+    const rationale = request.rationale.trim();
+    const text = rationale.toLowerCase();
+    const feedback: string[] = [];
+
+    const rationaleScore = this.scoreRationale(rationale, feedback);
+    const targetScore = await this.scoreTargets(request, feedback);
+    const marketDataScore = this.scoreMarketData(text, feedback);
+
+    const bannedPhrases = BANNED_PHRASES.filter((phrase) =>
+      text.includes(phrase),
+    );
+    const isSpam = bannedPhrases.length > 0;
+    if (isSpam) {
+      feedback.push(
+        `Rationale uses promotional language: ${bannedPhrases.join(', ')}.`,
+      );
+    }
+    const manipulationScore = isSpam ? 0 : 20;
+
+    const score =
+      rationaleScore + targetScore + marketDataScore + manipulationScore;
+    this.logger.debug(
+      `Rule-based score ${score} for ${request.assetPair} ${request.action}`,
+    );
+
+    return {
+      score,
+      feedback:
+        feedback.length > 0
+          ? feedback.join(' ')
+          : 'Signal passes all rule-based checks.',
+      isSpam,
+      subscores: {
+        rationale: rationaleScore,
+        targets: targetScore,
+        marketData: marketDataScore,
+        manipulation: manipulationScore,
+      },
+    };
+  }
+
+  private scoreRationale(rationale: string, feedback: string[]): number {
+    if (rationale.length < MIN_RATIONALE_LENGTH) {
+      feedback.push(
+        `Rationale is shorter than ${MIN_RATIONALE_LENGTH} characters.`,
+      );
+      return 5;
+    }
+
+    if (rationale.length < DETAILED_RATIONALE_LENGTH) {
+      feedback.push('Rationale could be more specific.');
+      return 25;
+    }
+
+    return 40;
+  }
+
+  private scoreMarketData(text: string, feedback: string[]): number {
+    if (MARKET_DATA_TERMS.some((term) => text.includes(term))) {
+      return 20;
+    }
+
+    if (/\d/.test(text)) {
+      feedback.push('Rationale cites figures but no market indicators.');
+      return 10;
+    }
+
+    feedback.push('Rationale does not reference any market data.');
+    return 0;
+  }
+
+  /**
+   * Target must sit on the profitable side of the market price and within
+   * reach of it; the stop loss on the other side. Unchecked levels score
+   * half marks.
+   */
+  private async scoreTargets(
+    request: ValidationRequestDto,
+    feedback: string[],
+  ): Promise<number> {
+    if (!request.targetPrice) {
+      return 10;
+    }
+
+    const marketPrice = await this.getMarketPrice(request.assetPair);
+    if (marketPrice === null) {
+      feedback.push('Price levels could not be checked against the market.');
+      return 10;
+    }
+
+    const isBuy = request.action.toUpperCase() === 'BUY';
+    const target = parseFloat(request.targetPrice);
+    let score = 20;
+
+    if (isBuy ? target <= marketPrice : target >= marketPrice) {
+      feedback.push(
+        `Target ${request.targetPrice} is on the wrong side of the market price ${marketPrice}.`,
+      );
+      score = 0;
+    } else if (
+      Math.abs(target - marketPrice) / marketPrice >
+      MAX_TARGET_DISTANCE
+    ) {
+      feedback.push(
+        `Target ${request.targetPrice} is more than ${MAX_TARGET_DISTANCE * 100}% from the market price.`,
+      );
+      score = 5;
+    }
+
+    if (request.stopLossPrice) {
+      const stopLoss = parseFloat(request.stopLossPrice);
+      if (isBuy ? stopLoss >= marketPrice : stopLoss <= marketPrice) {
+        feedback.push(
+          `Stop loss ${request.stopLossPrice} is on the wrong side of the market price ${marketPrice}.`,
+        );
+        score = Math.max(0, score - 10);
+      }
+    }
+
+    return score;
+  }
+
+  /**
+   * Signal pairs are "BASE/COUNTER" with "CODE:ISSUER" assets; the oracle
+   * takes "BASE-COUNTER"
+   */
+  private async getMarketPrice(assetPair: string): Promise<number | null> {
+    const [base, counter] = assetPair
+      .split('/')
+      .map((asset) => (asset === 'native' ? 'XLM' : asset));
+
+    try {
+      const priceData = await this.priceOracleService.getPrice(
+        `${base}-${counter}`,
+      );
+      return priceData.price;
+    } catch (error) {
+      this.logger.debug(
+        `No oracle price for ${assetPair}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+}
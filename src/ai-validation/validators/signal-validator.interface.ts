@@ -0,0 +1,13 @@
+import { ValidationRequestDto } from '../dto/validation-request.dto';
+import { ValidationResult } from '../interfaces/xai-client.interface';
+
+export type SignalValidatorName = 'xai' | 'openai' | 'local';
+
+/**
+ * A source of signal quality verdicts. Implementations throw when they cannot
+ * reach a verdict; AiValidationService turns that into a manual-review result.
+ */
+export interface SignalValidator {
+  readonly name: SignalValidatorName;
+  validate(request: ValidationRequestDto): Promise<ValidationResult>;
+}
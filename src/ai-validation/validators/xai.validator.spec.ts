@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { of } from 'rxjs';
+import { XaiSignalValidator } from './xai.validator';
+
+describe('XaiSignalValidator', () => {
+  let validator: XaiSignalValidator;
+
+  const request = {
+    assetPair: 'XLM/USDC',
+    action: 'BUY',
+    rationale: 'Holding support at 0.10 with RSI recovering from oversold.',
+  };
+
+  const validResponse = {
+    score: 72,
+    feedback: 'Specific rationale with indicator support.',
+    isSpam: false,
+    subscores: { rationale: 30, targets: 10, marketData: 18, manipulation: 14 },
+  };
+
+  const completion = (content: unknown) =>
+    of({
+      data: {
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content:
+                typeof content === 'string' ? content : JSON.stringify(content),
+            },
+          },
+        ],
+      },
+    });
+
+  const mockHttpService = {
+    post: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => `config:${key}`),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        XaiSignalValidator,
+        { provide: HttpService, useValue: mockHttpService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    validator = module.get<XaiSignalValidator>(XaiSignalValidator);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return a well-formed response with its subscores', async () => {
+    mockHttpService.post.mockReturnValue(completion(validResponse));
+
+    const result = await validator.validate(request);
+
+    expect(result).toEqual(validResponse);
+    expect(mockHttpService.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-prompt once with the schema errors when the response is malformed', async () => {
+    mockHttpService.post
+      .mockReturnValueOnce(
+        completion({ ...validResponse, subscores: { rationale: 55 } }),
+      )
+      .mockReturnValueOnce(completion(validResponse));
+
+    const result = await validator.validate(request);
+
+    expect(result.subscores).toEqual(validResponse.subscores);
+    expect(mockHttpService.post).toHaveBeenCalledTimes(2);
+
+    const retryMessages = mockHttpService.post.mock.calls[1][1].messages;
+    expect(retryMessages).toHaveLength(4);
+    expect(retryMessages[2].role).toBe('assistant');
+    expect(retryMessages[3].content).toContain('subscores.rationale');
+    expect(retryMessages[3].content).toContain('subscores.targets');
+  });
+
+  it('should give up when the retry is still malformed', async () => {
+    mockHttpService.post
+      .mockReturnValueOnce(completion('not json'))
+      .mockReturnValueOnce(completion({ score: 'high' }));
+
+    await expect(validator.validate(request)).rejects.toThrow(
+      'Malformed validation response after retry',
+    );
+    expect(mockHttpService.post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import {
+  ChatCompletionEndpoint,
+  ChatCompletionSignalValidator,
+} from './chat-completion.validator';
+
+@Injectable()
+export class XaiSignalValidator extends ChatCompletionSignalValidator {
+  readonly name = 'xai';
+  protected readonly logger = new Logger(XaiSignalValidator.name);
+
+  constructor(
+    httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    super(httpService);
+  }
+
+  protected getEndpoint(): ChatCompletionEndpoint {
+    return {
+      apiUrl: this.configService.get<string>('xai.apiUrl'),
+      apiKey: this.configService.get<string>('xai.apiKey'),
+      model: this.configService.get<string>('xai.model'),
+    };
+  }
+}
@@ -6,6 +6,10 @@ import { BullModule } from '@nestjs/bull';
 import { stellarConfig } from './config/stellar.config';
 import { databaseConfig, redisConfig } from './config/database.config';
 import { xaiConfig } from './config/xai.config';
+import { validationConfig } from './config/validation.config';
+import { signalsConfig } from './config/signals.config';
+import { tradeConfig } from './config/trade.config';
+import { authConfig } from './config/auth.config';
 import { appConfig, sentryConfig } from './config/app.config';
 import { jwtConfig } from './config/jwt.config';
 import { StellarConfigService } from './config/stellar.service';
@@ -13,9 +17,12 @@ import { LoggerModule } from './common/logger';
 import { SentryModule } from './common/sentry';
 import { BetaModule } from './beta/beta.module';
 import { TradesModule } from './trades/trades.module';
+import { FeesModule } from './fee_management/fees.module';
+import { CopyTradingModule } from './copy-trading/copy-trading.module';
 import { RiskManagerModule } from './risk/risk-manager.module';
 import { PortfolioModule } from './portfolio/portfolio.module';
 import { SignalsModule } from './signals/signals.module';
+import { SignalFeedModule } from './signal-feed/signal-feed.module';
 import { AiValidationModule } from './ai-validation/ai-validation.module';
 import { UsersModule } from './users/users.module';
 import { AssetsModule } from './assets/assets.module';
@@ -54,7 +61,11 @@ import { WebsocketModule } from './websocket/websocket.module';
         redisConfig,
         redisCacheConfig,
         jwtConfig,
+        authConfig,
         xaiConfig,
+        validationConfig,
+        signalsConfig,
+        tradeConfig,
         configuration,
       ],
       envFilePath: [
@@ -106,10 +117,14 @@ import { WebsocketModule } from './websocket/websocket.module';
     }),
     // Feature Modules
     UsersModule,
+    // Registered ahead of SignalsModule so GET /signals/feed isn't taken by GET /signals/:id
+    SignalFeedModule,
     SignalsModule,
     AssetsModule,
     BetaModule,
     TradesModule,
+    FeesModule,
+    CopyTradingModule,
     RiskManagerModule,
     PortfolioModule,
     DashboardModule,
@@ -7,6 +7,7 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { AdminGuard } from './guards/admin.guard';
 import { CacheModule } from '@nestjs/cache-manager';
 
 @Module({
@@ -25,7 +26,7 @@ import { CacheModule } from '@nestjs/cache-manager';
         CacheModule,
     ],
     controllers: [AuthController],
-    providers: [AuthService, JwtStrategy, JwtAuthGuard],
-    exports: [AuthService, JwtAuthGuard],
+    providers: [AuthService, JwtStrategy, JwtAuthGuard, AdminGuard],
+    exports: [AuthService, JwtAuthGuard, AdminGuard],
 })
 export class AuthModule { }
@@ -0,0 +1,31 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * Admits wallets listed in ADMIN_WALLETS. Runs after JwtAuthGuard, which
+ * puts the wallet on request.user.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const user: AuthenticatedUser | undefined = context
+      .switchToHttp()
+      .getRequest().user;
+    const adminWallets =
+      this.configService.get<string[]>('auth.adminWallets') ?? [];
+
+    if (!user || !adminWallets.includes(user.publicKey)) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
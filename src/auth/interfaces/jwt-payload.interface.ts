@@ -4,3 +4,10 @@ export interface JwtPayload {
     iat?: number;
     exp?: number;
 }
+
+/**
+ * What JwtStrategy.validate attaches to request.user
+ */
+export interface AuthenticatedUser {
+    publicKey: string;
+}
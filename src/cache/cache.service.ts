@@ -11,6 +11,9 @@ export enum CachePrefix {
     SIGNAL = 'stellarswipe:signal:',
     PORTFOLIO = 'stellarswipe:portfolio:',
     SDEX = 'stellarswipe:sdex:',
+    TX_INTENT = 'stellarswipe:tx-intent:',
+    VALIDATION = 'stellarswipe:validation:',
+    LEADERBOARD = 'stellarswipe:leaderboard:',
 }
 
 /**
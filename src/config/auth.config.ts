@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export const authConfig = registerAs('auth', () => ({
+  // Wallets allowed through AdminGuard, comma separated
+  adminWallets: (process.env.ADMIN_WALLETS || '')
+    .split(',')
+    .map((wallet) => wallet.trim())
+    .filter(Boolean),
+}));
@@ -32,6 +32,7 @@ export interface StellarConfig {
   networkPassphrase: string;
   apiTimeout: number;
   maxRetries: number;
+  transactionIntentTtl?: number;
 }
 
 export interface RedisConfig {
@@ -47,15 +47,55 @@ export const configSchema = Joi.object({
   STELLAR_NETWORK_PASSPHRASE: Joi.string().required(),
   STELLAR_API_TIMEOUT: Joi.number().default(30000),
   STELLAR_MAX_RETRIES: Joi.number().default(3),
+  STELLAR_TX_INTENT_TTL: Joi.number().default(300),
 
   // JWT Configuration
   JWT_SECRET: Joi.string().min(32).required(),
   JWT_EXPIRES_IN: Joi.string().default('7d'),
+  ADMIN_WALLETS: Joi.string().optional().allow(''),
 
-  // xAI Configuration
-  XAI_API_KEY: Joi.string().required(),
+  // Signal Validation
+  SIGNAL_VALIDATOR: Joi.string().valid('xai', 'openai', 'local').default('xai'),
+  SIGNAL_VALIDATOR_B: Joi.string()
+    .valid('xai', 'openai', 'local')
+    .optional()
+    .allow(''),
+  SIGNAL_VALIDATOR_B_SHARE: Joi.number().min(0).max(100).default(0),
+  SIGNAL_VALIDATION_CACHE_TTL: Joi.number().integer().min(0).default(86400),
+
+  // xAI Configuration (only required when xAI validates signals)
+  XAI_API_KEY: Joi.string().when('SIGNAL_VALIDATOR', {
+    is: 'xai',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
   XAI_MODEL: Joi.string().default('grok-2-1212'),
 
+  // OpenAI-compatible Configuration
+  OPENAI_COMPAT_API_URL: Joi.string().uri().optional(),
+  OPENAI_COMPAT_API_KEY: Joi.string().when('SIGNAL_VALIDATOR', {
+    is: 'openai',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+  OPENAI_COMPAT_MODEL: Joi.string().optional(),
+
+  // Signal Publishing
+  SIGNALS_UNSTAKED_DAILY_QUOTA: Joi.number().integer().min(0).default(3),
+  LEADERBOARD_MIN_SIGNALS: Joi.number().integer().min(1).default(5),
+  LEADERBOARD_SNAPSHOT_TTL: Joi.number().integer().min(60).default(900),
+
+  // Trading
+  TRADE_MONITOR_INTERVAL_MS: Joi.number().integer().min(1000).default(15000),
+
+  // Fees and Provider Revenue Share
+  PLATFORM_WALLET_SECRET: Joi.string().optional().allow(''),
+  PROVIDER_FEE_SHARE: Joi.number().min(0).max(1).default(0.2),
+  PROVIDER_PAYOUT_MIN_AMOUNT: Joi.number().min(0).default(1),
+  FEE_VIP_MIN_STAKE: Joi.number().min(0).default(10000),
+  FEE_EXPORT_MAX_SYNC_DAYS: Joi.number().integer().min(1).default(31),
+  FEE_EXPORT_DIRECTORY: Joi.string().default('./exports'),
+
   // Sentry Configuration (Optional)
   SENTRY_DSN: Joi.string().uri().optional().allow(''),
   SENTRY_ENVIRONMENT: Joi.string().optional(),
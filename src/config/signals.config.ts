@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export const signalsConfig = registerAs('signals', () => ({
+  // Signals a provider without a verified stake may publish per rolling
+  // 24 hours. 0 requires a verified stake to publish at all.
+  unstakedDailyQuota: parseInt(
+    process.env.SIGNALS_UNSTAKED_DAILY_QUOTA || '3',
+    10,
+  ),
+  // Closed signals a provider needs within a window to be ranked on it
+  leaderboardMinSignals: parseInt(
+    process.env.LEADERBOARD_MIN_SIGNALS || '5',
+    10,
+  ),
+  leaderboardSnapshotTtlSeconds: parseInt(
+    process.env.LEADERBOARD_SNAPSHOT_TTL || '900',
+    10,
+  ),
+}));
@@ -33,6 +33,10 @@ export const stellarConfig = registerAs(
       networkPassphrase,
       apiTimeout: parseInt(process.env.STELLAR_API_TIMEOUT || '30000', 10),
       maxRetries: parseInt(process.env.STELLAR_MAX_RETRIES || '3', 10),
+      transactionIntentTtl: parseInt(
+        process.env.STELLAR_TX_INTENT_TTL || '300',
+        10,
+      ),
     };
   },
 );
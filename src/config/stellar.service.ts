@@ -38,6 +38,12 @@ export class StellarConfigService {
     return this.configService.get<number>('stellar.maxRetries') ?? 3;
   }
 
+  get transactionIntentTtl(): number {
+    return (
+      this.configService.get<number>('stellar.transactionIntentTtl') ?? 300
+    );
+  }
+
   isTestnet(): boolean {
     return this.network === 'testnet';
   }
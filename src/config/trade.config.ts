@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export const tradeConfig = registerAs('trade', () => ({
+  // How often open trades are checked against their stop-loss, trailing-stop
+  // and take-profit levels
+  monitorIntervalMs: parseInt(
+    process.env.TRADE_MONITOR_INTERVAL_MS || '15000',
+    10,
+  ),
+}));
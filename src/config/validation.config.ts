@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+
+export const validationConfig = registerAs('validation', () => ({
+  // xai, openai or local. local needs no API key, for CI and development
+  validator: process.env.SIGNAL_VALIDATOR || 'xai',
+  // Optional second validator and the percentage of signals it scores
+  alternateValidator: process.env.SIGNAL_VALIDATOR_B || undefined,
+  alternateShare: parseInt(process.env.SIGNAL_VALIDATOR_B_SHARE || '0', 10),
+  cacheTtlSeconds: parseInt(
+    process.env.SIGNAL_VALIDATION_CACHE_TTL || '86400',
+    10,
+  ),
+  openai: {
+    apiUrl:
+      process.env.OPENAI_COMPAT_API_URL ||
+      'https://api.openai.com/v1/chat/completions',
+    apiKey: process.env.OPENAI_COMPAT_API_KEY,
+    model: process.env.OPENAI_COMPAT_MODEL || 'gpt-4o-mini',
+  },
+}));
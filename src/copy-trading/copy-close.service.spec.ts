@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import {
+  CopyCloseService,
+  RETRY_CLOSE_POSITION_JOB,
+} from './copy-close.service';
+import { COPY_TRADING_QUEUE } from './copy-trading.service';
+import {
+  AutoCloseReason,
+  CopiedPosition,
+  PositionStatus,
+} from '../signals/entities/copied-position.entity';
+import {
+  ExpirationAction,
+  UserExpirationPreference,
+} from '../signals/entities/user-expiration-preference.entity';
+import { Signal, SignalOutcome } from '../signals/entities/signal.entity';
+import { ExpirationNotificationService } from '../signals/services/expiration-notification.service';
+import { TradesService } from '../trades/trades.service';
+
+// uuid ships ESM only, which jest cannot load; events only use it for correlation ids
+jest.mock('uuid', () => ({ v4: () => 'correlation-id' }));
+// trades.service pulls in modules ts-jest cannot compile on their own; the
+// close only needs the injection token
+jest.mock('../trades/trades.service', () => ({ TradesService: class {} }));
+
+describe('CopyCloseService', () => {
+  let service: CopyCloseService;
+
+  const signal = {
+    id: 'signal-1',
+    outcome: SignalOutcome.TARGET_HIT,
+    closedAt: new Date('2025-01-01T00:00:00Z'),
+  } as Signal;
+
+  const buildPosition = (
+    overrides: Partial<CopiedPosition> = {},
+  ): CopiedPosition =>
+    ({
+      id: 'position-1',
+      signalId: 'signal-1',
+      userId: 'user-1',
+      tradeId: 'trade-1',
+      status: PositionStatus.OPEN,
+      autoCloseReason: null,
+      closeTransactionHash: null,
+      ...overrides,
+    }) as CopiedPosition;
+
+  const mockPositionRepository = {
+    find: jest.fn(),
+    save: jest.fn(async (position) => position),
+  };
+
+  const mockSignalRepository = {
+    findOne: jest.fn(async () => signal),
+    findOneOrFail: jest.fn(async () => signal),
+  };
+
+  const mockPreferenceRepository = {
+    findOne: jest.fn(async () => ({
+      userId: 'user-1',
+      defaultAction: ExpirationAction.AUTO_CLOSE,
+      notifyOnAutoClose: true,
+    })),
+  };
+
+  const mockQueue = { add: jest.fn() };
+
+  const mockTradesService = {
+    closeTrade: jest.fn(async () => ({
+      id: 'trade-1',
+      profitLoss: '5',
+      profitLossPercentage: '10',
+      transactionHash: 'hash-1',
+      closedAt: new Date('2025-01-01T00:05:00Z'),
+    })),
+  };
+
+  const mockNotifications = {
+    notifyPositionAutoClosed: jest.fn(),
+    notifyGracePeriodStarted: jest.fn(),
+    notifySignalClosed: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CopyCloseService,
+        {
+          provide: getRepositoryToken(CopiedPosition),
+          useValue: mockPositionRepository,
+        },
+        {
+          provide: getRepositoryToken(UserExpirationPreference),
+          useValue: mockPreferenceRepository,
+        },
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        { provide: getQueueToken(COPY_TRADING_QUEUE), useValue: mockQueue },
+        { provide: TradesService, useValue: mockTradesService },
+        {
+          provide: ExpirationNotificationService,
+          useValue: mockNotifications,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CopyCloseService>(CopyCloseService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('propagateClose', () => {
+    it('marks a failed close CLOSE_FAILED and queues retries', async () => {
+      const position = buildPosition();
+      mockPositionRepository.find.mockResolvedValue([position]);
+      mockTradesService.closeTrade.mockRejectedValueOnce(
+        new Error('Horizon timeout'),
+      );
+
+      const result = await service.propagateClose('signal-1');
+
+      expect(result).toMatchObject({ positions: 1, closed: 0, failed: 1 });
+      expect(position).toMatchObject({
+        status: PositionStatus.CLOSE_FAILED,
+        autoCloseReason: AutoCloseReason.TARGET_HIT,
+        failureReason: 'Horizon timeout',
+      });
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        RETRY_CLOSE_POSITION_JOB,
+        { positionId: 'position-1' },
+        expect.objectContaining({
+          jobId: `${RETRY_CLOSE_POSITION_JOB}:position-1`,
+          attempts: 5,
+          backoff: { type: 'exponential', delay: 60000 },
+        }),
+      );
+    });
+  });
+
+  describe('retryFailedClose', () => {
+    it('closes the trade and settles the position', async () => {
+      const position = buildPosition({
+        status: PositionStatus.CLOSE_FAILED,
+        autoCloseReason: AutoCloseReason.SIGNAL_EXPIRED,
+      });
+      mockPositionRepository.find.mockResolvedValue([position]);
+
+      await expect(service.retryFailedClose('position-1')).resolves.toBe(true);
+
+      expect(position).toMatchObject({
+        status: PositionStatus.AUTO_CLOSED,
+        autoCloseReason: AutoCloseReason.SIGNAL_EXPIRED,
+        closeTransactionHash: 'hash-1',
+      });
+      expect(mockNotifications.notifyPositionAutoClosed).toHaveBeenCalled();
+    });
+
+    it('throws while the close keeps failing so the job is retried', async () => {
+      const position = buildPosition({ status: PositionStatus.CLOSE_FAILED });
+      mockPositionRepository.find.mockResolvedValue([position]);
+      mockTradesService.closeTrade.mockRejectedValueOnce(
+        new Error('Horizon timeout'),
+      );
+
+      await expect(service.retryFailedClose('position-1')).rejects.toThrow(
+        'Close of copied position position-1 failed: Horizon timeout',
+      );
+      expect(position.status).toBe(PositionStatus.CLOSE_FAILED);
+    });
+
+    it('skips positions that were settled in the meantime', async () => {
+      mockPositionRepository.find.mockResolvedValue([]);
+
+      await expect(service.retryFailedClose('position-1')).resolves.toBe(false);
+      expect(mockTradesService.closeTrade).not.toHaveBeenCalled();
+    });
+  });
+});
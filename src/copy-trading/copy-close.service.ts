@@ -0,0 +1,405 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Queue } from 'bull';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { COPY_TRADING_QUEUE } from './copy-trading.service';
+import {
+  AutoCloseReason,
+  CopiedPosition,
+  PositionStatus,
+} from '../signals/entities/copied-position.entity';
+import {
+  ExpirationAction,
+  UserExpirationPreference,
+} from '../signals/entities/user-expiration-preference.entity';
+import { Signal, SignalOutcome } from '../signals/entities/signal.entity';
+import { ExpirationNotificationService } from '../signals/services/expiration-notification.service';
+import { TradeCloseReason } from '../trades/entities/trade.entity';
+import { TradesService } from '../trades/trades.service';
+import { SignalClosedEvent } from '../events/signal.events';
+
+export const CLOSE_SIGNAL_JOB = 'close-signal';
+export const CLOSE_POSITION_JOB = 'close-position';
+export const RETRY_CLOSE_POSITION_JOB = 'retry-close-position';
+
+// Failed closes are retried after 1, 2, 4, 8 and 16 minutes
+const CLOSE_RETRY_ATTEMPTS = 5;
+const CLOSE_RETRY_DELAY_MS = 60 * 1000;
+
+export interface CloseSignalJobData {
+  signalId: string;
+}
+
+export interface ClosePositionJobData {
+  positionId: string;
+}
+
+export interface CopyCloseResult {
+  signalId: string;
+  positions: number;
+  closed: number;
+  deferred: number;
+  leftOpen: number;
+  failed: number;
+}
+
+type CloseOutcome = 'closed' | 'deferred' | 'leftOpen' | 'failed';
+
+/**
+ * Closes copiers' trades when the provider's signal closes. Each copier's
+ * UserExpirationPreference decides whether the trade is closed now, after
+ * their grace period, or left open with a notification. The close goes
+ * through TradesService.closeTrade, which prices it and computes realised
+ * P&L with RiskManagerService.calculateProfitLoss; the result is copied onto
+ * the CopiedPosition so both rows carry the closing transaction. A close
+ * that fails leaves the position CLOSE_FAILED and queues retries with backoff.
+ */
+@Injectable()
+export class CopyCloseService {
+  private readonly logger = new Logger(CopyCloseService.name);
+
+  constructor(
+    @InjectRepository(CopiedPosition)
+    private readonly positionRepository: Repository<CopiedPosition>,
+    @InjectRepository(UserExpirationPreference)
+    private readonly preferenceRepository: Repository<UserExpirationPreference>,
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectQueue(COPY_TRADING_QUEUE)
+    private readonly copyQueue: Queue<
+      CloseSignalJobData | ClosePositionJobData
+    >,
+    private readonly tradesService: TradesService,
+    private readonly notificationService: ExpirationNotificationService,
+  ) {}
+
+  @OnEvent('signal.closed')
+  async handleSignalClosed(event: SignalClosedEvent): Promise<void> {
+    try {
+      await this.copyQueue.add(
+        CLOSE_SIGNAL_JOB,
+        { signalId: event.signalId },
+        { jobId: `${CLOSE_SIGNAL_JOB}:${event.signalId}` },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue close job for signal ${event.signalId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async propagateClose(signalId: string): Promise<CopyCloseResult> {
+    const result: CopyCloseResult = {
+      signalId,
+      positions: 0,
+      closed: 0,
+      deferred: 0,
+      leftOpen: 0,
+      failed: 0,
+    };
+
+    const signal = await this.signalRepository.findOne({
+      where: { id: signalId },
+    });
+    if (!signal || !signal.closedAt) {
+      this.logger.debug(
+        `Signal ${signalId} is not closed, nothing to propagate`,
+      );
+      return result;
+    }
+
+    const positions = await this.findUnsettledPositions({ signalId });
+    result.positions = positions.length;
+
+    for (const position of positions) {
+      const outcome = await this.propagateToPosition(signal, position);
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Closes a single copied position whose grace period has run out. The
+   * copier may have closed the trade themselves in the meantime.
+   */
+  async closeDeferredPosition(positionId: string): Promise<boolean> {
+    const [position] = await this.findUnsettledPositions({ id: positionId });
+    if (!position) {
+      return false;
+    }
+
+    const signal = await this.signalRepository.findOneOrFail({
+      where: { id: position.signalId },
+    });
+
+    const outcome = await this.closePosition(
+      signal,
+      position,
+      AutoCloseReason.GRACE_PERIOD_ENDED,
+      true,
+    );
+    return outcome === 'closed';
+  }
+
+  /**
+   * Retries a close that failed. Throws while it keeps failing so Bull
+   * schedules the next attempt; after the last one the position stays
+   * CLOSE_FAILED until the next propagation picks it up.
+   */
+  async retryFailedClose(positionId: string): Promise<boolean> {
+    const [position] = await this.findUnsettledPositions({ id: positionId });
+    if (!position || position.status !== PositionStatus.CLOSE_FAILED) {
+      return false;
+    }
+
+    const signal = await this.signalRepository.findOneOrFail({
+      where: { id: position.signalId },
+    });
+    const preference = await this.getUserPreference(position.userId);
+
+    const outcome = await this.closePosition(
+      signal,
+      position,
+      position.autoCloseReason ?? this.getCloseReason(signal.outcome),
+      preference.notifyOnAutoClose,
+    );
+    if (outcome === 'failed') {
+      throw new Error(
+        `Close of copied position ${positionId} failed: ${position.failureReason}`,
+      );
+    }
+
+    return true;
+  }
+
+  private async propagateToPosition(
+    signal: Signal,
+    position: CopiedPosition,
+  ): Promise<CloseOutcome> {
+    const reason = this.getCloseReason(signal.outcome);
+
+    // ExpirationHandlerService has already notified the copier and marked
+    // these closed; only the trade itself is left to settle
+    if (position.status === PositionStatus.AUTO_CLOSED) {
+      return this.closePosition(
+        signal,
+        position,
+        position.autoCloseReason ?? reason,
+        false,
+      );
+    }
+
+    try {
+      const preference = await this.getUserPreference(position.userId);
+
+      // The close was already decided; only the trade failed to settle
+      if (position.status === PositionStatus.CLOSE_FAILED) {
+        return this.closePosition(
+          signal,
+          position,
+          position.autoCloseReason ?? reason,
+          preference.notifyOnAutoClose,
+        );
+      }
+
+      switch (this.resolveAction(signal, preference)) {
+        case ExpirationAction.AUTO_CLOSE:
+          return this.closePosition(
+            signal,
+            position,
+            reason,
+            preference.notifyOnAutoClose,
+          );
+
+        case ExpirationAction.EXTEND_GRACE_PERIOD:
+          await this.copyQueue.add(
+            CLOSE_POSITION_JOB,
+            { positionId: position.id },
+            {
+              jobId: `${CLOSE_POSITION_JOB}:${position.id}`,
+              delay: preference.gracePeriodMinutes * 60 * 1000,
+            },
+          );
+          if (preference.notifyOnGracePeriodStart) {
+            await this.notificationService.notifyGracePeriodStarted(
+              position.userId,
+              signal,
+              position,
+              preference.gracePeriodMinutes,
+            );
+          }
+          return 'deferred';
+
+        case ExpirationAction.NOTIFY_ONLY:
+          await this.notificationService.notifySignalClosed(
+            position.userId,
+            signal,
+            position,
+          );
+          return 'leftOpen';
+
+        case ExpirationAction.DO_NOTHING:
+        default:
+          return 'leftOpen';
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to propagate close of signal ${signal.id} to position ${position.id}: ${(error as Error).message}`,
+      );
+      return 'failed';
+    }
+  }
+
+  private async closePosition(
+    signal: Signal,
+    position: CopiedPosition,
+    reason: AutoCloseReason,
+    notify: boolean,
+  ): Promise<CloseOutcome> {
+    try {
+      const closed = await this.tradesService.closeTrade(
+        { tradeId: position.tradeId!, userId: position.userId },
+        TradeCloseReason.SIGNAL_CLOSED,
+      );
+
+      position.status = PositionStatus.AUTO_CLOSED;
+      position.autoCloseReason = reason;
+      position.pnlAbsolute = closed.profitLoss;
+      position.pnlPercentage = closed.profitLossPercentage;
+      position.closeTransactionHash = closed.transactionHash;
+      position.closedAt = closed.closedAt;
+      await this.positionRepository.save(position);
+
+      if (notify) {
+        await this.notificationService.notifyPositionAutoClosed(
+          position.userId,
+          signal,
+          position,
+          reason,
+        );
+      }
+
+      this.logger.log(
+        `Closed copied position ${position.id} with trade ${closed.id}. P&L: ${closed.profitLoss}`,
+      );
+      return 'closed';
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(
+        `Failed to close copied position ${position.id} for signal ${signal.id}: ${message}`,
+      );
+
+      position.status = PositionStatus.CLOSE_FAILED;
+      position.autoCloseReason = reason;
+      position.failureReason = message;
+      await this.positionRepository.save(position);
+      await this.queueCloseRetry(position);
+      return 'failed';
+    }
+  }
+
+  private async queueCloseRetry(position: CopiedPosition): Promise<void> {
+    try {
+      // The jobId holds one retry chain per position; a chain that has run
+      // out is removed so a later failure can start a new one
+      await this.copyQueue.add(
+        RETRY_CLOSE_POSITION_JOB,
+        { positionId: position.id },
+        {
+          jobId: `${RETRY_CLOSE_POSITION_JOB}:${position.id}`,
+          delay: CLOSE_RETRY_DELAY_MS,
+          attempts: CLOSE_RETRY_ATTEMPTS,
+          backoff: { type: 'exponential', delay: CLOSE_RETRY_DELAY_MS },
+          removeOnFail: true,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue close retry for position ${position.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Cancelled signals and expired signals whose grace period has already
+   * been served are closed regardless of preference, as ExpirationHandlerService does.
+   */
+  private resolveAction(
+    signal: Signal,
+    preference: UserExpirationPreference,
+  ): ExpirationAction {
+    if (signal.outcome === SignalOutcome.CANCELLED) {
+      return ExpirationAction.AUTO_CLOSE;
+    }
+
+    if (
+      signal.outcome === SignalOutcome.EXPIRED &&
+      signal.gracePeriodEndsAt &&
+      signal.gracePeriodEndsAt <= new Date()
+    ) {
+      return ExpirationAction.AUTO_CLOSE;
+    }
+
+    return preference.defaultAction;
+  }
+
+  private getCloseReason(outcome: SignalOutcome): AutoCloseReason {
+    switch (outcome) {
+      case SignalOutcome.TARGET_HIT:
+        return AutoCloseReason.TARGET_HIT;
+      case SignalOutcome.STOP_LOSS_HIT:
+        return AutoCloseReason.STOP_LOSS_HIT;
+      case SignalOutcome.EXPIRED:
+        return AutoCloseReason.SIGNAL_EXPIRED;
+      case SignalOutcome.CANCELLED:
+        return AutoCloseReason.SIGNAL_CANCELLED;
+      default:
+        return AutoCloseReason.SIGNAL_CLOSED;
+    }
+  }
+
+  /**
+   * Trade-backed positions whose trade has not been closed yet, including
+   * ones ExpirationHandlerService has already marked auto-closed and ones
+   * whose close failed.
+   */
+  private findUnsettledPositions(
+    where: Partial<Pick<CopiedPosition, 'id' | 'signalId'>>,
+  ): Promise<CopiedPosition[]> {
+    return this.positionRepository.find({
+      where: {
+        ...where,
+        tradeId: Not(IsNull()),
+        closeTransactionHash: IsNull(),
+        status: In([
+          PositionStatus.OPEN,
+          PositionStatus.AUTO_CLOSED,
+          PositionStatus.CLOSE_FAILED,
+        ]),
+      },
+    });
+  }
+
+  private async getUserPreference(
+    userId: string,
+  ): Promise<UserExpirationPreference> {
+    const preference = await this.preferenceRepository.findOne({
+      where: { userId },
+    });
+
+    return (
+      preference ??
+      this.preferenceRepository.create({
+        userId,
+        defaultAction: ExpirationAction.NOTIFY_ONLY,
+        gracePeriodMinutes: 30,
+        notifyBeforeExpirationMinutes: 60,
+        notifyOnAutoClose: true,
+        notifyOnGracePeriodStart: true,
+      })
+    );
+  }
+}
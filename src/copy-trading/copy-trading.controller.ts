@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { CopyTradingService } from './copy-trading.service';
+import {
+  CreateCopySubscriptionDto,
+  UpdateCopySubscriptionDto,
+} from './dto/copy-subscription.dto';
+import { CopySubscription } from './entities/copy-subscription.entity';
+import { ApplySignalRevisionDto } from './dto/apply-signal-revision.dto';
+import { CopiedPosition } from '../signals/entities/copied-position.entity';
+import { TradeDetailsDto } from '../trades/dto/trade-result.dto';
+
+@Controller('copy-trading')
+export class CopyTradingController {
+  constructor(private readonly copyTradingService: CopyTradingService) {}
+
+  /**
+   * Start auto-copying a provider's signals
+   * POST /copy-trading/subscriptions
+   */
+  @Post('subscriptions')
+  @HttpCode(HttpStatus.CREATED)
+  async subscribe(
+    @Body() dto: CreateCopySubscriptionDto,
+  ): Promise<CopySubscription> {
+    return this.copyTradingService.subscribe(dto);
+  }
+
+  /**
+   * Change allocation, caps or filters of a subscription
+   * PATCH /copy-trading/subscriptions/:id
+   */
+  @Patch('subscriptions/:id')
+  async updateSubscription(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: UpdateCopySubscriptionDto,
+  ): Promise<CopySubscription> {
+    return this.copyTradingService.updateSubscription(id, userId, dto);
+  }
+
+  /**
+   * Stop auto-copying
+   * DELETE /copy-trading/subscriptions/:id
+   */
+  @Delete('subscriptions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unsubscribe(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('userId', ParseUUIDPipe) userId: string,
+  ): Promise<void> {
+    return this.copyTradingService.unsubscribe(id, userId);
+  }
+
+  /**
+   * Get user's copy subscriptions
+   * GET /copy-trading/user/:userId/subscriptions
+   */
+  @Get('user/:userId/subscriptions')
+  async getUserSubscriptions(
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ): Promise<CopySubscription[]> {
+    return this.copyTradingService.getUserSubscriptions(userId);
+  }
+
+  /**
+   * Get positions opened (or attempted) by auto-copy
+   * GET /copy-trading/user/:userId/positions
+   */
+  @Get('user/:userId/positions')
+  async getUserCopiedPositions(
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ): Promise<CopiedPosition[]> {
+    return this.copyTradingService.getUserCopiedPositions(userId);
+  }
+
+  /**
+   * Apply a provider's signal amendment to the copied trade
+   * POST /copy-trading/positions/:id/apply-revision
+   */
+  @Post('positions/:id/apply-revision')
+  async applySignalRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ApplySignalRevisionDto,
+  ): Promise<TradeDetailsDto> {
+    return this.copyTradingService.applySignalRevision(
+      id,
+      dto.userId,
+      dto.revisionId,
+    );
+  }
+}
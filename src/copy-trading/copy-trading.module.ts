@@ -0,0 +1,61 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { CopySubscription } from './entities/copy-subscription.entity';
+import { CopyTradingController } from './copy-trading.controller';
+import { CopyTradingService, COPY_TRADING_QUEUE } from './copy-trading.service';
+import { CopySignalJob } from './jobs/copy-signal.job';
+import { CopyCloseService } from './copy-close.service';
+import { CloseCopiedPositionsJob } from './jobs/close-copied-positions.job';
+import { CopiedPosition } from '../signals/entities/copied-position.entity';
+import { UserExpirationPreference } from '../signals/entities/user-expiration-preference.entity';
+import { Signal } from '../signals/entities/signal.entity';
+import { SignalsModule } from '../signals/signals.module';
+import { User } from '../users/entities/user.entity';
+import { TradesModule } from '../trades/trades.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      CopySubscription,
+      CopiedPosition,
+      Signal,
+      User,
+      UserExpirationPreference,
+    ]),
+    SignalsModule,
+    TradesModule,
+    BullModule.registerQueueAsync({
+      name: COPY_TRADING_QUEUE,
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('redis.host') ?? 'localhost',
+          port: configService.get<number>('redis.port') ?? 6379,
+          password: configService.get<string>('redis.password'),
+          db: configService.get<number>('redis.db') ?? 0,
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      }),
+    }),
+  ],
+  controllers: [CopyTradingController],
+  providers: [
+    CopyTradingService,
+    CopySignalJob,
+    CopyCloseService,
+    CloseCopiedPositionsJob,
+  ],
+  exports: [CopyTradingService],
+})
+export class CopyTradingModule {}
@@ -0,0 +1,289 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import { BadRequestException } from '@nestjs/common';
+import { FindOperator, LessThan } from 'typeorm';
+import { COPY_TRADING_QUEUE, CopyTradingService } from './copy-trading.service';
+import {
+  CopyAllocationType,
+  CopySubscription,
+} from './entities/copy-subscription.entity';
+import {
+  CopiedPosition,
+  PositionStatus,
+} from '../signals/entities/copied-position.entity';
+import {
+  Signal,
+  SignalStatus,
+  SignalType,
+} from '../signals/entities/signal.entity';
+import { User } from '../users/entities/user.entity';
+import { TradesService } from '../trades/trades.service';
+import { SignalRevisionService } from '../signals/services/signal-revision.service';
+
+// uuid ships ESM only, which jest cannot load; events only use it for correlation ids
+jest.mock('uuid', () => ({ v4: () => 'correlation-id' }));
+// trades.service pulls in modules ts-jest cannot compile on their own; the
+// fan-out only needs the injection token
+jest.mock('../trades/trades.service', () => ({ TradesService: class {} }));
+
+describe('CopyTradingService', () => {
+  let service: CopyTradingService;
+
+  const signal = {
+    id: 'signal-1',
+    providerId: 'provider-1',
+    status: SignalStatus.ACTIVE,
+    type: SignalType.BUY,
+    baseAsset: 'XLM',
+    counterAsset: 'USDC',
+    entryPrice: '0.5',
+    confidenceScore: 80,
+  } as Signal;
+
+  const buildSubscription = (
+    overrides: Partial<CopySubscription> = {},
+  ): CopySubscription =>
+    ({
+      id: `sub-${overrides.userId ?? 'user-1'}`,
+      userId: 'user-1',
+      providerId: 'provider-1',
+      allocationType: CopyAllocationType.FIXED,
+      allocationValue: '50',
+      maxOpenPositions: 5,
+      allowedAssets: [],
+      minConfidenceScore: 0,
+      isActive: true,
+      ...overrides,
+    }) as CopySubscription;
+
+  // Positions saved so far, matched the way the repository would
+  let positions: Partial<CopiedPosition>[];
+
+  const matches = (
+    position: Partial<CopiedPosition>,
+    where: Record<string, unknown>,
+  ) =>
+    Object.entries(where).every(([key, value]) => {
+      const actual = position[key as keyof CopiedPosition];
+      if (value instanceof FindOperator) {
+        // Only Not(...) is used by the service
+        return actual !== value.value;
+      }
+      return actual === value;
+    });
+
+  const mockPositionRepository = {
+    create: jest.fn((position) => position),
+    save: jest.fn(async (position) => {
+      positions.push(position);
+      return position;
+    }),
+    exists: jest.fn(async ({ where }) =>
+      positions.some((position) => matches(position, where)),
+    ),
+    count: jest.fn(
+      async ({ where }) =>
+        positions.filter((position) => matches(position, where)).length,
+    ),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockSignalRepository = {
+    findOne: jest.fn(async () => signal),
+    increment: jest.fn(),
+  };
+
+  const mockSubscriptionRepository = { find: jest.fn() };
+
+  const mockTradesService = {
+    executeTrade: jest.fn(async () => ({ id: 'trade-1', totalValue: '50' })),
+    getAvailableBalance: jest.fn(),
+    updateTradeLevels: jest.fn(async () => ({ id: 'trade-1' })),
+    getTradeById: jest.fn(async () => ({ id: 'trade-1' })),
+  };
+
+  const mockSignalRevisionService = { getRevision: jest.fn() };
+
+  beforeEach(async () => {
+    positions = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CopyTradingService,
+        {
+          provide: getRepositoryToken(CopySubscription),
+          useValue: mockSubscriptionRepository,
+        },
+        {
+          provide: getRepositoryToken(CopiedPosition),
+          useValue: mockPositionRepository,
+        },
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        { provide: getRepositoryToken(User), useValue: {} },
+        { provide: getQueueToken(COPY_TRADING_QUEUE), useValue: {} },
+        { provide: TradesService, useValue: mockTradesService },
+        {
+          provide: SignalRevisionService,
+          useValue: mockSignalRevisionService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CopyTradingService>(CopyTradingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('fanOutSignal', () => {
+    it('copies eligible subscribers and skips the rest', async () => {
+      mockSubscriptionRepository.find.mockResolvedValue([
+        buildSubscription(),
+        buildSubscription({ userId: 'provider-1' }),
+        buildSubscription({ userId: 'user-2', minConfidenceScore: 90 }),
+        buildSubscription({ userId: 'user-3', allowedAssets: ['AQUA'] }),
+      ]);
+
+      const result = await service.fanOutSignal('signal-1');
+
+      expect(result).toEqual({
+        signalId: 'signal-1',
+        subscribers: 4,
+        copied: 1,
+        skipped: 3,
+        failed: 0,
+      });
+      expect(mockTradesService.executeTrade).toHaveBeenCalledTimes(1);
+      expect(mockTradesService.executeTrade).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-1', amount: 100 }),
+      );
+      expect(mockSignalRepository.increment).toHaveBeenCalledWith(
+        { id: 'signal-1' },
+        'copiersCount',
+        1,
+      );
+    });
+
+    it('records failed copies and tries them again on the next run', async () => {
+      mockSubscriptionRepository.find.mockResolvedValue([buildSubscription()]);
+      mockTradesService.executeTrade.mockRejectedValueOnce(
+        new BadRequestException('Insufficient balance'),
+      );
+
+      const first = await service.fanOutSignal('signal-1');
+      expect(first).toMatchObject({ copied: 0, failed: 1 });
+      expect(positions).toEqual([
+        expect.objectContaining({
+          status: PositionStatus.FAILED,
+          failureReason: 'Insufficient balance: Bad Request',
+        }),
+      ]);
+
+      const retry = await service.fanOutSignal('signal-1');
+      expect(retry).toMatchObject({ copied: 1, skipped: 0 });
+
+      const again = await service.fanOutSignal('signal-1');
+      expect(again).toMatchObject({ copied: 0, skipped: 1 });
+      expect(mockTradesService.executeTrade).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops at the subscription open position cap', async () => {
+      positions.push({
+        signalId: 'signal-0',
+        userId: 'user-1',
+        subscriptionId: 'sub-user-1',
+        status: PositionStatus.OPEN,
+      });
+      mockSubscriptionRepository.find.mockResolvedValue([
+        buildSubscription({ maxOpenPositions: 1 }),
+      ]);
+
+      const result = await service.fanOutSignal('signal-1');
+
+      expect(result).toMatchObject({ copied: 0, skipped: 1 });
+      expect(mockTradesService.executeTrade).not.toHaveBeenCalled();
+    });
+
+    it('does nothing for signals that are no longer active', async () => {
+      mockSignalRepository.findOne.mockResolvedValueOnce({
+        ...signal,
+        status: SignalStatus.CLOSED,
+      } as Signal);
+
+      const result = await service.fanOutSignal('signal-1');
+
+      expect(result.subscribers).toBe(0);
+      expect(mockSubscriptionRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applySignalRevision', () => {
+    beforeEach(() => {
+      mockPositionRepository.findOne.mockResolvedValue({
+        id: 'position-1',
+        signalId: 'signal-1',
+        userId: 'user-1',
+        tradeId: 'trade-1',
+        status: PositionStatus.OPEN,
+        appliedRevision: 2,
+      });
+    });
+
+    const revision = (number: number) => ({
+      id: `revision-${number}`,
+      signalId: 'signal-1',
+      revision: number,
+      changes: [{ field: 'stopLossPrice', previous: '0.4', current: '0.45' }],
+    });
+
+    it('applies a revision newer than the last one applied', async () => {
+      mockSignalRevisionService.getRevision.mockResolvedValue(revision(3));
+      mockPositionRepository.update.mockResolvedValue({ affected: 1 });
+
+      await service.applySignalRevision('position-1', 'user-1', 'revision-3');
+
+      expect(mockPositionRepository.update).toHaveBeenCalledWith(
+        { id: 'position-1', appliedRevision: LessThan(3) },
+        { appliedRevision: 3 },
+      );
+      expect(mockTradesService.updateTradeLevels).toHaveBeenCalledWith(
+        'trade-1',
+        'user-1',
+        { stopLossPrice: '0.45' },
+      );
+    });
+
+    it('skips a revision that is not newer than the last one applied', async () => {
+      mockSignalRevisionService.getRevision.mockResolvedValue(revision(1));
+      mockPositionRepository.update.mockResolvedValue({ affected: 0 });
+
+      const trade = await service.applySignalRevision(
+        'position-1',
+        'user-1',
+        'revision-1',
+      );
+
+      expect(trade).toEqual({ id: 'trade-1' });
+      expect(mockTradesService.updateTradeLevels).not.toHaveBeenCalled();
+    });
+
+    it('releases the revision when the trade rejects the levels', async () => {
+      mockSignalRevisionService.getRevision.mockResolvedValue(revision(3));
+      mockPositionRepository.update.mockResolvedValue({ affected: 1 });
+      mockTradesService.updateTradeLevels.mockRejectedValueOnce(
+        new BadRequestException('Invalid trade levels'),
+      );
+
+      await expect(
+        service.applySignalRevision('position-1', 'user-1', 'revision-3'),
+      ).rejects.toThrow('Invalid trade levels');
+      expect(mockPositionRepository.update).toHaveBeenLastCalledWith(
+        { id: 'position-1', appliedRevision: 3 },
+        { appliedRevision: 2 },
+      );
+    });
+  });
+});
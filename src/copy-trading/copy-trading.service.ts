@@ -0,0 +1,486 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Queue } from 'bull';
+import { In, IsNull, LessThan, Not, Repository } from 'typeorm';
+import Big from 'big.js';
+import {
+  CopyAllocationType,
+  CopySubscription,
+} from './entities/copy-subscription.entity';
+import {
+  CreateCopySubscriptionDto,
+  UpdateCopySubscriptionDto,
+} from './dto/copy-subscription.dto';
+import {
+  CopiedPosition,
+  PositionStatus,
+} from '../signals/entities/copied-position.entity';
+import {
+  Signal,
+  SignalStatus,
+  SignalType,
+} from '../signals/entities/signal.entity';
+import { User } from '../users/entities/user.entity';
+import { TradeSide } from '../trades/entities/trade.entity';
+import { TradesService, TradeLevels } from '../trades/trades.service';
+import { TradeDetailsDto } from '../trades/dto/trade-result.dto';
+import { SignalRevisionService } from '../signals/services/signal-revision.service';
+import { SignalCreatedEvent } from '../events/signal.events';
+
+export const COPY_TRADING_QUEUE = 'copy-trading';
+export const COPY_SIGNAL_JOB = 'copy-signal';
+
+export interface CopySignalJobData {
+  signalId: string;
+}
+
+export interface CopyFanOutResult {
+  signalId: string;
+  subscribers: number;
+  copied: number;
+  skipped: number;
+  failed: number;
+}
+
+type CopyOutcome = 'copied' | 'skipped' | 'failed';
+
+/**
+ * Mirrors a provider's new signals into trades for every active subscriber.
+ * Signal creation enqueues a Bull job; the job sizes each copy from the
+ * subscription and executes it through TradesService, which applies the
+ * usual risk, velocity and slippage checks.
+ */
+@Injectable()
+export class CopyTradingService {
+  private readonly logger = new Logger(CopyTradingService.name);
+
+  constructor(
+    @InjectRepository(CopySubscription)
+    private readonly subscriptionRepository: Repository<CopySubscription>,
+    @InjectRepository(CopiedPosition)
+    private readonly positionRepository: Repository<CopiedPosition>,
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectQueue(COPY_TRADING_QUEUE)
+    private readonly copyQueue: Queue<CopySignalJobData>,
+    private readonly tradesService: TradesService,
+    private readonly signalRevisionService: SignalRevisionService,
+  ) {}
+
+  /**
+   * Creates a subscription, or updates and re-activates the existing one
+   * for the same provider.
+   */
+  async subscribe(dto: CreateCopySubscriptionDto): Promise<CopySubscription> {
+    if (dto.userId === dto.providerId) {
+      throw new BadRequestException('Users cannot copy their own signals');
+    }
+
+    this.validateAllocation(dto.allocationType, dto.allocationValue);
+
+    const provider = await this.userRepository.exists({
+      where: { id: dto.providerId },
+    });
+    if (!provider) {
+      throw new NotFoundException(`Provider ${dto.providerId} not found`);
+    }
+
+    const existing = await this.subscriptionRepository.findOne({
+      where: { userId: dto.userId, providerId: dto.providerId },
+    });
+
+    const subscription = this.subscriptionRepository.merge(
+      existing ?? this.subscriptionRepository.create(),
+      {
+        userId: dto.userId,
+        providerId: dto.providerId,
+        allocationType: dto.allocationType,
+        allocationValue: dto.allocationValue.toString(),
+        maxOpenPositions: dto.maxOpenPositions,
+        allowedAssets: dto.allowedAssets ?? [],
+        minConfidenceScore: dto.minConfidenceScore ?? 0,
+        isActive: true,
+      },
+    );
+
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  async updateSubscription(
+    id: string,
+    userId: string,
+    dto: UpdateCopySubscriptionDto,
+  ): Promise<CopySubscription> {
+    const subscription = await this.findSubscription(id, userId);
+
+    const allocationType = dto.allocationType ?? subscription.allocationType;
+    const allocationValue =
+      dto.allocationValue ?? parseFloat(subscription.allocationValue);
+    this.validateAllocation(allocationType, allocationValue);
+
+    subscription.allocationType = allocationType;
+    subscription.allocationValue = allocationValue.toString();
+    subscription.maxOpenPositions =
+      dto.maxOpenPositions ?? subscription.maxOpenPositions;
+    subscription.allowedAssets =
+      dto.allowedAssets ?? subscription.allowedAssets;
+    subscription.minConfidenceScore =
+      dto.minConfidenceScore ?? subscription.minConfidenceScore;
+    subscription.isActive = dto.isActive ?? subscription.isActive;
+
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * Stops copying new signals. Positions already opened stay open.
+   */
+  async unsubscribe(id: string, userId: string): Promise<void> {
+    const subscription = await this.findSubscription(id, userId);
+    subscription.isActive = false;
+    await this.subscriptionRepository.save(subscription);
+  }
+
+  async getUserSubscriptions(userId: string): Promise<CopySubscription[]> {
+    return this.subscriptionRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async getUserCopiedPositions(userId: string): Promise<CopiedPosition[]> {
+    return this.positionRepository.find({
+      where: { userId, subscriptionId: Not(IsNull()) },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Applies an amended signal's target and stop loss to the trade behind a
+   * copied position. Expiry changes only affect the signal. Revisions older
+   * than the one last applied are skipped and leave the trade as it is.
+   */
+  async applySignalRevision(
+    positionId: string,
+    userId: string,
+    revisionId: string,
+  ): Promise<TradeDetailsDto> {
+    const position = await this.positionRepository.findOne({
+      where: { id: positionId, userId },
+    });
+    if (!position) {
+      throw new NotFoundException('Copied position not found');
+    }
+
+    if (position.status !== PositionStatus.OPEN || !position.tradeId) {
+      throw new BadRequestException(
+        'Only open positions backed by a trade can follow signal amendments',
+      );
+    }
+
+    const revision = await this.signalRevisionService.getRevision(revisionId);
+    if (revision.signalId !== position.signalId) {
+      throw new BadRequestException(
+        'Revision belongs to a different signal than the position',
+      );
+    }
+
+    const levels: TradeLevels = {};
+    for (const change of revision.changes) {
+      if (change.field === 'targetPrice') {
+        levels.takeProfitPrice = change.current;
+      } else if (change.field === 'stopLossPrice') {
+        levels.stopLossPrice = change.current;
+      }
+    }
+
+    if (!levels.takeProfitPrice && !levels.stopLossPrice) {
+      throw new BadRequestException(
+        'Revision does not change the target or stop loss',
+      );
+    }
+
+    // Claim the revision first so an older one applied concurrently or
+    // afterwards cannot overwrite newer levels
+    const claimed = await this.positionRepository.update(
+      { id: position.id, appliedRevision: LessThan(revision.revision) },
+      { appliedRevision: revision.revision },
+    );
+    if (!claimed.affected) {
+      this.logger.debug(
+        `Skipping revision ${revision.revision} for position ${position.id}, a newer one is already applied`,
+      );
+      return this.tradesService.getTradeById(position.tradeId, userId);
+    }
+
+    try {
+      return await this.tradesService.updateTradeLevels(
+        position.tradeId,
+        userId,
+        levels,
+      );
+    } catch (error) {
+      await this.positionRepository.update(
+        { id: position.id, appliedRevision: revision.revision },
+        { appliedRevision: position.appliedRevision },
+      );
+      throw error;
+    }
+  }
+
+  @OnEvent('signal.created')
+  async handleSignalCreated(event: SignalCreatedEvent): Promise<void> {
+    try {
+      // The jobId keeps a signal from being fanned out twice
+      await this.copyQueue.add(
+        COPY_SIGNAL_JOB,
+        { signalId: event.signalId },
+        { jobId: `${COPY_SIGNAL_JOB}:${event.signalId}` },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue copy job for signal ${event.signalId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async fanOutSignal(signalId: string): Promise<CopyFanOutResult> {
+    const result: CopyFanOutResult = {
+      signalId,
+      subscribers: 0,
+      copied: 0,
+      skipped: 0,
+      failed: 0,
+    };
+
+    const signal = await this.signalRepository.findOne({
+      where: { id: signalId },
+    });
+    if (!signal || signal.status !== SignalStatus.ACTIVE) {
+      this.logger.debug(`Signal ${signalId} is not active, nothing to copy`);
+      return result;
+    }
+
+    const subscriptions = await this.subscriptionRepository.find({
+      where: { providerId: signal.providerId, isActive: true },
+      relations: ['user'],
+    });
+    result.subscribers = subscriptions.length;
+
+    // One at a time to keep the load on Horizon and the executor bounded
+    for (const subscription of subscriptions) {
+      const outcome = await this.copyForSubscriber(signal, subscription);
+      result[outcome]++;
+    }
+
+    return result;
+  }
+
+  private async copyForSubscriber(
+    signal: Signal,
+    subscription: CopySubscription,
+  ): Promise<CopyOutcome> {
+    const skipReason = await this.getSkipReason(signal, subscription);
+    if (skipReason) {
+      this.logger.debug(
+        `Not copying signal ${signal.id} for user ${subscription.userId}: ${skipReason}`,
+      );
+      return 'skipped';
+    }
+
+    const side =
+      signal.type === SignalType.SELL ? TradeSide.SELL : TradeSide.BUY;
+
+    try {
+      const amount = await this.calculateAmount(subscription, signal, side);
+      if (amount.lte(0)) {
+        this.logger.debug(
+          `Allocation for user ${subscription.userId} on signal ${signal.id} rounds to zero`,
+        );
+        return 'skipped';
+      }
+
+      const trade = await this.tradesService.executeTrade({
+        userId: subscription.userId,
+        signalId: signal.id,
+        side,
+        amount: amount.toNumber(),
+        walletAddress: subscription.user?.walletAddress,
+      });
+
+      await this.positionRepository.save(
+        this.positionRepository.create({
+          signalId: signal.id,
+          userId: subscription.userId,
+          subscriptionId: subscription.id,
+          tradeId: trade.id,
+          status: PositionStatus.OPEN,
+        }),
+      );
+
+      await this.signalRepository.increment(
+        { id: signal.id },
+        'copiersCount',
+        1,
+      );
+      await this.signalRepository.increment(
+        { id: signal.id },
+        'totalCopiedVolume',
+        trade.totalValue,
+      );
+
+      this.logger.log(
+        `Copied signal ${signal.id} for user ${subscription.userId} as trade ${trade.id}`,
+      );
+      return 'copied';
+    } catch (error) {
+      const reason = this.describeError(error);
+      this.logger.warn(
+        `Failed to copy signal ${signal.id} for user ${subscription.userId}: ${reason}`,
+      );
+
+      await this.positionRepository.save(
+        this.positionRepository.create({
+          signalId: signal.id,
+          userId: subscription.userId,
+          subscriptionId: subscription.id,
+          status: PositionStatus.FAILED,
+          failureReason: reason,
+        }),
+      );
+      return 'failed';
+    }
+  }
+
+  private async getSkipReason(
+    signal: Signal,
+    subscription: CopySubscription,
+  ): Promise<string | null> {
+    if (subscription.userId === signal.providerId) {
+      return 'subscriber is the provider';
+    }
+
+    if (signal.confidenceScore < subscription.minConfidenceScore) {
+      return `confidence ${signal.confidenceScore} below ${subscription.minConfidenceScore}`;
+    }
+
+    if (!this.isAssetAllowed(subscription.allowedAssets, signal)) {
+      return `${signal.baseAsset}/${signal.counterAsset} not in allowlist`;
+    }
+
+    // Also covers Bull retrying a job that already copied some subscribers.
+    // A failed copy left no trade behind, so it does not block another try.
+    const alreadyCopied = await this.positionRepository.exists({
+      where: {
+        signalId: signal.id,
+        userId: subscription.userId,
+        status: Not(PositionStatus.FAILED),
+      },
+    });
+    if (alreadyCopied) {
+      return 'already copied';
+    }
+
+    // A position whose close failed still holds an open trade
+    const openPositions = await this.positionRepository.count({
+      where: {
+        subscriptionId: subscription.id,
+        status: In([PositionStatus.OPEN, PositionStatus.CLOSE_FAILED]),
+      },
+    });
+    if (openPositions >= subscription.maxOpenPositions) {
+      return `open position cap reached (${subscription.maxOpenPositions})`;
+    }
+
+    return null;
+  }
+
+  private isAssetAllowed(allowedAssets: string[], signal: Signal): boolean {
+    if (!allowedAssets?.length) {
+      return true;
+    }
+
+    const pair = `${signal.baseAsset}/${signal.counterAsset}`;
+    return allowedAssets.some(
+      (asset) => asset === pair || asset === signal.baseAsset,
+    );
+  }
+
+  /**
+   * Trade amount in base units. Allocations are in counter-asset value and
+   * converted at the signal entry price, rounded down to Stellar precision.
+   */
+  private async calculateAmount(
+    subscription: CopySubscription,
+    signal: Signal,
+    side: TradeSide,
+  ): Promise<Big> {
+    const entryPrice = new Big(signal.entryPrice);
+    if (entryPrice.lte(0)) {
+      return new Big(0);
+    }
+
+    let value = new Big(subscription.allocationValue);
+    if (subscription.allocationType === CopyAllocationType.PERCENTAGE) {
+      const balance = await this.tradesService.getAvailableBalance(
+        subscription.userId,
+        signal.id,
+        side,
+      );
+      value = new Big(balance.available).times(value).div(100);
+    }
+
+    return value.div(entryPrice).round(7, Big.roundDown);
+  }
+
+  private validateAllocation(type: CopyAllocationType, value: number): void {
+    if (type === CopyAllocationType.PERCENTAGE && value > 100) {
+      throw new BadRequestException(
+        'Percentage allocation cannot exceed 100% of the balance',
+      );
+    }
+  }
+
+  private async findSubscription(
+    id: string,
+    userId: string,
+  ): Promise<CopySubscription> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { id, userId },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Copy subscription not found');
+    }
+
+    return subscription;
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof HttpException) {
+      const response = error.getResponse() as
+        | string
+        | { message?: string; errors?: string[]; error?: string };
+      if (typeof response === 'string') {
+        return response;
+      }
+
+      const details = response.errors?.join('; ') ?? response.error;
+      return details
+        ? `${response.message}: ${details}`
+        : String(response.message);
+    }
+
+    return (error as Error).message;
+  }
+}
@@ -0,0 +1,9 @@
+import { IsUUID } from 'class-validator';
+
+export class ApplySignalRevisionDto {
+  @IsUUID()
+  userId!: string;
+
+  @IsUUID()
+  revisionId!: string;
+}
@@ -0,0 +1,84 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { CopyAllocationType } from '../entities/copy-subscription.entity';
+
+export class CreateCopySubscriptionDto {
+  @IsUUID()
+  @IsNotEmpty()
+  userId!: string;
+
+  @IsUUID()
+  @IsNotEmpty()
+  providerId!: string;
+
+  @IsEnum(CopyAllocationType)
+  allocationType!: CopyAllocationType;
+
+  // Counter-asset amount for FIXED, percent of available balance for PERCENTAGE
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  allocationValue!: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  maxOpenPositions!: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(50)
+  @IsOptional()
+  allowedAssets?: string[];
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  minConfidenceScore?: number;
+}
+
+export class UpdateCopySubscriptionDto {
+  @IsEnum(CopyAllocationType)
+  @IsOptional()
+  allocationType?: CopyAllocationType;
+
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  @IsOptional()
+  allocationValue?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  maxOpenPositions?: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  @ArrayMaxSize(50)
+  @IsOptional()
+  allowedAssets?: string[];
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  minConfidenceScore?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum CopyAllocationType {
+  // allocationValue is an amount of the signal's counter asset
+  FIXED = 'FIXED',
+  // allocationValue is a percentage of the available balance
+  PERCENTAGE = 'PERCENTAGE',
+}
+
+@Entity('copy_subscriptions')
+@Index(['userId', 'providerId'], { unique: true })
+@Index(['providerId', 'isActive'])
+export class CopySubscription {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  @Column({ name: 'provider_id', type: 'uuid' })
+  providerId!: string;
+
+  @Column({ name: 'allocation_type', type: 'enum', enum: CopyAllocationType })
+  allocationType!: CopyAllocationType;
+
+  @Column({
+    name: 'allocation_value',
+    type: 'decimal',
+    precision: 18,
+    scale: 8,
+  })
+  allocationValue!: string;
+
+  @Column({ name: 'max_open_positions', type: 'int' })
+  maxOpenPositions!: number;
+
+  // Base assets or BASE/COUNTER pairs; empty copies every pair
+  @Column({ name: 'allowed_assets', type: 'jsonb', default: () => "'[]'" })
+  allowedAssets!: string[];
+
+  @Column({ name: 'min_confidence_score', type: 'int', default: 0 })
+  minConfidenceScore!: number;
+
+  @Column({ name: 'is_active', default: true })
+  isActive!: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp with time zone' })
+  updatedAt!: Date;
+}
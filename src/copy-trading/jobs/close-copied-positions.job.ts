@@ -0,0 +1,45 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  CLOSE_POSITION_JOB,
+  CLOSE_SIGNAL_JOB,
+  ClosePositionJobData,
+  CloseSignalJobData,
+  CopyCloseResult,
+  CopyCloseService,
+  RETRY_CLOSE_POSITION_JOB,
+} from '../copy-close.service';
+import { COPY_TRADING_QUEUE } from '../copy-trading.service';
+
+@Processor(COPY_TRADING_QUEUE)
+export class CloseCopiedPositionsJob {
+  private readonly logger = new Logger(CloseCopiedPositionsJob.name);
+
+  constructor(private readonly copyCloseService: CopyCloseService) {}
+
+  @Process(CLOSE_SIGNAL_JOB)
+  async closeSignal(job: Job<CloseSignalJobData>): Promise<CopyCloseResult> {
+    const result = await this.copyCloseService.propagateClose(
+      job.data.signalId,
+    );
+
+    if (result.positions > 0) {
+      this.logger.log(
+        `Close propagation for signal ${result.signalId}: ${result.closed} closed, ${result.deferred} deferred, ${result.leftOpen} left open, ${result.failed} failed`,
+      );
+    }
+
+    return result;
+  }
+
+  @Process(CLOSE_POSITION_JOB)
+  async closePosition(job: Job<ClosePositionJobData>): Promise<boolean> {
+    return this.copyCloseService.closeDeferredPosition(job.data.positionId);
+  }
+
+  @Process(RETRY_CLOSE_POSITION_JOB)
+  async retryClose(job: Job<ClosePositionJobData>): Promise<boolean> {
+    return this.copyCloseService.retryFailedClose(job.data.positionId);
+  }
+}
@@ -0,0 +1,37 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  COPY_SIGNAL_JOB,
+  COPY_TRADING_QUEUE,
+  CopyFanOutResult,
+  CopySignalJobData,
+  CopyTradingService,
+} from '../copy-trading.service';
+
+@Processor(COPY_TRADING_QUEUE)
+export class CopySignalJob {
+  private readonly logger = new Logger(CopySignalJob.name);
+
+  constructor(private readonly copyTradingService: CopyTradingService) {}
+
+  @Process(COPY_SIGNAL_JOB)
+  async copySignal(job: Job<CopySignalJobData>): Promise<CopyFanOutResult> {
+    const result = await this.copyTradingService.fanOutSignal(
+      job.data.signalId,
+    );
+
+    if (result.subscribers > 0) {
+      this.logger.log(
+        `Copy fan-out for signal ${result.signalId}: ${result.copied} copied, ${result.skipped} skipped, ${result.failed} failed`,
+      );
+    }
+
+    return result;
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error) {
+    this.logger.error(`Job ${job.id} failed with error: ${error.message}`);
+  }
+}
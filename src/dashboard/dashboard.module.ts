@@ -7,11 +7,12 @@ import { DashboardGateway } from './dashboard.gateway';
 import { DashboardCacheService } from './dashboard-cache.service';
 import { Trade } from '../trades/entities/trade.entity';
 import { Signal } from '../signals/entities/signal.entity';
+import { ProviderFollow } from '../signals/entities/provider-follow.entity';
 import { PortfolioModule } from '../portfolio/portfolio.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Trade, Signal]),
+    TypeOrmModule.forFeature([Trade, Signal, ProviderFollow]),
     CacheModule.register(),
     PortfolioModule,
   ],
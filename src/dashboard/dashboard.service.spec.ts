@@ -4,12 +4,14 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { DashboardService } from './dashboard.service';
 import { Trade } from '../trades/entities/trade.entity';
 import { Signal } from '../signals/entities/signal.entity';
+import { ProviderFollow } from '../signals/entities/provider-follow.entity';
 import { PortfolioService } from '../portfolio/portfolio.service';
 
 describe('DashboardService', () => {
   let service: DashboardService;
   let mockTradeRepository: any;
   let mockSignalRepository: any;
+  let mockFollowRepository: any;
   let mockPortfolioService: any;
   let mockCacheManager: any;
 
@@ -23,6 +25,10 @@ describe('DashboardService', () => {
       find: jest.fn(),
     };
 
+    mockFollowRepository = {
+      find: jest.fn().mockResolvedValue([]),
+    };
+
     mockPortfolioService = {
       getPerformance: jest.fn(),
       getPositions: jest.fn(),
@@ -45,6 +51,10 @@ describe('DashboardService', () => {
           provide: getRepositoryToken(Signal),
           useValue: mockSignalRepository,
         },
+        {
+          provide: getRepositoryToken(ProviderFollow),
+          useValue: mockFollowRepository,
+        },
         {
           provide: PortfolioService,
           useValue: mockPortfolioService,
@@ -101,6 +111,48 @@ describe('DashboardService', () => {
     });
   });
 
+  describe('followed signals', () => {
+    beforeEach(() => {
+      mockCacheManager.get.mockResolvedValue(null);
+      mockPortfolioService.getPerformance.mockResolvedValue({ totalValue: 1000 });
+      mockPortfolioService.getPositions.mockResolvedValue([]);
+      mockTradeRepository.find.mockResolvedValue([]);
+      mockTradeRepository.count.mockResolvedValue(0);
+    });
+
+    it('should only load signals from followed providers', async () => {
+      const signals = [{ id: 'signal-1', providerId: 'provider-1' }];
+      mockFollowRepository.find.mockResolvedValue([
+        { providerId: 'provider-1' },
+        { providerId: 'provider-2' },
+      ]);
+      mockSignalRepository.find.mockResolvedValue(signals);
+
+      const result = await service.getDashboardData('user-id');
+
+      expect(mockFollowRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { followerId: 'user-id' } }),
+      );
+      expect(mockSignalRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            providerId: expect.objectContaining({
+              _value: ['provider-1', 'provider-2'],
+            }),
+          }),
+        }),
+      );
+      expect(result.followedSignals).toEqual(signals);
+    });
+
+    it('should return no signals when the user follows nobody', async () => {
+      const result = await service.getDashboardData('user-id');
+
+      expect(result.followedSignals).toEqual([]);
+      expect(mockSignalRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
   describe('invalidateCache', () => {
     it('should delete cache for user', async () => {
       await service.invalidateCache('user-id');
@@ -1,11 +1,12 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThanOrEqual } from 'typeorm';
+import { Repository, MoreThanOrEqual, In } from 'typeorm';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { PortfolioService } from '../portfolio/portfolio.service';
 import { Trade, TradeStatus } from '../trades/entities/trade.entity';
 import { Signal, SignalStatus } from '../signals/entities/signal.entity';
+import { ProviderFollow } from '../signals/entities/provider-follow.entity';
 import { DashboardDataDto, DashboardStatsDto } from './dto/dashboard-data.dto';
 
 @Injectable()
@@ -15,6 +16,8 @@ export class DashboardService {
     private tradeRepository: Repository<Trade>,
     @InjectRepository(Signal)
     private signalRepository: Repository<Signal>,
+    @InjectRepository(ProviderFollow)
+    private followRepository: Repository<ProviderFollow>,
     private portfolioService: PortfolioService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
   ) {}
@@ -56,9 +59,19 @@ export class DashboardService {
   }
 
   private async getFollowedSignals(userId: string): Promise<Signal[]> {
+    const follows = await this.followRepository.find({
+      select: { providerId: true },
+      where: { followerId: userId },
+    });
+
+    if (follows.length === 0) {
+      return [];
+    }
+
     return this.signalRepository.find({
-      where: { 
+      where: {
         status: SignalStatus.ACTIVE,
+        providerId: In(follows.map((follow) => follow.providerId)),
       },
       order: { createdAt: 'DESC' },
       take: 5,
@@ -0,0 +1,142 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateLimitOrdersTable1737562100000 implements MigrationInterface {
+  name = 'CreateLimitOrdersTable1737562100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'limit_orders',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'account_id',
+            type: 'varchar',
+            length: '56',
+            isNullable: false,
+          },
+          {
+            name: 'offer_id',
+            type: 'varchar',
+            length: '32',
+            isNullable: true,
+          },
+          {
+            name: 'selling_asset_code',
+            type: 'varchar',
+            length: '12',
+            isNullable: false,
+          },
+          {
+            name: 'selling_asset_issuer',
+            type: 'varchar',
+            length: '56',
+            isNullable: true,
+          },
+          {
+            name: 'buying_asset_code',
+            type: 'varchar',
+            length: '12',
+            isNullable: false,
+          },
+          {
+            name: 'buying_asset_issuer',
+            type: 'varchar',
+            length: '56',
+            isNullable: true,
+          },
+          {
+            name: 'price',
+            type: 'decimal',
+            precision: 18,
+            scale: 7,
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 18,
+            scale: 7,
+            isNullable: false,
+          },
+          {
+            name: 'filled_amount',
+            type: 'decimal',
+            precision: 18,
+            scale: 7,
+            default: '0',
+            isNullable: false,
+          },
+          {
+            name: 'remaining_amount',
+            type: 'decimal',
+            precision: 18,
+            scale: 7,
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['open', 'partially_filled', 'filled', 'cancelled'],
+            default: "'open'",
+            isNullable: false,
+          },
+          {
+            name: 'fills',
+            type: 'jsonb',
+            default: "'[]'",
+            isNullable: false,
+          },
+          {
+            name: 'transaction_hash',
+            type: 'varchar',
+            length: '64',
+            isNullable: false,
+          },
+          {
+            name: 'filled_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'cancelled_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_limit_orders_offer_id" ON "limit_orders" ("offer_id")`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_limit_orders_account_status" ON "limit_orders" ("account_id", "status")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('limit_orders');
+  }
+}
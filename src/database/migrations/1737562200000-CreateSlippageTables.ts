@@ -0,0 +1,112 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateSlippageTables1737562200000 implements MigrationInterface {
+  name = 'CreateSlippageTables1737562200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const decimal = (name: string) => ({
+      name,
+      type: 'decimal',
+      precision: 18,
+      scale: 8,
+      isNullable: false,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'slippage_history',
+        columns: [
+          {
+            name: 'symbol',
+            type: 'varchar',
+            length: '140',
+            isPrimary: true,
+          },
+          decimal('average_slippage'),
+          decimal('max_slippage'),
+          {
+            name: 'sample_count',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'last_updated',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            onUpdate: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'slippage_reports',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'symbol',
+            type: 'varchar',
+            length: '140',
+            isNullable: false,
+          },
+          {
+            name: 'side',
+            type: 'varchar',
+            length: '4',
+            isNullable: false,
+          },
+          {
+            name: 'user_id',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'order_id',
+            type: 'varchar',
+            isNullable: true,
+          },
+          decimal('expected_price'),
+          decimal('actual_price'),
+          decimal('slippage_amount'),
+          decimal('slippage_percent'),
+          decimal('quantity'),
+          decimal('total_slippage_cost'),
+          {
+            name: 'within_limits',
+            type: 'boolean',
+            isNullable: false,
+          },
+          {
+            name: 'timestamp',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_slippage_reports_symbol_timestamp" ON "slippage_reports" ("symbol", "timestamp")`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_slippage_reports_user_id" ON "slippage_reports" ("user_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('slippage_reports');
+    await queryRunner.dropTable('slippage_history');
+  }
+}
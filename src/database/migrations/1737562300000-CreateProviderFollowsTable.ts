@@ -0,0 +1,82 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+export class CreateProviderFollowsTable1737562300000 implements MigrationInterface {
+  name = 'CreateProviderFollowsTable1737562300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'provider_follows',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'follower_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'provider_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['follower_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['provider_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_provider_follows_follower_provider" ON "provider_follows" ("follower_id", "provider_id")`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_provider_follows_provider_id" ON "provider_follows" ("provider_id")`,
+    );
+
+    // provider_stats is created by schema sync in development
+    if (await queryRunner.hasTable('provider_stats')) {
+      await queryRunner.addColumn(
+        'provider_stats',
+        new TableColumn({
+          name: 'total_followers',
+          type: 'int',
+          default: 0,
+          isNullable: false,
+        }),
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('provider_stats', 'total_followers')) {
+      await queryRunner.dropColumn('provider_stats', 'total_followers');
+    }
+
+    await queryRunner.dropTable('provider_follows');
+  }
+}
@@ -0,0 +1,148 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+export class CreateCopySubscriptionsTable1737562400000 implements MigrationInterface {
+  name = 'CreateCopySubscriptionsTable1737562400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'copy_subscriptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'user_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'provider_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'allocation_type',
+            type: 'enum',
+            enum: ['FIXED', 'PERCENTAGE'],
+            isNullable: false,
+          },
+          {
+            name: 'allocation_value',
+            type: 'decimal',
+            precision: 18,
+            scale: 8,
+            isNullable: false,
+          },
+          {
+            name: 'max_open_positions',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'allowed_assets',
+            type: 'jsonb',
+            default: "'[]'",
+            isNullable: false,
+          },
+          {
+            name: 'min_confidence_score',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp with time zone',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['user_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+          {
+            columnNames: ['provider_id'],
+            referencedTableName: 'users',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_copy_subscriptions_user_provider" ON "copy_subscriptions" ("user_id", "provider_id")`,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_copy_subscriptions_provider_active" ON "copy_subscriptions" ("provider_id", "is_active")`,
+    );
+
+    // copied_positions is created by schema sync in development
+    if (await queryRunner.hasTable('copied_positions')) {
+      await queryRunner.addColumns('copied_positions', [
+        new TableColumn({
+          name: 'subscription_id',
+          type: 'uuid',
+          isNullable: true,
+        }),
+        new TableColumn({
+          name: 'trade_id',
+          type: 'uuid',
+          isNullable: true,
+        }),
+        new TableColumn({
+          name: 'failure_reason',
+          type: 'text',
+          isNullable: true,
+        }),
+      ]);
+
+      await queryRunner.query(
+        `CREATE INDEX "IDX_copied_positions_subscription_id" ON "copied_positions" ("subscription_id")`,
+      );
+
+      await queryRunner.query(
+        `ALTER TYPE "copied_positions_status_enum" ADD VALUE IF NOT EXISTS 'FAILED'`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop an enum value, so FAILED stays on copied_positions
+    if (await queryRunner.hasColumn('copied_positions', 'subscription_id')) {
+      await queryRunner.query(
+        `DROP INDEX IF EXISTS "IDX_copied_positions_subscription_id"`,
+      );
+      await queryRunner.dropColumns('copied_positions', [
+        'subscription_id',
+        'trade_id',
+        'failure_reason',
+      ]);
+    }
+
+    await queryRunner.dropTable('copy_subscriptions');
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddCopyCloseColumns1737562500000 implements MigrationInterface {
+  name = 'AddCopyCloseColumns1737562500000';
+
+  // These tables are created by schema sync in development
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasTable('trades')) {
+      await queryRunner.addColumn(
+        'trades',
+        new TableColumn({
+          name: 'close_transaction_hash',
+          type: 'varchar',
+          length: '128',
+          isNullable: true,
+        }),
+      );
+
+      await queryRunner.query(
+        `ALTER TYPE "trades_close_reason_enum" ADD VALUE IF NOT EXISTS 'signal_closed'`,
+      );
+    }
+
+    if (await queryRunner.hasTable('copied_positions')) {
+      await queryRunner.addColumn(
+        'copied_positions',
+        new TableColumn({
+          name: 'close_transaction_hash',
+          type: 'varchar',
+          length: '128',
+          isNullable: true,
+        }),
+      );
+    }
+
+    if (await queryRunner.hasTable('expiration_notifications')) {
+      await queryRunner.query(
+        `ALTER TYPE "expiration_notifications_type_enum" ADD VALUE IF NOT EXISTS 'SIGNAL_CLOSED'`,
+      );
+    }
+  }
+
+  // Postgres cannot drop enum values, so the added ones stay
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (
+      await queryRunner.hasColumn('copied_positions', 'close_transaction_hash')
+    ) {
+      await queryRunner.dropColumn(
+        'copied_positions',
+        'close_transaction_hash',
+      );
+    }
+
+    if (await queryRunner.hasColumn('trades', 'close_transaction_hash')) {
+      await queryRunner.dropColumn('trades', 'close_transaction_hash');
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddSignalCounters1737562600000 implements MigrationInterface {
+  name = 'AddSignalCounters1737562600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // signals is created by schema sync in development
+    if (!(await queryRunner.hasTable('signals'))) {
+      return;
+    }
+
+    await queryRunner.addColumns('signals', [
+      new TableColumn({
+        name: 'view_count',
+        type: 'int',
+        default: 0,
+        isNullable: false,
+      }),
+      new TableColumn({
+        name: 'follower_count',
+        type: 'int',
+        default: 0,
+        isNullable: false,
+      }),
+    ]);
+
+    if (await queryRunner.hasTable('provider_follows')) {
+      await queryRunner.query(`
+        UPDATE "signals" s
+        SET "follower_count" = f."total"
+        FROM (
+          SELECT "provider_id", COUNT(*)::int AS "total"
+          FROM "provider_follows"
+          GROUP BY "provider_id"
+        ) f
+        WHERE s."provider_id" = f."provider_id" AND s."status" = 'ACTIVE'
+      `);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('signals', 'view_count')) {
+      await queryRunner.dropColumns('signals', [
+        'view_count',
+        'follower_count',
+      ]);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateSignalRevisionsTable1737562700000 implements MigrationInterface {
+  name = 'CreateSignalRevisionsTable1737562700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'signal_revisions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'signal_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'provider_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'revision',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'changes',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'note',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_signal_revisions_signal_revision" ON "signal_revisions" ("signal_id", "revision")`,
+    );
+
+    // signals and expiration_notifications are created by schema sync in development
+    if (await queryRunner.hasTable('signals')) {
+      await queryRunner.query(
+        `ALTER TABLE "signal_revisions" ADD CONSTRAINT "FK_signal_revisions_signal_id" FOREIGN KEY ("signal_id") REFERENCES "signals"("id") ON DELETE CASCADE`,
+      );
+    }
+
+    if (await queryRunner.hasTable('expiration_notifications')) {
+      await queryRunner.query(
+        `ALTER TYPE "expiration_notifications_type_enum" ADD VALUE IF NOT EXISTS 'SIGNAL_AMENDED'`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('signal_revisions');
+  }
+}
@@ -0,0 +1,110 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+export class CreateSignalModerationsTable1737562800000 implements MigrationInterface {
+  name = 'CreateSignalModerationsTable1737562800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'signal_moderations',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'signal_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'provider_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'action',
+            type: 'enum',
+            enum: ['FLAGGED', 'APPROVED', 'REJECTED'],
+            isNullable: false,
+          },
+          {
+            name: 'ai_score',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'ai_feedback',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'is_spam',
+            type: 'boolean',
+            default: false,
+            isNullable: false,
+          },
+          {
+            name: 'moderator',
+            type: 'varchar',
+            length: '56',
+            isNullable: true,
+          },
+          {
+            name: 'reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp with time zone',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_signal_moderations_signal_created" ON "signal_moderations" ("signal_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_signal_moderations_provider_id" ON "signal_moderations" ("provider_id")`,
+    );
+
+    // signals and provider_stats are created by schema sync in development
+    if (await queryRunner.hasTable('signals')) {
+      await queryRunner.query(
+        `ALTER TABLE "signal_moderations" ADD CONSTRAINT "FK_signal_moderations_signal_id" FOREIGN KEY ("signal_id") REFERENCES "signals"("id") ON DELETE CASCADE`,
+      );
+      await queryRunner.query(
+        `ALTER TYPE "signals_status_enum" ADD VALUE IF NOT EXISTS 'MODERATION'`,
+      );
+    }
+
+    if (await queryRunner.hasTable('provider_stats')) {
+      await queryRunner.addColumn(
+        'provider_stats',
+        new TableColumn({
+          name: 'rejected_signals',
+          type: 'int',
+          default: 0,
+          isNullable: false,
+        }),
+      );
+    }
+  }
+
+  // Postgres cannot drop enum values, so MODERATION stays on signals
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('provider_stats', 'rejected_signals')) {
+      await queryRunner.dropColumn('provider_stats', 'rejected_signals');
+    }
+
+    await queryRunner.dropTable('signal_moderations');
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddSignalValidationColumn1737562900000 implements MigrationInterface {
+  name = 'AddSignalValidationColumn1737562900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // signals is created by schema sync in development
+    if (await queryRunner.hasTable('signals')) {
+      await queryRunner.addColumn(
+        'signals',
+        new TableColumn({
+          name: 'validation',
+          type: 'jsonb',
+          isNullable: true,
+        }),
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('signals', 'validation')) {
+      await queryRunner.dropColumn('signals', 'validation');
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateProviderRevenueTables1737563000000 implements MigrationInterface {
+  name = 'CreateProviderRevenueTables1737563000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'provider_payouts',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'provider_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'destination_address',
+            type: 'varchar',
+            length: '56',
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 20,
+            scale: 7,
+            isNullable: false,
+          },
+          {
+            name: 'asset_code',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'asset_issuer',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'earnings_count',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['PENDING', 'COMPLETED', 'FAILED'],
+            default: "'PENDING'",
+            isNullable: false,
+          },
+          {
+            name: 'stellar_transaction_hash',
+            type: 'varchar',
+            isNullable: true,
+          },
+          {
+            name: 'failure_reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'completed_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'provider_earnings',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'provider_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'signal_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'copier_id',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'fee_transaction_id',
+            type: 'uuid',
+            isUnique: true,
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 20,
+            scale: 7,
+            isNullable: false,
+          },
+          {
+            name: 'share_rate',
+            type: 'decimal',
+            precision: 5,
+            scale: 4,
+            isNullable: false,
+          },
+          {
+            name: 'asset_code',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'asset_issuer',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['ACCRUED', 'PAID'],
+            default: "'ACCRUED'",
+            isNullable: false,
+          },
+          {
+            name: 'payout_id',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'paid_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_provider_payouts_provider_created" ON "provider_payouts" ("provider_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_provider_payouts_status" ON "provider_payouts" ("status")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_provider_earnings_provider_created" ON "provider_earnings" ("provider_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_provider_earnings_status_created" ON "provider_earnings" ("status", "created_at")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "provider_payouts" ADD CONSTRAINT "FK_provider_payouts_provider_id" FOREIGN KEY ("provider_id") REFERENCES "users"("id") ON DELETE CASCADE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "provider_earnings" ADD CONSTRAINT "FK_provider_earnings_provider_id" FOREIGN KEY ("provider_id") REFERENCES "users"("id") ON DELETE CASCADE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "provider_earnings" ADD CONSTRAINT "FK_provider_earnings_payout_id" FOREIGN KEY ("payout_id") REFERENCES "provider_payouts"("id") ON DELETE SET NULL`,
+    );
+
+    // fee_transactions is created by schema sync in development
+    if (await queryRunner.hasTable('fee_transactions')) {
+      await queryRunner.query(
+        `ALTER TABLE "provider_earnings" ADD CONSTRAINT "FK_provider_earnings_fee_transaction_id" FOREIGN KEY ("fee_transaction_id") REFERENCES "fee_transactions"("id") ON DELETE CASCADE`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('provider_earnings');
+    await queryRunner.dropTable('provider_payouts');
+  }
+}
@@ -0,0 +1,167 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreatePromotionsTables1737563100000 implements MigrationInterface {
+  name = 'CreatePromotionsTables1737563100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'promotions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'code',
+            type: 'varchar',
+            length: '32',
+            isUnique: true,
+            isNullable: false,
+          },
+          {
+            name: 'description',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'fee_rate',
+            type: 'decimal',
+            precision: 5,
+            scale: 4,
+            isNullable: false,
+          },
+          {
+            name: 'starts_at',
+            type: 'timestamp',
+            isNullable: false,
+          },
+          {
+            name: 'ends_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'max_redemptions',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'max_uses_per_user',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'eligibility',
+            type: 'enum',
+            enum: ['all_users', 'new_users', 'beta_users', 'referred_users'],
+            default: "'all_users'",
+            isNullable: false,
+          },
+          {
+            name: 'new_user_window_days',
+            type: 'int',
+            default: 30,
+            isNullable: false,
+          },
+          {
+            name: 'is_active',
+            type: 'boolean',
+            default: true,
+            isNullable: false,
+          },
+          {
+            name: 'redemption_count',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'updated_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'promotion_redemptions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'promotion_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'user_id',
+            type: 'varchar',
+            isNullable: false,
+          },
+          {
+            name: 'custom_rate',
+            type: 'decimal',
+            precision: 5,
+            scale: 4,
+            isNullable: true,
+          },
+          {
+            name: 'usage_count',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ['promotion_id'],
+            referencedTableName: 'promotions',
+            referencedColumnNames: ['id'],
+            onDelete: 'CASCADE',
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_promotions_active_starts" ON "promotions" ("is_active", "starts_at")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_promotion_redemptions_promotion_user" ON "promotion_redemptions" ("promotion_id", "user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_promotion_redemptions_user_id" ON "promotion_redemptions" ("user_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('promotion_redemptions');
+    await queryRunner.dropTable('promotions');
+  }
+}
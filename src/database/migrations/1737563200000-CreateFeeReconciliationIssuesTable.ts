@@ -0,0 +1,100 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn } from 'typeorm';
+
+export class CreateFeeReconciliationIssuesTable1737563200000 implements MigrationInterface {
+  name = 'CreateFeeReconciliationIssuesTable1737563200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'fee_reconciliation_issues',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'fee_transaction_id',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'type',
+            type: 'enum',
+            enum: ['MISSING', 'DUPLICATE', 'AMOUNT_MISMATCH'],
+            isNullable: false,
+          },
+          {
+            name: 'expected_amount',
+            type: 'decimal',
+            precision: 20,
+            scale: 7,
+            isNullable: false,
+          },
+          {
+            name: 'on_chain_amount',
+            type: 'decimal',
+            precision: 20,
+            scale: 7,
+            isNullable: true,
+          },
+          {
+            name: 'transaction_hashes',
+            type: 'jsonb',
+            default: "'[]'",
+            isNullable: false,
+          },
+          {
+            name: 'detail',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'detected_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'resolved_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fee_reconciliation_issues_fee_type" ON "fee_reconciliation_issues" ("fee_transaction_id", "type")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fee_reconciliation_issues_resolved_at" ON "fee_reconciliation_issues" ("resolved_at")`,
+    );
+
+    // fee_transactions is created by schema sync in development
+    if (await queryRunner.hasTable('fee_transactions')) {
+      await queryRunner.query(
+        `ALTER TABLE "fee_reconciliation_issues" ADD CONSTRAINT "FK_fee_reconciliation_issues_fee_transaction_id" FOREIGN KEY ("fee_transaction_id") REFERENCES "fee_transactions"("id") ON DELETE CASCADE`,
+      );
+      await queryRunner.addColumn(
+        'fee_transactions',
+        new TableColumn({
+          name: 'reconciledAt',
+          type: 'timestamp',
+          isNullable: true,
+        }),
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('fee_transactions', 'reconciledAt')) {
+      await queryRunner.dropColumn('fee_transactions', 'reconciledAt');
+    }
+
+    await queryRunner.dropTable('fee_reconciliation_issues');
+  }
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner, Table } from 'typeorm';
+
+export class CreateFeeExportsTable1737563300000 implements MigrationInterface {
+  name = 'CreateFeeExportsTable1737563300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'fee_exports',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'report',
+            type: 'enum',
+            enum: ['fee_history', 'user_summaries', 'monthly_revenue'],
+            isNullable: false,
+          },
+          {
+            name: 'format',
+            type: 'enum',
+            enum: ['csv', 'ndjson'],
+            isNullable: false,
+          },
+          {
+            name: 'filters',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'enum',
+            enum: ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'],
+            default: "'PENDING'",
+            isNullable: false,
+          },
+          {
+            name: 'row_count',
+            type: 'int',
+            default: 0,
+            isNullable: false,
+          },
+          {
+            name: 'content',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'failure_reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'created_at',
+            type: 'timestamp',
+            default: 'CURRENT_TIMESTAMP',
+            isNullable: false,
+          },
+          {
+            name: 'completed_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+          {
+            name: 'expires_at',
+            type: 'timestamp',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fee_exports_status_created_at" ON "fee_exports" ("status", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('fee_exports');
+  }
+}
@@ -0,0 +1,110 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+// SettingsService defaults as of this migration, for users who set a
+// slippage preference but never opened their settings
+const DEFAULT_SETTINGS = {
+  trading: {
+    defaultOrderType: 'market',
+    defaultSlippage: 1,
+    confirmTrades: true,
+  },
+  risk: {
+    maxOpenPositions: 10,
+    maxExposure: 50,
+    requireStopLoss: true,
+  },
+  display: {
+    theme: 'dark',
+    language: 'en',
+    currency: 'USD',
+  },
+  notifications: {
+    email: true,
+    push: true,
+    tradeFills: true,
+    priceAlerts: true,
+    systemUpdates: true,
+  },
+};
+
+/**
+ * The default slippage lived both on user_preferences and in the
+ * user_settings trading block. Settings are what trades read, so the
+ * preference is folded into them and its column dropped.
+ */
+export class MoveDefaultSlippageToUserSettings1737563400000 implements MigrationInterface {
+  name = 'MoveDefaultSlippageToUserSettings1737563400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (
+      !(await queryRunner.hasColumn(
+        'user_preferences',
+        'defaultSlippagePercent',
+      ))
+    ) {
+      return;
+    }
+
+    // user_settings is created by schema sync in development
+    if (await queryRunner.hasTable('user_settings')) {
+      // A preference saved after the settings row was seeded is the newer choice
+      await queryRunner.query(`
+        UPDATE "user_settings" s
+        SET "settings" = jsonb_set(
+          s."settings",
+          '{trading,defaultSlippage}',
+          to_jsonb(p."defaultSlippagePercent"::float)
+        )
+        FROM "user_preferences" p
+        WHERE p."userId" = s."userId"
+          AND p."updatedAt" > s."updatedAt"
+      `);
+
+      await queryRunner.query(
+        `
+        INSERT INTO "user_settings" ("userId", "settings")
+        SELECT
+          p."userId",
+          jsonb_set(
+            $1::jsonb,
+            '{trading,defaultSlippage}',
+            to_jsonb(p."defaultSlippagePercent"::float)
+          )
+        FROM "user_preferences" p
+        WHERE p."defaultSlippagePercent" <> 1
+          AND NOT EXISTS (
+            SELECT 1 FROM "user_settings" s WHERE s."userId" = p."userId"
+          )
+        `,
+        [JSON.stringify(DEFAULT_SETTINGS)],
+      );
+    }
+
+    await queryRunner.dropColumn('user_preferences', 'defaultSlippagePercent');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'user_preferences',
+      new TableColumn({
+        name: 'defaultSlippagePercent',
+        type: 'numeric',
+        precision: 5,
+        scale: 2,
+        default: 1.0,
+        isNullable: false,
+      }),
+    );
+
+    if (await queryRunner.hasTable('user_settings')) {
+      await queryRunner.query(`
+        UPDATE "user_preferences" p
+        SET "defaultSlippagePercent" =
+          (s."settings"->'trading'->>'defaultSlippage')::numeric
+        FROM "user_settings" s
+        WHERE s."userId" = p."userId"
+          AND s."settings"->'trading' ? 'defaultSlippage'
+      `);
+    }
+  }
+}
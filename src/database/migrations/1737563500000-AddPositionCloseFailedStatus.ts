@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPositionCloseFailedStatus1737563500000 implements MigrationInterface {
+  name = 'AddPositionCloseFailedStatus1737563500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // copied_positions is created by schema sync in development
+    if (await queryRunner.hasTable('copied_positions')) {
+      await queryRunner.query(
+        `ALTER TYPE "copied_positions_status_enum" ADD VALUE IF NOT EXISTS 'CLOSE_FAILED'`,
+      );
+    }
+  }
+
+  // Postgres cannot drop an enum value, so CLOSE_FAILED stays
+  public async down(): Promise<void> {}
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddCopiedPositionAppliedRevision1737563600000 implements MigrationInterface {
+  name = 'AddCopiedPositionAppliedRevision1737563600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // copied_positions is created by schema sync in development
+    if (await queryRunner.hasTable('copied_positions')) {
+      await queryRunner.addColumn(
+        'copied_positions',
+        new TableColumn({
+          name: 'applied_revision',
+          type: 'int',
+          default: 0,
+          isNullable: false,
+        }),
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasColumn('copied_positions', 'applied_revision')) {
+      await queryRunner.dropColumn('copied_positions', 'applied_revision');
+    }
+  }
+}
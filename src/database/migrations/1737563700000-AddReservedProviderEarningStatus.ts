@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReservedProviderEarningStatus1737563700000 implements MigrationInterface {
+  name = 'AddReservedProviderEarningStatus1737563700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "provider_earnings_status_enum" ADD VALUE IF NOT EXISTS 'RESERVED'`,
+    );
+  }
+
+  // Postgres cannot drop an enum value, so RESERVED stays
+  public async down(): Promise<void> {}
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class MoveFeeExportContentToFile1737563800000 implements MigrationInterface {
+  name = 'MoveFeeExportContentToFile1737563800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Exports generated into the table have no file, so expire them for
+    // the purge job rather than serving empty downloads
+    await queryRunner.query(
+      `UPDATE "fee_exports" SET "expires_at" = now() WHERE "content" IS NOT NULL`,
+    );
+
+    await queryRunner.dropColumn('fee_exports', 'content');
+    await queryRunner.addColumn(
+      'fee_exports',
+      new TableColumn({
+        name: 'file_path',
+        type: 'varchar',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fee_exports', 'file_path');
+    await queryRunner.addColumn(
+      'fee_exports',
+      new TableColumn({
+        name: 'content',
+        type: 'text',
+        isNullable: true,
+      }),
+    );
+  }
+}
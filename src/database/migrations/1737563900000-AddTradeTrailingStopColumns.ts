@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddTradeTrailingStopColumns1737563900000 implements MigrationInterface {
+  name = 'AddTradeTrailingStopColumns1737563900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // trades is created by schema sync in development
+    if (!(await queryRunner.hasTable('trades'))) {
+      return;
+    }
+
+    await queryRunner.query(
+      `CREATE TYPE "trades_trailing_stop_type_enum" AS ENUM ('percentage', 'absolute')`,
+    );
+    await queryRunner.addColumns('trades', [
+      new TableColumn({
+        name: 'trailing_stop_type',
+        type: 'enum',
+        enumName: 'trades_trailing_stop_type_enum',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'trailing_stop_distance',
+        type: 'decimal',
+        precision: 18,
+        scale: 8,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'high_water_mark',
+        type: 'decimal',
+        precision: 18,
+        scale: 8,
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.query(
+      `ALTER TYPE "trades_close_reason_enum" ADD VALUE IF NOT EXISTS 'trailing_stop'`,
+    );
+  }
+
+  // Postgres cannot drop an enum value, so trailing_stop stays
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (!(await queryRunner.hasColumn('trades', 'trailing_stop_type'))) {
+      return;
+    }
+
+    await queryRunner.dropColumns('trades', [
+      'high_water_mark',
+      'trailing_stop_distance',
+      'trailing_stop_type',
+    ]);
+    await queryRunner.query(`DROP TYPE "trades_trailing_stop_type_enum"`);
+  }
+}
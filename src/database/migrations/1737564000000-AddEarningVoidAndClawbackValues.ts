@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEarningVoidAndClawbackValues1737564000000 implements MigrationInterface {
+  name = 'AddEarningVoidAndClawbackValues1737564000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "provider_earnings_status_enum" ADD VALUE IF NOT EXISTS 'VOIDED'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "fee_reconciliation_issues_type_enum" ADD VALUE IF NOT EXISTS 'CLAWBACK'`,
+    );
+  }
+
+  // Postgres cannot drop an enum value, so VOIDED and CLAWBACK stay
+  public async down(): Promise<void> {}
+}
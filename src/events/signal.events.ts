@@ -23,23 +23,23 @@ export class SignalCreatedEvent extends BaseEvent {
 
   @IsNotEmpty()
   @IsString()
-  readonly signalId: string;
+  readonly signalId!: string;
 
   @IsNotEmpty()
   @IsString()
-  readonly userId: string;
+  readonly userId!: string;
 
   @IsNotEmpty()
   @IsString()
-  readonly symbol: string;
+  readonly symbol!: string;
 
   @IsNotEmpty()
   @IsEnum(SignalType)
-  readonly type: SignalType;
+  readonly type!: SignalType;
 
   @IsNotEmpty()
   @IsNumber()
-  readonly targetPrice: number;
+  readonly targetPrice!: number;
 
   @IsOptional()
   @IsNumber()
@@ -85,6 +85,48 @@ export class SignalCreatedEvent extends BaseEvent {
   }
 }
 
+/**
+ * Emitted when a signal is closed, whether by its outcome, expiry or the provider
+ */
+export class SignalClosedEvent extends BaseEvent {
+  readonly eventName = 'signal.closed';
+
+  @IsNotEmpty()
+  @IsString()
+  readonly signalId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  readonly providerId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  readonly outcome!: string;
+
+  @IsOptional()
+  @IsNumber()
+  readonly closePrice?: number;
+
+  constructor(data: {
+    signalId: string;
+    providerId: string;
+    outcome: string;
+    closePrice?: number;
+    correlationId?: string;
+  }) {
+    super(data.correlationId);
+    Object.assign(this, data);
+    this.validate();
+  }
+
+  validate(): void {
+    const errors = validateSync(this);
+    if (errors.length > 0) {
+      throw new Error(`Signal closed event validation failed: ${JSON.stringify(errors)}`);
+    }
+  }
+}
+
 /**
  * Emitted when signal performance metrics are updated
  */
@@ -93,25 +135,25 @@ export class SignalPerformanceUpdatedEvent extends BaseEvent {
 
   @IsNotEmpty()
   @IsString()
-  readonly signalId: string;
+  readonly signalId!: string;
 
   @IsNotEmpty()
   @IsString()
-  readonly userId: string;
+  readonly userId!: string;
 
   @IsNotEmpty()
   @IsNumber()
-  readonly performanceScore: number;
+  readonly performanceScore!: number;
 
   @IsNotEmpty()
   @IsNumber()
   @Min(-100)
   @Max(100)
-  readonly returnPercentage: number;
+  readonly returnPercentage!: number;
 
   @IsNotEmpty()
   @IsNumber()
-  readonly copiers: number;
+  readonly copiers!: number;
 
   @IsOptional()
   @IsNumber()
@@ -155,11 +197,11 @@ export class SignalValidatedEvent extends BaseEvent {
 
   @IsNotEmpty()
   @IsString()
-  readonly signalId: string;
+  readonly signalId!: string;
 
   @IsNotEmpty()
   @IsEnum(SignalStatus)
-  readonly status: SignalStatus;
+  readonly status!: SignalStatus;
 
   @IsOptional()
   @IsString()
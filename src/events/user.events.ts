@@ -9,15 +9,15 @@ export class UserRegisteredEvent extends BaseEvent {
 
   @IsNotEmpty()
   @IsString()
-  readonly userId: string;
+  readonly userId!: string;
 
   @IsNotEmpty()
   @IsEmail()
-  readonly email: string;
+  readonly email!: string;
 
   @IsNotEmpty()
   @IsString()
-  readonly username: string;
+  readonly username!: string;
 
   @IsOptional()
   @IsString()
@@ -55,7 +55,7 @@ export class UserProfileUpdatedEvent extends BaseEvent {
 
   @IsNotEmpty()
   @IsString()
-  readonly userId: string;
+  readonly userId!: string;
 
   @IsOptional()
   readonly changes?: Record<string, any>;
@@ -86,11 +86,11 @@ export class UserFollowedProviderEvent extends BaseEvent {
 
   @IsNotEmpty()
   @IsString()
-  readonly userId: string;
+  readonly userId!: string;
 
   @IsNotEmpty()
   @IsString()
-  readonly providerId: string;
+  readonly providerId!: string;
 
   constructor(data: {
     userId: string;
@@ -108,4 +108,36 @@ export class UserFollowedProviderEvent extends BaseEvent {
       throw new Error(`User followed provider event validation failed: ${JSON.stringify(errors)}`);
     }
   }
+}
+
+/**
+ * Emitted when a user unfollows a signal provider
+ */
+export class UserUnfollowedProviderEvent extends BaseEvent {
+  readonly eventName = 'user.unfollowed.provider';
+
+  @IsNotEmpty()
+  @IsString()
+  readonly userId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  readonly providerId!: string;
+
+  constructor(data: {
+    userId: string;
+    providerId: string;
+    correlationId?: string;
+  }) {
+    super(data.correlationId);
+    Object.assign(this, data);
+    this.validate();
+  }
+
+  validate(): void {
+    const errors = validateSync(this);
+    if (errors.length > 0) {
+      throw new Error(`User unfollowed provider event validation failed: ${JSON.stringify(errors)}`);
+    }
+  }
 }
\ No newline at end of file
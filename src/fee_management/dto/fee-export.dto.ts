@@ -0,0 +1,94 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FeeStatus, FeeTier } from '../entities/fee-transaction.entity';
+import {
+  FeeExportFormat,
+  FeeExportReport,
+} from '../entities/fee-export.entity';
+
+export class FeeExportFiltersDto {
+  @ApiProperty({ description: 'Start of the period (inclusive)' })
+  @IsDateString()
+  startDate!: string;
+
+  @ApiProperty({ description: 'End of the period (inclusive)' })
+  @IsDateString()
+  endDate!: string;
+
+  @ApiPropertyOptional({ description: 'Fee tier filter', enum: FeeTier })
+  @IsOptional()
+  @IsEnum(FeeTier)
+  feeTier?: FeeTier;
+
+  @ApiPropertyOptional({ description: 'Asset code filter', example: 'USDC' })
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9]{1,12}$/, {
+    message: 'assetCode must be 1-12 letters or digits',
+  })
+  assetCode?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Fee status filter. Summaries and revenue default to collected fees',
+    enum: FeeStatus,
+  })
+  @IsOptional()
+  @IsEnum(FeeStatus)
+  status?: FeeStatus;
+}
+
+export class FeeExportQueryDto extends FeeExportFiltersDto {
+  @ApiPropertyOptional({
+    description: 'Output format',
+    enum: FeeExportFormat,
+    default: FeeExportFormat.CSV,
+  })
+  @IsOptional()
+  @IsEnum(FeeExportFormat)
+  format?: FeeExportFormat = FeeExportFormat.CSV;
+
+  @ApiPropertyOptional({
+    description: 'NDJSON only: X-Next-Cursor from the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'NDJSON only: rows per page',
+    minimum: 1,
+    maximum: 5000,
+    default: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  limit?: number = 1000;
+}
+
+export class CreateFeeExportDto extends FeeExportFiltersDto {
+  @ApiProperty({ description: 'Report to export', enum: FeeExportReport })
+  @IsEnum(FeeExportReport)
+  report!: FeeExportReport;
+
+  @ApiPropertyOptional({
+    description: 'Output format',
+    enum: FeeExportFormat,
+    default: FeeExportFormat.CSV,
+  })
+  @IsOptional()
+  @IsEnum(FeeExportFormat)
+  format?: FeeExportFormat = FeeExportFormat.CSV;
+}
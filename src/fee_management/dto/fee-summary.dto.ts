@@ -1,7 +1,17 @@
-import { IsEnum, IsOptional, IsDateString, IsNumber, Min } from 'class-validator';
+import {
+  IsEnum,
+  IsOptional,
+  IsDateString,
+  IsNumber,
+  Min,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { FeeTier, FeeStatus } from '../entities/fee-transaction.entity';
+import {
+  FeeReconciliationIssue,
+  ReconciliationIssueType,
+} from '../entities/fee-reconciliation-issue.entity';
 
 export class FeeSummaryDto {
   @ApiProperty({ description: 'Total fees collected in the period' })
@@ -91,6 +101,12 @@ export class FeeCalculationDto {
 
   @ApiProperty({ description: 'Asset code' })
   assetCode!: string;
+
+  @ApiPropertyOptional({ description: 'Promotion code applied, if any' })
+  promotionCode?: string;
+
+  @ApiPropertyOptional({ description: 'Tier rate the promotion replaced' })
+  originalFeeRate?: string;
 }
 
 export class GetFeeHistoryDto {
@@ -125,7 +141,11 @@ export class GetFeeHistoryDto {
   @Min(1)
   page?: number = 1;
 
-  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, default: 50 })
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    minimum: 1,
+    default: 50,
+  })
   @IsOptional()
   @Type(() => Number)
   @IsNumber()
@@ -191,4 +211,111 @@ export class MonthlyRevenueReportDto {
 
   @ApiProperty({ description: 'Average fee per transaction' })
   averageFeePerTransaction!: string;
-}
\ No newline at end of file
+
+  @ApiProperty({ description: 'Revenue matched to on-chain payments' })
+  reconciledRevenue!: string;
+
+  @ApiProperty({ description: 'Collected fees not yet matched on chain' })
+  unreconciledTransactions!: number;
+}
+export class ProviderEarningsSummaryDto {
+  @ApiProperty({ description: 'Provider user ID' })
+  providerId!: string;
+
+  @ApiProperty({
+    description: 'Share of each copier fee paid to providers',
+    example: '0.2',
+  })
+  shareRate!: string;
+
+  @ApiProperty({ description: 'Earnings by asset code' })
+  byAsset!: {
+    [assetCode: string]: {
+      assetIssuer: string;
+      accrued: string;
+      paid: string;
+      lifetime: string;
+    };
+  };
+
+  @ApiProperty({
+    description: 'Number of copier fees the provider earned from',
+  })
+  earningsCount!: number;
+
+  @ApiProperty({ description: 'Most recent payout, if any' })
+  lastPayoutAt!: Date | null;
+}
+
+export class GetProviderPayoutsDto {
+  @ApiPropertyOptional({ description: 'Page number', minimum: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Items per page',
+    minimum: 1,
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  limit?: number = 20;
+}
+
+export class ReconciliationPeriodDto {
+  @ApiProperty({ description: 'Start date of the period' })
+  @IsDateString()
+  startDate!: string;
+
+  @ApiProperty({ description: 'End date of the period' })
+  @IsDateString()
+  endDate!: string;
+}
+
+export class ReconciliationRunResultDto {
+  @ApiProperty({ description: 'Collected fees checked' })
+  checked!: number;
+
+  @ApiProperty({ description: 'Fees matched to a payment' })
+  reconciled!: number;
+
+  @ApiProperty({ description: 'Platform wallet payments scanned' })
+  paymentsScanned!: number;
+
+  @ApiProperty({ description: 'Payment scan stopped at its page limit' })
+  truncated!: boolean;
+
+  @ApiProperty({ description: 'Issues found by type' })
+  issues!: { [key in ReconciliationIssueType]: number };
+}
+
+export class FeeReconciliationReportDto {
+  @ApiProperty({ description: 'Period start date' })
+  periodStart!: Date;
+
+  @ApiProperty({ description: 'Period end date' })
+  periodEnd!: Date;
+
+  @ApiProperty({ description: 'Collected fees in the period' })
+  collectedCount!: number;
+
+  @ApiProperty({ description: 'Collected fees matched on chain' })
+  reconciledCount!: number;
+
+  @ApiProperty({ description: 'Fee ledger total for collected fees' })
+  ledgerTotal!: string;
+
+  @ApiProperty({ description: 'Total of fees matched on chain' })
+  reconciledTotal!: string;
+
+  @ApiProperty({ description: 'Open issues by type' })
+  issuesByType!: { [key in ReconciliationIssueType]: number };
+
+  @ApiProperty({ description: 'Open issues for fees in the period' })
+  issues!: FeeReconciliationIssue[];
+}
@@ -0,0 +1,190 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PromotionEligibility } from '../entities/promotion.entity';
+
+// A fee rate below 100% with at most four decimal places
+const FEE_RATE_PATTERN = /^0(\.\d{1,4})?$/;
+
+export class CreatePromotionDto {
+  @ApiProperty({ description: 'Promotion code', example: 'LAUNCH50' })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: 'code must be 3-32 letters, digits, dashes or underscores',
+  })
+  code!: string;
+
+  @ApiPropertyOptional({ description: 'Shown to users with the discount' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ description: 'Discounted fee rate', example: '0.0005' })
+  @Matches(FEE_RATE_PATTERN, { message: 'feeRate must be a decimal below 1' })
+  feeRate!: string;
+
+  @ApiProperty({ description: 'When the promotion starts' })
+  @IsDateString()
+  startsAt!: string;
+
+  @ApiPropertyOptional({ description: 'When the promotion ends' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Users who can redeem the code',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @ApiPropertyOptional({
+    description: 'Discounted trades per user',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsesPerUser?: number;
+
+  @ApiPropertyOptional({
+    description: 'Who can redeem the code',
+    enum: PromotionEligibility,
+    default: PromotionEligibility.ALL_USERS,
+  })
+  @IsOptional()
+  @IsEnum(PromotionEligibility)
+  eligibility?: PromotionEligibility;
+
+  @ApiPropertyOptional({
+    description: 'Days since sign-up that count as a new user',
+    minimum: 1,
+    default: 30,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  newUserWindowDays?: number;
+}
+
+export class UpdatePromotionDto {
+  @ApiPropertyOptional({ description: 'Shown to users with the discount' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Discounted fee rate',
+    example: '0.0005',
+  })
+  @IsOptional()
+  @Matches(FEE_RATE_PATTERN, { message: 'feeRate must be a decimal below 1' })
+  feeRate?: string;
+
+  @ApiPropertyOptional({ description: 'When the promotion starts' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ description: 'When the promotion ends' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Users who can redeem the code',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxRedemptions?: number;
+
+  @ApiPropertyOptional({
+    description: 'Discounted trades per user',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsesPerUser?: number;
+
+  @ApiPropertyOptional({
+    description: 'Who can redeem the code',
+    enum: PromotionEligibility,
+  })
+  @IsOptional()
+  @IsEnum(PromotionEligibility)
+  eligibility?: PromotionEligibility;
+
+  @ApiPropertyOptional({
+    description: 'Days since sign-up that count as a new user',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  newUserWindowDays?: number;
+
+  @ApiPropertyOptional({ description: 'Turn the promotion on or off' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class ApplyPromotionDto {
+  @ApiProperty({ description: 'User ID' })
+  @IsString()
+  userId!: string;
+
+  @ApiProperty({ description: 'Promotion code', example: 'LAUNCH50' })
+  @IsString()
+  promotionCode!: string;
+
+  @ApiPropertyOptional({
+    description: "Rate for this user instead of the promotion's",
+    example: '0.0003',
+  })
+  @IsOptional()
+  @Matches(FEE_RATE_PATTERN, {
+    message: 'customRate must be a decimal below 1',
+  })
+  customRate?: string;
+}
+
+export class ActiveDiscountDto {
+  @ApiProperty({ description: 'Promotion ID' })
+  promotionId!: string;
+
+  @ApiProperty({ description: 'Promotion code' })
+  code!: string;
+
+  @ApiProperty({ description: 'Promotion description', nullable: true })
+  description!: string | null;
+
+  @ApiProperty({ description: 'Fee rate while the discount applies' })
+  feeRate!: string;
+
+  @ApiProperty({ description: 'When the discount ends', nullable: true })
+  endsAt!: Date | null;
+
+  @ApiProperty({
+    description: 'Discounted trades left, null when unlimited',
+    nullable: true,
+  })
+  usesRemaining!: number | null;
+}
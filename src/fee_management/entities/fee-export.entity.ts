@@ -0,0 +1,80 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { FeeStatus, FeeTier } from './fee-transaction.entity';
+
+export enum FeeExportReport {
+  FEE_HISTORY = 'fee_history',
+  USER_SUMMARIES = 'user_summaries',
+  MONTHLY_REVENUE = 'monthly_revenue',
+}
+
+export enum FeeExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
+
+export enum FeeExportStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+export interface FeeExportFilters {
+  startDate: string;
+  endDate: string;
+  feeTier?: FeeTier;
+  assetCode?: string;
+  status?: FeeStatus;
+}
+
+/**
+ * An export generated in the background for ranges too large to stream.
+ * The finished file is kept at `filePath` until it expires.
+ */
+@Entity('fee_exports')
+@Index(['status', 'createdAt'])
+export class FeeExport {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'enum', enum: FeeExportReport })
+  report!: FeeExportReport;
+
+  @Column({ type: 'enum', enum: FeeExportFormat })
+  format!: FeeExportFormat;
+
+  @Column({ type: 'jsonb' })
+  filters!: FeeExportFilters;
+
+  @Column({
+    type: 'enum',
+    enum: FeeExportStatus,
+    default: FeeExportStatus.PENDING,
+  })
+  status!: FeeExportStatus;
+
+  @Column({ name: 'row_count', type: 'int', default: 0 })
+  rowCount!: number;
+
+  // Excluded from listings; loaded only for download
+  @Column({ name: 'file_path', type: 'varchar', nullable: true, select: false })
+  filePath!: string | null;
+
+  @Column({ name: 'failure_reason', type: 'text', nullable: true })
+  failureReason!: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt!: Date | null;
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt!: Date | null;
+}
@@ -0,0 +1,73 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { FeeTransaction } from './fee-transaction.entity';
+
+export enum ReconciliationIssueType {
+  // No payment on chain for a collected fee
+  MISSING = 'MISSING',
+  // More than one payment for the same fee
+  DUPLICATE = 'DUPLICATE',
+  // One payment, but not for the fee's amount or asset
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH',
+  // A provider was paid a share of a fee that failed reconciliation
+  CLAWBACK = 'CLAWBACK',
+}
+
+/**
+ * A disagreement between a fee ledger row and the platform wallet's
+ * payments. Resolved once a later reconciliation run matches the fee.
+ */
+@Entity('fee_reconciliation_issues')
+@Index(['feeTransactionId', 'type'])
+export class FeeReconciliationIssue {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'fee_transaction_id', type: 'uuid' })
+  feeTransactionId!: string;
+
+  @ManyToOne(() => FeeTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fee_transaction_id' })
+  feeTransaction!: FeeTransaction;
+
+  @Column({ type: 'enum', enum: ReconciliationIssueType })
+  type!: ReconciliationIssueType;
+
+  @Column({
+    name: 'expected_amount',
+    type: 'decimal',
+    precision: 20,
+    scale: 7,
+  })
+  expectedAmount!: string;
+
+  // Total paid on chain across the matched payments
+  @Column({
+    name: 'on_chain_amount',
+    type: 'decimal',
+    precision: 20,
+    scale: 7,
+    nullable: true,
+  })
+  onChainAmount!: string | null;
+
+  @Column({ name: 'transaction_hashes', type: 'jsonb', default: () => "'[]'" })
+  transactionHashes!: string[];
+
+  @Column({ type: 'text' })
+  detail!: string;
+
+  @CreateDateColumn({ name: 'detected_at' })
+  detectedAt!: Date;
+
+  @Column({ name: 'resolved_at', type: 'timestamp', nullable: true })
+  @Index()
+  resolvedAt!: Date | null;
+}
@@ -95,4 +95,8 @@ export class FeeTransaction {
 
   @Column({ type: 'timestamp', nullable: true })
   collectedAt?: Date;
+
+  // Set when reconciliation matched the fee to an on-chain payment
+  @Column({ type: 'timestamp', nullable: true })
+  reconciledAt?: Date;
 }
\ No newline at end of file
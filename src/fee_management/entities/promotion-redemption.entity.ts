@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Promotion } from './promotion.entity';
+
+/**
+ * A user's claim on a promotion. Usage counts the trades the promotion has
+ * discounted for the user.
+ */
+@Entity('promotion_redemptions')
+@Index(['promotionId', 'userId'], { unique: true })
+export class PromotionRedemption {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'promotion_id', type: 'uuid' })
+  promotionId!: string;
+
+  @ManyToOne(() => Promotion, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'promotion_id' })
+  promotion!: Promotion;
+
+  @Column({ name: 'user_id' })
+  @Index()
+  userId!: string;
+
+  // Overrides the promotion's rate for this user when set
+  @Column({
+    name: 'custom_rate',
+    type: 'decimal',
+    precision: 5,
+    scale: 4,
+    nullable: true,
+  })
+  customRate!: string | null;
+
+  @Column({ name: 'usage_count', type: 'int', default: 0 })
+  usageCount!: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum PromotionEligibility {
+  ALL_USERS = 'all_users',
+  NEW_USERS = 'new_users',
+  BETA_USERS = 'beta_users',
+  REFERRED_USERS = 'referred_users',
+}
+
+@Entity('promotions')
+@Index(['isActive', 'startsAt'])
+export class Promotion {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  // Stored upper case
+  @Column({ unique: true, length: 32 })
+  code!: string;
+
+  @Column({ type: 'text', nullable: true })
+  description!: string | null;
+
+  @Column({ name: 'fee_rate', type: 'decimal', precision: 5, scale: 4 })
+  feeRate!: string; // Stored as decimal (e.g., 0.0005 for 0.05%)
+
+  @Column({ name: 'starts_at', type: 'timestamp' })
+  startsAt!: Date;
+
+  @Column({ name: 'ends_at', type: 'timestamp', nullable: true })
+  endsAt!: Date | null;
+
+  // Users who can redeem the code; null for no cap
+  @Column({ name: 'max_redemptions', type: 'int', nullable: true })
+  maxRedemptions!: number | null;
+
+  // Discounted trades per user; null for no cap
+  @Column({ name: 'max_uses_per_user', type: 'int', nullable: true })
+  maxUsesPerUser!: number | null;
+
+  @Column({
+    type: 'enum',
+    enum: PromotionEligibility,
+    default: PromotionEligibility.ALL_USERS,
+  })
+  eligibility!: PromotionEligibility;
+
+  // How recently a user must have signed up to count as new
+  @Column({ name: 'new_user_window_days', type: 'int', default: 30 })
+  newUserWindowDays!: number;
+
+  @Column({ name: 'is_active', default: true })
+  isActive!: boolean;
+
+  @Column({ name: 'redemption_count', type: 'int', default: 0 })
+  redemptionCount!: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { FeeTransaction } from './fee-transaction.entity';
+
+export enum ProviderEarningStatus {
+  ACCRUED = 'ACCRUED',
+  // Held by the payout in payoutId until it completes or fails
+  RESERVED = 'RESERVED',
+  PAID = 'PAID',
+  // Its fee failed reconciliation before the share was paid
+  VOIDED = 'VOIDED',
+}
+
+/**
+ * A provider's cut of one copier fee, accrued once reconciliation finds the
+ * fee on chain. Accrued earnings are reserved for a ProviderPayout by the
+ * payout schedule and marked paid once it lands. An unpaid earning is
+ * voided if reconciliation later fails its fee.
+ */
+@Entity('provider_earnings')
+@Index(['providerId', 'createdAt'])
+@Index(['status', 'createdAt'])
+export class ProviderEarning {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'provider_id', type: 'uuid' })
+  providerId!: string;
+
+  @Column({ name: 'signal_id', type: 'uuid' })
+  signalId!: string;
+
+  @Column({ name: 'copier_id' })
+  copierId!: string;
+
+  @Column({ name: 'fee_transaction_id', type: 'uuid', unique: true })
+  feeTransactionId!: string;
+
+  @ManyToOne(() => FeeTransaction, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fee_transaction_id' })
+  feeTransaction!: FeeTransaction;
+
+  @Column({ type: 'decimal', precision: 20, scale: 7 })
+  amount!: string;
+
+  // Share of the fee the provider received (e.g., 0.2 for 20%)
+  @Column({ name: 'share_rate', type: 'decimal', precision: 5, scale: 4 })
+  shareRate!: string;
+
+  @Column({ name: 'asset_code' })
+  assetCode!: string;
+
+  @Column({ name: 'asset_issuer' })
+  assetIssuer!: string;
+
+  @Column({
+    type: 'enum',
+    enum: ProviderEarningStatus,
+    default: ProviderEarningStatus.ACCRUED,
+  })
+  status!: ProviderEarningStatus;
+
+  @Column({ name: 'payout_id', type: 'uuid', nullable: true })
+  payoutId!: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @Column({ name: 'paid_at', type: 'timestamp', nullable: true })
+  paidAt!: Date | null;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum ProviderPayoutStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * One payment operation to a provider. Payouts sent in the same batch share
+ * a Stellar transaction hash.
+ */
+@Entity('provider_payouts')
+@Index(['providerId', 'createdAt'])
+export class ProviderPayout {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'provider_id', type: 'uuid' })
+  providerId!: string;
+
+  @Column({ name: 'destination_address', length: 56 })
+  destinationAddress!: string;
+
+  @Column({ type: 'decimal', precision: 20, scale: 7 })
+  amount!: string;
+
+  @Column({ name: 'asset_code' })
+  assetCode!: string;
+
+  @Column({ name: 'asset_issuer' })
+  assetIssuer!: string;
+
+  @Column({ name: 'earnings_count', type: 'int' })
+  earningsCount!: number;
+
+  @Column({
+    type: 'enum',
+    enum: ProviderPayoutStatus,
+    default: ProviderPayoutStatus.PENDING,
+  })
+  @Index()
+  status!: ProviderPayoutStatus;
+
+  @Column({ name: 'stellar_transaction_hash', nullable: true })
+  stellarTransactionHash!: string | null;
+
+  @Column({ name: 'failure_reason', type: 'text', nullable: true })
+  failureReason!: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt!: Date | null;
+}
@@ -0,0 +1,337 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { In } from 'typeorm';
+import {
+  FeeExportService,
+  FEE_EXPORTS_QUEUE,
+  GENERATE_FEE_EXPORT_JOB,
+} from './fee-export.service';
+import {
+  FeeTransaction,
+  FeeStatus,
+  FeeTier,
+} from './entities/fee-transaction.entity';
+import {
+  FeeExport,
+  FeeExportFormat,
+  FeeExportReport,
+  FeeExportStatus,
+} from './entities/fee-export.entity';
+
+describe('FeeExportService', () => {
+  let service: FeeExportService;
+
+  const exportDirectory = mkdtempSync(join(tmpdir(), 'fee-exports-'));
+
+  const filters = {
+    startDate: '2025-01-01T00:00:00.000Z',
+    endDate: '2025-01-31T23:59:59.999Z',
+  };
+
+  const buildFee = (id: string, createdAt: string): FeeTransaction =>
+    ({
+      id,
+      userId: 'user-1',
+      tradeId: 'trade-1',
+      tradeAmount: '1000',
+      feeAmount: '1',
+      feeRate: '0.001',
+      feeTier: FeeTier.STANDARD,
+      status: FeeStatus.COLLECTED,
+      assetCode: 'USDC',
+      assetIssuer: 'GISSUER',
+      stellarTransactionHash: 'hash-1',
+      metadata: {},
+      createdAt: new Date(createdAt),
+      collectedAt: new Date(createdAt),
+    }) as FeeTransaction;
+
+  const queryBuilder = {
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    addGroupBy: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockFeeTransactionRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+
+  const mockFeeExportRepository = {
+    create: jest.fn((feeExport) => feeExport),
+    save: jest.fn(async (feeExport) => ({ id: 'export-1', ...feeExport })),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneBy: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockQueue = {
+    add: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'FEE_EXPORT_DIRECTORY' ? exportDirectory : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeeExportService,
+        {
+          provide: getRepositoryToken(FeeTransaction),
+          useValue: mockFeeTransactionRepository,
+        },
+        {
+          provide: getRepositoryToken(FeeExport),
+          useValue: mockFeeExportRepository,
+        },
+        { provide: getQueueToken(FEE_EXPORTS_QUEUE), useValue: mockQueue },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<FeeExportService>(FeeExportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    rmSync(exportDirectory, { recursive: true, force: true });
+  });
+
+  describe('assertExportable', () => {
+    it('only streams ranges up to the configured number of days', () => {
+      const quarter = {
+        startDate: '2025-01-01T00:00:00.000Z',
+        endDate: '2025-04-01T00:00:00.000Z',
+      };
+
+      expect(() => service.assertExportable(filters, true)).not.toThrow();
+      expect(() => service.assertExportable(quarter, true)).toThrow(
+        'must be requested with POST /fees/exports',
+      );
+      expect(() => service.assertExportable(quarter, false)).not.toThrow();
+    });
+  });
+
+  describe('getPage', () => {
+    it('pages fee history by a cursor on creation time and ID', async () => {
+      queryBuilder.getMany.mockResolvedValueOnce([
+        buildFee('fee-1', '2025-01-02T00:00:00.000Z'),
+        buildFee('fee-2', '2025-01-03T00:00:00.000Z'),
+        buildFee('fee-3', '2025-01-04T00:00:00.000Z'),
+      ]);
+
+      const page = await service.getPage(
+        FeeExportReport.FEE_HISTORY,
+        { ...filters, assetCode: 'usdc' },
+        null,
+        2,
+      );
+
+      expect(page.rows.map((row) => row.id)).toEqual(['fee-1', 'fee-2']);
+      expect(page.rows[0]).toMatchObject({
+        tradeAmount: '1000.0000000',
+        feeRate: '0.0010',
+        promotionCode: null,
+        reconciledAt: null,
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'fee.assetCode = :assetCode',
+        { assetCode: 'USDC' },
+      );
+      expect(page.nextCursor).not.toBeNull();
+
+      queryBuilder.getMany.mockResolvedValueOnce([
+        buildFee('fee-3', '2025-01-04T00:00:00.000Z'),
+      ]);
+      const nextPage = await service.getPage(
+        FeeExportReport.FEE_HISTORY,
+        filters,
+        page.nextCursor,
+        2,
+      );
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('> (:createdAt, :id)'),
+        { createdAt: new Date('2025-01-03T00:00:00.000Z'), id: 'fee-2' },
+      );
+      expect(nextPage.nextCursor).toBeNull();
+    });
+
+    it('rejects cursors it did not issue', async () => {
+      await expect(
+        service.getPage(FeeExportReport.FEE_HISTORY, filters, 'bogus', 10),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('stream', () => {
+    it('writes a CSV header and quotes values that need it', async () => {
+      queryBuilder.getRawMany.mockResolvedValueOnce([
+        {
+          userId: 'user,"1"',
+          tradeCount: '2',
+          totalTradeVolume: '2000.0000000',
+          totalFees: '2.0000000',
+          firstFeeAt: new Date('2025-01-02T00:00:00.000Z'),
+          lastFeeAt: new Date('2025-01-03T00:00:00.000Z'),
+        },
+      ]);
+
+      const lines: string[] = [];
+      for await (const line of service.stream(
+        FeeExportReport.USER_SUMMARIES,
+        FeeExportFormat.CSV,
+        filters,
+      )) {
+        lines.push(line);
+      }
+
+      expect(lines).toEqual([
+        'userId,tradeCount,totalTradeVolume,totalFees,effectiveFeeRate,firstFeeAt,lastFeeAt\r\n',
+        '"user,""1""",2,2000.0000000,2.0000000,0.0010000,2025-01-02T00:00:00.000Z,2025-01-03T00:00:00.000Z\r\n',
+      ]);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'fee.status = :status',
+        { status: FeeStatus.COLLECTED },
+      );
+    });
+
+    it('keeps spreadsheets from running cells as formulas', async () => {
+      queryBuilder.getRawMany.mockResolvedValueOnce([
+        {
+          userId: '=HYPERLINK("http://evil")',
+          tradeCount: '1',
+          totalTradeVolume: '-5',
+          totalFees: '0',
+          firstFeeAt: new Date('2025-01-02T00:00:00.000Z'),
+          lastFeeAt: new Date('2025-01-02T00:00:00.000Z'),
+        },
+      ]);
+
+      const lines: string[] = [];
+      for await (const line of service.stream(
+        FeeExportReport.USER_SUMMARIES,
+        FeeExportFormat.CSV,
+        filters,
+      )) {
+        lines.push(line);
+      }
+
+      expect(lines[1]).toBe(
+        `"'=HYPERLINK(""http://evil"")",1,-5.0000000,0.0000000,,2025-01-02T00:00:00.000Z,2025-01-02T00:00:00.000Z\r\n`,
+      );
+    });
+  });
+
+  describe('requestExport and generate', () => {
+    it('queues the export and writes the generated file', async () => {
+      const feeExport = await service.requestExport({
+        ...filters,
+        report: FeeExportReport.MONTHLY_REVENUE,
+        format: FeeExportFormat.NDJSON,
+      });
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        GENERATE_FEE_EXPORT_JOB,
+        { exportId: 'export-1' },
+        { jobId: `${GENERATE_FEE_EXPORT_JOB}:export-1` },
+      );
+
+      mockFeeExportRepository.findOneBy.mockResolvedValue({ ...feeExport });
+      queryBuilder.getRawMany.mockResolvedValueOnce([
+        {
+          month: '2025-01',
+          assetCode: 'USDC',
+          assetIssuer: 'GISSUER',
+          feeTier: FeeTier.VIP,
+          transactionCount: '3',
+          uniqueUsers: '2',
+          totalVolume: '3000',
+          totalRevenue: '1.5',
+          reconciledRevenue: '1',
+        },
+      ]);
+
+      const generated = await service.generate('export-1');
+
+      expect(generated).toMatchObject({
+        status: FeeExportStatus.COMPLETED,
+        rowCount: 1,
+        filePath: null,
+      });
+      const saved = mockFeeExportRepository.save.mock.calls.at(-1)![0];
+      expect(saved.filePath).toBe(join(exportDirectory, 'export-1.ndjson'));
+      expect(existsSync(`${saved.filePath}.part`)).toBe(false);
+      expect(JSON.parse(readFileSync(saved.filePath, 'utf8'))).toEqual({
+        month: '2025-01',
+        assetCode: 'USDC',
+        assetIssuer: 'GISSUER',
+        feeTier: FeeTier.VIP,
+        transactionCount: 3,
+        uniqueUsers: 2,
+        totalVolume: '3000.0000000',
+        totalRevenue: '1.5000000',
+        reconciledRevenue: '1.0000000',
+      });
+      expect(saved.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('getDownload', () => {
+    it('refuses exports that are not finished', async () => {
+      mockFeeExportRepository.findOne.mockResolvedValue({
+        id: 'export-1',
+        status: FeeExportStatus.PROCESSING,
+        expiresAt: null,
+      });
+
+      await expect(service.getDownload('export-1')).rejects.toThrow(
+        'Fee export export-1 is processing',
+      );
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('deletes expired exports and their files', async () => {
+      const filePath = join(exportDirectory, 'expired.csv');
+      writeFileSync(filePath, 'id\r\n');
+      mockFeeExportRepository.find.mockResolvedValue([
+        { id: 'export-1', filePath },
+        { id: 'export-2', filePath: null },
+      ]);
+      mockFeeExportRepository.delete.mockResolvedValue({ affected: 2 });
+
+      await expect(service.purgeExpired()).resolves.toBe(2);
+      expect(existsSync(filePath)).toBe(false);
+      expect(mockFeeExportRepository.delete).toHaveBeenCalledWith({
+        id: In(['export-1', 'export-2']),
+      });
+    });
+  });
+});
@@ -0,0 +1,578 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Queue } from 'bull';
+import { createReadStream, createWriteStream, ReadStream } from 'fs';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { In, LessThan, Repository, SelectQueryBuilder } from 'typeorm';
+import Big from 'big.js';
+import { FeeTransaction, FeeStatus } from './entities/fee-transaction.entity';
+import {
+  FeeExport,
+  FeeExportFilters,
+  FeeExportFormat,
+  FeeExportReport,
+  FeeExportStatus,
+} from './entities/fee-export.entity';
+import { CreateFeeExportDto } from './dto/fee-export.dto';
+
+export const FEE_EXPORTS_QUEUE = 'fee-exports';
+export const GENERATE_FEE_EXPORT_JOB = 'generate-fee-export';
+
+export interface FeeExportJobData {
+  exportId: string;
+}
+
+export type FeeExportRow = Record<string, string | number | null>;
+
+export interface FeeExportPage {
+  rows: FeeExportRow[];
+  nextCursor: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rows fetched per query while streaming or generating an export
+const STREAM_BATCH_SIZE = 1000;
+// How long a generated export can be downloaded
+const EXPORT_RETENTION_MS = 7 * DAY_MS;
+
+/**
+ * Column order of each report. CSV headers and NDJSON keys follow it, so
+ * new columns must only ever be appended.
+ */
+export const FEE_EXPORT_COLUMNS: Record<FeeExportReport, string[]> = {
+  [FeeExportReport.FEE_HISTORY]: [
+    'id',
+    'createdAt',
+    'collectedAt',
+    'userId',
+    'tradeId',
+    'assetCode',
+    'assetIssuer',
+    'tradeAmount',
+    'feeRate',
+    'feeAmount',
+    'feeTier',
+    'status',
+    'promotionCode',
+    'stellarTransactionHash',
+    'reconciledAt',
+  ],
+  [FeeExportReport.USER_SUMMARIES]: [
+    'userId',
+    'tradeCount',
+    'totalTradeVolume',
+    'totalFees',
+    'effectiveFeeRate',
+    'firstFeeAt',
+    'lastFeeAt',
+  ],
+  [FeeExportReport.MONTHLY_REVENUE]: [
+    'month',
+    'assetCode',
+    'assetIssuer',
+    'feeTier',
+    'transactionCount',
+    'uniqueUsers',
+    'totalVolume',
+    'totalRevenue',
+    'reconciledRevenue',
+  ],
+};
+
+/**
+ * Fee history, per-user summaries and monthly revenue for accounting, as
+ * CSV or NDJSON. Short ranges are streamed straight to the client; longer
+ * ones are generated by a queued job into FEE_EXPORT_DIRECTORY and
+ * downloaded from there when ready.
+ */
+@Injectable()
+export class FeeExportService {
+  private readonly logger = new Logger(FeeExportService.name);
+
+  constructor(
+    @InjectRepository(FeeTransaction)
+    private readonly feeTransactionRepository: Repository<FeeTransaction>,
+    @InjectRepository(FeeExport)
+    private readonly feeExportRepository: Repository<FeeExport>,
+    @InjectQueue(FEE_EXPORTS_QUEUE)
+    private readonly exportQueue: Queue<FeeExportJobData>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Reject malformed periods, and ranges too long to stream in a request
+   * when `streaming` is set
+   */
+  assertExportable(filters: FeeExportFilters, streaming: boolean): void {
+    const start = new Date(filters.startDate);
+    const end = new Date(filters.endDate);
+    if (start >= end) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    const maxDays = this.configService.get<number>(
+      'FEE_EXPORT_MAX_SYNC_DAYS',
+      31,
+    );
+    if (streaming && end.getTime() - start.getTime() > maxDays * DAY_MS) {
+      throw new BadRequestException(
+        `Exports over ${maxDays} days must be requested with POST /fees/exports`,
+      );
+    }
+  }
+
+  /**
+   * One page of rows. Pages are ordered by a stable key, so following
+   * nextCursor never skips or repeats a row. Monthly revenue has at most a
+   * few rows per month and always fits in one page.
+   */
+  async getPage(
+    report: FeeExportReport,
+    filters: FeeExportFilters,
+    cursor: string | null,
+    limit: number,
+  ): Promise<FeeExportPage> {
+    switch (report) {
+      case FeeExportReport.FEE_HISTORY:
+        return this.getFeeHistoryPage(filters, cursor, limit);
+      case FeeExportReport.USER_SUMMARIES:
+        return this.getUserSummariesPage(filters, cursor, limit);
+      case FeeExportReport.MONTHLY_REVENUE:
+        return {
+          rows: await this.getMonthlyRevenueRows(filters),
+          nextCursor: null,
+        };
+    }
+  }
+
+  /**
+   * The whole report as CSV lines (header first) or NDJSON lines
+   */
+  async *stream(
+    report: FeeExportReport,
+    format: FeeExportFormat,
+    filters: FeeExportFilters,
+  ): AsyncGenerator<string> {
+    if (format === FeeExportFormat.CSV) {
+      yield toCsvLine(FEE_EXPORT_COLUMNS[report]);
+    }
+
+    let cursor: string | null = null;
+    do {
+      const page = await this.getPage(
+        report,
+        filters,
+        cursor,
+        STREAM_BATCH_SIZE,
+      );
+      for (const row of page.rows) {
+        yield format === FeeExportFormat.CSV
+          ? toCsvLine(FEE_EXPORT_COLUMNS[report].map((column) => row[column]))
+          : toNdjsonLine(row);
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  toNdjson(rows: FeeExportRow[]): string {
+    return rows.map(toNdjsonLine).join('');
+  }
+
+  async requestExport(dto: CreateFeeExportDto): Promise<FeeExport> {
+    const filters: FeeExportFilters = {
+      startDate: dto.startDate,
+      endDate: dto.endDate,
+      feeTier: dto.feeTier,
+      assetCode: dto.assetCode,
+      status: dto.status,
+    };
+    this.assertExportable(filters, false);
+
+    const feeExport = await this.feeExportRepository.save(
+      this.feeExportRepository.create({
+        report: dto.report,
+        format: dto.format ?? FeeExportFormat.CSV,
+        filters,
+        status: FeeExportStatus.PENDING,
+        rowCount: 0,
+      }),
+    );
+
+    await this.exportQueue.add(
+      GENERATE_FEE_EXPORT_JOB,
+      { exportId: feeExport.id },
+      { jobId: `${GENERATE_FEE_EXPORT_JOB}:${feeExport.id}` },
+    );
+
+    return feeExport;
+  }
+
+  /**
+   * Build a requested export and write it to the export directory for
+   * download. Called by the queue; a failed attempt is recorded and retried
+   * by Bull. The file is written under a temporary name and only renamed
+   * into place once complete.
+   */
+  async generate(exportId: string): Promise<FeeExport> {
+    const feeExport = await this.findOne(exportId);
+    if (feeExport.status === FeeExportStatus.COMPLETED) {
+      return feeExport;
+    }
+
+    feeExport.status = FeeExportStatus.PROCESSING;
+    feeExport.failureReason = null;
+    await this.feeExportRepository.save(feeExport);
+
+    const directory = this.configService.get<string>(
+      'FEE_EXPORT_DIRECTORY',
+      './exports',
+    );
+    const filePath = join(directory, `${feeExport.id}.${feeExport.format}`);
+    const partialPath = `${filePath}.part`;
+
+    try {
+      await mkdir(directory, { recursive: true });
+
+      let lineCount = 0;
+      await pipeline(
+        Readable.from(
+          this.stream(feeExport.report, feeExport.format, feeExport.filters),
+        ),
+        async function* (lines: AsyncIterable<string>) {
+          for await (const line of lines) {
+            lineCount++;
+            yield line;
+          }
+        },
+        createWriteStream(partialPath),
+      );
+      await rename(partialPath, filePath);
+
+      const completedAt = new Date();
+      Object.assign(feeExport, {
+        status: FeeExportStatus.COMPLETED,
+        filePath,
+        rowCount:
+          feeExport.format === FeeExportFormat.CSV ? lineCount - 1 : lineCount,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_RETENTION_MS),
+      });
+      await this.feeExportRepository.save(feeExport);
+
+      this.logger.log(
+        `Generated ${feeExport.report} export ${feeExport.id} with ${feeExport.rowCount} rows`,
+      );
+      return { ...feeExport, filePath: null };
+    } catch (error) {
+      await rm(partialPath, { force: true });
+      feeExport.status = FeeExportStatus.FAILED;
+      feeExport.failureReason = (error as Error).message;
+      await this.feeExportRepository.save(feeExport);
+      throw error;
+    }
+  }
+
+  async findOne(id: string): Promise<FeeExport> {
+    const feeExport = await this.feeExportRepository.findOneBy({ id });
+    if (!feeExport) {
+      throw new NotFoundException(`Fee export ${id} not found`);
+    }
+    return feeExport;
+  }
+
+  async getDownload(id: string): Promise<{
+    feeExport: FeeExport;
+    file: ReadStream;
+  }> {
+    const feeExport = await this.feeExportRepository.findOne({
+      where: { id },
+      select: {
+        id: true,
+        report: true,
+        format: true,
+        filters: true,
+        status: true,
+        rowCount: true,
+        filePath: true,
+        expiresAt: true,
+      },
+    });
+    if (
+      !feeExport ||
+      (feeExport.expiresAt && feeExport.expiresAt <= new Date())
+    ) {
+      throw new NotFoundException(`Fee export ${id} not found`);
+    }
+    if (feeExport.status !== FeeExportStatus.COMPLETED) {
+      throw new BadRequestException(
+        `Fee export ${id} is ${feeExport.status.toLowerCase()}`,
+      );
+    }
+
+    // The file can be gone if the export directory was cleared
+    const filePath = feeExport.filePath;
+    if (!filePath || !(await stat(filePath).catch(() => null))) {
+      throw new NotFoundException(`Fee export ${id} not found`);
+    }
+
+    return { feeExport, file: createReadStream(filePath) };
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async purgeExpired(): Promise<number> {
+    const expired = await this.feeExportRepository.find({
+      where: { expiresAt: LessThan(new Date()) },
+      select: { id: true, filePath: true },
+    });
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    for (const feeExport of expired) {
+      if (feeExport.filePath) {
+        await rm(feeExport.filePath, { force: true });
+      }
+    }
+    const result = await this.feeExportRepository.delete({
+      id: In(expired.map((feeExport) => feeExport.id)),
+    });
+    const purged = result.affected ?? 0;
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired fee exports`);
+    }
+    return purged;
+  }
+
+  private async getFeeHistoryPage(
+    filters: FeeExportFilters,
+    cursor: string | null,
+    limit: number,
+  ): Promise<FeeExportPage> {
+    // Keyed on millisecond precision so the cursor survives a round trip
+    // through a JS Date
+    const createdAtKey = `date_trunc('milliseconds', fee.createdAt)`;
+    const queryBuilder = this.applyFilters(
+      this.feeTransactionRepository.createQueryBuilder('fee'),
+      filters,
+      null,
+    );
+
+    if (cursor) {
+      const [createdAt, id] = decodeCursor(cursor, 2);
+      queryBuilder.andWhere(`(${createdAtKey}, fee.id) > (:createdAt, :id)`, {
+        createdAt: new Date(createdAt),
+        id,
+      });
+    }
+
+    const fees = await queryBuilder
+      .orderBy(createdAtKey, 'ASC')
+      .addOrderBy('fee.id', 'ASC')
+      .limit(limit + 1)
+      .getMany();
+
+    const page = fees.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      rows: page.map((fee) => ({
+        id: fee.id,
+        createdAt: fee.createdAt.toISOString(),
+        collectedAt: fee.collectedAt?.toISOString() ?? null,
+        userId: fee.userId,
+        tradeId: fee.tradeId ?? null,
+        assetCode: fee.assetCode,
+        assetIssuer: fee.assetIssuer,
+        tradeAmount: new Big(fee.tradeAmount).toFixed(7),
+        feeRate: new Big(fee.feeRate).toFixed(4),
+        feeAmount: new Big(fee.feeAmount).toFixed(7),
+        feeTier: fee.feeTier,
+        status: fee.status,
+        promotionCode: fee.metadata?.promotionCode ?? null,
+        stellarTransactionHash: fee.stellarTransactionHash ?? null,
+        reconciledAt: fee.reconciledAt?.toISOString() ?? null,
+      })),
+      nextCursor:
+        fees.length > limit
+          ? encodeCursor([last.createdAt.toISOString(), last.id])
+          : null,
+    };
+  }
+
+  private async getUserSummariesPage(
+    filters: FeeExportFilters,
+    cursor: string | null,
+    limit: number,
+  ): Promise<FeeExportPage> {
+    const queryBuilder = this.applyFilters(
+      this.feeTransactionRepository.createQueryBuilder('fee'),
+      filters,
+      FeeStatus.COLLECTED,
+    );
+
+    if (cursor) {
+      const [userId] = decodeCursor(cursor, 1);
+      queryBuilder.andWhere('fee.userId > :cursorUserId', {
+        cursorUserId: userId,
+      });
+    }
+
+    const summaries = await queryBuilder
+      .select('fee.userId', 'userId')
+      .addSelect('COUNT(*)', 'tradeCount')
+      .addSelect('SUM(fee.tradeAmount)', 'totalTradeVolume')
+      .addSelect('SUM(fee.feeAmount)', 'totalFees')
+      .addSelect('MIN(fee.createdAt)', 'firstFeeAt')
+      .addSelect('MAX(fee.createdAt)', 'lastFeeAt')
+      .groupBy('fee.userId')
+      .orderBy('fee.userId', 'ASC')
+      .limit(limit + 1)
+      .getRawMany();
+
+    const page = summaries.slice(0, limit);
+    return {
+      rows: page.map((summary) => {
+        const volume = new Big(summary.totalTradeVolume ?? 0);
+        const fees = new Big(summary.totalFees ?? 0);
+        return {
+          userId: summary.userId,
+          tradeCount: Number(summary.tradeCount),
+          totalTradeVolume: volume.toFixed(7),
+          totalFees: fees.toFixed(7),
+          effectiveFeeRate: volume.gt(0) ? fees.div(volume).toFixed(7) : null,
+          firstFeeAt: new Date(summary.firstFeeAt).toISOString(),
+          lastFeeAt: new Date(summary.lastFeeAt).toISOString(),
+        };
+      }),
+      nextCursor:
+        summaries.length > limit
+          ? encodeCursor([page[page.length - 1].userId])
+          : null,
+    };
+  }
+
+  private async getMonthlyRevenueRows(
+    filters: FeeExportFilters,
+  ): Promise<FeeExportRow[]> {
+    const month = `to_char(date_trunc('month', fee.createdAt), 'YYYY-MM')`;
+    const rows = await this.applyFilters(
+      this.feeTransactionRepository.createQueryBuilder('fee'),
+      filters,
+      FeeStatus.COLLECTED,
+    )
+      .select(month, 'month')
+      .addSelect('fee.assetCode', 'assetCode')
+      .addSelect('fee.assetIssuer', 'assetIssuer')
+      .addSelect('fee.feeTier', 'feeTier')
+      .addSelect('COUNT(*)', 'transactionCount')
+      .addSelect('COUNT(DISTINCT fee.userId)', 'uniqueUsers')
+      .addSelect('SUM(fee.tradeAmount)', 'totalVolume')
+      .addSelect('SUM(fee.feeAmount)', 'totalRevenue')
+      .addSelect(
+        'SUM(CASE WHEN fee.reconciledAt IS NOT NULL THEN fee.feeAmount ELSE 0 END)',
+        'reconciledRevenue',
+      )
+      .groupBy(month)
+      .addGroupBy('fee.assetCode')
+      .addGroupBy('fee.assetIssuer')
+      .addGroupBy('fee.feeTier')
+      .orderBy(month, 'ASC')
+      .addOrderBy('fee.assetCode', 'ASC')
+      .addOrderBy('fee.assetIssuer', 'ASC')
+      .addOrderBy('fee.feeTier', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      month: row.month,
+      assetCode: row.assetCode,
+      assetIssuer: row.assetIssuer,
+      feeTier: row.feeTier,
+      transactionCount: Number(row.transactionCount),
+      uniqueUsers: Number(row.uniqueUsers),
+      totalVolume: new Big(row.totalVolume ?? 0).toFixed(7),
+      totalRevenue: new Big(row.totalRevenue ?? 0).toFixed(7),
+      reconciledRevenue: new Big(row.reconciledRevenue ?? 0).toFixed(7),
+    }));
+  }
+
+  private applyFilters(
+    queryBuilder: SelectQueryBuilder<FeeTransaction>,
+    filters: FeeExportFilters,
+    defaultStatus: FeeStatus | null,
+  ): SelectQueryBuilder<FeeTransaction> {
+    queryBuilder.where('fee.createdAt BETWEEN :startDate AND :endDate', {
+      startDate: new Date(filters.startDate),
+      endDate: new Date(filters.endDate),
+    });
+
+    const status = filters.status ?? defaultStatus;
+    if (status) {
+      queryBuilder.andWhere('fee.status = :status', { status });
+    }
+
+    if (filters.feeTier) {
+      queryBuilder.andWhere('fee.feeTier = :feeTier', {
+        feeTier: filters.feeTier,
+      });
+    }
+
+    if (filters.assetCode) {
+      queryBuilder.andWhere('fee.assetCode = :assetCode', {
+        assetCode: filters.assetCode.toUpperCase(),
+      });
+    }
+
+    return queryBuilder;
+  }
+}
+
+function toCsvLine(values: Array<string | number | null>): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) return '';
+        let text = String(value);
+        // Spreadsheets run cells starting with these as formulas; numbers
+        // such as negative amounts are left as they are
+        if (/^[=+\-@]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+          text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+function toNdjsonLine(row: FeeExportRow): string {
+  return `${JSON.stringify(row)}\n`;
+}
+
+function encodeCursor(parts: string[]): string {
+  return Buffer.from(JSON.stringify(parts)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, length: number): string[] {
+  try {
+    const parts = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      Array.isArray(parts) &&
+      parts.length === length &&
+      parts.every((part) => typeof part === 'string')
+    ) {
+      return parts;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestException('Invalid cursor');
+}
@@ -0,0 +1,402 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { FeeReconciliationService } from './fee-reconciliation.service';
+import { ProviderRevenueService } from './provider-revenue.service';
+import { FeeTransaction, FeeStatus } from './entities/fee-transaction.entity';
+import {
+  FeeReconciliationIssue,
+  ReconciliationIssueType,
+} from './entities/fee-reconciliation-issue.entity';
+import {
+  ProviderEarning,
+  ProviderEarningStatus,
+} from './entities/provider-earning.entity';
+
+describe('FeeReconciliationService', () => {
+  let service: FeeReconciliationService;
+
+  const platformKeypair = StellarSdk.Keypair.random();
+  const platformWallet = platformKeypair.publicKey();
+  const usdcIssuer = 'GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5';
+  const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+  const buildFee = (
+    id: string,
+    overrides: Partial<FeeTransaction> = {},
+  ): FeeTransaction =>
+    ({
+      id,
+      userId: 'user-1',
+      feeAmount: '1.0000000',
+      assetCode: 'USDC',
+      assetIssuer: usdcIssuer,
+      status: FeeStatus.COLLECTED,
+      stellarTransactionHash: 'PENDING_USER_SIGNATURE',
+      createdAt: twoHoursAgo,
+      ...overrides,
+    }) as FeeTransaction;
+
+  const buildPayment = (
+    id: string,
+    memo: string,
+    overrides: Record<string, unknown> = {},
+  ) => ({
+    id,
+    type: 'payment',
+    transaction_successful: true,
+    transaction_hash: `hash-${id}`,
+    created_at: new Date().toISOString(),
+    to: platformWallet,
+    asset_type: 'credit_alphanum4',
+    asset_code: 'USDC',
+    asset_issuer: usdcIssuer,
+    amount: '1.0000000',
+    transaction: async () => ({ memo_type: 'text', memo }),
+    ...overrides,
+  });
+
+  const mockManager = {
+    create: jest.fn((_entity, value) => value),
+    save: jest.fn(async (value) => value),
+    findOne: jest.fn(),
+    findOneBy: jest.fn(),
+  };
+
+  const mockFeeTransactionRepository = {
+    find: jest.fn(),
+    save: jest.fn(async (fee) => fee),
+    manager: {
+      transaction: jest.fn(async (work) => work(mockManager)),
+    },
+  };
+
+  const buildEarning = (
+    overrides: Partial<ProviderEarning> = {},
+  ): ProviderEarning =>
+    ({
+      id: 'earning-1',
+      providerId: 'provider-1',
+      feeTransactionId: '22222222-2222-4222-8222-222222222222',
+      amount: '0.2000000',
+      assetCode: 'USDC',
+      status: ProviderEarningStatus.ACCRUED,
+      payoutId: null,
+      ...overrides,
+    }) as ProviderEarning;
+
+  const mockIssueRepository = {
+    create: jest.fn((issue) => issue),
+    save: jest.fn(async (issue) => issue),
+    find: jest.fn(),
+    findOneBy: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockProviderRevenueService = { accrueFromFee: jest.fn() };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'PLATFORM_WALLET_SECRET'
+        ? platformKeypair.secret()
+        : defaultValue,
+    ),
+  };
+
+  const mockPayments = (records: unknown[]) => {
+    const builder: any = {
+      forAccount: () => builder,
+      join: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      call: async () => ({ records, next: jest.fn() }),
+    };
+    jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, 'payments')
+      .mockReturnValue(builder);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeeReconciliationService,
+        {
+          provide: getRepositoryToken(FeeTransaction),
+          useValue: mockFeeTransactionRepository,
+        },
+        {
+          provide: getRepositoryToken(FeeReconciliationIssue),
+          useValue: mockIssueRepository,
+        },
+        {
+          provide: ProviderRevenueService,
+          useValue: mockProviderRevenueService,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<FeeReconciliationService>(FeeReconciliationService);
+    mockIssueRepository.findOneBy.mockResolvedValue(null);
+    mockManager.findOne.mockResolvedValue(null);
+    mockManager.findOneBy.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('reconcile', () => {
+    it('matches fees to payments by memo and records the hash', async () => {
+      const fee = buildFee('11111111-1111-4111-8111-111111111111');
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      mockPayments([buildPayment('op-1', 'Fee:11111111-1111-4111-8')]);
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(result).toMatchObject({ checked: 1, reconciled: 1 });
+      expect(fee.reconciledAt).toBeInstanceOf(Date);
+      expect(fee.stellarTransactionHash).toBe('hash-op-1');
+      expect(mockIssueRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ feeTransactionId: fee.id }),
+        { resolvedAt: fee.reconciledAt },
+      );
+      expect(mockProviderRevenueService.accrueFromFee).toHaveBeenCalledWith(
+        fee,
+      );
+    });
+
+    it('keeps a fee reconciled when the provider share cannot be accrued', async () => {
+      const fee = buildFee('66666666-6666-4666-8666-666666666666');
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      mockPayments([buildPayment('op-1', 'Fee:66666666-6666-4666-8')]);
+      mockProviderRevenueService.accrueFromFee.mockRejectedValueOnce(
+        new Error('Database error'),
+      );
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(result).toMatchObject({ checked: 1, reconciled: 1 });
+      expect(fee.reconciledAt).toBeInstanceOf(Date);
+    });
+
+    it('fails fees with no payment so collection is retried', async () => {
+      const fee = buildFee('22222222-2222-4222-8222-222222222222');
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      mockPayments([]);
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(result.issues[ReconciliationIssueType.MISSING]).toBe(1);
+      expect(fee.status).toBe(FeeStatus.FAILED);
+      expect(mockManager.save).toHaveBeenCalledWith(fee);
+      expect(mockProviderRevenueService.accrueFromFee).not.toHaveBeenCalled();
+      expect(mockIssueRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          feeTransactionId: fee.id,
+          type: ReconciliationIssueType.MISSING,
+          onChainAmount: null,
+        }),
+      );
+    });
+
+    it('only records an issue when the payment scan hit its page limit', async () => {
+      const fee = buildFee('55555555-5555-4555-8555-555555555555');
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      // Full pages of other operations until the scan gives up
+      const page = {
+        records: Array.from({ length: 200 }, (_, index) =>
+          buildPayment(`op-${index}`, '', { type: 'create_account' }),
+        ),
+        next: async () => page,
+      };
+      const builder: any = {
+        forAccount: () => builder,
+        join: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        call: async () => page,
+      };
+      jest
+        .spyOn(StellarSdk.Horizon.Server.prototype, 'payments')
+        .mockReturnValue(builder);
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(result).toMatchObject({ checked: 1, truncated: true });
+      expect(result.issues[ReconciliationIssueType.MISSING]).toBe(1);
+      expect(fee.status).toBe(FeeStatus.COLLECTED);
+      expect(
+        mockFeeTransactionRepository.manager.transaction,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('voids the accrued provider share of a failed fee', async () => {
+      const fee = buildFee('22222222-2222-4222-8222-222222222222');
+      const earning = buildEarning();
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      mockManager.findOne.mockResolvedValue(earning);
+      mockPayments([]);
+
+      await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(mockManager.findOne).toHaveBeenCalledWith(ProviderEarning, {
+        where: { feeTransactionId: fee.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'earning-1',
+          status: ProviderEarningStatus.VOIDED,
+        }),
+      );
+    });
+
+    it('releases a reserved provider share from its payout', async () => {
+      const fee = buildFee('22222222-2222-4222-8222-222222222222');
+      const earning = buildEarning({
+        status: ProviderEarningStatus.RESERVED,
+        payoutId: 'payout-1',
+      });
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      mockManager.findOne.mockResolvedValue(earning);
+      mockPayments([]);
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(earning).toMatchObject({
+        status: ProviderEarningStatus.VOIDED,
+        payoutId: null,
+      });
+      expect(result.issues[ReconciliationIssueType.CLAWBACK]).toBe(0);
+    });
+
+    it('raises a clawback when the provider share was already paid', async () => {
+      const fee = buildFee('22222222-2222-4222-8222-222222222222');
+      const earning = buildEarning({
+        status: ProviderEarningStatus.PAID,
+        payoutId: 'payout-1',
+      });
+      mockFeeTransactionRepository.find.mockResolvedValue([fee]);
+      mockManager.findOne.mockResolvedValue(earning);
+      mockPayments([]);
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(result.issues[ReconciliationIssueType.CLAWBACK]).toBe(1);
+      expect(earning.status).toBe(ProviderEarningStatus.PAID);
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          feeTransactionId: fee.id,
+          type: ReconciliationIssueType.CLAWBACK,
+          expectedAmount: '0.2000000',
+        }),
+      );
+    });
+
+    it('flags duplicate payments and amounts that differ', async () => {
+      const duplicated = buildFee('33333333-3333-4333-8333-333333333333');
+      const underpaid = buildFee('44444444-4444-4444-8444-444444444444');
+      mockFeeTransactionRepository.find.mockResolvedValue([
+        duplicated,
+        underpaid,
+      ]);
+      mockPayments([
+        buildPayment('op-1', 'Fee:33333333-3333-4333-8'),
+        buildPayment('op-2', 'Fee:33333333-3333-4333-8'),
+        buildPayment('op-3', 'Fee:44444444-4444-4444-8', {
+          amount: '0.5000000',
+        }),
+      ]);
+
+      const result = await service.reconcile(
+        new Date(Date.now() - 24 * 60 * 60 * 1000),
+        new Date(),
+      );
+
+      expect(result.issues).toEqual({
+        [ReconciliationIssueType.MISSING]: 0,
+        [ReconciliationIssueType.DUPLICATE]: 1,
+        [ReconciliationIssueType.AMOUNT_MISMATCH]: 1,
+        [ReconciliationIssueType.CLAWBACK]: 0,
+      });
+      expect(mockIssueRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: ReconciliationIssueType.DUPLICATE,
+          onChainAmount: '2.0000000',
+          transactionHashes: ['hash-op-1', 'hash-op-2'],
+        }),
+      );
+      expect(mockIssueRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: ReconciliationIssueType.AMOUNT_MISMATCH,
+          onChainAmount: '0.5000000',
+        }),
+      );
+      expect(duplicated.status).toBe(FeeStatus.COLLECTED);
+    });
+  });
+
+  describe('getReport', () => {
+    it('totals the ledger against reconciled fees', async () => {
+      const missing = buildFee('fee-3', { status: FeeStatus.FAILED });
+      mockFeeTransactionRepository.find.mockResolvedValue([
+        buildFee('fee-1', { reconciledAt: new Date() }),
+        buildFee('fee-2', { feeAmount: '2.5000000' }),
+      ]);
+      mockIssueRepository.find.mockResolvedValue([
+        {
+          feeTransactionId: 'fee-3',
+          feeTransaction: missing,
+          type: ReconciliationIssueType.MISSING,
+        },
+        {
+          feeTransactionId: 'fee-3',
+          feeTransaction: missing,
+          type: ReconciliationIssueType.CLAWBACK,
+        },
+      ]);
+
+      const report = await service.getReport(
+        new Date('2025-01-01T00:00:00Z'),
+        new Date('2025-02-01T00:00:00Z'),
+      );
+
+      expect(report).toMatchObject({
+        collectedCount: 3,
+        reconciledCount: 1,
+        ledgerTotal: '4.5000000',
+        reconciledTotal: '1.0000000',
+        issuesByType: {
+          [ReconciliationIssueType.MISSING]: 1,
+          [ReconciliationIssueType.DUPLICATE]: 0,
+          [ReconciliationIssueType.AMOUNT_MISMATCH]: 0,
+          [ReconciliationIssueType.CLAWBACK]: 1,
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Between, In, IsNull, Not, Repository } from 'typeorm';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Keypair } from '@stellar/stellar-sdk';
+import Big from 'big.js';
+import { FeeTransaction, FeeStatus } from './entities/fee-transaction.entity';
+import {
+  FeeReconciliationIssue,
+  ReconciliationIssueType,
+} from './entities/fee-reconciliation-issue.entity';
+import {
+  ProviderEarning,
+  ProviderEarningStatus,
+} from './entities/provider-earning.entity';
+import {
+  FeeReconciliationReportDto,
+  ReconciliationRunResultDto,
+} from './dto/fee-summary.dto';
+import { ProviderRevenueService } from './provider-revenue.service';
+
+// Fees younger than this may still be waiting on the user's signature
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+// How far back the scheduled run looks
+const SCHEDULED_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const PAYMENTS_PAGE_SIZE = 200;
+const MAX_PAYMENT_PAGES = 50;
+
+interface OnChainPayment {
+  id: string;
+  transactionHash: string;
+  memo: string | null;
+  amount: string;
+  assetCode: string;
+  assetIssuer: string | null;
+}
+
+interface PaymentScan {
+  payments: OnChainPayment[];
+  // Set when the scan stopped at MAX_PAYMENT_PAGES before reaching since
+  truncated: boolean;
+  // Oldest point the scan covers
+  scannedSince: Date;
+}
+
+/**
+ * Checks the fee ledger against the platform wallet's payments on Horizon.
+ * Fees are matched by their "Fee:" memo or transaction hash, and a matched
+ * fee accrues its provider's revenue share. Missing payments fail the fee
+ * so retryFailedCollections picks it up, unless the payment scan was cut
+ * short and may not have reached it, and take back the provider's share of
+ * it. Duplicates, amount mismatches and shares already paid out are left
+ * as open issues for finance.
+ */
+@Injectable()
+export class FeeReconciliationService {
+  private readonly logger = new Logger(FeeReconciliationService.name);
+  private readonly stellarServer: StellarSdk.Horizon.Server;
+  private readonly platformWallet?: string;
+
+  constructor(
+    @InjectRepository(FeeTransaction)
+    private readonly feeTransactionRepository: Repository<FeeTransaction>,
+    @InjectRepository(FeeReconciliationIssue)
+    private readonly issueRepository: Repository<FeeReconciliationIssue>,
+    private readonly providerRevenueService: ProviderRevenueService,
+    private readonly configService: ConfigService,
+  ) {
+    this.stellarServer = new StellarSdk.Horizon.Server(
+      this.configService.get<string>(
+        'STELLAR_HORIZON_URL',
+        'https://horizon-testnet.stellar.org',
+      ),
+    );
+
+    const platformSecret = this.configService.get<string>(
+      'PLATFORM_WALLET_SECRET',
+    );
+    if (platformSecret) {
+      this.platformWallet = Keypair.fromSecret(platformSecret).publicKey();
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async reconcileRecent(): Promise<ReconciliationRunResultDto> {
+    const end = new Date();
+    return this.reconcile(new Date(end.getTime() - SCHEDULED_LOOKBACK_MS), end);
+  }
+
+  /**
+   * Reconcile collected fees created in the period. Fees inside the grace
+   * period are left for a later run.
+   */
+  async reconcile(
+    startDate: Date,
+    endDate: Date,
+  ): Promise<ReconciliationRunResultDto> {
+    const result: ReconciliationRunResultDto = {
+      checked: 0,
+      reconciled: 0,
+      paymentsScanned: 0,
+      truncated: false,
+      issues: {
+        [ReconciliationIssueType.MISSING]: 0,
+        [ReconciliationIssueType.DUPLICATE]: 0,
+        [ReconciliationIssueType.AMOUNT_MISMATCH]: 0,
+        [ReconciliationIssueType.CLAWBACK]: 0,
+      },
+    };
+
+    if (!this.platformWallet) {
+      this.logger.warn(
+        'Platform wallet secret not configured, skipping reconciliation',
+      );
+      return result;
+    }
+
+    const cutoff = new Date(
+      Math.min(endDate.getTime(), Date.now() - GRACE_PERIOD_MS),
+    );
+    if (cutoff <= startDate) {
+      return result;
+    }
+
+    const fees = await this.feeTransactionRepository.find({
+      where: {
+        status: FeeStatus.COLLECTED,
+        reconciledAt: IsNull(),
+        createdAt: Between(startDate, cutoff),
+      },
+    });
+    if (fees.length === 0) {
+      return result;
+    }
+
+    const scan = await this.fetchFeePayments(startDate);
+    const { payments } = scan;
+    result.paymentsScanned = payments.length;
+    result.truncated = scan.truncated;
+
+    for (const fee of fees) {
+      result.checked++;
+      const matches = this.findPayments(fee, payments);
+      const issueType = this.classify(fee, matches);
+
+      if (!issueType) {
+        await this.markReconciled(fee, matches[0]);
+        result.reconciled++;
+        continue;
+      }
+
+      await this.recordIssue(fee, issueType, matches);
+      result.issues[issueType]++;
+
+      // A payment outside a partial scan may still exist, so only a
+      // complete scan can fail the fee
+      const scanCoversFee =
+        !scan.truncated && fee.createdAt >= scan.scannedSince;
+      if (issueType === ReconciliationIssueType.MISSING && scanCoversFee) {
+        if (await this.failFee(fee)) {
+          result.issues[ReconciliationIssueType.CLAWBACK]++;
+        }
+      }
+    }
+
+    this.logger.log(
+      `Reconciled ${result.reconciled} of ${result.checked} fees against ${result.paymentsScanned} payments`,
+    );
+
+    return result;
+  }
+
+  async getReport(
+    startDate: Date,
+    endDate: Date,
+  ): Promise<FeeReconciliationReportDto> {
+    const [collected, issues] = await Promise.all([
+      this.feeTransactionRepository.find({
+        where: {
+          status: FeeStatus.COLLECTED,
+          createdAt: Between(startDate, endDate),
+        },
+      }),
+      this.issueRepository.find({
+        where: {
+          resolvedAt: IsNull(),
+          feeTransaction: { createdAt: Between(startDate, endDate) },
+        },
+        relations: ['feeTransaction'],
+        order: { detectedAt: 'DESC' },
+      }),
+    ]);
+
+    // Fees failed by reconciliation still count towards the ledger
+    const fees = new Map(collected.map((fee) => [fee.id, fee]));
+    for (const issue of issues) {
+      fees.set(issue.feeTransactionId, issue.feeTransaction);
+    }
+
+    let ledgerTotal = new Big(0);
+    let reconciledTotal = new Big(0);
+    let reconciledCount = 0;
+    for (const fee of fees.values()) {
+      ledgerTotal = ledgerTotal.plus(new Big(fee.feeAmount));
+      if (fee.reconciledAt) {
+        reconciledTotal = reconciledTotal.plus(new Big(fee.feeAmount));
+        reconciledCount++;
+      }
+    }
+
+    const issuesByType = {
+      [ReconciliationIssueType.MISSING]: 0,
+      [ReconciliationIssueType.DUPLICATE]: 0,
+      [ReconciliationIssueType.AMOUNT_MISMATCH]: 0,
+      [ReconciliationIssueType.CLAWBACK]: 0,
+    };
+    for (const issue of issues) {
+      issuesByType[issue.type]++;
+    }
+
+    return {
+      periodStart: startDate,
+      periodEnd: endDate,
+      collectedCount: fees.size,
+      reconciledCount,
+      ledgerTotal: ledgerTotal.toFixed(7),
+      reconciledTotal: reconciledTotal.toFixed(7),
+      issuesByType,
+      issues,
+    };
+  }
+
+  /**
+   * Successful payments into the platform wallet, newest first, back to
+   * the start of the period or as far as MAX_PAYMENT_PAGES reaches
+   */
+  private async fetchFeePayments(since: Date): Promise<PaymentScan> {
+    const payments: OnChainPayment[] = [];
+    let scannedSince = new Date();
+    let page = await this.stellarServer
+      .payments()
+      .forAccount(this.platformWallet!)
+      .join('transactions')
+      .order('desc')
+      .limit(PAYMENTS_PAGE_SIZE)
+      .call();
+
+    for (let pages = 0; pages < MAX_PAYMENT_PAGES; pages++) {
+      for (const record of page.records) {
+        const createdAt = new Date(record.created_at);
+        if (createdAt < since) {
+          return { payments, truncated: false, scannedSince: since };
+        }
+        scannedSince = createdAt;
+        if (
+          record.type !== 'payment' ||
+          !record.transaction_successful ||
+          record.to !== this.platformWallet
+        ) {
+          continue;
+        }
+
+        const transaction = await record.transaction();
+        payments.push({
+          id: record.id,
+          transactionHash: record.transaction_hash,
+          memo:
+            transaction.memo_type === 'text'
+              ? (transaction.memo ?? null)
+              : null,
+          amount: record.amount,
+          assetCode:
+            record.asset_type === 'native' ? 'XLM' : record.asset_code!,
+          assetIssuer:
+            record.asset_type === 'native' ? null : record.asset_issuer!,
+        });
+      }
+
+      if (page.records.length < PAYMENTS_PAGE_SIZE) {
+        return { payments, truncated: false, scannedSince: since };
+      }
+      page = await page.next();
+    }
+
+    this.logger.warn(
+      `Stopped scanning platform payments after ${MAX_PAYMENT_PAGES} pages at ${scannedSince.toISOString()}`,
+    );
+    return { payments, truncated: true, scannedSince };
+  }
+
+  /**
+   * Payments whose memo is the fee's collection memo, or whose hash is the
+   * one recorded on the fee
+   */
+  private findPayments(
+    fee: FeeTransaction,
+    payments: OnChainPayment[],
+  ): OnChainPayment[] {
+    const memo = `Fee:${fee.id.substring(0, 20)}`;
+    return payments.filter(
+      (payment) =>
+        payment.memo === memo ||
+        payment.transactionHash === fee.stellarTransactionHash,
+    );
+  }
+
+  private classify(
+    fee: FeeTransaction,
+    matches: OnChainPayment[],
+  ): ReconciliationIssueType | null {
+    if (matches.length === 0) {
+      return ReconciliationIssueType.MISSING;
+    }
+    if (matches.length > 1) {
+      return ReconciliationIssueType.DUPLICATE;
+    }
+
+    const [payment] = matches;
+    const sameAsset =
+      payment.assetCode === fee.assetCode &&
+      (payment.assetIssuer === null || payment.assetIssuer === fee.assetIssuer);
+    if (!sameAsset || !new Big(payment.amount).eq(new Big(fee.feeAmount))) {
+      return ReconciliationIssueType.AMOUNT_MISMATCH;
+    }
+
+    return null;
+  }
+
+  private async markReconciled(
+    fee: FeeTransaction,
+    payment: OnChainPayment,
+  ): Promise<void> {
+    fee.reconciledAt = new Date();
+    fee.stellarTransactionHash = payment.transactionHash;
+    await this.feeTransactionRepository.save(fee);
+
+    await this.issueRepository.update(
+      { feeTransactionId: fee.id, resolvedAt: IsNull() },
+      { resolvedAt: fee.reconciledAt },
+    );
+
+    // The fee is settled either way, so a failed accrual is only logged
+    try {
+      await this.providerRevenueService.accrueFromFee(fee);
+    } catch (error) {
+      this.logger.error(
+        `Provider share accrual failed for fee ${fee.id}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Fail a fee with no payment and, in the same transaction, take back its
+   * provider share: an accrued share is voided, a reserved one is released
+   * from its payout and voided, and a paid one is raised as a clawback
+   * issue. Returns whether a clawback was raised.
+   */
+  private async failFee(fee: FeeTransaction): Promise<boolean> {
+    fee.status = FeeStatus.FAILED;
+    fee.failureReason = 'Reconciliation: no matching on-chain payment';
+
+    return this.feeTransactionRepository.manager.transaction(
+      async (manager) => {
+        await manager.save(fee);
+
+        const earning = await manager.findOne(ProviderEarning, {
+          where: { feeTransactionId: fee.id },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!earning || earning.status === ProviderEarningStatus.VOIDED) {
+          return false;
+        }
+
+        if (earning.status !== ProviderEarningStatus.PAID) {
+          earning.status = ProviderEarningStatus.VOIDED;
+          earning.payoutId = null;
+          await manager.save(earning);
+          return false;
+        }
+
+        const existing = await manager.findOneBy(FeeReconciliationIssue, {
+          feeTransactionId: fee.id,
+          type: ReconciliationIssueType.CLAWBACK,
+          resolvedAt: IsNull(),
+        });
+        if (existing) {
+          return false;
+        }
+
+        await manager.save(
+          manager.create(FeeReconciliationIssue, {
+            feeTransactionId: fee.id,
+            type: ReconciliationIssueType.CLAWBACK,
+            expectedAmount: earning.amount,
+            onChainAmount: null,
+            transactionHashes: [],
+            detail: this.describe(fee, ReconciliationIssueType.CLAWBACK, []),
+            resolvedAt: null,
+          }),
+        );
+        return true;
+      },
+    );
+  }
+
+  /**
+   * Open an issue, or refresh the open issue of the same type. Open issues
+   * of other types no longer apply and are resolved, except clawbacks,
+   * which stand until the fee is matched.
+   */
+  private async recordIssue(
+    fee: FeeTransaction,
+    type: ReconciliationIssueType,
+    matches: OnChainPayment[],
+  ): Promise<void> {
+    const onChainAmount =
+      matches.length > 0
+        ? matches
+            .reduce(
+              (sum, payment) => sum.plus(new Big(payment.amount)),
+              new Big(0),
+            )
+            .toFixed(7)
+        : null;
+
+    await this.issueRepository.update(
+      {
+        feeTransactionId: fee.id,
+        type: Not(In([type, ReconciliationIssueType.CLAWBACK])),
+        resolvedAt: IsNull(),
+      },
+      { resolvedAt: new Date() },
+    );
+
+    const existing = await this.issueRepository.findOneBy({
+      feeTransactionId: fee.id,
+      type,
+      resolvedAt: IsNull(),
+    });
+
+    await this.issueRepository.save(
+      this.issueRepository.create({
+        ...existing,
+        feeTransactionId: fee.id,
+        type,
+        expectedAmount: fee.feeAmount,
+        onChainAmount,
+        transactionHashes: [
+          ...new Set(matches.map((payment) => payment.transactionHash)),
+        ],
+        detail: this.describe(fee, type, matches),
+        resolvedAt: null,
+      }),
+    );
+  }
+
+  private describe(
+    fee: FeeTransaction,
+    type: ReconciliationIssueType,
+    matches: OnChainPayment[],
+  ): string {
+    switch (type) {
+      case ReconciliationIssueType.MISSING:
+        return `No payment found for fee of ${fee.feeAmount} ${fee.assetCode}`;
+      case ReconciliationIssueType.DUPLICATE:
+        return `${matches.length} payments found for fee of ${fee.feeAmount} ${fee.assetCode}`;
+      case ReconciliationIssueType.AMOUNT_MISMATCH:
+        return `Paid ${matches[0].amount} ${matches[0].assetCode}, expected ${fee.feeAmount} ${fee.assetCode}`;
+      case ReconciliationIssueType.CLAWBACK:
+        return `Provider share was paid out, but no payment found for fee of ${fee.feeAmount} ${fee.assetCode}`;
+    }
+  }
+}
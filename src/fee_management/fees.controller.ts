@@ -2,12 +2,18 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Query,
   Param,
   Body,
   UseGuards,
   HttpCode,
   HttpStatus,
+  Logger,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Res,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -15,8 +21,17 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiParam,
+  ApiProduces,
 } from '@nestjs/swagger';
+import { Response } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { FeesService } from './fees.service';
+import { ProviderRevenueService } from './provider-revenue.service';
+import { PromotionsService } from './promotions.service';
+import { FeeReconciliationService } from './fee-reconciliation.service';
+import { FeeExportService } from './fee-export.service';
 import {
   FeeSummaryDto,
   UserFeeSummaryDto,
@@ -24,17 +39,44 @@ import {
   GetFeeHistoryDto,
   FeeConfigDto,
   MonthlyRevenueReportDto,
+  ProviderEarningsSummaryDto,
+  GetProviderPayoutsDto,
+  ReconciliationPeriodDto,
+  ReconciliationRunResultDto,
+  FeeReconciliationReportDto,
 } from './dto/fee-summary.dto';
 import { FeeTransaction } from './entities/fee-transaction.entity';
-
-// Mock auth guard - replace with your actual auth guard
-class JwtAuthGuard {}
-class AdminGuard {}
+import { ProviderPayout } from './entities/provider-payout.entity';
+import { Promotion } from './entities/promotion.entity';
+import {
+  FeeExport,
+  FeeExportFormat,
+  FeeExportReport,
+} from './entities/fee-export.entity';
+import { CreateFeeExportDto, FeeExportQueryDto } from './dto/fee-export.dto';
+import {
+  ActiveDiscountDto,
+  ApplyPromotionDto,
+  CreatePromotionDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/jwt-payload.interface';
 
 @ApiTags('Fees')
 @Controller('fees')
 export class FeesController {
-  constructor(private readonly feesService: FeesService) {}
+  private readonly logger = new Logger(FeesController.name);
+
+  constructor(
+    private readonly feesService: FeesService,
+    private readonly providerRevenueService: ProviderRevenueService,
+    private readonly promotionsService: PromotionsService,
+    private readonly feeReconciliationService: FeeReconciliationService,
+    private readonly feeExportService: FeeExportService,
+  ) {}
 
   @Get('config')
   @ApiOperation({ summary: 'Get current fee configuration' })
@@ -121,12 +163,33 @@ export class FeesController {
     description: 'User fee summary retrieved successfully',
     type: UserFeeSummaryDto,
   })
+  @ApiResponse({ status: 403, description: 'Not the signed-in user' })
   async getUserFeeSummary(
-    @Param('userId') userId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('userId', ParseUUIDPipe) userId: string,
   ): Promise<UserFeeSummaryDto> {
+    await this.feesService.assertAccountOwner(userId, user.publicKey);
     return this.feesService.getUserFeeSummary(userId);
   }
 
+  @Get('user/:userId/discounts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get a user's active fee discounts" })
+  @ApiResponse({
+    status: 200,
+    description: 'Active discounts retrieved successfully',
+    type: [ActiveDiscountDto],
+  })
+  @ApiResponse({ status: 403, description: 'Not the signed-in user' })
+  async getActiveDiscounts(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ): Promise<ActiveDiscountDto[]> {
+    await this.feesService.assertAccountOwner(userId, user.publicKey);
+    return this.promotionsService.getActiveDiscounts(userId);
+  }
+
   @Get('platform/summary')
   @UseGuards(JwtAuthGuard, AdminGuard)
   @ApiBearerAuth()
@@ -164,6 +227,169 @@ export class FeesController {
     return this.feesService.generateMonthlyReport(+year, +month);
   }
 
+  @Get('exports/:report')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Export fee history, user fee summaries or monthly revenue',
+  })
+  @ApiParam({ name: 'report', enum: FeeExportReport })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  @ApiResponse({
+    status: 200,
+    description:
+      'CSV of the whole period, or one NDJSON page with the next page in X-Next-Cursor',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid period, or too long to export without a job',
+  })
+  async exportReport(
+    @Param('report', new ParseEnumPipe(FeeExportReport))
+    report: FeeExportReport,
+    @Query() query: FeeExportQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { format, cursor, limit, ...filters } = query;
+    const filename = `${report}_${filters.startDate.slice(0, 10)}_${filters.endDate.slice(0, 10)}`;
+
+    if (format === FeeExportFormat.NDJSON) {
+      this.feeExportService.assertExportable(filters, false);
+      const page = await this.feeExportService.getPage(
+        report,
+        filters,
+        cursor ?? null,
+        limit ?? 1000,
+      );
+
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}.ndjson"`,
+      );
+      if (page.nextCursor) {
+        res.setHeader('X-Next-Cursor', page.nextCursor);
+      }
+      res.send(this.feeExportService.toNdjson(page.rows));
+      return;
+    }
+
+    this.feeExportService.assertExportable(filters, true);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${filename}.csv"`,
+    );
+
+    try {
+      await pipeline(
+        Readable.from(
+          this.feeExportService.stream(report, FeeExportFormat.CSV, filters),
+        ),
+        res,
+      );
+    } catch (error) {
+      // Headers are already sent, so the client only sees a cut-off file
+      this.logger.error(
+        `Streaming ${report} export failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @Post('exports')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Queue a fee export for a long period' })
+  @ApiResponse({ status: 202, description: 'Export queued' })
+  @ApiResponse({ status: 400, description: 'Invalid period' })
+  async requestExport(@Body() dto: CreateFeeExportDto): Promise<FeeExport> {
+    return this.feeExportService.requestExport(dto);
+  }
+
+  @Get('exports/jobs/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the status of a queued fee export' })
+  @ApiResponse({ status: 200, description: 'Export retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Export not found' })
+  async getExport(@Param('id', ParseUUIDPipe) id: string): Promise<FeeExport> {
+    return this.feeExportService.findOne(id);
+  }
+
+  @Get('exports/jobs/:id/download')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download a finished fee export' })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 400, description: 'Export not finished yet' })
+  @ApiResponse({ status: 404, description: 'Export not found or expired' })
+  async downloadExport(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { feeExport, file } = await this.feeExportService.getDownload(id);
+    const { startDate, endDate } = feeExport.filters;
+    const isCsv = feeExport.format === FeeExportFormat.CSV;
+
+    res.setHeader(
+      'Content-Type',
+      isCsv ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${feeExport.report}_${startDate.slice(0, 10)}_${endDate.slice(0, 10)}.${feeExport.format}"`,
+    );
+
+    try {
+      await pipeline(file, res);
+    } catch (error) {
+      this.logger.error(
+        `Downloading fee export ${id} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @Post('reconciliation/run')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reconcile collected fees against on-chain payments',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation completed',
+    type: ReconciliationRunResultDto,
+  })
+  async runReconciliation(
+    @Body() period: ReconciliationPeriodDto,
+  ): Promise<ReconciliationRunResultDto> {
+    return this.feeReconciliationService.reconcile(
+      new Date(period.startDate),
+      new Date(period.endDate),
+    );
+  }
+
+  @Get('reconciliation/report')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get fee reconciliation report for a period' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reconciliation report retrieved successfully',
+    type: FeeReconciliationReportDto,
+  })
+  async getReconciliationReport(
+    @Query() period: ReconciliationPeriodDto,
+  ): Promise<FeeReconciliationReportDto> {
+    return this.feeReconciliationService.getReport(
+      new Date(period.startDate),
+      new Date(period.endDate),
+    );
+  }
+
   @Post('retry-failed')
   @UseGuards(JwtAuthGuard, AdminGuard)
   @ApiBearerAuth()
@@ -181,6 +407,59 @@ export class FeesController {
     return this.feesService.retryFailedCollections();
   }
 
+  @Get('providers/:providerId/earnings')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get a provider's revenue share earnings" })
+  @ApiResponse({
+    status: 200,
+    description: 'Provider earnings retrieved successfully',
+    type: ProviderEarningsSummaryDto,
+  })
+  @ApiResponse({ status: 403, description: 'Not the signed-in provider' })
+  async getProviderEarnings(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('providerId', ParseUUIDPipe) providerId: string,
+  ): Promise<ProviderEarningsSummaryDto> {
+    await this.feesService.assertAccountOwner(providerId, user.publicKey);
+    return this.providerRevenueService.getEarningsSummary(providerId);
+  }
+
+  @Get('providers/:providerId/payouts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get a provider's payout history" })
+  @ApiResponse({
+    status: 200,
+    description: 'Payout history retrieved successfully',
+  })
+  @ApiResponse({ status: 403, description: 'Not the signed-in provider' })
+  async getProviderPayouts(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('providerId', ParseUUIDPipe) providerId: string,
+    @Query() query: GetProviderPayoutsDto,
+  ): Promise<{ data: ProviderPayout[]; total: number }> {
+    await this.feesService.assertAccountOwner(providerId, user.publicKey);
+    return this.providerRevenueService.getPayoutHistory(
+      providerId,
+      query.page,
+      query.limit,
+    );
+  }
+
+  @Post('providers/payouts/run')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pay out accrued provider earnings now' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payout run completed',
+  })
+  async runProviderPayouts(): Promise<ProviderPayout[]> {
+    return this.providerRevenueService.processPayouts();
+  }
+
   @Post('promotion/apply')
   @UseGuards(JwtAuthGuard, AdminGuard)
   @ApiBearerAuth()
@@ -190,13 +469,12 @@ export class FeesController {
     status: 200,
     description: 'Promotional rate applied successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Promotion unavailable or user ineligible',
+  })
   async applyPromotionalRate(
-    @Body()
-    body: {
-      userId: string;
-      promotionCode: string;
-      customRate: string;
-    },
+    @Body() body: ApplyPromotionDto,
   ): Promise<{ message: string }> {
     await this.feesService.applyPromotionalRate(
       body.userId,
@@ -205,4 +483,60 @@ export class FeesController {
     );
     return { message: 'Promotional rate applied successfully' };
   }
-}
\ No newline at end of file
+
+  @Post('promotions')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a fee promotion' })
+  @ApiResponse({ status: 201, description: 'Promotion created successfully' })
+  @ApiResponse({ status: 409, description: 'Promotion code already exists' })
+  async createPromotion(@Body() dto: CreatePromotionDto): Promise<Promotion> {
+    return this.promotionsService.create(dto);
+  }
+
+  @Get('promotions')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List fee promotions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Promotions retrieved successfully',
+  })
+  async getPromotions(): Promise<Promotion[]> {
+    return this.promotionsService.findAll();
+  }
+
+  @Get('promotions/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a fee promotion' })
+  @ApiResponse({ status: 200, description: 'Promotion retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  async getPromotion(@Param('id') id: string): Promise<Promotion> {
+    return this.promotionsService.findOne(id);
+  }
+
+  @Patch('promotions/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a fee promotion' })
+  @ApiResponse({ status: 200, description: 'Promotion updated successfully' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  async updatePromotion(
+    @Param('id') id: string,
+    @Body() dto: UpdatePromotionDto,
+  ): Promise<Promotion> {
+    return this.promotionsService.update(id, dto);
+  }
+
+  @Delete('promotions/:id')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a fee promotion and its redemptions' })
+  @ApiResponse({ status: 204, description: 'Promotion deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  async deletePromotion(@Param('id') id: string): Promise<void> {
+    return this.promotionsService.remove(id);
+  }
+}
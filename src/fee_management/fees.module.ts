@@ -1,17 +1,81 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { ConfigModule } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { FeesService } from './fees.service';
 import { FeesController } from './fees.controller';
+import { ProviderRevenueService } from './provider-revenue.service';
+import { PromotionsService } from './promotions.service';
+import { FeeReconciliationService } from './fee-reconciliation.service';
+import { FeeExportService, FEE_EXPORTS_QUEUE } from './fee-export.service';
+import { GenerateFeeExportJob } from './jobs/generate-fee-export.job';
 import { FeeTransaction } from './entities/fee-transaction.entity';
+import { FeeReconciliationIssue } from './entities/fee-reconciliation-issue.entity';
+import { FeeExport } from './entities/fee-export.entity';
+import { ProviderEarning } from './entities/provider-earning.entity';
+import { ProviderPayout } from './entities/provider-payout.entity';
+import { Promotion } from './entities/promotion.entity';
+import { PromotionRedemption } from './entities/promotion-redemption.entity';
+import { Signal } from '../signals/entities/signal.entity';
+import { Trade } from '../trades/entities/trade.entity';
+import { User } from '../users/entities/user.entity';
+import { BetaUser } from '../beta/entities/beta-user.entity';
+import { ProvidersModule } from '../stake-verification/providers.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([FeeTransaction]),
+    TypeOrmModule.forFeature([
+      FeeTransaction,
+      FeeReconciliationIssue,
+      FeeExport,
+      ProviderEarning,
+      ProviderPayout,
+      Promotion,
+      PromotionRedemption,
+      Signal,
+      Trade,
+      User,
+      BetaUser,
+    ]),
     ConfigModule,
+    ProvidersModule,
+    BullModule.registerQueueAsync({
+      name: FEE_EXPORTS_QUEUE,
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('redis.host') ?? 'localhost',
+          port: configService.get<number>('redis.port') ?? 6379,
+          password: configService.get<string>('redis.password'),
+          db: configService.get<number>('redis.db') ?? 0,
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      }),
+    }),
   ],
   controllers: [FeesController],
-  providers: [FeesService],
-  exports: [FeesService],
+  providers: [
+    FeesService,
+    ProviderRevenueService,
+    PromotionsService,
+    FeeReconciliationService,
+    FeeExportService,
+    GenerateFeeExportJob,
+  ],
+  exports: [
+    FeesService,
+    ProviderRevenueService,
+    PromotionsService,
+    FeeReconciliationService,
+  ],
 })
 export class FeesModule {}
\ No newline at end of file
@@ -2,6 +2,7 @@ import {
   Injectable,
   Logger,
   BadRequestException,
+  ForbiddenException,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -23,6 +24,9 @@ import {
   FeeConfigDto,
   MonthlyRevenueReportDto,
 } from './dto/fee-summary.dto';
+import { PromotionsService } from './promotions.service';
+import { User } from '../users/entities/user.entity';
+import { StakeVerificationService } from '../stake-verification/stake-verification.service';
 
 interface TradeDetails {
   userId: string;
@@ -33,6 +37,14 @@ interface TradeDetails {
   userPublicKey?: string;
 }
 
+interface ResolvedFeeTier {
+  feeTier: FeeTier;
+  feeRate: string;
+  // Set when a promotion replaced the user's tier rate
+  promotionCode?: string;
+  originalFeeRate?: string;
+}
+
 interface FeeCollectionResult {
   success: boolean;
   feeTransaction: FeeTransaction;
@@ -55,7 +67,11 @@ export class FeesService {
   constructor(
     @InjectRepository(FeeTransaction)
     private readonly feeTransactionRepository: Repository<FeeTransaction>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
     private readonly configService: ConfigService,
+    private readonly promotionsService: PromotionsService,
+    private readonly stakeVerificationService: StakeVerificationService,
   ) {
     // Initialize Stellar configuration
     this.networkPassphrase = this.configService.get<string>(
@@ -92,6 +108,19 @@ export class FeesService {
     this.logger.debug(`Network passphrase: ${this.networkPassphrase}`);
   }
 
+  /**
+   * Throws unless the user with this ID is the signed-in wallet
+   */
+  async assertAccountOwner(
+    userId: string,
+    walletAddress: string,
+  ): Promise<void> {
+    const user = await this.userRepository.findOneBy({ id: userId });
+    if (user?.walletAddress !== walletAddress) {
+      throw new ForbiddenException('Only the account owner can view this');
+    }
+  }
+
   /**
    * Calculate fee for a trade based on user's tier
    */
@@ -104,8 +133,8 @@ export class FeesService {
       }
 
       // Determine user's fee tier
-      const feeTier = await this.determineUserFeeTier(tradeDetails.userId);
-      const feeRate = this.getFeeRateForTier(feeTier);
+      const { feeTier, feeRate, promotionCode, originalFeeRate } =
+        await this.determineUserFeeTier(tradeDetails.userId);
 
       // Calculate fee: tradeAmount * feeRate
       const feeAmount = tradeAmount.times(new Big(feeRate));
@@ -122,6 +151,8 @@ export class FeesService {
         feeTier,
         netAmount: roundedNetAmount,
         assetCode: tradeDetails.assetCode,
+        promotionCode,
+        originalFeeRate,
       };
     } catch (error: any) {
       this.logger.error(`Fee calculation failed: ${error.message}`, error.stack);
@@ -153,6 +184,12 @@ export class FeesService {
         assetIssuer: tradeDetails.assetIssuer,
         platformWalletAddress: this.platformWallet,
         status: FeeStatus.PENDING,
+        metadata: feeCalculation.promotionCode
+          ? {
+              promotionCode: feeCalculation.promotionCode,
+              originalFeeRate: feeCalculation.originalFeeRate,
+            }
+          : {},
       }) as FeeTransaction;
 
       await this.feeTransactionRepository.save(feeTransaction);
@@ -165,6 +202,7 @@ export class FeesService {
         );
 
         if (collectionResult.success) {
+          await this.recordPromotionUsage(collectionResult.feeTransaction);
           return collectionResult;
         } else {
           // Mark as failed but don't throw - allow retry
@@ -177,6 +215,7 @@ export class FeesService {
         // No wallet configured - mark as collected (will be collected later)
         feeTransaction.status = FeeStatus.COLLECTED;
         await this.feeTransactionRepository.save(feeTransaction);
+        await this.recordPromotionUsage(feeTransaction);
 
         return {
           success: true,
@@ -204,6 +243,33 @@ export class FeesService {
     }
   }
 
+  /**
+   * Count a promotional fee against the user's promotion uses
+   */
+  private async recordPromotionUsage(
+    feeTransaction: FeeTransaction,
+  ): Promise<void> {
+    const promotionCode = feeTransaction.metadata?.promotionCode;
+    if (!promotionCode) return;
+
+    try {
+      const counted = await this.promotionsService.recordUsage(
+        feeTransaction.userId,
+        promotionCode,
+      );
+      if (!counted) {
+        this.logger.warn(
+          `Promotion ${promotionCode} had no uses left for fee ${feeTransaction.id}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Promotion usage not recorded for fee ${feeTransaction.id}: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
   /**
    * Collect fee to platform Stellar wallet
    */
@@ -393,8 +459,8 @@ export class FeesService {
       totalTradeVolume = totalTradeVolume.plus(new Big(fee.tradeAmount));
     }
 
-    const currentFeeTier = await this.determineUserFeeTier(userId);
-    const currentFeeRate = this.getFeeRateForTier(currentFeeTier);
+    const { feeTier: currentFeeTier, feeRate: currentFeeRate } =
+      await this.determineUserFeeTier(userId);
 
     // Calculate savings
     let feesSaved = new Big(0);
@@ -538,6 +604,8 @@ export class FeesService {
 
     let totalRevenue = new Big(0);
     let totalVolume = new Big(0);
+    let reconciledRevenue = new Big(0);
+    let unreconciledTransactions = 0;
     const revenueByTier: any = {};
     const revenueByAsset: any = {};
     const userFees: Map<string, { totalFees: Big; tradeCount: number }> =
@@ -547,6 +615,13 @@ export class FeesService {
       totalRevenue = totalRevenue.plus(new Big(fee.feeAmount));
       totalVolume = totalVolume.plus(new Big(fee.tradeAmount));
 
+      // Matched to an on-chain payment by reconciliation
+      if (fee.reconciledAt) {
+        reconciledRevenue = reconciledRevenue.plus(new Big(fee.feeAmount));
+      } else {
+        unreconciledTransactions++;
+      }
+
       // By tier
       if (!revenueByTier[fee.feeTier]) {
         revenueByTier[fee.feeTier] = new Big(0);
@@ -623,6 +698,8 @@ export class FeesService {
       topUsers: topUsersArray,
       failedCollectionsTotal: failedCollectionsTotal.toFixed(7),
       averageFeePerTransaction: averageFeePerTransaction.toFixed(7),
+      reconciledRevenue: reconciledRevenue.toFixed(7),
+      unreconciledTransactions,
     };
   }
 
@@ -640,16 +717,28 @@ export class FeesService {
   }
 
   /**
-   * Determine user's fee tier based on volume and VIP status
+   * Determine user's fee tier based on stake, volume and promotions. A
+   * promotion only applies when it beats the user's tier rate.
    */
-  private async determineUserFeeTier(userId: string): Promise<FeeTier> {
-    // Check for promotional tier first
-    const hasPromotion = await this.checkUserPromotion(userId);
-    if (hasPromotion) {
-      return FeeTier.PROMOTIONAL;
+  private async determineUserFeeTier(userId: string): Promise<ResolvedFeeTier> {
+    const tier = await this.determineBaseFeeTier(userId);
+    const tierRate = this.getFeeRateForTier(tier);
+
+    const promotion = await this.promotionsService.getBestDiscount(userId);
+    if (promotion && new Big(promotion.feeRate).lt(new Big(tierRate))) {
+      return {
+        feeTier: FeeTier.PROMOTIONAL,
+        feeRate: promotion.feeRate,
+        promotionCode: promotion.code,
+        originalFeeRate: tierRate,
+      };
     }
 
-    // Check VIP status (would integrate with user service)
+    return { feeTier: tier, feeRate: tierRate };
+  }
+
+  private async determineBaseFeeTier(userId: string): Promise<FeeTier> {
+    // VIP status comes from the user's stake
     const isVIP = await this.checkVIPStatus(userId);
     if (isVIP) {
       return FeeTier.VIP;
@@ -705,33 +794,44 @@ export class FeesService {
   }
 
   /**
-   * Check if user has VIP status (stub - integrate with user service)
+   * Check if user's wallet stakes at least the VIP minimum. Stake lookups
+   * that fail count as not VIP.
    */
-  private async checkVIPStatus(_userId: string): Promise<boolean> {
-    // TODO: Integrate with user service to check staking status
-    return false;
-  }
+  private async checkVIPStatus(userId: string): Promise<boolean> {
+    const user = await this.userRepository.findOneBy({ id: userId });
+    if (!user) {
+      return false;
+    }
 
-  /**
-   * Check if user has active promotion (stub)
-   */
-  private async checkUserPromotion(_userId: string): Promise<boolean> {
-    // TODO: Integrate with promotions service
-    return false;
+    try {
+      const { stakeAmount } =
+        await this.stakeVerificationService.getVerificationStatus(
+          user.walletAddress,
+        );
+      const minimumStake = this.configService.get<string>(
+        'FEE_VIP_MIN_STAKE',
+        '10000',
+      );
+      return new Big(stakeAmount).gte(new Big(minimumStake));
+    } catch (error) {
+      this.logger.warn(
+        `Stake lookup failed for user ${userId}: ${(error as Error).message}`,
+      );
+      return false;
+    }
   }
 
   /**
-   * Apply promotional fee rate
+   * Apply promotional fee rate by redeeming the promotion for the user
    */
   async applyPromotionalRate(
     userId: string,
     promotionCode: string,
-    customRate: string,
+    customRate?: string,
   ): Promise<void> {
-    // This would create a promotion record
-    // For now, just log
+    await this.promotionsService.redeem(userId, promotionCode, customRate);
     this.logger.log(
-      `Applied promotional rate ${customRate} for user ${userId} with code ${promotionCode}`,
+      `Applied promotion ${promotionCode} for user ${userId}${customRate ? ` at custom rate ${customRate}` : ''}`,
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  FEE_EXPORTS_QUEUE,
+  FeeExportJobData,
+  FeeExportService,
+  GENERATE_FEE_EXPORT_JOB,
+} from '../fee-export.service';
+import { FeeExport } from '../entities/fee-export.entity';
+
+@Processor(FEE_EXPORTS_QUEUE)
+export class GenerateFeeExportJob {
+  private readonly logger = new Logger(GenerateFeeExportJob.name);
+
+  constructor(private readonly feeExportService: FeeExportService) {}
+
+  @Process(GENERATE_FEE_EXPORT_JOB)
+  async generate(job: Job<FeeExportJobData>): Promise<FeeExport> {
+    return this.feeExportService.generate(job.data.exportId);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error) {
+    this.logger.error(`Job ${job.id} failed with error: ${error.message}`);
+  }
+}
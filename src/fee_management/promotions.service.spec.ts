@@ -0,0 +1,294 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PromotionsService } from './promotions.service';
+import { Promotion, PromotionEligibility } from './entities/promotion.entity';
+import { PromotionRedemption } from './entities/promotion-redemption.entity';
+import { User } from '../users/entities/user.entity';
+import { BetaUser, BetaUserStatus } from '../beta/entities/beta-user.entity';
+
+describe('PromotionsService', () => {
+  let service: PromotionsService;
+
+  const day = 24 * 60 * 60 * 1000;
+
+  const buildPromotion = (overrides: Partial<Promotion> = {}): Promotion =>
+    ({
+      id: 'promo-1',
+      code: 'LAUNCH50',
+      description: 'Launch week',
+      feeRate: '0.0005',
+      startsAt: new Date(Date.now() - day),
+      endsAt: new Date(Date.now() + day),
+      maxRedemptions: null,
+      maxUsesPerUser: null,
+      eligibility: PromotionEligibility.ALL_USERS,
+      newUserWindowDays: 30,
+      isActive: true,
+      redemptionCount: 0,
+      ...overrides,
+    }) as Promotion;
+
+  // Redeems and usage counts run in a transaction against these
+  const mockManager = {
+    findOne: jest.fn(),
+    findOneBy: jest.fn(),
+    create: jest.fn((_entity, redemption) => redemption),
+    save: jest.fn(async (redemption) => ({
+      id: 'redemption-1',
+      ...redemption,
+    })),
+    increment: jest.fn(),
+  };
+
+  const mockTransactionManager = {
+    transaction: jest.fn((work) => work(mockManager)),
+  };
+
+  const mockPromotionRepository = {
+    create: jest.fn((promotion) => promotion),
+    save: jest.fn(async (promotion) => promotion),
+    find: jest.fn(),
+    findOneBy: jest.fn(),
+    remove: jest.fn(),
+    manager: mockTransactionManager,
+  };
+
+  const mockRedemptionRepository = {
+    find: jest.fn(),
+    manager: mockTransactionManager,
+  };
+
+  const mockUserRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  const mockBetaUserRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionsService,
+        {
+          provide: getRepositoryToken(Promotion),
+          useValue: mockPromotionRepository,
+        },
+        {
+          provide: getRepositoryToken(PromotionRedemption),
+          useValue: mockRedemptionRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(BetaUser),
+          useValue: mockBetaUserRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PromotionsService>(PromotionsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('stores codes upper case and rejects duplicates', async () => {
+      mockPromotionRepository.findOneBy.mockResolvedValueOnce(null);
+
+      const promotion = await service.create({
+        code: 'launch50',
+        feeRate: '0.0005',
+        startsAt: '2025-01-01T00:00:00Z',
+      });
+
+      expect(promotion).toMatchObject({
+        code: 'LAUNCH50',
+        eligibility: PromotionEligibility.ALL_USERS,
+        endsAt: null,
+      });
+
+      mockPromotionRepository.findOneBy.mockResolvedValueOnce(promotion);
+      await expect(
+        service.create({
+          code: 'Launch50',
+          feeRate: '0.0005',
+          startsAt: '2025-01-01T00:00:00Z',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('redeem', () => {
+    it('rejects codes that reached their redemption cap', async () => {
+      mockManager.findOne.mockResolvedValue(
+        buildPromotion({ maxRedemptions: 100, redemptionCount: 100 }),
+      );
+
+      await expect(service.redeem('user-1', 'launch50')).rejects.toThrow(
+        'has reached its redemption limit',
+      );
+    });
+
+    it('rejects new-user promotions for established users', async () => {
+      mockManager.findOne.mockResolvedValue(
+        buildPromotion({ eligibility: PromotionEligibility.NEW_USERS }),
+      );
+      mockUserRepository.findOneBy.mockResolvedValue({
+        id: 'user-1',
+        createdAt: new Date(Date.now() - 90 * day),
+      });
+
+      await expect(service.redeem('user-1', 'LAUNCH50')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('redeems referral promotions for users who joined through a referral', async () => {
+      mockManager.findOne.mockResolvedValue(
+        buildPromotion({ eligibility: PromotionEligibility.REFERRED_USERS }),
+      );
+      mockUserRepository.findOneBy.mockResolvedValue({
+        id: 'user-1',
+        walletAddress: 'GUSERWALLET',
+      });
+      mockBetaUserRepository.findOneBy.mockResolvedValue({
+        stellarAddress: 'GUSERWALLET',
+        status: BetaUserStatus.ACTIVE,
+        referredByUserId: 'referrer-1',
+      });
+      mockManager.findOneBy.mockResolvedValue(null);
+
+      const redemption = await service.redeem('user-1', 'launch50', '0.0003');
+
+      expect(redemption).toMatchObject({
+        promotionId: 'promo-1',
+        userId: 'user-1',
+        customRate: '0.0003',
+        usageCount: 0,
+      });
+      expect(mockBetaUserRepository.findOneBy).toHaveBeenCalledWith({
+        stellarAddress: 'GUSERWALLET',
+        status: BetaUserStatus.ACTIVE,
+      });
+      expect(mockManager.findOne).toHaveBeenCalledWith(Promotion, {
+        where: { code: 'LAUNCH50' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        Promotion,
+        { id: 'promo-1' },
+        'redemptionCount',
+        1,
+      );
+    });
+
+    it('rejects a second redemption by the same user', async () => {
+      mockManager.findOne.mockResolvedValue(buildPromotion());
+      mockManager.findOneBy.mockResolvedValue({ id: 'redemption-1' });
+
+      await expect(service.redeem('user-1', 'LAUNCH50')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockManager.increment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordUsage', () => {
+    beforeEach(() => {
+      mockPromotionRepository.findOneBy.mockResolvedValue(
+        buildPromotion({ maxUsesPerUser: 3 }),
+      );
+    });
+
+    it('counts a use against a locked redemption with uses left', async () => {
+      mockManager.findOne.mockResolvedValue({
+        id: 'redemption-1',
+        usageCount: 2,
+      });
+
+      await expect(service.recordUsage('user-1', 'LAUNCH50')).resolves.toBe(
+        true,
+      );
+      expect(mockManager.findOne).toHaveBeenCalledWith(PromotionRedemption, {
+        where: { promotionId: 'promo-1', userId: 'user-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        PromotionRedemption,
+        { id: 'redemption-1' },
+        'usageCount',
+        1,
+      );
+    });
+
+    it('does not count past the per-user cap', async () => {
+      mockManager.findOne.mockResolvedValue({
+        id: 'redemption-1',
+        usageCount: 3,
+      });
+
+      await expect(service.recordUsage('user-1', 'LAUNCH50')).resolves.toBe(
+        false,
+      );
+      expect(mockManager.increment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActiveDiscounts', () => {
+    it('lists live discounts with uses left, cheapest first', async () => {
+      mockRedemptionRepository.find.mockResolvedValue([
+        {
+          userId: 'user-1',
+          customRate: null,
+          usageCount: 2,
+          promotion: buildPromotion({ maxUsesPerUser: 5 }),
+        },
+        {
+          userId: 'user-1',
+          customRate: '0.0002',
+          usageCount: 0,
+          promotion: buildPromotion({ id: 'promo-2', code: 'VIPWEEK' }),
+        },
+        {
+          userId: 'user-1',
+          customRate: null,
+          usageCount: 3,
+          promotion: buildPromotion({
+            id: 'promo-3',
+            code: 'USEDUP',
+            maxUsesPerUser: 3,
+          }),
+        },
+        {
+          userId: 'user-1',
+          customRate: null,
+          usageCount: 0,
+          promotion: buildPromotion({
+            id: 'promo-4',
+            code: 'EXPIRED',
+            endsAt: new Date(Date.now() - 1000),
+          }),
+        },
+      ]);
+
+      const discounts = await service.getActiveDiscounts('user-1');
+
+      expect(discounts.map((discount) => discount.code)).toEqual([
+        'VIPWEEK',
+        'LAUNCH50',
+      ]);
+      expect(discounts[0]).toMatchObject({
+        feeRate: '0.0002',
+        usesRemaining: null,
+      });
+      expect(discounts[1]).toMatchObject({
+        feeRate: '0.0005',
+        usesRemaining: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import Big from 'big.js';
+import { Promotion, PromotionEligibility } from './entities/promotion.entity';
+import { PromotionRedemption } from './entities/promotion-redemption.entity';
+import {
+  ActiveDiscountDto,
+  CreatePromotionDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+import { User } from '../users/entities/user.entity';
+import { BetaUser, BetaUserStatus } from '../beta/entities/beta-user.entity';
+
+/**
+ * Fee promotions. Users redeem a promotion's code, subject to its dates,
+ * redemption cap and eligibility rule, and get its rate on later trades
+ * until the promotion ends or their uses run out.
+ */
+@Injectable()
+export class PromotionsService {
+  private readonly logger = new Logger(PromotionsService.name);
+
+  constructor(
+    @InjectRepository(Promotion)
+    private readonly promotionRepository: Repository<Promotion>,
+    @InjectRepository(PromotionRedemption)
+    private readonly redemptionRepository: Repository<PromotionRedemption>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(BetaUser)
+    private readonly betaUserRepository: Repository<BetaUser>,
+  ) {}
+
+  async create(dto: CreatePromotionDto): Promise<Promotion> {
+    const code = dto.code.toUpperCase();
+    if (await this.promotionRepository.findOneBy({ code })) {
+      throw new ConflictException(`Promotion code ${code} already exists`);
+    }
+
+    const promotion = this.promotionRepository.create({
+      code,
+      description: dto.description ?? null,
+      feeRate: dto.feeRate,
+      startsAt: new Date(dto.startsAt),
+      endsAt: dto.endsAt ? new Date(dto.endsAt) : null,
+      maxRedemptions: dto.maxRedemptions ?? null,
+      maxUsesPerUser: dto.maxUsesPerUser ?? null,
+      eligibility: dto.eligibility ?? PromotionEligibility.ALL_USERS,
+      newUserWindowDays: dto.newUserWindowDays ?? 30,
+      isActive: true,
+      redemptionCount: 0,
+    });
+    this.assertValidDates(promotion);
+
+    return this.promotionRepository.save(promotion);
+  }
+
+  async findAll(): Promise<Promotion[]> {
+    return this.promotionRepository.find({ order: { startsAt: 'DESC' } });
+  }
+
+  async findOne(id: string): Promise<Promotion> {
+    const promotion = await this.promotionRepository.findOneBy({ id });
+    if (!promotion) {
+      throw new NotFoundException(`Promotion ${id} not found`);
+    }
+    return promotion;
+  }
+
+  async update(id: string, dto: UpdatePromotionDto): Promise<Promotion> {
+    const promotion = await this.findOne(id);
+    const { startsAt, endsAt, ...fields } = dto;
+
+    Object.assign(promotion, fields);
+    if (startsAt !== undefined) promotion.startsAt = new Date(startsAt);
+    if (endsAt !== undefined) promotion.endsAt = new Date(endsAt);
+    this.assertValidDates(promotion);
+
+    return this.promotionRepository.save(promotion);
+  }
+
+  async remove(id: string): Promise<void> {
+    const promotion = await this.findOne(id);
+    await this.promotionRepository.remove(promotion);
+  }
+
+  /**
+   * Redeem a promotion code for a user. An admin may give the user a rate
+   * other than the promotion's. The promotion row stays locked until the
+   * redemption is stored so concurrent redeems cannot pass its cap.
+   */
+  async redeem(
+    userId: string,
+    promotionCode: string,
+    customRate?: string,
+  ): Promise<PromotionRedemption> {
+    const code = promotionCode.toUpperCase();
+
+    const redemption = await this.promotionRepository.manager.transaction(
+      async (manager) => {
+        const promotion = await manager.findOne(Promotion, {
+          where: { code },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!promotion || !this.isLive(promotion, new Date())) {
+          throw new BadRequestException(`Promotion ${code} is not available`);
+        }
+
+        if (
+          promotion.maxRedemptions !== null &&
+          promotion.redemptionCount >= promotion.maxRedemptions
+        ) {
+          throw new BadRequestException(
+            `Promotion ${code} has reached its redemption limit`,
+          );
+        }
+
+        if (!(await this.isEligible(userId, promotion))) {
+          throw new BadRequestException(
+            `User ${userId} is not eligible for promotion ${code}`,
+          );
+        }
+
+        if (
+          await manager.findOneBy(PromotionRedemption, {
+            promotionId: promotion.id,
+            userId,
+          })
+        ) {
+          throw new ConflictException(
+            `User ${userId} has already redeemed promotion ${code}`,
+          );
+        }
+
+        const saved = await manager.save(
+          manager.create(PromotionRedemption, {
+            promotionId: promotion.id,
+            userId,
+            customRate: customRate ?? null,
+            usageCount: 0,
+          }),
+        );
+        await manager.increment(
+          Promotion,
+          { id: promotion.id },
+          'redemptionCount',
+          1,
+        );
+        return saved;
+      },
+    );
+
+    this.logger.log(`User ${userId} redeemed promotion ${code}`);
+    return redemption;
+  }
+
+  /**
+   * Redeemed promotions that currently discount the user's trades
+   */
+  async getActiveDiscounts(userId: string): Promise<ActiveDiscountDto[]> {
+    const redemptions = await this.redemptionRepository.find({
+      where: { userId },
+      relations: ['promotion'],
+    });
+    const now = new Date();
+
+    const discounts: ActiveDiscountDto[] = [];
+    for (const redemption of redemptions) {
+      const { promotion } = redemption;
+      if (!this.isLive(promotion, now)) continue;
+
+      const usesRemaining =
+        promotion.maxUsesPerUser !== null
+          ? promotion.maxUsesPerUser - redemption.usageCount
+          : null;
+      if (usesRemaining !== null && usesRemaining <= 0) continue;
+
+      // Eligibility can lapse after redemption, e.g. new-user offers
+      if (!(await this.isEligible(userId, promotion))) continue;
+
+      discounts.push({
+        promotionId: promotion.id,
+        code: promotion.code,
+        description: promotion.description,
+        feeRate: redemption.customRate ?? promotion.feeRate,
+        endsAt: promotion.endsAt,
+        usesRemaining,
+      });
+    }
+
+    return discounts.sort((a, b) => new Big(a.feeRate).cmp(new Big(b.feeRate)));
+  }
+
+  /**
+   * The user's cheapest active discount, if any
+   */
+  async getBestDiscount(userId: string): Promise<ActiveDiscountDto | null> {
+    const [best] = await this.getActiveDiscounts(userId);
+    return best ?? null;
+  }
+
+  /**
+   * Count a discounted trade against the user's redemption. The redemption
+   * row is locked while its uses are checked, so concurrent trades cannot
+   * pass the per-user cap. Returns false when the use was not counted.
+   */
+  async recordUsage(userId: string, promotionCode: string): Promise<boolean> {
+    const promotion = await this.promotionRepository.findOneBy({
+      code: promotionCode,
+    });
+    if (!promotion) return false;
+
+    return this.redemptionRepository.manager.transaction(async (manager) => {
+      const redemption = await manager.findOne(PromotionRedemption, {
+        where: { promotionId: promotion.id, userId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!redemption) return false;
+
+      if (
+        promotion.maxUsesPerUser !== null &&
+        redemption.usageCount >= promotion.maxUsesPerUser
+      ) {
+        return false;
+      }
+
+      await manager.increment(
+        PromotionRedemption,
+        { id: redemption.id },
+        'usageCount',
+        1,
+      );
+      return true;
+    });
+  }
+
+  private isLive(promotion: Promotion, now: Date): boolean {
+    return (
+      promotion.isActive &&
+      promotion.startsAt <= now &&
+      (promotion.endsAt === null || promotion.endsAt > now)
+    );
+  }
+
+  /**
+   * Beta and referral rules match the user's wallet against the beta
+   * programme, where referred users carry the referrer's ID
+   */
+  private async isEligible(
+    userId: string,
+    promotion: Promotion,
+  ): Promise<boolean> {
+    if (promotion.eligibility === PromotionEligibility.ALL_USERS) {
+      return true;
+    }
+
+    const user = await this.userRepository.findOneBy({ id: userId });
+    if (!user) {
+      return false;
+    }
+
+    if (promotion.eligibility === PromotionEligibility.NEW_USERS) {
+      const windowStart = new Date(
+        Date.now() - promotion.newUserWindowDays * 24 * 60 * 60 * 1000,
+      );
+      return user.createdAt >= windowStart;
+    }
+
+    const betaUser = await this.betaUserRepository.findOneBy({
+      stellarAddress: user.walletAddress,
+      status: BetaUserStatus.ACTIVE,
+    });
+    if (promotion.eligibility === PromotionEligibility.BETA_USERS) {
+      return !!betaUser;
+    }
+
+    return !!betaUser?.referredByUserId;
+  }
+
+  private assertValidDates(promotion: Promotion): void {
+    if (promotion.endsAt && promotion.endsAt <= promotion.startsAt) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+  }
+}
@@ -0,0 +1,469 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Not } from 'typeorm';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { ProviderRevenueService } from './provider-revenue.service';
+import { FeeTransaction } from './entities/fee-transaction.entity';
+import {
+  ProviderEarning,
+  ProviderEarningStatus,
+} from './entities/provider-earning.entity';
+import {
+  ProviderPayout,
+  ProviderPayoutStatus,
+} from './entities/provider-payout.entity';
+import { Signal } from '../signals/entities/signal.entity';
+import { Trade } from '../trades/entities/trade.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('ProviderRevenueService', () => {
+  let service: ProviderRevenueService;
+
+  const platformKeypair = StellarSdk.Keypair.random();
+  const providerWallet = StellarSdk.Keypair.random().publicKey();
+  const otherWallet = StellarSdk.Keypair.random().publicKey();
+  const usdcIssuer = 'GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5';
+
+  const feeTransaction = {
+    id: 'fee-1',
+    userId: 'copier-1',
+    tradeId: 'trade-1',
+    feeAmount: '1.0000000',
+    assetCode: 'USDC',
+    assetIssuer: usdcIssuer,
+    reconciledAt: new Date('2025-01-01T00:00:00Z'),
+  } as FeeTransaction;
+
+  const buildEarning = (
+    id: string,
+    overrides: Partial<ProviderEarning> = {},
+  ): ProviderEarning =>
+    ({
+      id,
+      providerId: 'provider-1',
+      signalId: 'signal-1',
+      copierId: 'copier-1',
+      feeTransactionId: `fee-${id}`,
+      amount: '0.6000000',
+      shareRate: '0.2',
+      assetCode: 'USDC',
+      assetIssuer: usdcIssuer,
+      status: ProviderEarningStatus.ACCRUED,
+      payoutId: null,
+      paidAt: null,
+      ...overrides,
+    }) as ProviderEarning;
+
+  const mockEarningRepository = {
+    create: jest.fn((earning) => earning),
+    save: jest.fn(async (earning) => ({ id: 'earning-1', ...earning })),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const savePayout = async (payout: Partial<ProviderPayout>) => {
+    payout.id ??= `payout-${payout.providerId}`;
+    payout.createdAt ??= new Date();
+    return payout;
+  };
+
+  // Reserves every earning it is asked for unless a test says otherwise
+  const mockManager = {
+    create: jest.fn((_entity, payout) => payout),
+    save: jest.fn(savePayout),
+    update: jest.fn(async (_entity, where) => ({
+      affected: where.id.value.length,
+    })),
+  };
+
+  const mockQueryRunner = {
+    connect: jest.fn(),
+    query: jest.fn(async () => [{ locked: true }]),
+    release: jest.fn(),
+  };
+
+  const mockPayoutRepository = {
+    create: jest.fn((payout) => payout),
+    save: jest.fn(savePayout),
+    find: jest.fn(async (): Promise<ProviderPayout[]> => []),
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+    manager: {
+      connection: { createQueryRunner: () => mockQueryRunner },
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockTradeRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  const mockSignalRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findBy: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => {
+      const config: Record<string, unknown> = {
+        STELLAR_NETWORK_PASSPHRASE: StellarSdk.Networks.TESTNET,
+        PLATFORM_WALLET_SECRET: platformKeypair.secret(),
+        PROVIDER_FEE_SHARE: '0.2',
+        PROVIDER_PAYOUT_MIN_AMOUNT: '1',
+      };
+      return config[key] ?? defaultValue;
+    }),
+  };
+
+  let loadAccount: jest.SpyInstance;
+  let submitTransaction: jest.SpyInstance;
+
+  const horizonError = (message: string, status: number) =>
+    Object.assign(new Error(message), { response: { status } });
+
+  const mockTransactionLookup = (lookup: () => Promise<unknown>) =>
+    jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, 'transactions')
+      .mockReturnValue({
+        transaction: () => ({ call: lookup }),
+      } as any);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProviderRevenueService,
+        {
+          provide: getRepositoryToken(ProviderEarning),
+          useValue: mockEarningRepository,
+        },
+        {
+          provide: getRepositoryToken(ProviderPayout),
+          useValue: mockPayoutRepository,
+        },
+        { provide: getRepositoryToken(Trade), useValue: mockTradeRepository },
+        {
+          provide: getRepositoryToken(Signal),
+          useValue: mockSignalRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<ProviderRevenueService>(ProviderRevenueService);
+
+    loadAccount = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, 'loadAccount')
+      .mockResolvedValue(
+        new StellarSdk.Account(platformKeypair.publicKey(), '1') as any,
+      );
+    submitTransaction = jest
+      .spyOn(StellarSdk.Horizon.Server.prototype, 'submitTransaction')
+      .mockResolvedValue({ hash: 'payout-hash' } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('accrueFromFee', () => {
+    it("credits the copied signal's provider with their share of the fee", async () => {
+      mockTradeRepository.findOneBy.mockResolvedValue({
+        id: 'trade-1',
+        signalId: 'signal-1',
+      });
+      mockSignalRepository.findOneBy.mockResolvedValue({
+        id: 'signal-1',
+        providerId: 'provider-1',
+      });
+
+      const earning = await service.accrueFromFee(feeTransaction);
+
+      expect(earning).toMatchObject({
+        providerId: 'provider-1',
+        signalId: 'signal-1',
+        copierId: 'copier-1',
+        feeTransactionId: 'fee-1',
+        amount: '0.2000000',
+        shareRate: '0.2',
+        status: ProviderEarningStatus.ACCRUED,
+      });
+    });
+
+    it('does not pay providers for fees on their own trades', async () => {
+      mockTradeRepository.findOneBy.mockResolvedValue({
+        id: 'trade-1',
+        signalId: 'signal-1',
+      });
+      mockSignalRepository.findOneBy.mockResolvedValue({
+        id: 'signal-1',
+        providerId: 'copier-1',
+      });
+
+      await expect(service.accrueFromFee(feeTransaction)).resolves.toBeNull();
+      expect(mockEarningRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('does not accrue before reconciliation finds the fee on chain', async () => {
+      await expect(
+        service.accrueFromFee({ ...feeTransaction, reconciledAt: undefined }),
+      ).resolves.toBeNull();
+      expect(mockTradeRepository.findOneBy).not.toHaveBeenCalled();
+      expect(mockEarningRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processPayouts', () => {
+    it('pays every provider balance above the minimum in one transaction', async () => {
+      mockEarningRepository.find.mockResolvedValue([
+        buildEarning('e1'),
+        buildEarning('e2'),
+        buildEarning('e3', { providerId: 'provider-2', amount: '0.5000000' }),
+      ]);
+      mockUserRepository.findBy.mockResolvedValue([
+        { id: 'provider-1', walletAddress: providerWallet },
+        { id: 'provider-2', walletAddress: otherWallet },
+      ]);
+
+      const payouts = await service.processPayouts();
+
+      expect(payouts).toHaveLength(1);
+      expect(payouts[0]).toMatchObject({
+        providerId: 'provider-1',
+        destinationAddress: providerWallet,
+        amount: '1.2000000',
+        earningsCount: 2,
+        status: ProviderPayoutStatus.COMPLETED,
+      });
+      expect(loadAccount).toHaveBeenCalledTimes(1);
+      expect(mockEarningRepository.find).toHaveBeenCalledWith({
+        where: {
+          status: ProviderEarningStatus.ACCRUED,
+          feeTransaction: { reconciledAt: Not(IsNull()) },
+        },
+        order: { createdAt: 'ASC' },
+      });
+
+      const transaction = submitTransaction.mock.calls[0][0];
+      expect(payouts[0].stellarTransactionHash).toBe(
+        transaction.hash().toString('hex'),
+      );
+      expect(transaction.operations).toHaveLength(1);
+      expect(transaction.operations[0]).toMatchObject({
+        type: 'payment',
+        destination: providerWallet,
+        amount: '1.2000000',
+      });
+
+      expect(mockManager.update).toHaveBeenCalledWith(
+        ProviderEarning,
+        {
+          id: expect.anything(),
+          status: ProviderEarningStatus.ACCRUED,
+        },
+        {
+          status: ProviderEarningStatus.RESERVED,
+          payoutId: 'payout-provider-1',
+        },
+      );
+      expect(mockEarningRepository.update).toHaveBeenCalledWith(
+        { payoutId: 'payout-provider-1' },
+        expect.objectContaining({ status: ProviderEarningStatus.PAID }),
+      );
+      expect(mockQueryRunner.query).toHaveBeenLastCalledWith(
+        'SELECT pg_advisory_unlock($1)',
+        [expect.any(Number)],
+      );
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+
+    it('splits more than 100 payouts across transactions', async () => {
+      const providers = Array.from({ length: 101 }, (_, index) => ({
+        id: `provider-${index}`,
+        walletAddress: StellarSdk.Keypair.random().publicKey(),
+      }));
+      mockEarningRepository.find.mockResolvedValue(
+        providers.map((provider) =>
+          buildEarning(`e-${provider.id}`, {
+            providerId: provider.id,
+            amount: '1.5000000',
+          }),
+        ),
+      );
+      mockUserRepository.findBy.mockResolvedValue(providers);
+
+      const payouts = await service.processPayouts();
+
+      expect(payouts).toHaveLength(101);
+      expect(submitTransaction).toHaveBeenCalledTimes(2);
+      expect(submitTransaction.mock.calls[0][0].operations).toHaveLength(100);
+      expect(submitTransaction.mock.calls[1][0].operations).toHaveLength(1);
+      expect(
+        payouts.every(
+          (payout) => payout.status === ProviderPayoutStatus.COMPLETED,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns earnings to accrued when Horizon rejects the transaction', async () => {
+      mockEarningRepository.find.mockResolvedValue([
+        buildEarning('e1', { amount: '2.0000000' }),
+      ]);
+      mockUserRepository.findBy.mockResolvedValue([
+        { id: 'provider-1', walletAddress: providerWallet },
+      ]);
+      submitTransaction.mockRejectedValue(
+        horizonError('tx_insufficient_balance', 400),
+      );
+
+      const [payout] = await service.processPayouts();
+
+      expect(payout.status).toBe(ProviderPayoutStatus.FAILED);
+      expect(payout.failureReason).toBe('tx_insufficient_balance');
+      expect(mockEarningRepository.update).toHaveBeenCalledWith(
+        {
+          payoutId: 'payout-provider-1',
+          status: ProviderEarningStatus.RESERVED,
+        },
+        { status: ProviderEarningStatus.ACCRUED, payoutId: null },
+      );
+    });
+
+    it('keeps a payout pending when the submission times out', async () => {
+      mockEarningRepository.find.mockResolvedValue([
+        buildEarning('e1', { amount: '2.0000000' }),
+      ]);
+      mockUserRepository.findBy.mockResolvedValue([
+        { id: 'provider-1', walletAddress: providerWallet },
+      ]);
+      submitTransaction.mockRejectedValue(horizonError('Timeout', 504));
+
+      const [payout] = await service.processPayouts();
+
+      expect(payout.status).toBe(ProviderPayoutStatus.PENDING);
+      expect(payout.stellarTransactionHash).toEqual(expect.any(String));
+      expect(mockEarningRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('completes a pending payout Horizon shows on the ledger', async () => {
+      const payout = {
+        id: 'payout-1',
+        status: ProviderPayoutStatus.PENDING,
+        stellarTransactionHash: 'landed-hash',
+        createdAt: new Date(),
+      } as ProviderPayout;
+      mockPayoutRepository.find.mockResolvedValueOnce([payout]);
+      mockTransactionLookup(async () => ({
+        successful: true,
+        created_at: '2025-01-10T00:00:00Z',
+      }));
+      mockEarningRepository.find.mockResolvedValue([]);
+
+      await service.processPayouts();
+
+      expect(payout.status).toBe(ProviderPayoutStatus.COMPLETED);
+      expect(payout.completedAt).toEqual(new Date('2025-01-10T00:00:00Z'));
+      expect(mockEarningRepository.update).toHaveBeenCalledWith(
+        { payoutId: 'payout-1' },
+        expect.objectContaining({ status: ProviderEarningStatus.PAID }),
+      );
+      expect(submitTransaction).not.toHaveBeenCalled();
+    });
+
+    it('only releases a payout Horizon has not seen once it is old', async () => {
+      const recent = {
+        id: 'payout-1',
+        status: ProviderPayoutStatus.PENDING,
+        stellarTransactionHash: 'recent-hash',
+        createdAt: new Date(),
+      } as ProviderPayout;
+      const stale = {
+        id: 'payout-2',
+        status: ProviderPayoutStatus.PENDING,
+        stellarTransactionHash: 'stale-hash',
+        createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      } as ProviderPayout;
+      mockPayoutRepository.find.mockResolvedValueOnce([recent, stale]);
+      mockTransactionLookup(async () => {
+        throw horizonError('Not Found', 404);
+      });
+      mockEarningRepository.find.mockResolvedValue([]);
+
+      await service.processPayouts();
+
+      expect(recent.status).toBe(ProviderPayoutStatus.PENDING);
+      expect(stale.status).toBe(ProviderPayoutStatus.FAILED);
+      expect(mockEarningRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockEarningRepository.update).toHaveBeenCalledWith(
+        { payoutId: 'payout-2', status: ProviderEarningStatus.RESERVED },
+        { status: ProviderEarningStatus.ACCRUED, payoutId: null },
+      );
+    });
+
+    it('skips earnings another run reserved first', async () => {
+      mockEarningRepository.find.mockResolvedValue([
+        buildEarning('e1'),
+        buildEarning('e2'),
+      ]);
+      mockUserRepository.findBy.mockResolvedValue([
+        { id: 'provider-1', walletAddress: providerWallet },
+      ]);
+      mockManager.update.mockResolvedValueOnce({ affected: 1 });
+
+      const payouts = await service.processPayouts();
+
+      expect(payouts).toEqual([]);
+      expect(submitTransaction).not.toHaveBeenCalled();
+    });
+
+    it('does nothing while another run holds the lock', async () => {
+      mockQueryRunner.query.mockResolvedValueOnce([{ locked: false }]);
+
+      await expect(service.processPayouts()).resolves.toEqual([]);
+      expect(mockEarningRepository.find).not.toHaveBeenCalled();
+      expect(mockQueryRunner.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('getEarningsSummary', () => {
+    it('splits earnings into accrued and paid per asset', async () => {
+      const paidAt = new Date('2025-01-10T00:00:00Z');
+      mockEarningRepository.find.mockResolvedValue([
+        buildEarning('e1'),
+        buildEarning('e2', {
+          status: ProviderEarningStatus.PAID,
+          amount: '1.5000000',
+        }),
+      ]);
+      mockPayoutRepository.findOne.mockResolvedValue({ completedAt: paidAt });
+
+      const summary = await service.getEarningsSummary('provider-1');
+
+      expect(summary).toEqual({
+        providerId: 'provider-1',
+        shareRate: '0.2',
+        byAsset: {
+          USDC: {
+            assetIssuer: usdcIssuer,
+            accrued: '0.6000000',
+            paid: '1.5000000',
+            lifetime: '2.1000000',
+          },
+        },
+        earningsCount: 2,
+        lastPayoutAt: paidAt,
+      });
+      expect(mockEarningRepository.find).toHaveBeenCalledWith({
+        where: {
+          providerId: 'provider-1',
+          status: Not(ProviderEarningStatus.VOIDED),
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,536 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import {
+  Keypair,
+  Asset,
+  Networks,
+  Operation,
+  Memo,
+  TransactionBuilder,
+} from '@stellar/stellar-sdk';
+import Big from 'big.js';
+import { FeeTransaction } from './entities/fee-transaction.entity';
+import {
+  ProviderEarning,
+  ProviderEarningStatus,
+} from './entities/provider-earning.entity';
+import {
+  ProviderPayout,
+  ProviderPayoutStatus,
+} from './entities/provider-payout.entity';
+import { ProviderEarningsSummaryDto } from './dto/fee-summary.dto';
+import { Signal } from '../signals/entities/signal.entity';
+import { Trade } from '../trades/entities/trade.entity';
+import { User } from '../users/entities/user.entity';
+
+// Stellar caps a transaction at 100 operations
+const MAX_PAYMENTS_PER_TRANSACTION = 100;
+
+// Session advisory lock held for a payout run, so the cron and a manual run
+// cannot pay the same earnings
+const PAYOUT_LOCK_KEY = 730_001;
+
+// Payout transactions stop being valid this long after they are built
+const PAYOUT_TRANSACTION_TIMEOUT_SECONDS = 30;
+
+// A payout Horizon has never seen is only released once it is this old,
+// well past the expiry of any transaction built for it
+const UNCONFIRMED_PAYOUT_RELEASE_MS = 60 * 60 * 1000;
+
+/**
+ * Splits copier fees with the provider whose signal was copied. Each
+ * collected fee accrues the provider's share to the earnings ledger; accrued
+ * earnings are paid from the platform wallet in batched payment
+ * transactions once they reach the minimum payout. Earnings are reserved
+ * for their payout before it is sent, and a payout whose submission had no
+ * clear outcome stays pending until Horizon confirms or outlives it.
+ */
+@Injectable()
+export class ProviderRevenueService {
+  private readonly logger = new Logger(ProviderRevenueService.name);
+  private readonly stellarServer: StellarSdk.Horizon.Server;
+  private readonly platformKeypair?: StellarSdk.Keypair;
+  private readonly networkPassphrase: string;
+
+  constructor(
+    @InjectRepository(ProviderEarning)
+    private readonly earningRepository: Repository<ProviderEarning>,
+    @InjectRepository(ProviderPayout)
+    private readonly payoutRepository: Repository<ProviderPayout>,
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+  ) {
+    this.networkPassphrase = this.configService.get<string>(
+      'STELLAR_NETWORK_PASSPHRASE',
+      Networks.TESTNET,
+    );
+    this.stellarServer = new StellarSdk.Horizon.Server(
+      this.configService.get<string>(
+        'STELLAR_HORIZON_URL',
+        'https://horizon-testnet.stellar.org',
+      ),
+    );
+
+    const platformSecret = this.configService.get<string>(
+      'PLATFORM_WALLET_SECRET',
+    );
+    if (platformSecret) {
+      this.platformKeypair = Keypair.fromSecret(platformSecret);
+    }
+  }
+
+  /**
+   * Record the provider's share of a fee reconciliation has matched to an
+   * on-chain payment. Returns null when the fee is not reconciled, was not
+   * for a copied signal, the copier is the provider, or the share rounds to
+   * nothing.
+   */
+  async accrueFromFee(
+    feeTransaction: FeeTransaction,
+  ): Promise<ProviderEarning | null> {
+    const shareRate = this.getShareRate();
+    if (
+      shareRate.lte(0) ||
+      !feeTransaction.tradeId ||
+      !feeTransaction.reconciledAt
+    ) {
+      return null;
+    }
+
+    const trade = await this.tradeRepository.findOneBy({
+      id: feeTransaction.tradeId,
+    });
+    if (!trade?.signalId) {
+      return null;
+    }
+
+    const signal = await this.signalRepository.findOneBy({
+      id: trade.signalId,
+    });
+    if (!signal || signal.providerId === feeTransaction.userId) {
+      return null;
+    }
+
+    const amount = new Big(feeTransaction.feeAmount)
+      .times(shareRate)
+      .round(7, Big.roundDown);
+    if (amount.lte(0)) {
+      return null;
+    }
+
+    const earning = this.earningRepository.create({
+      providerId: signal.providerId,
+      signalId: signal.id,
+      copierId: feeTransaction.userId,
+      feeTransactionId: feeTransaction.id,
+      amount: amount.toFixed(7),
+      shareRate: shareRate.toString(),
+      assetCode: feeTransaction.assetCode,
+      assetIssuer: feeTransaction.assetIssuer,
+      status: ProviderEarningStatus.ACCRUED,
+      payoutId: null,
+      paidAt: null,
+    });
+
+    return this.earningRepository.save(earning);
+  }
+
+  /**
+   * Pay out accrued earnings. Each provider and asset gets one payment of
+   * its accrued total, batched into transactions of up to 100 payments.
+   * Earnings in a rejected batch go back to accrued for the next run.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
+  async processPayouts(): Promise<ProviderPayout[]> {
+    if (!this.platformKeypair) {
+      this.logger.warn(
+        'Platform wallet secret not configured, skipping payouts',
+      );
+      return [];
+    }
+
+    // Session locks belong to a connection, so take and release it on one
+    const queryRunner =
+      this.payoutRepository.manager.connection.createQueryRunner();
+    await queryRunner.connect();
+
+    try {
+      const [{ locked }] = await queryRunner.query(
+        'SELECT pg_try_advisory_lock($1) AS locked',
+        [PAYOUT_LOCK_KEY],
+      );
+      if (!locked) {
+        this.logger.warn('Another provider payout run is in progress');
+        return [];
+      }
+
+      try {
+        return await this.runPayouts();
+      } finally {
+        await queryRunner.query('SELECT pg_advisory_unlock($1)', [
+          PAYOUT_LOCK_KEY,
+        ]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  async getEarningsSummary(
+    providerId: string,
+  ): Promise<ProviderEarningsSummaryDto> {
+    const earnings = await this.earningRepository.find({
+      where: { providerId, status: Not(ProviderEarningStatus.VOIDED) },
+    });
+
+    const byAsset: Record<
+      string,
+      { assetIssuer: string; accrued: Big; paid: Big }
+    > = {};
+    for (const earning of earnings) {
+      const asset = byAsset[earning.assetCode] ?? {
+        assetIssuer: earning.assetIssuer,
+        accrued: new Big(0),
+        paid: new Big(0),
+      };
+      if (earning.status === ProviderEarningStatus.PAID) {
+        asset.paid = asset.paid.plus(new Big(earning.amount));
+      } else {
+        asset.accrued = asset.accrued.plus(new Big(earning.amount));
+      }
+      byAsset[earning.assetCode] = asset;
+    }
+
+    const lastPayout = await this.payoutRepository.findOne({
+      where: { providerId, status: ProviderPayoutStatus.COMPLETED },
+      order: { completedAt: 'DESC' },
+    });
+
+    const byAssetFormatted: ProviderEarningsSummaryDto['byAsset'] = {};
+    for (const [assetCode, asset] of Object.entries(byAsset)) {
+      byAssetFormatted[assetCode] = {
+        assetIssuer: asset.assetIssuer,
+        accrued: asset.accrued.toFixed(7),
+        paid: asset.paid.toFixed(7),
+        lifetime: asset.accrued.plus(asset.paid).toFixed(7),
+      };
+    }
+
+    return {
+      providerId,
+      shareRate: this.getShareRate().toString(),
+      byAsset: byAssetFormatted,
+      earningsCount: earnings.length,
+      lastPayoutAt: lastPayout?.completedAt ?? null,
+    };
+  }
+
+  async getPayoutHistory(
+    providerId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<{ data: ProviderPayout[]; total: number }> {
+    const [data, total] = await this.payoutRepository.findAndCount({
+      where: { providerId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { data, total };
+  }
+
+  private async runPayouts(): Promise<ProviderPayout[]> {
+    await this.settleUnconfirmedPayouts();
+
+    const pending = await this.preparePayouts();
+    for (let i = 0; i < pending.length; i += MAX_PAYMENTS_PER_TRANSACTION) {
+      await this.submitBatch(
+        pending.slice(i, i + MAX_PAYMENTS_PER_TRANSACTION),
+      );
+    }
+
+    this.logger.log(
+      `Provider payouts completed: ${pending.filter((payout) => payout.status === ProviderPayoutStatus.COMPLETED).length} of ${pending.length} sent`,
+    );
+
+    return pending;
+  }
+
+  /**
+   * Group accrued earnings of reconciled fees by provider and asset, and
+   * create a pending payout for every group at or above the minimum payout.
+   * The group's earnings are reserved for the payout in the same
+   * transaction; a group that another run has already reserved from is
+   * skipped.
+   */
+  private async preparePayouts(): Promise<ProviderPayout[]> {
+    const accrued = await this.earningRepository.find({
+      where: {
+        status: ProviderEarningStatus.ACCRUED,
+        feeTransaction: { reconciledAt: Not(IsNull()) },
+      },
+      order: { createdAt: 'ASC' },
+    });
+    if (accrued.length === 0) {
+      return [];
+    }
+
+    const groups = new Map<string, ProviderEarning[]>();
+    for (const earning of accrued) {
+      const key = `${earning.providerId}:${earning.assetCode}:${earning.assetIssuer}`;
+      groups.set(key, [...(groups.get(key) ?? []), earning]);
+    }
+
+    const providers = await this.userRepository.findBy({
+      id: In([...new Set(accrued.map((earning) => earning.providerId))]),
+    });
+    const wallets = new Map(
+      providers.map((provider) => [provider.id, provider.walletAddress]),
+    );
+
+    const minimum = new Big(
+      this.configService.get<string>('PROVIDER_PAYOUT_MIN_AMOUNT', '1'),
+    );
+    const pending: ProviderPayout[] = [];
+
+    for (const earnings of groups.values()) {
+      const [first] = earnings;
+      const amount = earnings.reduce(
+        (sum, earning) => sum.plus(new Big(earning.amount)),
+        new Big(0),
+      );
+      if (amount.lt(minimum)) continue;
+
+      const destination = wallets.get(first.providerId);
+      if (!destination) {
+        this.logger.warn(
+          `No wallet for provider ${first.providerId}, holding ${amount.toFixed(7)} ${first.assetCode}`,
+        );
+        continue;
+      }
+
+      try {
+        const payout = await this.payoutRepository.manager.transaction(
+          async (manager) => {
+            const payout = await manager.save(
+              manager.create(ProviderPayout, {
+                providerId: first.providerId,
+                destinationAddress: destination,
+                amount: amount.toFixed(7),
+                assetCode: first.assetCode,
+                assetIssuer: first.assetIssuer,
+                earningsCount: earnings.length,
+                status: ProviderPayoutStatus.PENDING,
+                stellarTransactionHash: null,
+                failureReason: null,
+                completedAt: null,
+              }),
+            );
+
+            const reserved = await manager.update(
+              ProviderEarning,
+              {
+                id: In(earnings.map((earning) => earning.id)),
+                status: ProviderEarningStatus.ACCRUED,
+              },
+              {
+                status: ProviderEarningStatus.RESERVED,
+                payoutId: payout.id,
+              },
+            );
+            if (reserved.affected !== earnings.length) {
+              throw new Error('earnings were reserved by another payout');
+            }
+
+            return payout;
+          },
+        );
+        pending.push(payout);
+      } catch (error) {
+        this.logger.warn(
+          `Skipping payout to provider ${first.providerId} in ${first.assetCode}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return pending;
+  }
+
+  private async submitBatch(batch: ProviderPayout[]): Promise<void> {
+    let transaction: StellarSdk.Transaction;
+    try {
+      transaction = await this.buildBatchTransaction(batch);
+    } catch (error) {
+      this.logger.error(
+        `Provider payout batch could not be built: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+      await this.failBatch(batch, (error as Error).message);
+      return;
+    }
+
+    // Stored before submitting so an unanswered submission can be looked up
+    const hash = transaction.hash().toString('hex');
+    for (const payout of batch) {
+      payout.stellarTransactionHash = hash;
+      await this.payoutRepository.save(payout);
+    }
+
+    try {
+      await this.stellarServer.submitTransaction(transaction);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (this.getHorizonStatus(error) === 400) {
+        this.logger.error(
+          `Provider payout batch ${hash} rejected: ${message}`,
+          (error as Error).stack,
+        );
+        await this.failBatch(batch, message);
+      } else {
+        // Timeouts and server errors do not say whether the transaction
+        // made it to the ledger; the next run asks Horizon
+        this.logger.warn(
+          `Provider payout batch ${hash} has no clear outcome, leaving it pending: ${message}`,
+        );
+      }
+      return;
+    }
+
+    await this.completeBatch(batch, new Date());
+  }
+
+  private async buildBatchTransaction(
+    batch: ProviderPayout[],
+  ): Promise<StellarSdk.Transaction> {
+    const platformAccount = await this.stellarServer.loadAccount(
+      this.platformKeypair!.publicKey(),
+    );
+
+    const builder = new TransactionBuilder(platformAccount, {
+      fee: StellarSdk.BASE_FEE,
+      networkPassphrase: this.networkPassphrase,
+    });
+    for (const payout of batch) {
+      builder.addOperation(
+        Operation.payment({
+          destination: payout.destinationAddress,
+          asset:
+            payout.assetCode === 'XLM'
+              ? Asset.native()
+              : new Asset(payout.assetCode, payout.assetIssuer),
+          amount: payout.amount,
+        }),
+      );
+    }
+    const transaction = builder
+      .addMemo(Memo.text('Provider revenue share'))
+      .setTimeout(PAYOUT_TRANSACTION_TIMEOUT_SECONDS)
+      .build();
+    transaction.sign(this.platformKeypair!);
+
+    return transaction;
+  }
+
+  /**
+   * Resolve payouts an earlier run left pending. Those with a transaction
+   * hash are looked up on Horizon; they complete if it landed and are
+   * released once it failed or can no longer land. Payouts without a hash
+   * were never submitted and are released straight away.
+   */
+  private async settleUnconfirmedPayouts(): Promise<void> {
+    const unconfirmed = await this.payoutRepository.find({
+      where: { status: ProviderPayoutStatus.PENDING },
+    });
+
+    const byHash = new Map<string | null, ProviderPayout[]>();
+    for (const payout of unconfirmed) {
+      const hash = payout.stellarTransactionHash;
+      byHash.set(hash, [...(byHash.get(hash) ?? []), payout]);
+    }
+
+    for (const [hash, batch] of byHash) {
+      if (!hash) {
+        await this.failBatch(batch, 'Payout was never submitted');
+        continue;
+      }
+
+      try {
+        const record = await this.stellarServer
+          .transactions()
+          .transaction(hash)
+          .call();
+        if (record.successful) {
+          await this.completeBatch(batch, new Date(record.created_at));
+        } else {
+          await this.failBatch(batch, `Transaction ${hash} failed`);
+        }
+      } catch (error) {
+        const releaseBefore = Date.now() - UNCONFIRMED_PAYOUT_RELEASE_MS;
+        if (
+          this.getHorizonStatus(error) === 404 &&
+          batch.every((payout) => payout.createdAt.getTime() < releaseBefore)
+        ) {
+          await this.failBatch(
+            batch,
+            `Transaction ${hash} expired without reaching the ledger`,
+          );
+        } else {
+          this.logger.warn(
+            `Could not confirm provider payout batch ${hash}: ${(error as Error).message}`,
+          );
+        }
+      }
+    }
+  }
+
+  private async completeBatch(
+    batch: ProviderPayout[],
+    completedAt: Date,
+  ): Promise<void> {
+    for (const payout of batch) {
+      payout.status = ProviderPayoutStatus.COMPLETED;
+      payout.completedAt = completedAt;
+      await this.payoutRepository.save(payout);
+      await this.earningRepository.update(
+        { payoutId: payout.id },
+        { status: ProviderEarningStatus.PAID, paidAt: completedAt },
+      );
+    }
+  }
+
+  /**
+   * Mark the payouts failed and hand their earnings back to the next run
+   */
+  private async failBatch(
+    batch: ProviderPayout[],
+    reason: string,
+  ): Promise<void> {
+    for (const payout of batch) {
+      payout.status = ProviderPayoutStatus.FAILED;
+      payout.failureReason = reason;
+      await this.payoutRepository.save(payout);
+      await this.earningRepository.update(
+        { payoutId: payout.id, status: ProviderEarningStatus.RESERVED },
+        { status: ProviderEarningStatus.ACCRUED, payoutId: null },
+      );
+    }
+  }
+
+  private getHorizonStatus(error: unknown): number | undefined {
+    return (error as { response?: { status?: number } }).response?.status;
+  }
+
+  private getShareRate(): Big {
+    return new Big(this.configService.get<string>('PROVIDER_FEE_SHARE', '0.2'));
+  }
+}
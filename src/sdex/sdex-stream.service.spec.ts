@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  ORDERBOOK_UPDATED_EVENT,
+  SdexStreamService,
+  TICKER_UPDATED_EVENT,
+} from './sdex-stream.service';
+import { SdexService } from './sdex.service';
+import { StellarConfigService } from '../config/stellar.service';
+
+describe('SdexStreamService', () => {
+  let service: SdexStreamService;
+
+  const USDC = 'USDC:GBBD47IF6LWK7P7MDEVSCWR7DPUWV3NY3DTQEVFL4NAT4AQH3ZLLFLA5';
+
+  const mockStellarConfig = {
+    horizonUrl: 'https://horizon-testnet.stellar.org',
+  };
+
+  const mockSdexService = {
+    invalidateCache: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  let onOrderbook: (record: unknown) => void;
+  let onTrade: (record: unknown) => void;
+  const closeOrderbook = jest.fn();
+  const closeTrades = jest.fn();
+
+  const book = (bids: [string, string][], asks: [string, string][]) => ({
+    bids: bids.map(([price, amount]) => ({ price, amount })),
+    asks: asks.map(([price, amount]) => ({ price, amount })),
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SdexStreamService,
+        { provide: StellarConfigService, useValue: mockStellarConfig },
+        { provide: SdexService, useValue: mockSdexService },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<SdexStreamService>(SdexStreamService);
+
+    const server = service['server'];
+    jest.spyOn(server, 'orderbook').mockReturnValue({
+      stream: jest.fn(({ onmessage }) => {
+        onOrderbook = onmessage;
+        return closeOrderbook;
+      }),
+    } as any);
+
+    const tradesBuilder = {
+      forAssetPair: jest.fn().mockReturnThis(),
+      cursor: jest.fn().mockReturnThis(),
+      stream: jest.fn(({ onmessage }) => {
+        onTrade = onmessage;
+        return closeTrades;
+      }),
+    };
+    jest.spyOn(server, 'trades').mockReturnValue(tradesBuilder as any);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should share one stream per pair and close it after the last subscriber', () => {
+    service.watchPair('XLM', USDC);
+    service.watchPair('XLM', USDC);
+
+    expect(service['server'].orderbook).toHaveBeenCalledTimes(1);
+
+    service.unwatchPair('XLM', USDC);
+    expect(closeOrderbook).not.toHaveBeenCalled();
+
+    service.unwatchPair('XLM', USDC);
+    expect(closeOrderbook).toHaveBeenCalled();
+    expect(closeTrades).toHaveBeenCalled();
+    expect(service.isWatching('XLM', USDC)).toBe(false);
+  });
+
+  it('should emit a snapshot first and then only changed levels', () => {
+    service.watchPair('XLM', USDC);
+
+    onOrderbook(
+      book(
+        [
+          ['0.12', '100'],
+          ['0.11', '50'],
+        ],
+        [['0.13', '80']],
+      ),
+    );
+    jest.advanceTimersByTime(0);
+
+    expect(mockEventEmitter.emit).toHaveBeenLastCalledWith(
+      ORDERBOOK_UPDATED_EVENT,
+      expect.objectContaining({
+        base: 'XLM',
+        counter: USDC,
+        snapshot: true,
+        bids: [
+          { price: '0.12', amount: '100' },
+          { price: '0.11', amount: '50' },
+        ],
+      }),
+    );
+
+    onOrderbook(
+      book(
+        [['0.12', '60']],
+        [
+          ['0.13', '80'],
+          ['0.14', '10'],
+        ],
+      ),
+    );
+    jest.advanceTimersByTime(1000);
+
+    expect(mockEventEmitter.emit).toHaveBeenLastCalledWith(
+      ORDERBOOK_UPDATED_EVENT,
+      expect.objectContaining({
+        snapshot: false,
+        bids: [
+          { price: '0.12', amount: '60' },
+          { price: '0.11', amount: '0' },
+        ],
+        asks: [{ price: '0.14', amount: '10' }],
+      }),
+    );
+  });
+
+  it('should throttle order book updates to the latest one per window', () => {
+    service.watchPair('XLM', USDC);
+    onOrderbook(book([['0.12', '100']], []));
+    jest.advanceTimersByTime(0);
+    mockEventEmitter.emit.mockClear();
+
+    onOrderbook(book([['0.12', '90']], []));
+    onOrderbook(book([['0.12', '80']], []));
+    jest.advanceTimersByTime(999);
+    expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(mockEventEmitter.emit).toHaveBeenCalledTimes(1);
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      ORDERBOOK_UPDATED_EVENT,
+      expect.objectContaining({ bids: [{ price: '0.12', amount: '80' }] }),
+    );
+  });
+
+  it('should invalidate the cached orderbook on every update', () => {
+    service.watchPair('XLM', USDC);
+
+    onOrderbook(book([['0.12', '100']], []));
+    onOrderbook(book([['0.12', '90']], []));
+
+    expect(mockSdexService.invalidateCache).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit the last trade as a ticker update', () => {
+    service.watchPair('XLM', USDC);
+
+    onTrade({
+      price: { n: '1', d: '8' },
+      base_amount: '10.0000000',
+      counter_amount: '1.2500000',
+      base_is_seller: true,
+      ledger_close_time: '2025-01-22T10:00:00Z',
+    });
+    jest.advanceTimersByTime(1000);
+
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(TICKER_UPDATED_EVENT, {
+      base: 'XLM',
+      counter: USDC,
+      price: '0.1250000',
+      baseAmount: '10.0000000',
+      counterAmount: '1.2500000',
+      baseIsSeller: true,
+      tradedAt: '2025-01-22T10:00:00Z',
+    });
+  });
+
+  it('should return the current book for late subscribers', () => {
+    service.watchPair('XLM', USDC);
+    expect(service.getOrderbookSnapshot('XLM', USDC)).toBeNull();
+
+    onOrderbook(book([['0.12', '100']], [['0.13', '80']]));
+    jest.advanceTimersByTime(0);
+
+    expect(service.getOrderbookSnapshot('XLM', USDC)).toEqual(
+      expect.objectContaining({
+        snapshot: true,
+        bids: [{ price: '0.12', amount: '100' }],
+        asks: [{ price: '0.13', amount: '80' }],
+      }),
+    );
+  });
+});
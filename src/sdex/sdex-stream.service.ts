@@ -0,0 +1,339 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Asset, Horizon } from '@stellar/stellar-sdk';
+import Big from 'big.js';
+import { StellarConfigService } from '../config/stellar.service';
+import { SdexService } from './sdex.service';
+import { OrderbookEntryDto } from './dto/orderbook.dto';
+
+export const ORDERBOOK_UPDATED_EVENT = 'sdex.orderbook.updated';
+export const TICKER_UPDATED_EVENT = 'sdex.ticker.updated';
+
+export interface OrderbookUpdate {
+  base: string;
+  counter: string;
+  // True for the first update of a stream, which carries every level
+  snapshot: boolean;
+  // Changed levels only; an amount of '0' removes the level
+  bids: OrderbookEntryDto[];
+  asks: OrderbookEntryDto[];
+  timestamp: string;
+}
+
+export interface TickerUpdate {
+  base: string;
+  counter: string;
+  price: string;
+  baseAmount: string;
+  counterAmount: string;
+  baseIsSeller: boolean;
+  tradedAt: string;
+}
+
+interface OrderbookLevels {
+  bids: Map<string, string>;
+  asks: Map<string, string>;
+}
+
+interface PairStream {
+  base: string;
+  counter: string;
+  subscribers: number;
+  closeOrderbook: () => void;
+  closeTrades: () => void;
+  levels?: OrderbookLevels;
+  pendingOrderbook?: Horizon.ServerApi.OrderbookRecord;
+  pendingTrade?: TickerUpdate;
+  orderbookTimer?: NodeJS.Timeout;
+  tickerTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Streams SDEX order books and trades for the pairs clients are watching.
+ * Streams are reference counted per pair, updates are throttled and order
+ * book changes are emitted as diffs against the last update sent.
+ */
+@Injectable()
+export class SdexStreamService implements OnModuleDestroy {
+  private readonly logger = new Logger(SdexStreamService.name);
+  private readonly server: Horizon.Server;
+  private readonly streams = new Map<string, PairStream>();
+
+  private readonly THROTTLE_MS = 1000;
+  private readonly RECONNECT_TIMEOUT = 5000;
+
+  constructor(
+    private readonly stellarConfig: StellarConfigService,
+    private readonly sdexService: SdexService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {
+    this.server = new Horizon.Server(this.stellarConfig.horizonUrl);
+  }
+
+  onModuleDestroy(): void {
+    for (const key of [...this.streams.keys()]) {
+      this.stopStream(key);
+    }
+  }
+
+  /**
+   * Starts the order book and trade streams for a pair, or adds a subscriber
+   * to the running ones. Assets are 'XLM' or 'CODE:ISSUER'.
+   */
+  watchPair(base: string, counter: string): void {
+    const key = this.getPairKey(base, counter);
+    const existing = this.streams.get(key);
+    if (existing) {
+      existing.subscribers++;
+      return;
+    }
+
+    const baseAsset = this.toStellarAsset(base);
+    const counterAsset = this.toStellarAsset(counter);
+
+    const stream: PairStream = {
+      base,
+      counter,
+      subscribers: 1,
+      closeOrderbook: this.server.orderbook(baseAsset, counterAsset).stream({
+        onmessage: (record) =>
+          this.handleOrderbook(
+            key,
+            record as unknown as Horizon.ServerApi.OrderbookRecord,
+          ),
+        onerror: (error) => this.handleStreamError(key, 'orderbook', error),
+        reconnectTimeout: this.RECONNECT_TIMEOUT,
+      }),
+      closeTrades: this.server
+        .trades()
+        .forAssetPair(baseAsset, counterAsset)
+        .cursor('now')
+        .stream({
+          onmessage: (record) =>
+            this.handleTrade(
+              key,
+              record as unknown as Horizon.ServerApi.TradeRecord,
+            ),
+          onerror: (error) => this.handleStreamError(key, 'trades', error),
+          reconnectTimeout: this.RECONNECT_TIMEOUT,
+        }),
+    };
+
+    this.streams.set(key, stream);
+    this.logger.log(`Started market streams for ${key}`);
+  }
+
+  unwatchPair(base: string, counter: string): void {
+    const key = this.getPairKey(base, counter);
+    const stream = this.streams.get(key);
+    if (!stream) {
+      return;
+    }
+
+    stream.subscribers--;
+    if (stream.subscribers <= 0) {
+      this.stopStream(key);
+    }
+  }
+
+  /**
+   * Full book as of the last update sent, so a client joining a running
+   * stream can apply the diffs that follow.
+   */
+  getOrderbookSnapshot(base: string, counter: string): OrderbookUpdate | null {
+    const levels = this.streams.get(this.getPairKey(base, counter))?.levels;
+    if (!levels) {
+      return null;
+    }
+
+    return {
+      base,
+      counter,
+      snapshot: true,
+      bids: this.toEntries(levels.bids),
+      asks: this.toEntries(levels.asks),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  isWatching(base: string, counter: string): boolean {
+    return this.streams.has(this.getPairKey(base, counter));
+  }
+
+  private handleOrderbook(
+    key: string,
+    record: Horizon.ServerApi.OrderbookRecord,
+  ): void {
+    const stream = this.streams.get(key);
+    if (!stream) {
+      return;
+    }
+
+    this.invalidateCache(stream);
+    stream.pendingOrderbook = record;
+
+    if (!stream.orderbookTimer) {
+      stream.orderbookTimer = setTimeout(
+        () => this.flushOrderbook(key),
+        stream.levels ? this.THROTTLE_MS : 0,
+      );
+    }
+  }
+
+  private handleTrade(
+    key: string,
+    record: Horizon.ServerApi.TradeRecord,
+  ): void {
+    const stream = this.streams.get(key);
+    if (!stream || !record.price) {
+      return;
+    }
+
+    this.invalidateCache(stream);
+    stream.pendingTrade = {
+      base: stream.base,
+      counter: stream.counter,
+      price: new Big(record.price.n).div(record.price.d).toFixed(7),
+      baseAmount: record.base_amount,
+      counterAmount: record.counter_amount,
+      baseIsSeller: record.base_is_seller,
+      tradedAt: record.ledger_close_time,
+    };
+
+    if (!stream.tickerTimer) {
+      stream.tickerTimer = setTimeout(
+        () => this.flushTicker(key),
+        this.THROTTLE_MS,
+      );
+    }
+  }
+
+  private flushOrderbook(key: string): void {
+    const stream = this.streams.get(key);
+    if (!stream?.pendingOrderbook) {
+      return;
+    }
+
+    const record = stream.pendingOrderbook;
+    stream.pendingOrderbook = undefined;
+    stream.orderbookTimer = undefined;
+
+    const next: OrderbookLevels = {
+      bids: this.toLevels(record.bids),
+      asks: this.toLevels(record.asks),
+    };
+    const previous = stream.levels;
+    stream.levels = next;
+
+    const update: OrderbookUpdate = {
+      base: stream.base,
+      counter: stream.counter,
+      snapshot: !previous,
+      bids: previous
+        ? this.diffLevels(previous.bids, next.bids)
+        : this.toEntries(next.bids),
+      asks: previous
+        ? this.diffLevels(previous.asks, next.asks)
+        : this.toEntries(next.asks),
+      timestamp: new Date().toISOString(),
+    };
+
+    if (!update.snapshot && !update.bids.length && !update.asks.length) {
+      return;
+    }
+
+    this.eventEmitter.emit(ORDERBOOK_UPDATED_EVENT, update);
+  }
+
+  private flushTicker(key: string): void {
+    const stream = this.streams.get(key);
+    if (!stream?.pendingTrade) {
+      return;
+    }
+
+    const update = stream.pendingTrade;
+    stream.pendingTrade = undefined;
+    stream.tickerTimer = undefined;
+
+    this.eventEmitter.emit(TICKER_UPDATED_EVENT, update);
+  }
+
+  private diffLevels(
+    previous: Map<string, string>,
+    next: Map<string, string>,
+  ): OrderbookEntryDto[] {
+    const changes: OrderbookEntryDto[] = [];
+
+    for (const [price, amount] of next) {
+      if (previous.get(price) !== amount) {
+        changes.push({ price, amount });
+      }
+    }
+
+    for (const price of previous.keys()) {
+      if (!next.has(price)) {
+        changes.push({ price, amount: '0' });
+      }
+    }
+
+    return changes;
+  }
+
+  private toLevels(
+    entries: Horizon.ServerApi.OrderbookRecord['bids'],
+  ): Map<string, string> {
+    return new Map(entries.map((entry) => [entry.price, entry.amount]));
+  }
+
+  private toEntries(levels: Map<string, string>): OrderbookEntryDto[] {
+    return [...levels].map(([price, amount]) => ({ price, amount }));
+  }
+
+  private invalidateCache(stream: PairStream): void {
+    this.sdexService
+      .invalidateCache(
+        this.toStellarAsset(stream.base),
+        this.toStellarAsset(stream.counter),
+      )
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to invalidate orderbook cache for ${stream.base}/${stream.counter}: ${(error as Error).message}`,
+        ),
+      );
+  }
+
+  private handleStreamError(key: string, type: string, error: unknown): void {
+    // The SDK reopens the stream after reconnectTimeout, so only log here
+    this.logger.warn(
+      `Market ${type} stream error for ${key}: ${(error as Error)?.message ?? error}`,
+    );
+  }
+
+  private stopStream(key: string): void {
+    const stream = this.streams.get(key);
+    if (!stream) {
+      return;
+    }
+
+    stream.closeOrderbook();
+    stream.closeTrades();
+    clearTimeout(stream.orderbookTimer);
+    clearTimeout(stream.tickerTimer);
+    this.streams.delete(key);
+
+    this.logger.log(`Stopped market streams for ${key}`);
+  }
+
+  private getPairKey(base: string, counter: string): string {
+    return `${base}/${counter}`;
+  }
+
+  private toStellarAsset(asset: string): Asset {
+    if (asset === 'XLM' || asset === 'native') {
+      return Asset.native();
+    }
+
+    const [code, issuer] = asset.split(':');
+    return new Asset(code, issuer);
+  }
+}
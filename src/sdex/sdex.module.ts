@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { SdexService } from './sdex.service';
+import { SdexStreamService } from './sdex-stream.service';
 import { CacheModule } from '../cache/cache.module';
 import { StellarConfigService } from '../config/stellar.service';
 
 @Module({
   imports: [CacheModule],
-  providers: [SdexService, StellarConfigService],
-  exports: [SdexService],
+  providers: [SdexService, SdexStreamService, StellarConfigService],
+  exports: [SdexService, SdexStreamService],
 })
 export class SdexModule {}
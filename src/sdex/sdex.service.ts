@@ -145,13 +145,21 @@ export class SdexService {
    * Should be called on trade execution.
    */
   async updateCache(selling: Asset, buying: Asset): Promise<void> {
-    const assetPair = `${this.getAssetId(selling)}:${this.getAssetId(buying)}`;
-    this.logger.debug(`Invalidating cache for ${assetPair} due to trade execution`);
-    await this.cacheService.del(this.getCacheKey(assetPair));
+    await this.invalidateCache(selling, buying);
     // Optionally refetch to prime the cache
     await this.getOrderbook(selling, buying);
   }
 
+  /**
+   * Drops the cached orderbook without refetching it.
+   * Called by the market streams whenever Horizon pushes a change for the pair.
+   */
+  async invalidateCache(selling: Asset, buying: Asset): Promise<void> {
+    const assetPair = `${this.getAssetId(selling)}:${this.getAssetId(buying)}`;
+    this.logger.debug(`Invalidating cache for ${assetPair}`);
+    await this.cacheService.del(this.getCacheKey(assetPair));
+  }
+
   private getAssetId(asset: Asset): string {
     if (asset.isNative()) return 'native';
     return `${asset.getCode()}:${asset.getIssuer()}`;
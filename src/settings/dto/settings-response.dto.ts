@@ -1,7 +1,7 @@
 import { UserSettingsData } from '../entities/user-settings.entity';
 
 export class SettingsResponseDto {
-  userId: string;
-  settings: UserSettingsData;
-  updatedAt: Date;
+  userId!: string;
+  settings!: UserSettingsData;
+  updatedAt!: Date;
 }
@@ -5,12 +5,42 @@ import {
   IsObject,
   IsOptional,
   IsString,
+  Matches,
   Max,
   Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
+class SlippageOptionsDto {
+  @IsEnum(['STRICT', 'MODERATE', 'RELAXED'])
+  @IsOptional()
+  toleranceLevel?: 'STRICT' | 'MODERATE' | 'RELAXED';
+
+  @IsBoolean()
+  @IsOptional()
+  enableDynamicSlippage?: boolean;
+
+  @IsNumber()
+  @Min(100)
+  @Max(30000)
+  @IsOptional()
+  maxExecutionTimeMs?: number;
+}
+
+export class SlippageOverrideDto extends SlippageOptionsDto {
+  @IsString()
+  @Matches(/^[^/]+\/[^/]+$/, {
+    message: "pair must be 'BASE/COUNTER'",
+  })
+  pair!: string;
+
+  @IsNumber()
+  @Min(0.1)
+  @Max(10)
+  maxSlippagePercent!: number;
+}
+
 class TradingSettingsDto {
   @IsEnum(['market', 'limit'])
   @IsOptional()
@@ -25,6 +55,12 @@ class TradingSettingsDto {
   @IsBoolean()
   @IsOptional()
   confirmTrades?: boolean;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SlippageOptionsDto)
+  @IsOptional()
+  slippageOptions?: SlippageOptionsDto;
 }
 
 class RiskSettingsDto {
@@ -7,10 +7,23 @@ import {
   Index,
 } from 'typeorm';
 
+export interface SlippageOptions {
+  toleranceLevel?: 'STRICT' | 'MODERATE' | 'RELAXED';
+  enableDynamicSlippage?: boolean;
+  maxExecutionTimeMs?: number;
+}
+
+export interface SlippageOverride extends SlippageOptions {
+  maxSlippagePercent: number;
+}
+
 export interface TradingSettings {
   defaultOrderType: 'market' | 'limit';
   defaultSlippage: number;
   confirmTrades: boolean;
+  slippageOptions?: SlippageOptions;
+  // Keyed by asset pair, e.g. 'XLM/USDC:GA5Z...'
+  slippageOverrides?: Record<string, SlippageOverride>;
 }
 
 export interface RiskSettings {
@@ -43,18 +56,18 @@ export interface UserSettingsData {
 @Entity('user_settings')
 export class UserSettings {
   @PrimaryGeneratedColumn('uuid')
-  id: string;
+  id!: string;
 
   @Column('uuid', { unique: true })
   @Index()
-  userId: string;
+  userId!: string;
 
   @Column('jsonb')
-  settings: UserSettingsData;
+  settings!: UserSettingsData;
 
   @CreateDateColumn()
-  createdAt: Date;
+  createdAt!: Date;
 
   @UpdateDateColumn()
-  updatedAt: Date;
+  updatedAt!: Date;
 }
@@ -5,10 +5,14 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import { SettingsService } from './settings.service';
-import { UpdateSettingsDto } from './dto/update-settings.dto';
+import {
+  SlippageOverrideDto,
+  UpdateSettingsDto,
+} from './dto/update-settings.dto';
 
 @Controller('settings')
 export class SettingsController {
@@ -27,6 +31,22 @@ export class SettingsController {
     return this.settingsService.updateSettings(userId, updateSettingsDto);
   }
 
+  @Put(':userId/slippage-overrides')
+  async setSlippageOverride(
+    @Param('userId') userId: string,
+    @Body() dto: SlippageOverrideDto,
+  ) {
+    return this.settingsService.setSlippageOverride(userId, dto);
+  }
+
+  @Delete(':userId/slippage-overrides')
+  async removeSlippageOverride(
+    @Param('userId') userId: string,
+    @Query('pair') pair: string,
+  ) {
+    return this.settingsService.removeSlippageOverride(userId, pair);
+  }
+
   @Put(':userId/reset')
   async resetSettings(@Param('userId') userId: string) {
     return this.settingsService.resetSettings(userId);
@@ -5,10 +5,14 @@ import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Inject } from '@nestjs/common';
 import { Cache } from 'cache-manager';
 import {
+  SlippageOverride,
   UserSettings,
   UserSettingsData,
 } from './entities/user-settings.entity';
-import { UpdateSettingsDto } from './dto/update-settings.dto';
+import {
+  SlippageOverrideDto,
+  UpdateSettingsDto,
+} from './dto/update-settings.dto';
 import { SettingsResponseDto } from './dto/settings-response.dto';
 
 @Injectable()
@@ -93,6 +97,10 @@ export class SettingsService {
       trading: {
         ...userSettings.settings.trading,
         ...(updateDto.trading || {}),
+        slippageOptions: {
+          ...userSettings.settings.trading.slippageOptions,
+          ...(updateDto.trading?.slippageOptions || {}),
+        },
       },
       risk: {
         ...userSettings.settings.risk,
@@ -163,6 +171,74 @@ export class SettingsService {
     this.logger.log(`Deleted settings for user ${userId}`);
   }
 
+  /**
+   * Set the slippage limit used for one asset pair instead of the default
+   */
+  async setSlippageOverride(
+    userId: string,
+    dto: SlippageOverrideDto,
+  ): Promise<SettingsResponseDto> {
+    const { pair, ...override } = dto;
+
+    return this.updateSlippageOverrides(userId, (overrides) => ({
+      ...overrides,
+      [pair]: override,
+    }));
+  }
+
+  async removeSlippageOverride(
+    userId: string,
+    pair: string,
+  ): Promise<SettingsResponseDto> {
+    return this.updateSlippageOverrides(userId, (overrides) => {
+      if (!overrides[pair]) {
+        throw new NotFoundException(`No slippage override for ${pair}`);
+      }
+
+      const remaining = { ...overrides };
+      delete remaining[pair];
+      return remaining;
+    });
+  }
+
+  private async updateSlippageOverrides(
+    userId: string,
+    update: (
+      overrides: Record<string, SlippageOverride>,
+    ) => Record<string, SlippageOverride>,
+  ): Promise<SettingsResponseDto> {
+    let userSettings = await this.userSettingsRepository.findOne({
+      where: { userId },
+    });
+
+    if (!userSettings) {
+      userSettings = await this.createDefaultSettings(userId);
+    }
+
+    userSettings.settings = {
+      ...userSettings.settings,
+      trading: {
+        ...userSettings.settings.trading,
+        slippageOverrides: update(
+          userSettings.settings.trading.slippageOverrides ?? {},
+        ),
+      },
+    };
+    const saved = await this.userSettingsRepository.save(userSettings);
+
+    // Invalidate cache
+    const cacheKey = `settings:${userId}`;
+    await this.cacheManager.del(cacheKey);
+
+    this.logger.log(`Updated slippage overrides for user ${userId}`);
+
+    return {
+      userId: saved.userId,
+      settings: saved.settings,
+      updatedAt: saved.updatedAt,
+    };
+  }
+
   private async createDefaultSettings(userId: string): Promise<UserSettings> {
     const userSettings = this.userSettingsRepository.create({
       userId,
@@ -1,4 +1,4 @@
-import { IsOptional, IsString, IsInt, Min, Max, IsEnum } from 'class-validator';
+import { IsOptional, IsString, IsInt, Min, Max, IsEnum, IsUUID } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
@@ -46,6 +46,14 @@ export class SignalFeedQueryDto {
   @IsString()
   provider?: string;
 
+  @ApiPropertyOptional({
+    description: 'Only show signals from providers this user follows (user ID)',
+    example: '3f1c2a9e-8b7d-4c6e-9a51-2d0f4e8b7c13',
+  })
+  @IsOptional()
+  @IsUUID()
+  following?: string;
+
   @ApiPropertyOptional({
     description: 'Sort signals by criteria',
     enum: SortBy,
@@ -26,12 +26,15 @@ export class SignalDto {
   @ApiProperty()
   id!: string;
 
-  @ApiProperty()
+  @ApiProperty({ example: 'USDC:GA5Z.../XLM' })
   asset!: string;
 
-  @ApiProperty()
+  @ApiProperty({ description: 'Provider user ID' })
   provider!: string;
 
+  @ApiProperty({ required: false })
+  providerUsername?: string;
+
   @ApiProperty()
   type!: 'BUY' | 'SELL';
 
@@ -41,8 +44,8 @@ export class SignalDto {
   @ApiProperty()
   targetPrice!: number;
 
-  @ApiProperty()
-  stopLoss!: number;
+  @ApiProperty({ nullable: true })
+  stopLoss!: number | null;
 
   @ApiProperty()
   status!: string;
@@ -1,13 +1,13 @@
 import { Controller, Get, Query, ValidationPipe } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { SignalsService } from './signals.service';
+import { SignalFeedService } from './signal-feed.service';
 import { SignalFeedQueryDto } from './dto/signal-feed-query.dto';
 import { SignalFeedResponseDto } from './dto/signal-feed-response.dto';
 
 @ApiTags('signals')
 @Controller('signals')
-export class SignalsController {
-  constructor(private readonly signalsService: SignalsService) {}
+export class SignalFeedController {
+  constructor(private readonly signalFeedService: SignalFeedService) {}
 
   @Get('feed')
   @ApiOperation({
@@ -27,6 +27,6 @@ export class SignalsController {
     @Query(new ValidationPipe({ transform: true }))
     query: SignalFeedQueryDto,
   ): Promise<SignalFeedResponseDto> {
-    return this.signalsService.getFeed(query);
+    return this.signalFeedService.getFeed(query);
   }
 }
\ No newline at end of file
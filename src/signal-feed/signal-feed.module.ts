@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CacheModule } from '@nestjs/cache-manager';
+import { redisStore } from 'cache-manager-redis-store';
+import { SignalFeedController } from './signal-feed.controller';
+import { SignalFeedService } from './signal-feed.service';
+import { Signal } from '../signals/entities/signal.entity';
+import { ProviderStats } from '../signals/entities/provider-stats.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Signal, ProviderStats]),
+    CacheModule.register({
+      store: redisStore,
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      ttl: 30, // 30 seconds default TTL
+    }),
+  ],
+  controllers: [SignalFeedController],
+  providers: [SignalFeedService],
+  exports: [SignalFeedService],
+})
+export class SignalFeedModule {}
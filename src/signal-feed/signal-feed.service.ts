@@ -1,53 +1,13 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan, LessThan } from 'typeorm';
-import { Entity, Column, PrimaryColumn, CreateDateColumn } from 'typeorm';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Cache } from 'cache-manager';
 import { SignalFeedQueryDto, SortBy } from './dto/signal-feed-query.dto';
 import { SignalFeedResponseDto, SignalDto } from './dto/signal-feed-response.dto';
-
-@Entity('signals')
-export class Signal {
-  @PrimaryColumn()
-  id!: string;
-
-  @Column()
-  asset!: string;
-
-  @Column()
-  provider!: string;
-
-  @Column()
-  type!: 'BUY' | 'SELL';
-
-  @Column()
-  entryPrice!: number;
-
-  @Column()
-  targetPrice!: number;
-
-  @Column()
-  stopLoss!: number;
-
-  @Column()
-  status!: string;
-
-  @CreateDateColumn()
-  createdAt!: Date;
-
-  @Column()
-  expiresAt!: Date;
-
-  @Column({ nullable: true })
-  viewCount?: number;
-
-  @Column({ nullable: true })
-  followerCount?: number;
-
-  @Column({ nullable: true })
-  successRate?: number;
-}
+import { Signal, SignalStatus } from '../signals/entities/signal.entity';
+import { ProviderFollow } from '../signals/entities/provider-follow.entity';
+import { ProviderStats } from '../signals/entities/provider-stats.entity';
 
 interface CursorData {
   id: string;
@@ -56,16 +16,18 @@ interface CursorData {
 }
 
 @Injectable()
-export class SignalsService {
+export class SignalFeedService {
   constructor(
     @InjectRepository(Signal)
     private signalRepository: Repository<Signal>,
+    @InjectRepository(ProviderStats)
+    private providerStatsRepository: Repository<ProviderStats>,
     @Inject(CACHE_MANAGER)
     private cacheManager: Cache,
   ) {}
 
   async getFeed(query: SignalFeedQueryDto): Promise<SignalFeedResponseDto> {
-    const { cursor, limit = 20, asset, provider, sortBy = SortBy.RECENT } = query;
+    const { cursor, limit = 20, asset, provider, following, sortBy = SortBy.RECENT } = query;
 
     // Generate cache key
     const cacheKey = this.generateCacheKey(query);
@@ -83,17 +45,29 @@ export class SignalsService {
     const queryBuilder = this.signalRepository
       .createQueryBuilder('signal')
       .leftJoinAndSelect('signal.provider', 'provider')
-      .leftJoinAndSelect('signal.asset', 'assetEntity')
-      .where('signal.status = :status', { status: 'ACTIVE' })
+      .where('signal.status = :status', { status: SignalStatus.ACTIVE })
       .andWhere('signal.expiresAt > :now', { now: new Date() });
 
     // Apply filters
     if (asset) {
-      queryBuilder.andWhere('signal.asset = :asset', { asset });
+      this.applyAssetFilter(queryBuilder, asset);
     }
 
     if (provider) {
-      queryBuilder.andWhere('signal.provider = :provider', { provider });
+      queryBuilder.andWhere('provider.walletAddress = :provider', { provider });
+    }
+
+    if (following) {
+      queryBuilder.andWhere(
+        (qb) =>
+          `signal.providerId IN ${qb
+            .subQuery()
+            .select('follow.providerId')
+            .from(ProviderFollow, 'follow')
+            .where('follow.followerId = :following')
+            .getQuery()}`,
+        { following },
+      );
     }
 
     // Apply cursor-based pagination
@@ -104,8 +78,9 @@ export class SignalsService {
     // Apply sorting
     this.applySorting(queryBuilder, sortBy);
 
-    // Fetch limit + 1 to check if there are more results
-    const signals = await queryBuilder.take(limit + 1).getMany();
+    // Fetch limit + 1 to check if there are more results. The provider join is
+    // many-to-one, so a plain LIMIT is safe and keeps the expression sorts working.
+    const signals = await queryBuilder.limit(limit + 1).getMany();
 
     // Check if there are more results
     const hasMore = signals.length > limit;
@@ -116,9 +91,9 @@ export class SignalsService {
       ? this.encodeCursor(resultSignals[resultSignals.length - 1], sortBy)
       : null;
 
-    // Transform signals to DTOs with eager loaded data
-    const signalDtos = await Promise.all(
-      resultSignals.map((signal) => this.transformToDto(signal)),
+    const providerStats = await this.getProviderStats(resultSignals);
+    const signalDtos = resultSignals.map((signal) =>
+      this.transformToDto(signal, providerStats.get(signal.providerId)),
     );
 
     const response: SignalFeedResponseDto = {
@@ -134,8 +109,28 @@ export class SignalsService {
   }
 
   private generateCacheKey(query: SignalFeedQueryDto): string {
-    const { cursor, limit, asset, provider, sortBy } = query;
-    return `feed:${cursor || 'first'}:${limit}:${asset || 'all'}:${provider || 'all'}:${sortBy}`;
+    const { cursor, limit, asset, provider, following, sortBy } = query;
+    return `feed:${cursor || 'first'}:${limit}:${asset || 'all'}:${provider || 'all'}:${following || 'all'}:${sortBy}`;
+  }
+
+  /**
+   * Accepts a pair ("USDC/XLM") or a single asset. Assets match either the
+   * stored "CODE:ISSUER" form or just the code.
+   */
+  private applyAssetFilter(queryBuilder: SelectQueryBuilder<Signal>, asset: string): void {
+    const [base, counter] = asset.split('/');
+
+    queryBuilder.andWhere('(signal.baseAsset = :base OR signal.baseAsset LIKE :basePrefix)', {
+      base,
+      basePrefix: `${base}:%`,
+    });
+
+    if (counter) {
+      queryBuilder.andWhere(
+        '(signal.counterAsset = :counter OR signal.counterAsset LIKE :counterPrefix)',
+        { counter, counterPrefix: `${counter}:%` },
+      );
+    }
   }
 
   private encodeCursor(signal: Signal, sortBy: SortBy): string {
@@ -146,9 +141,9 @@ export class SignalsService {
 
     // Add sort-specific value for non-timestamp sorts
     if (sortBy === SortBy.POPULAR) {
-      cursorData.sortValue = (signal.viewCount || 0) + (signal.followerCount || 0);
+      cursorData.sortValue = signal.viewCount + signal.followerCount;
     } else if (sortBy === SortBy.PERFORMANCE) {
-      cursorData.sortValue = signal.successRate || 0;
+      cursorData.sortValue = Number(signal.successRate);
     }
 
     return Buffer.from(JSON.stringify(cursorData)).toString('base64');
@@ -163,7 +158,7 @@ export class SignalsService {
   }
 
   private applyCursorCondition(
-    queryBuilder: any,
+    queryBuilder: SelectQueryBuilder<Signal>,
     cursorData: CursorData,
     sortBy: SortBy,
   ): void {
@@ -191,7 +186,7 @@ export class SignalsService {
     }
   }
 
-  private applySorting(queryBuilder: any, sortBy: SortBy): void {
+  private applySorting(queryBuilder: SelectQueryBuilder<Signal>, sortBy: SortBy): void {
     switch (sortBy) {
       case SortBy.RECENT:
         queryBuilder
@@ -213,32 +208,44 @@ export class SignalsService {
     }
   }
 
-  private async transformToDto(signal: Signal): Promise<SignalDto> {
-    // In a real implementation, you'd fetch this from related entities
-    // This is a simplified version
+  private async getProviderStats(signals: Signal[]): Promise<Map<string, ProviderStats>> {
+    const providerIds = [...new Set(signals.map((signal) => signal.providerId))];
+    if (providerIds.length === 0) {
+      return new Map();
+    }
+
+    const stats = await this.providerStatsRepository.find({
+      where: { providerId: In(providerIds) },
+    });
+
+    return new Map(stats.map((stat) => [stat.providerId, stat]));
+  }
+
+  private transformToDto(signal: Signal, stats?: ProviderStats): SignalDto {
     return {
       id: signal.id,
-      asset: signal.asset,
-      provider: signal.provider,
+      asset: signal.getAssetPair(),
+      provider: signal.providerId,
+      providerUsername: signal.provider?.username,
       type: signal.type,
-      entryPrice: signal.entryPrice,
-      targetPrice: signal.targetPrice,
-      stopLoss: signal.stopLoss,
+      entryPrice: parseFloat(signal.entryPrice),
+      targetPrice: parseFloat(signal.targetPrice),
+      stopLoss: signal.stopLossPrice ? parseFloat(signal.stopLossPrice) : null,
       status: signal.status,
       createdAt: signal.createdAt,
       expiresAt: signal.expiresAt,
-      popularity: (signal.viewCount || 0) + (signal.followerCount || 0),
-      performance: signal.successRate,
+      popularity: signal.viewCount + signal.followerCount,
+      performance: Number(signal.successRate),
       providerStats: {
-        successRate: signal.successRate || 0,
-        totalSignals: 0, // Fetch from provider stats
-        activeSignals: 0, // Fetch from provider stats
+        successRate: stats ? parseFloat(stats.winRate) : 0,
+        totalSignals: stats?.totalSignals ?? 0,
+        activeSignals: stats?.activeSignals ?? 0,
       },
       assetInfo: {
-        pair: signal.asset,
-        currentPrice: 0, // Fetch from market data
+        pair: signal.getAssetPair(),
+        currentPrice: signal.currentPrice ? parseFloat(signal.currentPrice) : 0,
         priceChange24h: 0, // Fetch from market data
       },
     };
   }
-}
\ No newline at end of file
+}
@@ -1 +0,0 @@
-// Deprecated file - use signals module instead
@@ -4,7 +4,7 @@ import { Repository, MoreThan } from 'typeorm';
 import { QualityScore, QualityBadge } from './entities/quality-score.entity';
 import { Cron, CronExpression } from '@nestjs/schedule';
 
-interface ProviderQualityReport {
+export interface ProviderQualityReport {
   providerId: string;
   averageScore: number;
   badge: QualityBadge;
@@ -5,17 +5,30 @@ import {
   IsUUID,
   IsNumber,
   IsDateString,
-  IsPositive,
   Min,
   Max,
   IsObject,
+  IsNumberString,
+  MaxLength,
+  IsNotEmpty,
+  IsArray,
+  IsInt,
+  ArrayMaxSize,
+  ArrayMinSize,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { SignalType, SignalStatus, SignalOutcome } from '../entities/signal.entity';
+import {
+  LeaderboardMetric,
+  LeaderboardWindow,
+} from '../services/provider-leaderboard.service';
 
+/**
+ * Body of a new signal. The provider is the authenticated wallet, never a
+ * field the client sends.
+ */
 export class CreateSignalDto {
-  @IsUUID()
-  providerId!: string;
-
   @IsString()
   baseAsset!: string;
 
@@ -25,16 +38,14 @@ export class CreateSignalDto {
   @IsEnum(SignalType)
   type!: SignalType;
 
-  @IsString()
-  @IsPositive()
+  @IsNumberString()
   entryPrice!: string;
 
-  @IsString()
-  @IsPositive()
+  @IsNumberString()
   targetPrice!: string;
 
   @IsOptional()
-  @IsString()
+  @IsNumberString()
   stopLossPrice?: string;
 
   @IsOptional()
@@ -49,7 +60,7 @@ export class CreateSignalDto {
 
   @IsOptional()
   @IsDateString()
-  expiresAt?: Date;
+  expiresAt?: string;
 
   @IsOptional()
   @IsObject()
@@ -87,6 +98,25 @@ export class UpdateSignalDto {
   metadata?: Record<string, unknown>;
 }
 
+export class AmendSignalDto {
+  @IsOptional()
+  @IsNumberString()
+  targetPrice?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  stopLossPrice?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
 export class SignalQueryDto {
   @IsOptional()
   @IsUUID()
@@ -108,3 +138,121 @@ export class SignalQueryDto {
   @IsString()
   counterAsset?: string;
 }
+
+export class FollowProviderDto {
+  @IsUUID()
+  userId!: string;
+
+  @IsUUID()
+  providerId!: string;
+}
+
+export class ApproveSignalDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RejectSignalDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+/**
+ * A hypothetical signal to replay. Mirrors the price levels and lifetime
+ * of a published signal.
+ */
+export class BacktestSignalDto {
+  @IsString()
+  @IsNotEmpty()
+  baseAsset!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  counterAsset!: string;
+
+  @IsEnum(SignalType)
+  type!: SignalType;
+
+  @IsNumberString()
+  entryPrice!: string;
+
+  @IsNumberString()
+  targetPrice!: string;
+
+  @IsOptional()
+  @IsNumberString()
+  stopLossPrice?: string;
+
+  @IsDateString()
+  createdAt!: string;
+
+  @IsDateString()
+  expiresAt!: string;
+}
+
+/**
+ * Either a provider whose history is replayed or an ad-hoc list of
+ * signals, not both. `from`/`to` narrow a provider's history by creation
+ * date; stakePerSignal sizes the equity curve.
+ */
+export class RunBacktestDto {
+  @IsOptional()
+  @IsUUID()
+  providerId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => BacktestSignalDto)
+  signals?: BacktestSignalDto[];
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  stakePerSignal?: string;
+}
+
+export class LeaderboardQueryDto {
+  @IsOptional()
+  @IsEnum(LeaderboardWindow)
+  window?: LeaderboardWindow;
+
+  @IsOptional()
+  @IsEnum(LeaderboardMetric)
+  metric?: LeaderboardMetric;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class ProviderProfileQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
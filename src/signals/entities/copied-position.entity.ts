@@ -11,6 +11,9 @@ export enum PositionStatus {
   OPEN = 'OPEN',
   CLOSED = 'CLOSED',
   AUTO_CLOSED = 'AUTO_CLOSED',
+  FAILED = 'FAILED',
+  // The signal closed but closing the copier's trade failed; retried in the background
+  CLOSE_FAILED = 'CLOSE_FAILED',
 }
 
 export enum AutoCloseReason {
@@ -39,6 +42,20 @@ export class CopiedPosition {
   @Column({ name: 'copier_id', type: 'uuid', nullable: true })
   copierId?: string;
 
+  @Column({ name: 'subscription_id', type: 'uuid', nullable: true })
+  @Index()
+  subscriptionId?: string;
+
+  @Column({ name: 'trade_id', type: 'uuid', nullable: true })
+  tradeId?: string;
+
+  @Column({ name: 'failure_reason', type: 'text', nullable: true })
+  failureReason?: string;
+
+  // Number of the last signal revision applied to the copied trade, 0 for none
+  @Column({ name: 'applied_revision', type: 'int', default: 0 })
+  appliedRevision!: number;
+
   @Column({ type: 'enum', enum: PositionStatus, default: PositionStatus.OPEN })
   status!: PositionStatus;
 
@@ -51,6 +68,9 @@ export class CopiedPosition {
   @Column({ name: 'pnl_absolute', type: 'decimal', precision: 18, scale: 8, nullable: true })
   pnlAbsolute?: string;
 
+  @Column({ name: 'close_transaction_hash', type: 'varchar', length: 128, nullable: true })
+  closeTransactionHash?: string;
+
   @Column({ name: 'closed_at', type: 'timestamp with time zone', nullable: true })
   closedAt?: Date;
 
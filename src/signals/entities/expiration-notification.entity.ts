@@ -13,6 +13,8 @@ export enum NotificationType {
   POSITION_AUTO_CLOSED = 'POSITION_AUTO_CLOSED',
   SIGNAL_CANCELLED = 'SIGNAL_CANCELLED',
   SIGNAL_EXPIRED = 'SIGNAL_EXPIRED',
+  SIGNAL_CLOSED = 'SIGNAL_CLOSED',
+  SIGNAL_AMENDED = 'SIGNAL_AMENDED',
 }
 
 export enum NotificationStatus {
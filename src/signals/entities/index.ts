@@ -1 +1,3 @@
 export * from './signal.entity';
+export * from './provider-follow.entity';
+export * from './signal-revision.entity';
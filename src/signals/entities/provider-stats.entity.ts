@@ -53,6 +53,9 @@ export class ProviderStats {
   @Column({ name: 'total_copiers', type: 'int', default: 0 })
   totalCopiers!: number;
 
+  @Column({ name: 'total_followers', type: 'int', default: 0 })
+  totalFollowers!: number;
+
   @Column({ name: 'total_volume_copied', type: 'decimal', precision: 18, scale: 8, default: '0' })
   totalVolumeCopied!: string;
 
@@ -62,6 +65,9 @@ export class ProviderStats {
   @Column({ name: 'streak_losses', type: 'int', default: 0 })
   streakLosses!: number;
 
+  @Column({ name: 'rejected_signals', type: 'int', default: 0 })
+  rejectedSignals!: number;
+
   @Column({ name: 'reputation_score', type: 'decimal', precision: 5, scale: 2, default: '50' })
   reputationScore!: string;
 
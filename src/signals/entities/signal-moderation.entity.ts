@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Signal } from './signal.entity';
+
+export enum ModerationAction {
+  FLAGGED = 'FLAGGED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+/**
+ * Audit trail of a signal's trip through moderation: the AI flag, then the
+ * moderator's decision. Each row carries the xAI verdict it was based on.
+ */
+@Entity('signal_moderations')
+@Index(['signalId', 'createdAt'])
+export class SignalModeration {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'signal_id', type: 'uuid' })
+  signalId!: string;
+
+  @ManyToOne(() => Signal, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'signal_id' })
+  signal?: Signal;
+
+  @Column({ name: 'provider_id', type: 'uuid' })
+  @Index()
+  providerId!: string;
+
+  @Column({ type: 'enum', enum: ModerationAction })
+  action!: ModerationAction;
+
+  @Column({ name: 'ai_score', type: 'int' })
+  aiScore!: number;
+
+  @Column({ name: 'ai_feedback', type: 'text' })
+  aiFeedback!: string;
+
+  @Column({ name: 'is_spam', default: false })
+  isSpam!: boolean;
+
+  // Wallet of the moderator; null on the automatic flag
+  @Column({ type: 'varchar', length: 56, nullable: true })
+  moderator!: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  reason!: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt!: Date;
+}
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Signal } from './signal.entity';
+
+export type AmendableSignalField =
+  | 'targetPrice'
+  | 'stopLossPrice'
+  | 'expiresAt';
+
+export interface SignalRevisionChange {
+  field: AmendableSignalField;
+  previous: string | null;
+  current: string;
+}
+
+/**
+ * One provider amendment to a signal. Rows are only ever inserted, so the
+ * revisions of a signal read as its edit history.
+ */
+@Entity('signal_revisions')
+@Index(['signalId', 'revision'], { unique: true })
+export class SignalRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'signal_id', type: 'uuid' })
+  signalId!: string;
+
+  @ManyToOne(() => Signal, (signal) => signal.revisions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'signal_id' })
+  signal?: Signal;
+
+  @Column({ name: 'provider_id', type: 'uuid' })
+  providerId!: string;
+
+  // 1 for the first amendment of a signal, then counting up
+  @Column({ type: 'int' })
+  revision!: number;
+
+  @Column({ type: 'jsonb' })
+  changes!: SignalRevisionChange[];
+
+  @Column({ type: 'text', nullable: true })
+  note!: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp with time zone' })
+  createdAt!: Date;
+}
@@ -12,6 +12,8 @@ import {
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
 import { CopiedPosition } from './copied-position.entity';
+import { SignalRevision } from './signal-revision.entity';
+import { ValidationSubscores } from '../../ai-validation/interfaces/xai-client.interface';
 
 export enum SignalType {
   BUY = 'BUY',
@@ -23,6 +25,8 @@ export enum SignalStatus {
   CLOSED = 'CLOSED',
   EXPIRED = 'EXPIRED',
   CANCELLED = 'CANCELLED',
+  // Flagged by AI validation and hidden until a moderator decides
+  MODERATION = 'MODERATION',
 }
 
 export enum SignalOutcome {
@@ -34,6 +38,19 @@ export enum SignalOutcome {
   CANCELLED = 'CANCELLED',
 }
 
+/**
+ * Verdict of the signal validator. Subscores are null when the validator
+ * could not be reached and the neutral fallback score was used.
+ */
+export interface SignalValidation {
+  validator: string | null;
+  score: number;
+  feedback: string;
+  isSpam: boolean;
+  subscores: ValidationSubscores | null;
+  validatedAt: string;
+}
+
 @Entity('signals')
 @Index(['status', 'created_at'])
 @Index(['provider_id', 'created_at'])
@@ -163,6 +180,16 @@ export class Signal {
   @Column({ type: 'decimal', precision: 5, scale: 2, default: 0 })
   successRate!: number;
 
+  @Column({ name: 'view_count', type: 'int', default: 0 })
+  viewCount!: number;
+
+  // Followers of the provider, kept current while the signal is active
+  @Column({ name: 'follower_count', type: 'int', default: 0 })
+  followerCount!: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  validation!: SignalValidation | null;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata!: Record<string, any> | null;
 
@@ -178,6 +205,10 @@ export class Signal {
 
   @OneToMany(() => CopiedPosition, (p) => p.signalId)
   copiedPositions?: CopiedPosition[];
+
+  @OneToMany(() => SignalRevision, (revision) => revision.signal)
+  revisions?: SignalRevision[];
+
   getAssetPair(): string {
     return `${this.baseAsset}/${this.counterAsset}`;
   }
@@ -0,0 +1,30 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import {
+  LeaderboardMetric,
+  LeaderboardSnapshot,
+  LeaderboardWindow,
+  ProviderLeaderboardService,
+} from './services/provider-leaderboard.service';
+import { LeaderboardQueryDto } from './dto';
+
+@Controller('leaderboards')
+export class LeaderboardController {
+  constructor(
+    private readonly providerLeaderboardService: ProviderLeaderboardService,
+  ) {}
+
+  /**
+   * Providers ranked on one metric over a rolling window
+   * GET /leaderboards?window=30d&metric=sharpe&limit=50
+   */
+  @Get()
+  async getLeaderboard(
+    @Query() query: LeaderboardQueryDto,
+  ): Promise<LeaderboardSnapshot> {
+    return this.providerLeaderboardService.getLeaderboard(
+      query.window ?? LeaderboardWindow.MONTH,
+      query.metric ?? LeaderboardMetric.SHARPE,
+      query.limit,
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ProviderFollowService,
+  FollowedProvider,
+  ProviderFollower,
+} from './services/provider-follow.service';
+import { ProviderFollow } from './entities/provider-follow.entity';
+import { FollowProviderDto } from './dto';
+
+@Controller('follows')
+export class ProviderFollowsController {
+  constructor(private readonly providerFollowService: ProviderFollowService) {}
+
+  /**
+   * Follow a signal provider
+   * POST /follows
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async follow(@Body() dto: FollowProviderDto): Promise<ProviderFollow> {
+    return this.providerFollowService.follow(dto.userId, dto.providerId);
+  }
+
+  /**
+   * Unfollow a signal provider
+   * DELETE /follows/:userId/:providerId
+   */
+  @Delete(':userId/:providerId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unfollow(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('providerId', ParseUUIDPipe) providerId: string,
+  ): Promise<void> {
+    return this.providerFollowService.unfollow(userId, providerId);
+  }
+
+  /**
+   * Providers a user follows
+   * GET /follows/user/:userId
+   */
+  @Get('user/:userId')
+  async getFollowedProviders(
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ): Promise<FollowedProvider[]> {
+    return this.providerFollowService.getFollowedProviders(userId);
+  }
+
+  /**
+   * Users following a provider
+   * GET /follows/provider/:providerId
+   */
+  @Get('provider/:providerId')
+  async getFollowers(
+    @Param('providerId', ParseUUIDPipe) providerId: string,
+  ): Promise<ProviderFollower[]> {
+    return this.providerFollowService.getFollowers(providerId);
+  }
+}
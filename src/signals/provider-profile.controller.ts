@@ -0,0 +1,30 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query } from '@nestjs/common';
+import {
+  ProviderProfile,
+  ProviderProfileService,
+} from './services/provider-profile.service';
+import { ProviderProfileQueryDto } from './dto';
+
+@Controller('providers')
+export class ProviderProfileController {
+  constructor(
+    private readonly providerProfileService: ProviderProfileService,
+  ) {}
+
+  /**
+   * Track record of a provider on one screen; page and limit apply to the
+   * closed-signal history
+   * GET /providers/:providerId/profile
+   */
+  @Get(':providerId/profile')
+  async getProfile(
+    @Param('providerId', ParseUUIDPipe) providerId: string,
+    @Query() query: ProviderProfileQueryDto,
+  ): Promise<ProviderProfile> {
+    return this.providerProfileService.getProfile(
+      providerId,
+      query.page,
+      query.limit,
+    );
+  }
+}
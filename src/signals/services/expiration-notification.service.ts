@@ -9,6 +9,7 @@ import {
 } from '../entities/expiration-notification.entity';
 import { Signal } from '../entities/signal.entity';
 import { CopiedPosition, AutoCloseReason } from '../entities/copied-position.entity';
+import { SignalRevision } from '../entities/signal-revision.entity';
 
 @Injectable()
 export class ExpirationNotificationService {
@@ -205,6 +206,86 @@ export class ExpirationNotificationService {
     return notification;
   }
 
+  async notifySignalClosed(
+    userId: string,
+    signal: Signal,
+    position: CopiedPosition,
+  ): Promise<ExpirationNotification> {
+    const notification = this.notificationRepository.create({
+      userId,
+      signalId: signal.id,
+      positionId: position.id,
+      type: NotificationType.SIGNAL_CLOSED,
+      status: NotificationStatus.PENDING,
+      channel: NotificationChannel.IN_APP,
+      title: 'Signal Closed',
+      message: `The provider has closed the ${signal.baseAsset}/${signal.counterAsset} signal. Your position remains open - please decide what action to take.`,
+      data: {
+        signalId: signal.id,
+        positionId: position.id,
+        baseAsset: signal.baseAsset,
+        counterAsset: signal.counterAsset,
+        outcome: signal.outcome,
+        closePrice: signal.closePrice,
+        closedAt: new Date().toISOString(),
+      },
+    }) as unknown as ExpirationNotification;
+
+    await this.notificationRepository.save(notification);
+    await this.sendNotification(notification);
+
+    this.logger.log(
+      `Close notification sent to user ${userId} for signal ${signal.id}`,
+    );
+
+    return notification;
+  }
+
+  async notifySignalAmended(
+    userId: string,
+    signal: Signal,
+    position: CopiedPosition,
+    revision: SignalRevision,
+  ): Promise<ExpirationNotification> {
+    const fieldLabels: Record<string, string> = {
+      targetPrice: 'target',
+      stopLossPrice: 'stop loss',
+      expiresAt: 'expiry',
+    };
+    const summary = revision.changes
+      .map((change) => `${fieldLabels[change.field]} to ${change.current}`)
+      .join(', ');
+
+    const notification = this.notificationRepository.create({
+      userId,
+      signalId: signal.id,
+      positionId: position.id,
+      type: NotificationType.SIGNAL_AMENDED,
+      status: NotificationStatus.PENDING,
+      channel: NotificationChannel.IN_APP,
+      title: 'Signal Updated',
+      message: `The provider changed the ${signal.baseAsset}/${signal.counterAsset} signal: ${summary}. You can apply the new levels to your trade.`,
+      data: {
+        signalId: signal.id,
+        positionId: position.id,
+        tradeId: position.tradeId,
+        revisionId: revision.id,
+        revision: revision.revision,
+        changes: revision.changes,
+        note: revision.note,
+      },
+    }) as unknown as ExpirationNotification;
+
+    await this.notificationRepository.save(notification);
+    await this.sendNotification(notification);
+
+    this.logger.log(
+      `Amendment notification sent to user ${userId} for signal ${signal.id} revision ${revision.revision}`,
+    );
+
+    return notification;
+  }
+
   async getUserNotifications(
     userId: string,
     limit = 50,
@@ -4,3 +4,9 @@ export * from './expiration-notification.service';
 export * from './sdex-price.service';
 export * from './signal-performance.service';
 export * from './provider-stats.service';
+export * from './provider-follow.service';
+export * from './signal-revision.service';
+export * from './signal-moderation.service';
+export * from './signal-backtest.service';
+export * from './provider-leaderboard.service';
+export * from './provider-profile.service';
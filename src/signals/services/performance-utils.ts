@@ -0,0 +1,80 @@
+import { Signal, SignalOutcome, SignalType } from '../entities/signal.entity';
+
+/**
+ * Return of a closed signal in percent, from entry to close price (the last
+ * tracked price for expired signals) and signed by direction. Null when no
+ * exit price was recorded.
+ */
+export const signalReturn = (
+  signal: Pick<Signal, 'type' | 'entryPrice' | 'closePrice' | 'currentPrice'>,
+): number | null => {
+  const entry = parseFloat(signal.entryPrice);
+  const exit = parseFloat(signal.closePrice ?? signal.currentPrice ?? '');
+  if (!(entry > 0) || Number.isNaN(exit)) return null;
+
+  return (
+    ((signal.type === SignalType.BUY ? exit - entry : entry - exit) / entry) *
+    100
+  );
+};
+
+/**
+ * Wins follow ProviderStats: target hits win, stop losses lose, anything
+ * else wins when closed in profit
+ */
+export const isWinningSignal = (outcome: SignalOutcome, pnl: number): boolean =>
+  outcome === SignalOutcome.TARGET_HIT ||
+  (outcome !== SignalOutcome.STOP_LOSS_HIT && pnl > 0);
+
+/*
+ * Risk metrics below take a series of per-signal returns in percent, in the
+ * order the signals closed. Ratios are per signal with a zero risk-free rate
+ * and are not annualised, since signals have no fixed period.
+ */
+
+const mean = (returns: number[]): number =>
+  returns.reduce((sum, value) => sum + value, 0) / returns.length;
+
+export const sharpeRatio = (returns: number[]): number | null => {
+  if (returns.length < 2) return null;
+
+  const average = mean(returns);
+  const variance =
+    returns.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+    (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+
+  return deviation > 0 ? average / deviation : null;
+};
+
+/**
+ * Like Sharpe but only losing signals count as risk
+ */
+export const sortinoRatio = (returns: number[]): number | null => {
+  if (returns.length < 2) return null;
+
+  const downside =
+    returns.reduce((sum, value) => sum + Math.min(0, value) ** 2, 0) /
+    returns.length;
+  const deviation = Math.sqrt(downside);
+
+  return deviation > 0 ? mean(returns) / deviation : null;
+};
+
+/**
+ * Deepest peak-to-trough fall of cumulative return, as a value <= 0 in
+ * percentage points
+ */
+export const maxDrawdown = (returns: number[]): number => {
+  let cumulative = 0;
+  let peak = 0;
+  let drawdown = 0;
+
+  for (const value of returns) {
+    cumulative += value;
+    peak = Math.max(peak, cumulative);
+    drawdown = Math.min(drawdown, cumulative - peak);
+  }
+
+  return drawdown;
+};
@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { QueryFailedError } from 'typeorm';
+import { ProviderFollowService } from './provider-follow.service';
+import { ProviderFollow } from '../entities/provider-follow.entity';
+import { ProviderStats } from '../entities/provider-stats.entity';
+import { Signal, SignalStatus } from '../entities/signal.entity';
+import { User } from '../../users/entities/user.entity';
+
+// uuid ships ESM only, which jest cannot load; events only use it for correlation ids
+jest.mock('uuid', () => ({ v4: () => 'correlation-id' }));
+
+describe('ProviderFollowService', () => {
+  let service: ProviderFollowService;
+
+  const userId = '11111111-1111-4111-8111-111111111111';
+  const providerId = '22222222-2222-4222-8222-222222222222';
+
+  const mockFollowRepository = {
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(),
+    find: jest.fn(),
+    create: jest.fn((data) => data),
+    save: jest.fn(async (data) => ({ id: 'follow-1', ...data })),
+    delete: jest.fn(),
+    count: jest.fn(),
+    exists: jest.fn(),
+  };
+
+  const mockProviderStatsRepository = {
+    upsert: jest.fn(),
+  };
+
+  const mockSignalRepository = {
+    update: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    exists: jest.fn(),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProviderFollowService,
+        {
+          provide: getRepositoryToken(ProviderFollow),
+          useValue: mockFollowRepository,
+        },
+        {
+          provide: getRepositoryToken(ProviderStats),
+          useValue: mockProviderStatsRepository,
+        },
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<ProviderFollowService>(ProviderFollowService);
+    mockUserRepository.exists.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('follow', () => {
+    it('should save the follow, refresh the follower count and emit an event', async () => {
+      mockFollowRepository.findOne.mockResolvedValue(null);
+      mockFollowRepository.count.mockResolvedValue(3);
+
+      const result = await service.follow(userId, providerId);
+
+      expect(result).toEqual(
+        expect.objectContaining({ followerId: userId, providerId }),
+      );
+      expect(mockProviderStatsRepository.upsert).toHaveBeenCalledWith(
+        { providerId, totalFollowers: 3 },
+        ['providerId'],
+      );
+      expect(mockSignalRepository.update).toHaveBeenCalledWith(
+        { providerId, status: SignalStatus.ACTIVE },
+        { followerCount: 3 },
+      );
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'user.followed.provider',
+        expect.objectContaining({ userId, providerId }),
+      );
+    });
+
+    it('should return the existing follow without counting twice', async () => {
+      const existing = { id: 'follow-1', followerId: userId, providerId };
+      mockFollowRepository.findOne.mockResolvedValue(existing);
+
+      const result = await service.follow(userId, providerId);
+
+      expect(result).toBe(existing);
+      expect(mockFollowRepository.save).not.toHaveBeenCalled();
+      expect(mockProviderStatsRepository.upsert).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should return the row a concurrent follow inserted without counting twice', async () => {
+      const existing = { id: 'follow-1', followerId: userId, providerId };
+      mockFollowRepository.findOne.mockResolvedValue(null);
+      mockFollowRepository.save.mockRejectedValueOnce(
+        Object.assign(
+          new QueryFailedError('INSERT', [], new Error('duplicate key')),
+          { code: '23505' },
+        ),
+      );
+      mockFollowRepository.findOneOrFail.mockResolvedValue(existing);
+
+      const result = await service.follow(userId, providerId);
+
+      expect(result).toBe(existing);
+      expect(mockFollowRepository.findOneOrFail).toHaveBeenCalledWith({
+        where: { followerId: userId, providerId },
+      });
+      expect(mockProviderStatsRepository.upsert).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reject following yourself', async () => {
+      await expect(service.follow(userId, userId)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject an unknown provider', async () => {
+      mockUserRepository.exists
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      await expect(service.follow(userId, providerId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('unfollow', () => {
+    it('should delete the follow and refresh the follower count', async () => {
+      mockFollowRepository.delete.mockResolvedValue({ affected: 1 });
+      mockFollowRepository.count.mockResolvedValue(2);
+
+      await service.unfollow(userId, providerId);
+
+      expect(mockProviderStatsRepository.upsert).toHaveBeenCalledWith(
+        { providerId, totalFollowers: 2 },
+        ['providerId'],
+      );
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+        'user.unfollowed.provider',
+        expect.objectContaining({ userId, providerId }),
+      );
+    });
+
+    it('should throw when the user does not follow the provider', async () => {
+      mockFollowRepository.delete.mockResolvedValue({ affected: 0 });
+
+      await expect(service.unfollow(userId, providerId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockProviderStatsRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFollowedProviders', () => {
+    it('should map follows to provider summaries', async () => {
+      const followedAt = new Date('2025-01-20T00:00:00Z');
+      mockFollowRepository.find.mockResolvedValue([
+        {
+          providerId,
+          createdAt: followedAt,
+          provider: {
+            username: 'alpha',
+            displayName: 'Alpha Signals',
+            walletAddress: 'GALPHA',
+          },
+        },
+      ]);
+
+      const result = await service.getFollowedProviders(userId);
+
+      expect(result).toEqual([
+        {
+          providerId,
+          username: 'alpha',
+          displayName: 'Alpha Signals',
+          walletAddress: 'GALPHA',
+          followedAt,
+        },
+      ]);
+    });
+  });
+});
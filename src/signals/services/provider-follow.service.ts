@@ -0,0 +1,193 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { QueryFailedError, Repository } from 'typeorm';
+import { ProviderFollow } from '../entities/provider-follow.entity';
+import { ProviderStats } from '../entities/provider-stats.entity';
+import { Signal, SignalStatus } from '../entities/signal.entity';
+import { User } from '../../users/entities/user.entity';
+import {
+  UserFollowedProviderEvent,
+  UserUnfollowedProviderEvent,
+} from '../../events/user.events';
+
+export interface FollowedProvider {
+  providerId: string;
+  username: string;
+  displayName?: string;
+  walletAddress: string;
+  followedAt: Date;
+}
+
+export interface ProviderFollower {
+  userId: string;
+  username: string;
+  walletAddress: string;
+  followedAt: Date;
+}
+
+/**
+ * Maintains the user -> provider follow graph and keeps
+ * ProviderStats.totalFollowers and the provider's active signals'
+ * followerCount in step with it.
+ */
+@Injectable()
+export class ProviderFollowService {
+  private readonly logger = new Logger(ProviderFollowService.name);
+
+  constructor(
+    @InjectRepository(ProviderFollow)
+    private readonly followRepository: Repository<ProviderFollow>,
+    @InjectRepository(ProviderStats)
+    private readonly providerStatsRepository: Repository<ProviderStats>,
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Follows a provider. Following one already followed is a no-op.
+   */
+  async follow(userId: string, providerId: string): Promise<ProviderFollow> {
+    if (userId === providerId) {
+      throw new BadRequestException('Users cannot follow themselves');
+    }
+
+    await this.assertUserExists(userId, 'User');
+    await this.assertUserExists(providerId, 'Provider');
+
+    const existing = await this.followRepository.findOne({
+      where: { followerId: userId, providerId },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    let follow: ProviderFollow;
+    try {
+      follow = await this.followRepository.save(
+        this.followRepository.create({ followerId: userId, providerId }),
+      );
+    } catch (error) {
+      // A concurrent follow inserted the row first and has counted it
+      if (
+        error instanceof QueryFailedError &&
+        (error as { code?: string }).code === '23505'
+      ) {
+        return this.followRepository.findOneOrFail({
+          where: { followerId: userId, providerId },
+        });
+      }
+      throw error;
+    }
+
+    await this.refreshFollowerCount(providerId);
+
+    const event = new UserFollowedProviderEvent({ userId, providerId });
+    this.eventEmitter.emit(event.eventName, event);
+    this.logger.log(`User ${userId} followed provider ${providerId}`);
+
+    return follow;
+  }
+
+  async unfollow(userId: string, providerId: string): Promise<void> {
+    const result = await this.followRepository.delete({
+      followerId: userId,
+      providerId,
+    });
+
+    if (!result.affected) {
+      throw new NotFoundException(
+        `User ${userId} does not follow provider ${providerId}`,
+      );
+    }
+
+    await this.refreshFollowerCount(providerId);
+
+    const event = new UserUnfollowedProviderEvent({ userId, providerId });
+    this.eventEmitter.emit(event.eventName, event);
+    this.logger.log(`User ${userId} unfollowed provider ${providerId}`);
+  }
+
+  async getFollowedProviders(userId: string): Promise<FollowedProvider[]> {
+    const follows = await this.followRepository.find({
+      where: { followerId: userId },
+      relations: ['provider'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return follows
+      .filter((follow) => follow.provider)
+      .map((follow) => ({
+        providerId: follow.providerId,
+        username: follow.provider!.username,
+        displayName: follow.provider!.displayName,
+        walletAddress: follow.provider!.walletAddress,
+        followedAt: follow.createdAt,
+      }));
+  }
+
+  async getFollowers(providerId: string): Promise<ProviderFollower[]> {
+    const follows = await this.followRepository.find({
+      where: { providerId },
+      relations: ['follower'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return follows
+      .filter((follow) => follow.follower)
+      .map((follow) => ({
+        userId: follow.followerId,
+        username: follow.follower!.username,
+        walletAddress: follow.follower!.walletAddress,
+        followedAt: follow.createdAt,
+      }));
+  }
+
+  async getFollowedProviderIds(userId: string): Promise<string[]> {
+    const follows = await this.followRepository.find({
+      select: { providerId: true },
+      where: { followerId: userId },
+    });
+
+    return follows.map((follow) => follow.providerId);
+  }
+
+  async isFollowing(userId: string, providerId: string): Promise<boolean> {
+    return this.followRepository.exists({
+      where: { followerId: userId, providerId },
+    });
+  }
+
+  /**
+   * Recounts rather than increments so concurrent follows can't drift the total.
+   */
+  private async refreshFollowerCount(providerId: string): Promise<void> {
+    const totalFollowers = await this.followRepository.count({
+      where: { providerId },
+    });
+
+    await this.providerStatsRepository.upsert({ providerId, totalFollowers }, [
+      'providerId',
+    ]);
+
+    await this.signalRepository.update(
+      { providerId, status: SignalStatus.ACTIVE },
+      { followerCount: totalFollowers },
+    );
+  }
+
+  private async assertUserExists(id: string, label: string): Promise<void> {
+    const exists = await this.userRepository.exists({ where: { id } });
+    if (!exists) {
+      throw new NotFoundException(`${label} ${id} not found`);
+    }
+  }
+}
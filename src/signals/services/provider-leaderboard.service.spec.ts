@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  LEADERBOARD_UPDATED_EVENT,
+  LeaderboardMetric,
+  LeaderboardWindow,
+  ProviderLeaderboardService,
+} from './provider-leaderboard.service';
+import {
+  Signal,
+  SignalOutcome,
+  SignalStatus,
+  SignalType,
+} from '../entities/signal.entity';
+import { CacheService } from '../../cache/cache.service';
+
+describe('ProviderLeaderboardService', () => {
+  let service: ProviderLeaderboardService;
+
+  const steady = '11111111-1111-4111-8111-111111111111';
+  const volatile = '22222222-2222-4222-8222-222222222222';
+  const lucky = '33333333-3333-4333-8333-333333333333';
+
+  const closedSignal = (
+    providerId: string,
+    closePrice: string,
+    copiersCount = 0,
+  ): Partial<Signal> => ({
+    providerId,
+    type: SignalType.BUY,
+    status: SignalStatus.CLOSED,
+    outcome:
+      parseFloat(closePrice) > 100
+        ? SignalOutcome.TARGET_HIT
+        : SignalOutcome.STOP_LOSS_HIT,
+    entryPrice: '100',
+    closePrice,
+    currentPrice: null,
+    copiersCount,
+    closedAt: new Date(),
+  });
+
+  // steady: +5% x3 and -1% (total 14); volatile: +40/-20/+30/-25 (total 25);
+  // lucky: a single +90% signal, below the sample size
+  const signals = [
+    ...['105', '105', '99', '105'].map((price) =>
+      closedSignal(steady, price, 2),
+    ),
+    ...['140', '80', '130', '75'].map((price) =>
+      closedSignal(volatile, price, 10),
+    ),
+    closedSignal(lucky, '190', 50),
+  ];
+
+  const cache = new Map<string, unknown>();
+
+  const mockSignalRepository = {
+    find: jest.fn(),
+  };
+
+  const mockCacheService = {
+    get: jest.fn(async (key: string) => cache.get(key)),
+    setWithTTL: jest.fn(async (key: string, value: unknown) => {
+      cache.set(key, value);
+    }),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, fallback?: unknown) =>
+      key === 'signals.leaderboardMinSignals' ? 3 : fallback,
+    ),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProviderLeaderboardService,
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<ProviderLeaderboardService>(
+      ProviderLeaderboardService,
+    );
+    cache.clear();
+    mockSignalRepository.find.mockResolvedValue(signals);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should leave providers below the minimum sample size off the board', async () => {
+    const snapshot = await service.getLeaderboard(
+      LeaderboardWindow.MONTH,
+      LeaderboardMetric.COPIERS,
+    );
+
+    expect(snapshot.minSignals).toBe(3);
+    expect(snapshot.entries.map((entry) => entry.providerId)).toEqual([
+      volatile,
+      steady,
+    ]);
+  });
+
+  it('should rank risk-adjusted metrics differently from raw P&L', async () => {
+    const byPnl = await service.getLeaderboard(
+      LeaderboardWindow.ALL_TIME,
+      LeaderboardMetric.TOTAL_PNL,
+    );
+    const bySharpe = await service.getLeaderboard(
+      LeaderboardWindow.ALL_TIME,
+      LeaderboardMetric.SHARPE,
+    );
+    const byDrawdown = await service.getLeaderboard(
+      LeaderboardWindow.ALL_TIME,
+      LeaderboardMetric.MAX_DRAWDOWN,
+    );
+
+    expect(byPnl.entries[0]).toEqual(
+      expect.objectContaining({
+        providerId: volatile,
+        totalPnl: '25.00000000',
+      }),
+    );
+    expect(bySharpe.entries[0].providerId).toBe(steady);
+    expect(byDrawdown.entries.map((entry) => entry.maxDrawdown)).toEqual([
+      '-1.0000',
+      '-25.0000',
+    ]);
+    expect(byPnl.entries[1].winRate).toBe('75.00');
+  });
+
+  it('should serve cached snapshots without recomputing', async () => {
+    await service.getLeaderboard(
+      LeaderboardWindow.WEEK,
+      LeaderboardMetric.WIN_RATE,
+    );
+    await service.getLeaderboard(
+      LeaderboardWindow.WEEK,
+      LeaderboardMetric.SORTINO,
+      1,
+    );
+
+    expect(mockSignalRepository.find).toHaveBeenCalledTimes(1);
+  });
+
+  it('should publish rank changes when snapshots are refreshed', async () => {
+    await service.refreshSnapshots();
+    mockEventEmitter.emit.mockClear();
+
+    // steady overtakes volatile on total P&L
+    mockSignalRepository.find.mockResolvedValue([
+      ...signals,
+      closedSignal(steady, '150'),
+    ]);
+    await service.refreshSnapshots();
+
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      LEADERBOARD_UPDATED_EVENT,
+      expect.objectContaining({
+        window: LeaderboardWindow.ALL_TIME,
+        metric: LeaderboardMetric.TOTAL_PNL,
+        changes: [
+          { providerId: steady, rank: 1, previousRank: 2 },
+          { providerId: volatile, rank: 2, previousRank: 1 },
+        ],
+      }),
+    );
+  });
+});
@@ -0,0 +1,330 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, IsNull, MoreThanOrEqual, Not, Repository } from 'typeorm';
+import { Signal, SignalStatus } from '../entities/signal.entity';
+import { CacheService, CachePrefix } from '../../cache/cache.service';
+import {
+  isWinningSignal,
+  maxDrawdown,
+  sharpeRatio,
+  signalReturn,
+  sortinoRatio,
+} from './performance-utils';
+
+export const LEADERBOARD_UPDATED_EVENT = 'leaderboard.updated';
+
+export enum LeaderboardWindow {
+  WEEK = '7d',
+  MONTH = '30d',
+  QUARTER = '90d',
+  ALL_TIME = 'all',
+}
+
+export enum LeaderboardMetric {
+  TOTAL_PNL = 'totalPnl',
+  WIN_RATE = 'winRate',
+  SHARPE = 'sharpe',
+  SORTINO = 'sortino',
+  MAX_DRAWDOWN = 'maxDrawdown',
+  COPIERS = 'copiers',
+}
+
+const WINDOW_DAYS: Record<LeaderboardWindow, number | null> = {
+  [LeaderboardWindow.WEEK]: 7,
+  [LeaderboardWindow.MONTH]: 30,
+  [LeaderboardWindow.QUARTER]: 90,
+  [LeaderboardWindow.ALL_TIME]: null,
+};
+
+// Matches the leaderboard:top100 socket room
+const SNAPSHOT_SIZE = 100;
+
+export interface LeaderboardEntry {
+  rank: number;
+  providerId: string;
+  closedSignals: number;
+  winRate: string;
+  totalPnl: string;
+  sharpeRatio: string | null;
+  sortinoRatio: string | null;
+  maxDrawdown: string;
+  copiers: number;
+}
+
+export interface LeaderboardSnapshot {
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  minSignals: number;
+  generatedAt: string;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * A provider that moved, entered (previousRank null) or dropped out of
+ * (rank null) the top of a leaderboard
+ */
+export interface LeaderboardRankChange {
+  providerId: string;
+  rank: number | null;
+  previousRank: number | null;
+}
+
+export interface LeaderboardUpdate {
+  window: LeaderboardWindow;
+  metric: LeaderboardMetric;
+  generatedAt: string;
+  changes: LeaderboardRankChange[];
+}
+
+interface ProviderPerformance {
+  providerId: string;
+  closedSignals: number;
+  winRate: number;
+  totalPnl: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: number;
+  copiers: number;
+}
+
+/**
+ * Ranks providers on signals closed within a rolling window. Providers need
+ * a minimum number of closed signals in the window, so one lucky signal
+ * cannot top a board. Snapshots are rebuilt on a schedule and cached; rank
+ * changes in the top 100 are published for the leaderboard socket room.
+ */
+@Injectable()
+export class ProviderLeaderboardService {
+  private readonly logger = new Logger(ProviderLeaderboardService.name);
+
+  constructor(
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async getLeaderboard(
+    window: LeaderboardWindow,
+    metric: LeaderboardMetric,
+    limit: number = SNAPSHOT_SIZE,
+  ): Promise<LeaderboardSnapshot> {
+    const snapshot =
+      (await this.cacheService.get<LeaderboardSnapshot>(
+        this.snapshotKey(window, metric),
+      )) ?? (await this.buildSnapshots(window))[metric];
+
+    return { ...snapshot, entries: snapshot.entries.slice(0, limit) };
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async refreshSnapshots(): Promise<void> {
+    for (const window of Object.values(LeaderboardWindow)) {
+      const previous = new Map<LeaderboardMetric, LeaderboardSnapshot>();
+      for (const metric of Object.values(LeaderboardMetric)) {
+        const snapshot = await this.cacheService.get<LeaderboardSnapshot>(
+          this.snapshotKey(window, metric),
+        );
+        if (snapshot) previous.set(metric, snapshot);
+      }
+
+      const snapshots = await this.buildSnapshots(window);
+
+      for (const metric of Object.values(LeaderboardMetric)) {
+        const changes = this.diffRanks(
+          previous.get(metric)?.entries ?? [],
+          snapshots[metric].entries,
+        );
+        if (changes.length === 0) continue;
+
+        const update: LeaderboardUpdate = {
+          window,
+          metric,
+          generatedAt: snapshots[metric].generatedAt,
+          changes,
+        };
+        this.eventEmitter.emit(LEADERBOARD_UPDATED_EVENT, update);
+      }
+    }
+
+    this.logger.log('Leaderboard snapshots refreshed');
+  }
+
+  private async buildSnapshots(
+    window: LeaderboardWindow,
+  ): Promise<Record<LeaderboardMetric, LeaderboardSnapshot>> {
+    const minSignals = this.configService.get<number>(
+      'signals.leaderboardMinSignals',
+      5,
+    );
+    const ttl = this.configService.get<number>(
+      'signals.leaderboardSnapshotTtlSeconds',
+      900,
+    );
+    const generatedAt = new Date().toISOString();
+
+    const eligible = (await this.computePerformance(window)).filter(
+      (performance) => performance.closedSignals >= minSignals,
+    );
+
+    const snapshots = {} as Record<LeaderboardMetric, LeaderboardSnapshot>;
+    for (const metric of Object.values(LeaderboardMetric)) {
+      const entries = [...eligible]
+        .sort((a, b) => this.compare(metric, a, b))
+        .slice(0, SNAPSHOT_SIZE)
+        .map((performance, index) => this.toEntry(performance, index + 1));
+
+      snapshots[metric] = { window, metric, minSignals, generatedAt, entries };
+      await this.cacheService.setWithTTL(
+        this.snapshotKey(window, metric),
+        snapshots[metric],
+        ttl,
+      );
+    }
+
+    return snapshots;
+  }
+
+  private async computePerformance(
+    window: LeaderboardWindow,
+  ): Promise<ProviderPerformance[]> {
+    const days = WINDOW_DAYS[window];
+    const since =
+      days !== null ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null;
+
+    const signals = await this.signalRepository.find({
+      where: {
+        status: In([SignalStatus.CLOSED, SignalStatus.EXPIRED]),
+        closedAt: since ? MoreThanOrEqual(since) : Not(IsNull()),
+      },
+      order: { closedAt: 'ASC' },
+    });
+
+    const byProvider = new Map<
+      string,
+      { returns: number[]; wins: number; copiers: number }
+    >();
+
+    for (const signal of signals) {
+      const pnl = signalReturn(signal);
+      if (pnl === null) continue;
+
+      const provider = byProvider.get(signal.providerId) ?? {
+        returns: [],
+        wins: 0,
+        copiers: 0,
+      };
+      provider.returns.push(pnl);
+      provider.wins += isWinningSignal(signal.outcome, pnl) ? 1 : 0;
+      provider.copiers += signal.copiersCount;
+      byProvider.set(signal.providerId, provider);
+    }
+
+    return [...byProvider.entries()].map(([providerId, provider]) => ({
+      providerId,
+      closedSignals: provider.returns.length,
+      winRate: (provider.wins / provider.returns.length) * 100,
+      totalPnl: provider.returns.reduce((sum, pnl) => sum + pnl, 0),
+      sharpeRatio: sharpeRatio(provider.returns),
+      sortinoRatio: sortinoRatio(provider.returns),
+      maxDrawdown: maxDrawdown(provider.returns),
+      copiers: provider.copiers,
+    }));
+  }
+
+  /**
+   * Best first. Drawdowns are <= 0, so the shallowest ranks highest.
+   * Providers without a ratio sink to the bottom of ratio boards; ties go
+   * to the larger sample.
+   */
+  private compare(
+    metric: LeaderboardMetric,
+    a: ProviderPerformance,
+    b: ProviderPerformance,
+  ): number {
+    const value = (performance: ProviderPerformance): number => {
+      switch (metric) {
+        case LeaderboardMetric.TOTAL_PNL:
+          return performance.totalPnl;
+        case LeaderboardMetric.WIN_RATE:
+          return performance.winRate;
+        case LeaderboardMetric.SHARPE:
+          return performance.sharpeRatio ?? -Infinity;
+        case LeaderboardMetric.SORTINO:
+          return performance.sortinoRatio ?? -Infinity;
+        case LeaderboardMetric.MAX_DRAWDOWN:
+          return performance.maxDrawdown;
+        case LeaderboardMetric.COPIERS:
+          return performance.copiers;
+      }
+    };
+
+    const difference = value(b) - value(a);
+    if (difference !== 0 && !Number.isNaN(difference)) return difference;
+    if (b.closedSignals !== a.closedSignals) {
+      return b.closedSignals - a.closedSignals;
+    }
+    return a.providerId.localeCompare(b.providerId);
+  }
+
+  private diffRanks(
+    previous: LeaderboardEntry[],
+    current: LeaderboardEntry[],
+  ): LeaderboardRankChange[] {
+    const previousRanks = new Map(
+      previous.map((entry) => [entry.providerId, entry.rank]),
+    );
+    const currentIds = new Set(current.map((entry) => entry.providerId));
+
+    const moved = current
+      .filter((entry) => previousRanks.get(entry.providerId) !== entry.rank)
+      .map((entry) => ({
+        providerId: entry.providerId,
+        rank: entry.rank,
+        previousRank: previousRanks.get(entry.providerId) ?? null,
+      }));
+    const dropped = previous
+      .filter((entry) => !currentIds.has(entry.providerId))
+      .map((entry) => ({
+        providerId: entry.providerId,
+        rank: null,
+        previousRank: entry.rank,
+      }));
+
+    return [...moved, ...dropped];
+  }
+
+  private toEntry(
+    performance: ProviderPerformance,
+    rank: number,
+  ): LeaderboardEntry {
+    return {
+      rank,
+      providerId: performance.providerId,
+      closedSignals: performance.closedSignals,
+      winRate: performance.winRate.toFixed(2),
+      totalPnl: performance.totalPnl.toFixed(8),
+      sharpeRatio:
+        performance.sharpeRatio !== null
+          ? performance.sharpeRatio.toFixed(4)
+          : null,
+      sortinoRatio:
+        performance.sortinoRatio !== null
+          ? performance.sortinoRatio.toFixed(4)
+          : null,
+      maxDrawdown: performance.maxDrawdown.toFixed(4),
+      copiers: performance.copiers,
+    };
+  }
+
+  private snapshotKey(
+    window: LeaderboardWindow,
+    metric: LeaderboardMetric,
+  ): string {
+    return `${CachePrefix.LEADERBOARD}${window}:${metric}`;
+  }
+}
@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { ProviderProfileService } from './provider-profile.service';
+import {
+  Signal,
+  SignalOutcome,
+  SignalStatus,
+  SignalType,
+} from '../entities/signal.entity';
+import { ProviderStats } from '../entities/provider-stats.entity';
+import { User } from '../../users/entities/user.entity';
+import { Trade } from '../../trades/entities/trade.entity';
+import { StakeVerificationService } from '../../stake-verification/stake-verification.service';
+import { QualityTrackerService } from '../../signals-scoring/qualitity/quality-tracker.service';
+import { QualityBadge } from '../../signals-scoring/qualitity/entities/quality-score.entity';
+
+describe('ProviderProfileService', () => {
+  let service: ProviderProfileService;
+
+  const providerId = '22222222-2222-4222-8222-222222222222';
+  const walletAddress = 'GPROVIDERWALLET';
+
+  const buildSignal = (
+    id: string,
+    overrides: Partial<Signal> = {},
+  ): Partial<Signal> => ({
+    id,
+    providerId,
+    baseAsset: 'XLM',
+    counterAsset: 'USDC',
+    type: SignalType.BUY,
+    status: SignalStatus.CLOSED,
+    outcome: SignalOutcome.TARGET_HIT,
+    entryPrice: '0.10000000',
+    targetPrice: '0.12000000',
+    stopLossPrice: '0.09000000',
+    closePrice: '0.12000000',
+    currentPrice: null,
+    createdAt: new Date('2025-01-02T00:00:00Z'),
+    closedAt: new Date('2025-01-05T00:00:00Z'),
+    ...overrides,
+  });
+
+  const januaryWin = buildSignal('signal-1');
+  const januaryLoss = buildSignal('signal-2', {
+    outcome: SignalOutcome.STOP_LOSS_HIT,
+    closePrice: '0.09000000',
+    closedAt: new Date('2025-01-20T00:00:00Z'),
+  });
+  const februaryShort = buildSignal('signal-3', {
+    type: SignalType.SELL,
+    targetPrice: '0.08000000',
+    stopLossPrice: '0.11000000',
+    closePrice: '0.08000000',
+    closedAt: new Date('2025-02-03T00:00:00Z'),
+  });
+  const open = buildSignal('signal-4', {
+    status: SignalStatus.ACTIVE,
+    outcome: SignalOutcome.PENDING,
+    closePrice: null,
+    closedAt: null,
+  });
+
+  const mockUserRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  const mockSignalRepository = {
+    find: jest.fn(),
+    findAndCount: jest.fn(),
+  };
+
+  const mockProviderStatsRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  const mockTradeRepository = {
+    find: jest.fn(),
+  };
+
+  const mockStakeVerificationService = {
+    getVerificationStatus: jest.fn(),
+  };
+
+  const mockQualityTrackerService = {
+    getProviderQualityReport: jest.fn(),
+    getQualityDistribution: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProviderProfileService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        {
+          provide: getRepositoryToken(ProviderStats),
+          useValue: mockProviderStatsRepository,
+        },
+        { provide: getRepositoryToken(Trade), useValue: mockTradeRepository },
+        {
+          provide: StakeVerificationService,
+          useValue: mockStakeVerificationService,
+        },
+        {
+          provide: QualityTrackerService,
+          useValue: mockQualityTrackerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProviderProfileService>(ProviderProfileService);
+
+    mockUserRepository.findOneBy.mockResolvedValue({
+      id: providerId,
+      username: 'steady',
+      displayName: 'Steady Trader',
+      bio: 'Swing trades on XLM pairs',
+      walletAddress,
+      createdAt: new Date('2024-12-01T00:00:00Z'),
+    });
+    mockProviderStatsRepository.findOneBy.mockResolvedValue({ providerId });
+    mockStakeVerificationService.getVerificationStatus.mockResolvedValue({
+      isVerified: true,
+      stakeAmount: '1500',
+      lastChecked: new Date(),
+    });
+    mockQualityTrackerService.getProviderQualityReport.mockResolvedValue({
+      providerId,
+      averageScore: 78,
+      badge: QualityBadge.GOLD,
+      totalSignals: 3,
+      successRate: 66.67,
+      trend: 'stable',
+      recentScores: [78],
+    });
+    mockQualityTrackerService.getQualityDistribution.mockResolvedValue({
+      [QualityBadge.BRONZE]: 0,
+      [QualityBadge.SILVER]: 1,
+      [QualityBadge.GOLD]: 2,
+      [QualityBadge.PLATINUM]: 0,
+    });
+    mockSignalRepository.find.mockImplementation(async ({ where }) =>
+      where.status === SignalStatus.ACTIVE
+        ? [open]
+        : [januaryWin, januaryLoss, februaryShort],
+    );
+    mockSignalRepository.findAndCount.mockResolvedValue([
+      [februaryShort, januaryLoss],
+      3,
+    ]);
+    mockTradeRepository.find.mockResolvedValue([
+      {
+        signalId: 'signal-2',
+        transactionHash: 'open-2',
+        closeTransactionHash: null,
+      },
+      {
+        signalId: 'signal-2',
+        transactionHash: 'open-2b',
+        closeTransactionHash: 'close-2',
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should gather the provider record into one profile', async () => {
+    const profile = await service.getProfile(providerId, 1, 2);
+
+    expect(profile).toEqual(
+      expect.objectContaining({
+        displayName: 'Steady Trader',
+        bio: 'Swing trades on XLM pairs',
+        stake: expect.objectContaining({
+          isVerified: true,
+          stakeAmount: '1500',
+        }),
+        stats: { providerId },
+      }),
+    );
+    expect(profile.quality.badge).toBe(QualityBadge.GOLD);
+    expect(profile.quality.badgeDistribution[QualityBadge.GOLD]).toBe(2);
+    expect(profile.openSignals.map((signal) => signal.signalId)).toEqual([
+      'signal-4',
+    ]);
+    expect(profile.closedSignals).toEqual(
+      expect.objectContaining({ total: 3, page: 1, limit: 2 }),
+    );
+    expect(mockSignalRepository.findAndCount).toHaveBeenCalledWith(
+      expect.objectContaining({ skip: 0, take: 2 }),
+    );
+  });
+
+  it('should group closed signals into monthly returns', async () => {
+    const profile = await service.getProfile(providerId);
+
+    expect(profile.monthlyReturns).toEqual([
+      {
+        month: '2025-01',
+        closedSignals: 2,
+        winRate: '50.00',
+        totalPnl: '10.00000000',
+        signalIds: ['signal-1', 'signal-2'],
+      },
+      {
+        month: '2025-02',
+        closedSignals: 1,
+        winRate: '100.00',
+        totalPnl: '20.00000000',
+        signalIds: ['signal-3'],
+      },
+    ]);
+  });
+
+  it("should attach the provider's own transaction hashes to history rows", async () => {
+    const profile = await service.getProfile(providerId);
+
+    const [short, loss] = profile.closedSignals.data;
+    expect(short).toEqual(
+      expect.objectContaining({
+        pnlPercentage: '20.0000',
+        entryTransactionHash: null,
+        closeTransactionHash: null,
+      }),
+    );
+    expect(loss).toEqual(
+      expect.objectContaining({
+        entryPrice: '0.10000000',
+        closePrice: '0.09000000',
+        entryTransactionHash: 'open-2',
+        closeTransactionHash: 'close-2',
+      }),
+    );
+    expect(profile.openSignals[0].pnlPercentage).toBeNull();
+  });
+
+  it('should still build the profile when the stake contract is unreachable', async () => {
+    mockStakeVerificationService.getVerificationStatus.mockRejectedValue(
+      new Error('RPC timeout'),
+    );
+
+    const profile = await service.getProfile(providerId);
+
+    expect(profile.stake).toBeNull();
+  });
+
+  it('should reject unknown providers', async () => {
+    mockUserRepository.findOneBy.mockResolvedValue(null);
+
+    await expect(service.getProfile(providerId)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
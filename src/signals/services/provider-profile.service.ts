@@ -0,0 +1,283 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import {
+  Signal,
+  SignalOutcome,
+  SignalStatus,
+  SignalType,
+} from '../entities/signal.entity';
+import { ProviderStats } from '../entities/provider-stats.entity';
+import { User } from '../../users/entities/user.entity';
+import { Trade } from '../../trades/entities/trade.entity';
+import { StakeVerificationService } from '../../stake-verification/stake-verification.service';
+import {
+  ProviderQualityReport,
+  QualityTrackerService,
+} from '../../signals-scoring/qualitity/quality-tracker.service';
+import { QualityBadge } from '../../signals-scoring/qualitity/entities/quality-score.entity';
+import { isWinningSignal, signalReturn } from './performance-utils';
+
+const CLOSED_STATUSES = [SignalStatus.CLOSED, SignalStatus.EXPIRED];
+
+export interface ProviderStakeBadge {
+  isVerified: boolean;
+  stakeAmount: string;
+  lastChecked: Date;
+}
+
+/**
+ * A signal with the hashes of the provider's own trade on it, so the prices
+ * shown can be checked on chain
+ */
+export interface ProfileSignal {
+  signalId: string;
+  assetPair: string;
+  type: SignalType;
+  outcome: SignalOutcome;
+  entryPrice: string;
+  targetPrice: string;
+  stopLossPrice: string | null;
+  closePrice: string | null;
+  pnlPercentage: string | null;
+  createdAt: Date;
+  closedAt: Date | null;
+  entryTransactionHash: string | null;
+  closeTransactionHash: string | null;
+}
+
+export interface MonthlyReturn {
+  // YYYY-MM in UTC
+  month: string;
+  closedSignals: number;
+  winRate: string;
+  totalPnl: string;
+  // The month's signals, for tracing the figures to their transactions
+  signalIds: string[];
+}
+
+export interface ProviderProfile {
+  providerId: string;
+  username: string;
+  displayName: string | null;
+  bio: string | null;
+  walletAddress: string;
+  memberSince: Date;
+  // Null when the stake contract could not be queried
+  stake: ProviderStakeBadge | null;
+  stats: ProviderStats | null;
+  quality: ProviderQualityReport & {
+    badgeDistribution: Record<QualityBadge, number>;
+  };
+  monthlyReturns: MonthlyReturn[];
+  openSignals: ProfileSignal[];
+  closedSignals: {
+    data: ProfileSignal[];
+    total: number;
+    page: number;
+    limit: number;
+  };
+}
+
+/**
+ * Everything a user needs to decide whether to copy a provider, gathered
+ * from the user record, stake verification, ProviderStats, quality scores
+ * and the provider's signal history.
+ */
+@Injectable()
+export class ProviderProfileService {
+  private readonly logger = new Logger(ProviderProfileService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(ProviderStats)
+    private readonly providerStatsRepository: Repository<ProviderStats>,
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    private readonly stakeVerificationService: StakeVerificationService,
+    private readonly qualityTrackerService: QualityTrackerService,
+  ) {}
+
+  async getProfile(
+    providerId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<ProviderProfile> {
+    const user = await this.userRepository.findOneBy({ id: providerId });
+    if (!user) {
+      throw new NotFoundException(`Provider ${providerId} not found`);
+    }
+
+    const [stake, stats, qualityReport, badgeDistribution] = await Promise.all([
+      this.getStakeBadge(user.walletAddress),
+      this.providerStatsRepository.findOneBy({ providerId }),
+      this.qualityTrackerService.getProviderQualityReport(providerId),
+      this.qualityTrackerService.getQualityDistribution(providerId),
+    ]);
+
+    const [openSignals, [closedPage, total], allClosed] = await Promise.all([
+      this.signalRepository.find({
+        where: { providerId, status: SignalStatus.ACTIVE },
+        order: { createdAt: 'DESC' },
+      }),
+      this.signalRepository.findAndCount({
+        where: { providerId, status: In(CLOSED_STATUSES) },
+        order: { closedAt: 'DESC' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.signalRepository.find({
+        where: {
+          providerId,
+          status: In(CLOSED_STATUSES),
+          closedAt: Not(IsNull()),
+        },
+        order: { closedAt: 'ASC' },
+      }),
+    ]);
+
+    const hashes = await this.getTransactionHashes(providerId, [
+      ...openSignals,
+      ...closedPage,
+    ]);
+
+    return {
+      providerId,
+      username: user.username,
+      displayName: user.displayName ?? null,
+      bio: user.bio ?? null,
+      walletAddress: user.walletAddress,
+      memberSince: user.createdAt,
+      stake,
+      stats,
+      quality: { ...qualityReport, badgeDistribution },
+      monthlyReturns: this.getMonthlyReturns(allClosed),
+      openSignals: openSignals.map((signal) =>
+        this.toProfileSignal(signal, hashes),
+      ),
+      closedSignals: {
+        data: closedPage.map((signal) => this.toProfileSignal(signal, hashes)),
+        total,
+        page,
+        limit,
+      },
+    };
+  }
+
+  private async getStakeBadge(
+    walletAddress: string,
+  ): Promise<ProviderStakeBadge | null> {
+    try {
+      const status =
+        await this.stakeVerificationService.getVerificationStatus(
+          walletAddress,
+        );
+      return {
+        isVerified: status.isVerified,
+        stakeAmount: status.stakeAmount,
+        lastChecked: status.lastChecked,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Stake status unavailable for ${walletAddress}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Hashes of the provider's own trades on each signal. The earliest trade
+   * with a hash wins when the provider traded a signal more than once.
+   */
+  private async getTransactionHashes(
+    providerId: string,
+    signals: Signal[],
+  ): Promise<Map<string, { entry: string | null; close: string | null }>> {
+    const hashes = new Map<
+      string,
+      { entry: string | null; close: string | null }
+    >();
+    if (signals.length === 0) {
+      return hashes;
+    }
+
+    const trades = await this.tradeRepository.find({
+      where: {
+        userId: providerId,
+        signalId: In(signals.map((signal) => signal.id)),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const trade of trades) {
+      const current = hashes.get(trade.signalId) ?? {
+        entry: null,
+        close: null,
+      };
+      hashes.set(trade.signalId, {
+        entry: current.entry ?? trade.transactionHash ?? null,
+        close: current.close ?? trade.closeTransactionHash ?? null,
+      });
+    }
+
+    return hashes;
+  }
+
+  private getMonthlyReturns(signals: Signal[]): MonthlyReturn[] {
+    const months = new Map<
+      string,
+      { returns: number[]; wins: number; signalIds: string[] }
+    >();
+
+    for (const signal of signals) {
+      const pnl = signalReturn(signal);
+      if (pnl === null) continue;
+
+      const month = signal.closedAt!.toISOString().slice(0, 7);
+      const bucket = months.get(month) ?? {
+        returns: [],
+        wins: 0,
+        signalIds: [],
+      };
+      bucket.returns.push(pnl);
+      bucket.wins += isWinningSignal(signal.outcome, pnl) ? 1 : 0;
+      bucket.signalIds.push(signal.id);
+      months.set(month, bucket);
+    }
+
+    return [...months.entries()].map(([month, bucket]) => ({
+      month,
+      closedSignals: bucket.returns.length,
+      winRate: ((bucket.wins / bucket.returns.length) * 100).toFixed(2),
+      totalPnl: bucket.returns.reduce((sum, pnl) => sum + pnl, 0).toFixed(8),
+      signalIds: bucket.signalIds,
+    }));
+  }
+
+  private toProfileSignal(
+    signal: Signal,
+    hashes: Map<string, { entry: string | null; close: string | null }>,
+  ): ProfileSignal {
+    const pnl =
+      signal.status === SignalStatus.ACTIVE ? null : signalReturn(signal);
+
+    return {
+      signalId: signal.id,
+      assetPair: `${signal.baseAsset}/${signal.counterAsset}`,
+      type: signal.type,
+      outcome: signal.outcome,
+      entryPrice: signal.entryPrice,
+      targetPrice: signal.targetPrice,
+      stopLossPrice: signal.stopLossPrice,
+      closePrice: signal.closePrice,
+      pnlPercentage: pnl !== null ? pnl.toFixed(4) : null,
+      createdAt: signal.createdAt,
+      closedAt: signal.closedAt,
+      entryTransactionHash: hashes.get(signal.id)?.entry ?? null,
+      closeTransactionHash: hashes.get(signal.id)?.close ?? null,
+    };
+  }
+}
@@ -84,6 +84,19 @@ export class ProviderStatsService {
     await this.providerStatsRepository.save(stats);
   }
 
+  /**
+   * A moderator rejected one of the provider's signals. Each rejection costs
+   * reputation, up to a cap in calculateReputationScore.
+   */
+  async onSignalRejected(providerId: string): Promise<ProviderStats> {
+    const stats = await this.getOrCreateProviderStats(providerId);
+
+    stats.rejectedSignals += 1;
+    stats.reputationScore = this.calculateReputationScore(stats);
+
+    return this.providerStatsRepository.save(stats);
+  }
+
   async onSignalClosed(
     providerId: string,
     outcome: SignalOutcome,
@@ -173,6 +186,8 @@ export class ProviderStatsService {
 
     score -= Math.min(stats.streakLosses * 3, 15);
 
+    score -= Math.min(stats.rejectedSignals * 5, 25);
+
     const maxDrawdown = parseFloat(stats.maxDrawdown);
     if (maxDrawdown < -20) {
       score -= 10;
@@ -15,6 +15,14 @@ export interface AssetPair {
   counterAsset: string;
 }
 
+export interface TradeAggregation {
+  timestamp: string;
+  avg: string;
+  high: string;
+  low: string;
+  close: string;
+}
+
 @Injectable()
 export class SdexPriceService {
   private readonly logger = new Logger(SdexPriceService.name);
@@ -95,21 +103,27 @@ export class SdexPriceService {
     return results;
   }
 
+  /**
+   * Candles for the last `limit` periods, or for the `limit` periods from
+   * `startTime` (epoch ms) when replaying history
+   */
   async getTradeAggregations(
     baseAsset: string,
     counterAsset: string,
     resolution: number = 300000,
     limit: number = 10,
-  ): Promise<{ timestamp: string; avg: string; high: string; low: string; close: string }[]> {
+    startTime?: number,
+  ): Promise<TradeAggregation[]> {
     try {
       const base = this.parseAsset(baseAsset);
       const counter = this.parseAsset(counterAsset);
 
-      const startTime = Date.now() - resolution * limit;
-      const endTime = Date.now();
+      const start = startTime ?? Date.now() - resolution * limit;
+      const endTime =
+        startTime !== undefined ? start + resolution * limit : Date.now();
 
       const aggregations = await this.server
-        .tradeAggregation(base, counter, startTime, endTime, resolution, 0)
+        .tradeAggregation(base, counter, start, endTime, resolution, 0)
         .limit(limit)
         .call();
 
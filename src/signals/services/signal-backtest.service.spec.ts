@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { SignalBacktestService } from './signal-backtest.service';
+import { SdexPriceService } from './sdex-price.service';
+import { Signal, SignalOutcome, SignalType } from '../entities/signal.entity';
+import { ProviderStats } from '../entities/provider-stats.entity';
+
+describe('SignalBacktestService', () => {
+  let service: SignalBacktestService;
+
+  const providerId = '22222222-2222-4222-8222-222222222222';
+  const hour = 60 * 60 * 1000;
+  const january = Date.UTC(2025, 0, 6);
+
+  const buildSignal = (
+    id: string,
+    createdAt: number,
+    overrides: Partial<Signal> = {},
+  ): Partial<Signal> => ({
+    id,
+    providerId,
+    baseAsset: 'XLM',
+    counterAsset: 'USDC',
+    type: SignalType.BUY,
+    entryPrice: '0.10000000',
+    targetPrice: '0.12000000',
+    stopLossPrice: '0.09000000',
+    createdAt: new Date(createdAt),
+    expiresAt: new Date(createdAt + 24 * hour),
+    ...overrides,
+  });
+
+  const candle = (
+    timestamp: number,
+    low: string,
+    high: string,
+    close = high,
+  ) => ({
+    timestamp: String(timestamp),
+    avg: close,
+    high,
+    low,
+    close,
+  });
+
+  const mockSignalRepository = {
+    find: jest.fn(),
+  };
+
+  const mockProviderStatsRepository = {
+    findOneBy: jest.fn(),
+  };
+
+  const mockSdexPriceService = {
+    getTradeAggregations: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalBacktestService,
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        {
+          provide: getRepositoryToken(ProviderStats),
+          useValue: mockProviderStatsRepository,
+        },
+        { provide: SdexPriceService, useValue: mockSdexPriceService },
+      ],
+    }).compile();
+
+    service = module.get<SignalBacktestService>(SignalBacktestService);
+    mockProviderStatsRepository.findOneBy.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should replay a provider history into ProviderStats-style metrics', async () => {
+    const first = january;
+    const second = january + 48 * hour;
+    const third = january + 96 * hour;
+    mockSignalRepository.find.mockResolvedValue([
+      buildSignal('signal-1', first),
+      buildSignal('signal-2', second),
+      buildSignal('signal-3', third),
+    ]);
+    mockSdexPriceService.getTradeAggregations.mockImplementation(
+      async (_base, _counter, _resolution, _limit, start: number) => {
+        if (start <= first) {
+          // Target touched in the second candle
+          return [
+            candle(first, '0.099', '0.105'),
+            candle(first + 15 * 60 * 1000, '0.104', '0.121'),
+          ];
+        }
+        if (start <= second) {
+          return [candle(second, '0.089', '0.1')];
+        }
+        // Drifts without touching either level and expires at 0.11
+        return [candle(third, '0.095', '0.11', '0.11')];
+      },
+    );
+
+    const result = await service.run({
+      providerId,
+      from: new Date(first).toISOString(),
+      stakePerSignal: '100',
+    });
+
+    expect(result.trades.map((trade) => trade.outcome)).toEqual([
+      SignalOutcome.TARGET_HIT,
+      SignalOutcome.STOP_LOSS_HIT,
+      SignalOutcome.EXPIRED,
+    ]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        closedSignals: 3,
+        successfulSignals: 2,
+        failedSignals: 1,
+        expiredSignals: 1,
+        winRate: '66.67',
+        totalPnl: '20.00000000',
+        averagePnl: '6.6667',
+        maxDrawdown: '-10.0000',
+        totalProfit: '20.00000000',
+      }),
+    );
+    expect(result.equityCurve.map((point) => point.equity)).toEqual([
+      '20.00000000',
+      '10.00000000',
+      '20.00000000',
+    ]);
+    expect(result.trades[0].holdTimeSeconds).toBe(30 * 60);
+    expect(result.sharpeRatio).not.toBeNull();
+  });
+
+  it('should assume the stop was hit first when both levels fall in one candle', async () => {
+    mockSdexPriceService.getTradeAggregations.mockResolvedValue([
+      candle(january, '0.08', '0.13'),
+    ]);
+
+    const result = await service.run({
+      signals: [
+        {
+          baseAsset: 'XLM',
+          counterAsset: 'USDC',
+          type: SignalType.BUY,
+          entryPrice: '0.10',
+          targetPrice: '0.12',
+          stopLossPrice: '0.09',
+          createdAt: new Date(january).toISOString(),
+          expiresAt: new Date(january + 24 * hour).toISOString(),
+        },
+      ],
+    });
+
+    expect(result.trades[0]).toEqual(
+      expect.objectContaining({
+        outcome: SignalOutcome.STOP_LOSS_HIT,
+        pnlPercentage: '-10.0000',
+        ambiguous: true,
+      }),
+    );
+    expect(mockSignalRepository.find).not.toHaveBeenCalled();
+  });
+
+  it('should leave signals without SDEX trades out of the metrics', async () => {
+    mockSignalRepository.find.mockResolvedValue([
+      buildSignal('signal-1', january),
+    ]);
+    mockSdexPriceService.getTradeAggregations.mockResolvedValue([]);
+
+    const result = await service.run({ providerId });
+
+    expect(result.unpricedSignals).toBe(1);
+    expect(result.closedSignals).toBe(0);
+    expect(result.winRate).toBe('0.00');
+    expect(result.sharpeRatio).toBeNull();
+  });
+
+  it('should require exactly one of providerId and signals', async () => {
+    await expect(service.run({})).rejects.toThrow(BadRequestException);
+  });
+});
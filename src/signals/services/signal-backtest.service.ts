@@ -0,0 +1,391 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOperator,
+  In,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Not,
+  Repository,
+} from 'typeorm';
+import {
+  Signal,
+  SignalOutcome,
+  SignalStatus,
+  SignalType,
+} from '../entities/signal.entity';
+import { ProviderStats } from '../entities/provider-stats.entity';
+import { SdexPriceService, TradeAggregation } from './sdex-price.service';
+import { maxDrawdown, sharpeRatio } from './performance-utils';
+import { RunBacktestDto } from '../dto';
+
+// Horizon returns at most 200 records per page
+const CANDLES_PER_PAGE = 200;
+const MAX_PAGES_PER_SIGNAL = 10;
+const MAX_BACKTEST_SIGNALS = 200;
+const DEFAULT_STAKE_PER_SIGNAL = '100';
+
+const FIFTEEN_MINUTES = 900000;
+const ONE_HOUR = 3600000;
+const ONE_DAY = 86400000;
+
+export interface BacktestSignal {
+  signalId: string | null;
+  baseAsset: string;
+  counterAsset: string;
+  type: SignalType;
+  entryPrice: string;
+  targetPrice: string;
+  stopLossPrice: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * One replayed signal. PENDING means the signal is still live and was
+ * marked at the last close; a null exitPrice means SDEX had no trades for
+ * the pair in the signal's lifetime.
+ */
+export interface BacktestTrade {
+  signalId: string | null;
+  assetPair: string;
+  type: SignalType;
+  outcome: SignalOutcome;
+  entryPrice: string;
+  exitPrice: string | null;
+  pnlPercentage: string | null;
+  profit: string | null;
+  openedAt: Date;
+  closedAt: Date | null;
+  holdTimeSeconds: number | null;
+  // Target and stop both fell inside one candle; the stop is assumed first
+  ambiguous: boolean;
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  signalId: string | null;
+  equity: string;
+}
+
+/**
+ * Metric names and formats follow ProviderStats so a replay can be read
+ * side by side with the provider's live record.
+ */
+export interface BacktestResult {
+  providerId: string | null;
+  stakePerSignal: string;
+  closedSignals: number;
+  successfulSignals: number;
+  failedSignals: number;
+  expiredSignals: number;
+  openSignals: number;
+  unpricedSignals: number;
+  winRate: string;
+  totalPnl: string;
+  averagePnl: string;
+  // Deepest peak-to-trough fall of cumulative pnl, in percentage points
+  maxDrawdown: string;
+  averageHoldTimeSeconds: number;
+  sharpeRatio: string | null;
+  totalProfit: string;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  providerStats: ProviderStats | null;
+}
+
+/**
+ * Replays signals against historical SDEX candles to answer "what if I had
+ * copied this provider with a fixed stake per signal". Each signal is walked
+ * candle by candle from creation until its target or stop is touched, or
+ * until it expires and is closed at the last price.
+ */
+@Injectable()
+export class SignalBacktestService {
+  private readonly logger = new Logger(SignalBacktestService.name);
+
+  constructor(
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(ProviderStats)
+    private readonly providerStatsRepository: Repository<ProviderStats>,
+    private readonly sdexPriceService: SdexPriceService,
+  ) {}
+
+  async run(dto: RunBacktestDto): Promise<BacktestResult> {
+    if (!dto.providerId === !dto.signals) {
+      throw new BadRequestException(
+        'Provide either a providerId or a list of signals',
+      );
+    }
+
+    const stakePerSignal = dto.stakePerSignal ?? DEFAULT_STAKE_PER_SIGNAL;
+    const stake = parseFloat(stakePerSignal);
+    if (!(stake > 0)) {
+      throw new BadRequestException('stakePerSignal must be positive');
+    }
+
+    const signals = dto.providerId
+      ? await this.getProviderSignals(dto.providerId, dto.from, dto.to)
+      : dto.signals!.map((signal) => ({
+          signalId: null,
+          baseAsset: signal.baseAsset,
+          counterAsset: signal.counterAsset,
+          type: signal.type,
+          entryPrice: signal.entryPrice,
+          targetPrice: signal.targetPrice,
+          stopLossPrice: signal.stopLossPrice ?? null,
+          createdAt: new Date(signal.createdAt),
+          expiresAt: new Date(signal.expiresAt),
+        }));
+
+    const now = Date.now();
+    const trades: BacktestTrade[] = [];
+    for (const signal of signals) {
+      trades.push(await this.replay(signal, stake, now));
+    }
+
+    const providerStats = dto.providerId
+      ? await this.providerStatsRepository.findOneBy({
+          providerId: dto.providerId,
+        })
+      : null;
+
+    return {
+      providerId: dto.providerId ?? null,
+      stakePerSignal,
+      ...this.summarize(trades),
+      trades,
+      providerStats,
+    };
+  }
+
+  private async getProviderSignals(
+    providerId: string,
+    from?: string,
+    to?: string,
+  ): Promise<BacktestSignal[]> {
+    const createdAt = this.dateRange(from, to);
+
+    // Cancelled and moderated signals never reached copiers
+    const signals = await this.signalRepository.find({
+      where: {
+        providerId,
+        status: Not(In([SignalStatus.CANCELLED, SignalStatus.MODERATION])),
+        ...(createdAt && { createdAt }),
+      },
+      order: { createdAt: 'ASC' },
+      take: MAX_BACKTEST_SIGNALS,
+    });
+
+    return signals.map((signal) => ({
+      signalId: signal.id,
+      baseAsset: signal.baseAsset,
+      counterAsset: signal.counterAsset,
+      type: signal.type,
+      entryPrice: signal.entryPrice,
+      targetPrice: signal.targetPrice,
+      stopLossPrice: signal.stopLossPrice,
+      createdAt: signal.createdAt,
+      expiresAt: signal.expiresAt,
+    }));
+  }
+
+  private dateRange(from?: string, to?: string): FindOperator<Date> | null {
+    if (from && to) {
+      if (new Date(from) > new Date(to)) {
+        throw new BadRequestException('from must be before to');
+      }
+      return Between(new Date(from), new Date(to));
+    }
+    if (from) return MoreThanOrEqual(new Date(from));
+    if (to) return LessThanOrEqual(new Date(to));
+    return null;
+  }
+
+  /**
+   * The candle containing the signal's creation counts in full, so a level
+   * touched minutes before publication can register as hit.
+   */
+  private async replay(
+    signal: BacktestSignal,
+    stake: number,
+    now: number,
+  ): Promise<BacktestTrade> {
+    const start = signal.createdAt.getTime();
+    const end = Math.min(signal.expiresAt.getTime(), now);
+    const resolution = this.pickResolution(end - start);
+
+    const isBuy = signal.type === SignalType.BUY;
+    const entry = parseFloat(signal.entryPrice);
+    const target = parseFloat(signal.targetPrice);
+    const stop = signal.stopLossPrice ? parseFloat(signal.stopLossPrice) : null;
+
+    const close = (
+      outcome: SignalOutcome,
+      exitPrice: number,
+      closedAt: number,
+      ambiguous = false,
+    ): BacktestTrade => {
+      const pnl =
+        ((isBuy ? exitPrice - entry : entry - exitPrice) / entry) * 100;
+      return {
+        ...this.openTrade(signal),
+        outcome,
+        exitPrice: exitPrice.toFixed(8),
+        pnlPercentage: pnl.toFixed(4),
+        profit: ((stake * pnl) / 100).toFixed(8),
+        closedAt: new Date(closedAt),
+        holdTimeSeconds: Math.floor((closedAt - start) / 1000),
+        ambiguous,
+      };
+    };
+
+    let last: TradeAggregation | null = null;
+    let pageStart = Math.floor(start / resolution) * resolution;
+
+    for (
+      let page = 0;
+      page < MAX_PAGES_PER_SIGNAL && pageStart < end;
+      page++, pageStart += resolution * CANDLES_PER_PAGE
+    ) {
+      const candles = await this.sdexPriceService.getTradeAggregations(
+        signal.baseAsset,
+        signal.counterAsset,
+        resolution,
+        CANDLES_PER_PAGE,
+        pageStart,
+      );
+
+      for (const candle of candles) {
+        const openedAt = Number(candle.timestamp);
+        if (openedAt >= end) break;
+        last = candle;
+
+        const high = parseFloat(candle.high);
+        const low = parseFloat(candle.low);
+        const targetHit = isBuy ? high >= target : low <= target;
+        const stopHit = stop !== null && (isBuy ? low <= stop : high >= stop);
+        const closedAt = Math.min(openedAt + resolution, end);
+
+        if (stopHit) {
+          return close(SignalOutcome.STOP_LOSS_HIT, stop!, closedAt, targetHit);
+        }
+        if (targetHit) {
+          return close(SignalOutcome.TARGET_HIT, target, closedAt);
+        }
+      }
+    }
+
+    if (!last) {
+      this.logger.debug(
+        `No SDEX trades for ${signal.baseAsset}/${signal.counterAsset} during signal ${signal.signalId ?? 'ad-hoc'}`,
+      );
+      return this.openTrade(signal);
+    }
+
+    if (signal.expiresAt.getTime() > now) {
+      return {
+        ...close(SignalOutcome.PENDING, parseFloat(last.close), now),
+        closedAt: null,
+      };
+    }
+
+    return close(SignalOutcome.EXPIRED, parseFloat(last.close), end);
+  }
+
+  private openTrade(signal: BacktestSignal): BacktestTrade {
+    return {
+      signalId: signal.signalId,
+      assetPair: `${signal.baseAsset}/${signal.counterAsset}`,
+      type: signal.type,
+      outcome: SignalOutcome.PENDING,
+      entryPrice: signal.entryPrice,
+      exitPrice: null,
+      pnlPercentage: null,
+      profit: null,
+      openedAt: signal.createdAt,
+      closedAt: null,
+      holdTimeSeconds: null,
+      ambiguous: false,
+    };
+  }
+
+  /**
+   * Finest candles that still cover the signal's lifetime in the page budget
+   */
+  private pickResolution(lifetimeMs: number): number {
+    const budget = CANDLES_PER_PAGE * MAX_PAGES_PER_SIGNAL;
+    if (lifetimeMs <= FIFTEEN_MINUTES * budget) return FIFTEEN_MINUTES;
+    if (lifetimeMs <= ONE_HOUR * budget) return ONE_HOUR;
+    return ONE_DAY;
+  }
+
+  /**
+   * Wins and losses are counted as in ProviderStatsService.onSignalClosed:
+   * an expired signal is a win when it closed in profit.
+   */
+  private summarize(
+    trades: BacktestTrade[],
+  ): Omit<
+    BacktestResult,
+    'providerId' | 'stakePerSignal' | 'trades' | 'providerStats'
+  > {
+    const closed = trades
+      .filter((trade) => trade.closedAt !== null)
+      .sort((a, b) => a.closedAt!.getTime() - b.closedAt!.getTime());
+    const pnls = closed.map((trade) => parseFloat(trade.pnlPercentage!));
+
+    const successfulSignals = closed.filter(
+      (trade, i) =>
+        trade.outcome === SignalOutcome.TARGET_HIT ||
+        (trade.outcome === SignalOutcome.EXPIRED && pnls[i] > 0),
+    ).length;
+
+    const totalPnl = pnls.reduce((sum, pnl) => sum + pnl, 0);
+    const sharpe = sharpeRatio(pnls);
+
+    let equity = 0;
+    const equityCurve: EquityPoint[] = closed.map((trade) => {
+      equity += parseFloat(trade.profit!);
+      return {
+        timestamp: trade.closedAt!,
+        signalId: trade.signalId,
+        equity: equity.toFixed(8),
+      };
+    });
+
+    const totalHoldTime = closed.reduce(
+      (sum, trade) => sum + trade.holdTimeSeconds!,
+      0,
+    );
+
+    return {
+      closedSignals: closed.length,
+      successfulSignals,
+      failedSignals: closed.length - successfulSignals,
+      expiredSignals: closed.filter(
+        (trade) => trade.outcome === SignalOutcome.EXPIRED,
+      ).length,
+      openSignals: trades.filter(
+        (trade) => trade.closedAt === null && trade.exitPrice !== null,
+      ).length,
+      unpricedSignals: trades.filter((trade) => trade.exitPrice === null)
+        .length,
+      winRate:
+        closed.length > 0
+          ? ((successfulSignals / closed.length) * 100).toFixed(2)
+          : '0.00',
+      totalPnl: totalPnl.toFixed(8),
+      averagePnl:
+        closed.length > 0 ? (totalPnl / closed.length).toFixed(4) : '0.0000',
+      maxDrawdown: maxDrawdown(pnls).toFixed(4),
+      averageHoldTimeSeconds:
+        closed.length > 0 ? Math.floor(totalHoldTime / closed.length) : 0,
+      sharpeRatio: sharpe !== null ? sharpe.toFixed(4) : null,
+      totalProfit: equity.toFixed(8),
+      equityCurve,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository, LessThanOrEqual, In } from 'typeorm';
 import {
   Signal,
@@ -10,6 +11,7 @@ import {
   CopiedPosition,
   PositionStatus,
 } from '../entities/copied-position.entity';
+import { SignalClosedEvent } from '../../events/signal.events';
 
 export interface ExpirationCheckResult {
   signalId: string;
@@ -35,6 +37,7 @@ export class SignalExpirationService {
     private signalRepository: Repository<Signal>,
     @InjectRepository(CopiedPosition)
     private positionRepository: Repository<CopiedPosition>,
+    private eventEmitter: EventEmitter2,
   ) {}
 
   async findExpiredSignals(): Promise<Signal[]> {
@@ -149,6 +152,7 @@ export class SignalExpirationService {
 
     await this.signalRepository.save(signal);
     this.logger.log(`Signal ${signalId} closed with outcome: ${outcome}`);
+    this.publishClosed(signal);
 
     return signal;
   }
@@ -164,6 +168,7 @@ export class SignalExpirationService {
 
     await this.signalRepository.save(signal);
     this.logger.log(`Signal ${signalId} cancelled by provider`);
+    this.publishClosed(signal);
 
     return signal;
   }
@@ -206,4 +211,21 @@ export class SignalExpirationService {
       signals: checkResults,
     };
   }
+
+  // Lets copy trading settle copiers' trades for expired and cancelled signals
+  private publishClosed(signal: Signal): void {
+    try {
+      const event = new SignalClosedEvent({
+        signalId: signal.id,
+        providerId: signal.providerId,
+        outcome: signal.outcome,
+        closePrice: signal.closePrice ? parseFloat(signal.closePrice) : undefined,
+      });
+      this.eventEmitter.emit(event.eventName, event);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish close of signal ${signal.id}: ${(error as Error).message}`,
+      );
+    }
+  }
 }
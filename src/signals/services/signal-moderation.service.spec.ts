@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BadRequestException } from '@nestjs/common';
+import { SignalModerationService } from './signal-moderation.service';
+import { ProviderStatsService } from './provider-stats.service';
+import { SignalsService } from '../signals.service';
+import { Signal, SignalOutcome, SignalStatus } from '../entities/signal.entity';
+import {
+  ModerationAction,
+  SignalModeration,
+} from '../entities/signal-moderation.entity';
+
+// uuid ships ESM only, which jest cannot load; events only use it for correlation ids
+jest.mock('uuid', () => ({ v4: () => 'correlation-id' }));
+
+describe('SignalModerationService', () => {
+  let service: SignalModerationService;
+
+  const providerId = '22222222-2222-4222-8222-222222222222';
+  const moderator = 'GMODERATORWALLET';
+
+  const buildSignal = (status: SignalStatus): Partial<Signal> => ({
+    id: 'signal-1',
+    providerId,
+    status,
+    outcome: SignalOutcome.PENDING,
+  });
+
+  const flag: Partial<SignalModeration> = {
+    id: 'flag-1',
+    signalId: 'signal-1',
+    providerId,
+    action: ModerationAction.FLAGGED,
+    aiScore: 12,
+    aiFeedback: 'Rationale is promotional with no market data',
+    isSpam: true,
+  };
+
+  const mockManager = {
+    create: jest.fn((_entity, data) => data),
+    save: jest.fn(async (data) => ({ id: 'moderation-1', ...data })),
+  };
+
+  const mockSignalRepository = {
+    findOne: jest.fn(),
+    manager: {
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockModerationRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockProviderStatsService = {
+    onSignalRejected: jest.fn(),
+  };
+
+  const mockSignalsService = {
+    publishCreated: jest.fn(),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalModerationService,
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        {
+          provide: getRepositoryToken(SignalModeration),
+          useValue: mockModerationRepository,
+        },
+        { provide: ProviderStatsService, useValue: mockProviderStatsService },
+        { provide: SignalsService, useValue: mockSignalsService },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<SignalModerationService>(SignalModerationService);
+    mockModerationRepository.findOne.mockResolvedValue(flag);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should hold a flagged signal for moderation with the AI verdict', async () => {
+    const signal = buildSignal(SignalStatus.ACTIVE) as Signal;
+
+    const record = await service.flag(signal, {
+      score: 12,
+      feedback: 'Rationale is promotional with no market data',
+      isSpam: true,
+    });
+
+    expect(signal.status).toBe(SignalStatus.MODERATION);
+    expect(mockManager.save).toHaveBeenCalledWith(signal);
+    expect(record).toEqual(
+      expect.objectContaining({
+        action: ModerationAction.FLAGGED,
+        aiScore: 12,
+        isSpam: true,
+        moderator: null,
+      }),
+    );
+  });
+
+  it('should cancel a rejected signal, penalise the provider and close copies', async () => {
+    mockSignalRepository.findOne.mockResolvedValue(
+      buildSignal(SignalStatus.MODERATION),
+    );
+
+    const decision = await service.reject(
+      'signal-1',
+      moderator,
+      'Pump and dump',
+    );
+
+    expect(decision).toEqual(
+      expect.objectContaining({
+        action: ModerationAction.REJECTED,
+        moderator,
+        reason: 'Pump and dump',
+        aiFeedback: flag.aiFeedback,
+      }),
+    );
+    expect(mockManager.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: SignalStatus.CANCELLED,
+        outcome: SignalOutcome.CANCELLED,
+      }),
+    );
+    expect(mockProviderStatsService.onSignalRejected).toHaveBeenCalledWith(
+      providerId,
+    );
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'signal.closed',
+      expect.objectContaining({
+        signalId: 'signal-1',
+        outcome: SignalOutcome.CANCELLED,
+      }),
+    );
+  });
+
+  it('should return an approved signal to the feed and publish it to copiers', async () => {
+    mockSignalRepository.findOne.mockResolvedValue(
+      buildSignal(SignalStatus.MODERATION),
+    );
+
+    const decision = await service.approve('signal-1', moderator);
+
+    expect(decision.action).toBe(ModerationAction.APPROVED);
+    expect(mockManager.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: SignalStatus.ACTIVE }),
+    );
+    expect(mockProviderStatsService.onSignalRejected).not.toHaveBeenCalled();
+    expect(mockSignalsService.publishCreated).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'signal-1', status: SignalStatus.ACTIVE }),
+    );
+  });
+
+  it('should refuse decisions on signals that are not in moderation', async () => {
+    mockSignalRepository.findOne.mockResolvedValue(
+      buildSignal(SignalStatus.ACTIVE),
+    );
+
+    await expect(service.approve('signal-1', moderator)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockSignalRepository.manager.transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { In, Repository } from 'typeorm';
+import { Signal, SignalOutcome, SignalStatus } from '../entities/signal.entity';
+import {
+  ModerationAction,
+  SignalModeration,
+} from '../entities/signal-moderation.entity';
+import { ProviderStatsService } from './provider-stats.service';
+import { SignalsService } from '../signals.service';
+import { ValidationResult } from '../../ai-validation/interfaces/xai-client.interface';
+import { SignalClosedEvent } from '../../events/signal.events';
+
+export interface FlaggedSignal {
+  signal: Signal;
+  flag: SignalModeration;
+}
+
+/**
+ * Signals the AI validator flags are pulled from the feed into moderation.
+ * A moderator then approves them back to ACTIVE, which publishes them to
+ * copiers, or rejects them, which cancels the signal and counts against the
+ * provider's reputation.
+ */
+@Injectable()
+export class SignalModerationService {
+  private readonly logger = new Logger(SignalModerationService.name);
+
+  constructor(
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(SignalModeration)
+    private readonly moderationRepository: Repository<SignalModeration>,
+    private readonly providerStatsService: ProviderStatsService,
+    private readonly signalsService: SignalsService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async flag(
+    signal: Signal,
+    result: ValidationResult,
+  ): Promise<SignalModeration> {
+    const flag = await this.signalRepository.manager.transaction(
+      async (manager) => {
+        signal.status = SignalStatus.MODERATION;
+        await manager.save(signal);
+
+        return manager.save(
+          manager.create(SignalModeration, {
+            signalId: signal.id,
+            providerId: signal.providerId,
+            action: ModerationAction.FLAGGED,
+            aiScore: result.score,
+            aiFeedback: result.feedback,
+            isSpam: result.isSpam,
+            moderator: null,
+            reason: null,
+          }),
+        );
+      },
+    );
+
+    this.logger.warn(
+      `Signal ${signal.id} held for moderation (score ${result.score}, spam: ${result.isSpam})`,
+    );
+
+    return flag;
+  }
+
+  /**
+   * Signals awaiting a decision, oldest first, with the flag that put them
+   * there
+   */
+  async listFlagged(): Promise<FlaggedSignal[]> {
+    const signals = await this.signalRepository.find({
+      where: { status: SignalStatus.MODERATION },
+      relations: ['provider'],
+      order: { createdAt: 'ASC' },
+    });
+    if (signals.length === 0) {
+      return [];
+    }
+
+    const flags = await this.moderationRepository.find({
+      where: {
+        signalId: In(signals.map((signal) => signal.id)),
+        action: ModerationAction.FLAGGED,
+      },
+      order: { createdAt: 'ASC' },
+    });
+    // Later flags overwrite earlier ones, leaving the latest per signal
+    const latestFlags = new Map(flags.map((flag) => [flag.signalId, flag]));
+
+    return signals
+      .filter((signal) => latestFlags.has(signal.id))
+      .map((signal) => ({ signal, flag: latestFlags.get(signal.id)! }));
+  }
+
+  async approve(
+    signalId: string,
+    moderator: string,
+    reason?: string,
+  ): Promise<SignalModeration> {
+    const { signal, flag } = await this.getFlaggedSignal(signalId);
+
+    const decision = await this.recordDecision(
+      signal,
+      flag,
+      ModerationAction.APPROVED,
+      moderator,
+      reason ?? null,
+      () => {
+        signal.status = SignalStatus.ACTIVE;
+      },
+    );
+
+    this.logger.log(`Signal ${signalId} approved by ${moderator}`);
+
+    // Held signals were never announced, so copiers only see them now
+    this.signalsService.publishCreated(signal);
+
+    return decision;
+  }
+
+  async reject(
+    signalId: string,
+    moderator: string,
+    reason: string,
+  ): Promise<SignalModeration> {
+    const { signal, flag } = await this.getFlaggedSignal(signalId);
+
+    const decision = await this.recordDecision(
+      signal,
+      flag,
+      ModerationAction.REJECTED,
+      moderator,
+      reason,
+      () => {
+        signal.status = SignalStatus.CANCELLED;
+        signal.outcome = SignalOutcome.CANCELLED;
+        signal.closedAt = new Date();
+      },
+    );
+
+    this.logger.log(`Signal ${signalId} rejected by ${moderator}: ${reason}`);
+
+    await this.providerStatsService.onSignalRejected(signal.providerId);
+    this.publishClosed(signal);
+
+    return decision;
+  }
+
+  async getHistory(signalId: string): Promise<SignalModeration[]> {
+    return this.moderationRepository.find({
+      where: { signalId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private async getFlaggedSignal(signalId: string): Promise<FlaggedSignal> {
+    const signal = await this.signalRepository.findOne({
+      where: { id: signalId },
+    });
+    if (!signal) {
+      throw new NotFoundException(`Signal with ID ${signalId} not found`);
+    }
+
+    if (signal.status !== SignalStatus.MODERATION) {
+      throw new BadRequestException(
+        `Signal ${signalId} is not awaiting moderation`,
+      );
+    }
+
+    const flag = await this.moderationRepository.findOne({
+      where: { signalId, action: ModerationAction.FLAGGED },
+      order: { createdAt: 'DESC' },
+    });
+    if (!flag) {
+      throw new NotFoundException(
+        `No moderation flag found for signal ${signalId}`,
+      );
+    }
+
+    return { signal, flag };
+  }
+
+  /**
+   * The decision row repeats the AI verdict so each entry in the audit
+   * trail stands on its own.
+   */
+  private recordDecision(
+    signal: Signal,
+    flag: SignalModeration,
+    action: ModerationAction,
+    moderator: string,
+    reason: string | null,
+    apply: () => void,
+  ): Promise<SignalModeration> {
+    return this.signalRepository.manager.transaction(async (manager) => {
+      apply();
+      await manager.save(signal);
+
+      return manager.save(
+        manager.create(SignalModeration, {
+          signalId: signal.id,
+          providerId: signal.providerId,
+          action,
+          aiScore: flag.aiScore,
+          aiFeedback: flag.aiFeedback,
+          isSpam: flag.isSpam,
+          moderator,
+          reason,
+        }),
+      );
+    });
+  }
+
+  /**
+   * Copiers who mirrored the signal before it was flagged have their trades
+   * closed through the usual signal.closed handling.
+   */
+  private publishClosed(signal: Signal): void {
+    try {
+      const event = new SignalClosedEvent({
+        signalId: signal.id,
+        providerId: signal.providerId,
+        outcome: signal.outcome,
+      });
+      this.eventEmitter.emit(event.eventName, event);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish rejection of signal ${signal.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
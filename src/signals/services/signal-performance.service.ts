@@ -1,9 +1,11 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository, LessThan } from 'typeorm';
 import {
   Signal,
@@ -20,6 +22,7 @@ export class SignalPerformance {
 
 // import { SignalPerformance } from '../entities/signal-performance.entity';
 import { SdexPriceService } from './sdex-price.service';
+import { SignalClosedEvent } from '../../events/signal.events';
 import {
   CreateSignalDto,
   UpdateSignalDto,
@@ -30,6 +33,7 @@ export class PerformanceQueryDto {}
 
 @Injectable()
 export class SignalPerformanceService {
+  private readonly logger = new Logger(SignalPerformanceService.name);
 
   constructor(
     @InjectRepository(Signal)
@@ -37,9 +41,10 @@ export class SignalPerformanceService {
     // @InjectRepository(SignalPerformance)
     // private performanceRepository: Repository<SignalPerformance>,
     private sdexPriceService: SdexPriceService,
+    private eventEmitter: EventEmitter2,
   ) {}
 
-  async createSignal(dto: CreateSignalDto): Promise<Signal> {
+  async createSignal(providerId: string, dto: CreateSignalDto): Promise<Signal> {
     const entryPrice = parseFloat(dto.entryPrice);
     const targetPrice = parseFloat(dto.targetPrice);
     const stopLossPrice = parseFloat(dto.stopLossPrice || '0');
@@ -69,7 +74,7 @@ export class SignalPerformanceService {
     }
 
     const signal = this.signalRepository.create({
-      providerId: dto.providerId,
+      providerId,
       baseAsset: dto.baseAsset,
       counterAsset: dto.counterAsset,
       type: dto.type,
@@ -182,6 +187,7 @@ export class SignalPerformanceService {
     signal.closedAt = new Date();
 
     const saved = (await this.signalRepository.save(signal)) as unknown as Signal;
+    this.publishClosed(saved);
     return saved;
   }
 
@@ -335,4 +341,24 @@ export class SignalPerformanceService {
       totalVolume: totalVolume.toFixed(8),
     };
   }
+
+  /**
+   * Copy trading closes copiers' trades from this event, so a bad event must
+   * not undo a close that is already stored.
+   */
+  private publishClosed(signal: Signal): void {
+    try {
+      const event = new SignalClosedEvent({
+        signalId: signal.id,
+        providerId: signal.providerId,
+        outcome: signal.outcome,
+        closePrice: signal.closePrice ? parseFloat(signal.closePrice) : undefined,
+      });
+      this.eventEmitter.emit(event.eventName, event);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish close of signal ${signal.id}: ${(error as Error).message}`,
+      );
+    }
+  }
 }
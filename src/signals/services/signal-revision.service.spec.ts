@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { SignalRevisionService } from './signal-revision.service';
+import { ExpirationNotificationService } from './expiration-notification.service';
+import { Signal, SignalStatus, SignalType } from '../entities/signal.entity';
+import { SignalRevision } from '../entities/signal-revision.entity';
+import {
+  CopiedPosition,
+  PositionStatus,
+} from '../entities/copied-position.entity';
+import { User } from '../../users/entities/user.entity';
+
+describe('SignalRevisionService', () => {
+  let service: SignalRevisionService;
+
+  const providerId = '22222222-2222-4222-8222-222222222222';
+  const providerWallet = 'GPROVIDER';
+  const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const buildSignal = (): Partial<Signal> => ({
+    id: 'signal-1',
+    providerId,
+    baseAsset: 'XLM',
+    counterAsset: 'USDC',
+    type: SignalType.BUY,
+    status: SignalStatus.ACTIVE,
+    entryPrice: '0.10000000',
+    targetPrice: '0.12000000',
+    stopLossPrice: '0.09000000',
+    expiresAt,
+  });
+
+  const mockManager = {
+    findOne: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn((_entity, data) => data),
+    save: jest.fn(async (data) => ({ id: 'revision-1', ...data })),
+  };
+
+  const mockSignalRepository = {
+    manager: {
+      transaction: jest.fn((work) => work(mockManager)),
+    },
+  };
+
+  const mockRevisionRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockPositionRepository = {
+    find: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(async ({ where }) =>
+      where.walletAddress === providerWallet ? { id: providerId } : null,
+    ),
+  };
+
+  const mockNotificationService = {
+    notifySignalAmended: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalRevisionService,
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        {
+          provide: getRepositoryToken(SignalRevision),
+          useValue: mockRevisionRepository,
+        },
+        {
+          provide: getRepositoryToken(CopiedPosition),
+          useValue: mockPositionRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: ExpirationNotificationService,
+          useValue: mockNotificationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SignalRevisionService>(SignalRevisionService);
+    mockManager.findOne.mockResolvedValue(buildSignal());
+    mockPositionRepository.find.mockResolvedValue([]);
+    mockManager.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should record the changed levels as the next revision and notify copiers', async () => {
+    mockManager.count.mockResolvedValue(1);
+    const position = {
+      id: 'position-1',
+      userId: 'copier-1',
+      status: PositionStatus.OPEN,
+    };
+    mockPositionRepository.find.mockResolvedValue([position]);
+
+    const revision = await service.amend('signal-1', providerWallet, {
+      targetPrice: '0.13',
+      stopLossPrice: '0.09',
+      note: 'Momentum is stronger than expected',
+    });
+
+    expect(revision).toEqual(
+      expect.objectContaining({
+        signalId: 'signal-1',
+        providerId,
+        revision: 2,
+        changes: [
+          { field: 'targetPrice', previous: '0.12000000', current: '0.13' },
+        ],
+        note: 'Momentum is stronger than expected',
+      }),
+    );
+    expect(mockManager.findOne).toHaveBeenCalledWith(Signal, {
+      where: { id: 'signal-1' },
+      lock: { mode: 'pessimistic_write' },
+    });
+    expect(mockManager.save).toHaveBeenCalledWith(
+      expect.objectContaining({ targetPrice: '0.13' }),
+    );
+    expect(mockPositionRepository.find).toHaveBeenCalledWith({
+      where: { signalId: 'signal-1', status: PositionStatus.OPEN },
+    });
+    expect(mockNotificationService.notifySignalAmended).toHaveBeenCalledWith(
+      'copier-1',
+      expect.objectContaining({ id: 'signal-1' }),
+      position,
+      revision,
+    );
+  });
+
+  it('should only let the provider amend the signal', async () => {
+    await expect(
+      service.amend('signal-1', 'GSOMEONEELSE', { targetPrice: '0.13' }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockManager.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject a stop loss on the wrong side of the entry price', async () => {
+    await expect(
+      service.amend('signal-1', providerWallet, { stopLossPrice: '0.11' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockManager.save).not.toHaveBeenCalled();
+  });
+
+  it('should reject an amendment that changes nothing', async () => {
+    await expect(
+      service.amend('signal-1', providerWallet, {
+        targetPrice: '0.12',
+        expiresAt: expiresAt.toISOString(),
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import Big from 'big.js';
+import { Signal, SignalStatus, SignalType } from '../entities/signal.entity';
+import {
+  SignalRevision,
+  SignalRevisionChange,
+} from '../entities/signal-revision.entity';
+import {
+  CopiedPosition,
+  PositionStatus,
+} from '../entities/copied-position.entity';
+import { User } from '../../users/entities/user.entity';
+import { AmendSignalDto } from '../dto';
+import { ExpirationNotificationService } from './expiration-notification.service';
+
+/**
+ * Provider amendments to a live signal. Each amendment updates the signal,
+ * appends a SignalRevision and tells copiers with open positions.
+ */
+@Injectable()
+export class SignalRevisionService {
+  private readonly logger = new Logger(SignalRevisionService.name);
+
+  constructor(
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(SignalRevision)
+    private readonly revisionRepository: Repository<SignalRevision>,
+    @InjectRepository(CopiedPosition)
+    private readonly positionRepository: Repository<CopiedPosition>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly notificationService: ExpirationNotificationService,
+  ) {}
+
+  /**
+   * Amends a signal on behalf of the provider with the given wallet. The
+   * signal row is locked while the amendment is checked and numbered, so
+   * concurrent amendments apply one after the other.
+   */
+  async amend(
+    signalId: string,
+    walletAddress: string,
+    dto: AmendSignalDto,
+  ): Promise<SignalRevision> {
+    const provider = await this.userRepository.findOne({
+      where: { walletAddress },
+    });
+
+    const { signal, revision, changes } =
+      await this.signalRepository.manager.transaction(async (manager) => {
+        const signal = await manager.findOne(Signal, {
+          where: { id: signalId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!signal) {
+          throw new NotFoundException(`Signal with ID ${signalId} not found`);
+        }
+
+        if (!provider || signal.providerId !== provider.id) {
+          throw new ForbiddenException('Only the signal provider can amend it');
+        }
+
+        if (signal.status !== SignalStatus.ACTIVE) {
+          throw new BadRequestException('Only active signals can be amended');
+        }
+
+        const changes = this.collectChanges(signal, dto);
+        if (changes.length === 0) {
+          throw new BadRequestException('Amendment does not change the signal');
+        }
+
+        const errors = this.validateLevels(signal, dto);
+        if (errors.length > 0) {
+          throw new BadRequestException({
+            message: 'Invalid amendment',
+            errors,
+          });
+        }
+
+        const previousRevisions = await manager.count(SignalRevision, {
+          where: { signalId },
+        });
+
+        if (dto.targetPrice !== undefined) {
+          signal.targetPrice = dto.targetPrice;
+        }
+        if (dto.stopLossPrice !== undefined) {
+          signal.stopLossPrice = dto.stopLossPrice;
+        }
+        if (dto.expiresAt !== undefined) {
+          signal.expiresAt = new Date(dto.expiresAt);
+        }
+        await manager.save(signal);
+
+        const revision = await manager.save(
+          manager.create(SignalRevision, {
+            signalId,
+            providerId: provider.id,
+            revision: previousRevisions + 1,
+            changes,
+            note: dto.note ?? null,
+          }),
+        );
+
+        return { signal, revision, changes };
+      });
+
+    this.logger.log(
+      `Signal ${signalId} amended (revision ${revision.revision}): ${changes
+        .map((change) => change.field)
+        .join(', ')}`,
+    );
+
+    await this.notifyCopiers(signal, revision);
+
+    return revision;
+  }
+
+  async getRevisions(signalId: string): Promise<SignalRevision[]> {
+    return this.revisionRepository.find({
+      where: { signalId },
+      order: { revision: 'ASC' },
+    });
+  }
+
+  async getRevision(revisionId: string): Promise<SignalRevision> {
+    const revision = await this.revisionRepository.findOne({
+      where: { id: revisionId },
+    });
+    if (!revision) {
+      throw new NotFoundException(`Signal revision ${revisionId} not found`);
+    }
+
+    return revision;
+  }
+
+  private collectChanges(
+    signal: Signal,
+    dto: AmendSignalDto,
+  ): SignalRevisionChange[] {
+    const changes: SignalRevisionChange[] = [];
+
+    if (
+      dto.targetPrice !== undefined &&
+      !new Big(dto.targetPrice).eq(signal.targetPrice)
+    ) {
+      changes.push({
+        field: 'targetPrice',
+        previous: signal.targetPrice,
+        current: dto.targetPrice,
+      });
+    }
+
+    if (
+      dto.stopLossPrice !== undefined &&
+      (signal.stopLossPrice === null ||
+        !new Big(dto.stopLossPrice).eq(signal.stopLossPrice))
+    ) {
+      changes.push({
+        field: 'stopLossPrice',
+        previous: signal.stopLossPrice,
+        current: dto.stopLossPrice,
+      });
+    }
+
+    if (
+      dto.expiresAt !== undefined &&
+      new Date(dto.expiresAt).getTime() !== signal.expiresAt.getTime()
+    ) {
+      changes.push({
+        field: 'expiresAt',
+        previous: signal.expiresAt.toISOString(),
+        current: new Date(dto.expiresAt).toISOString(),
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Target and stop loss must stay on their side of the entry price for the
+   * signal's direction.
+   */
+  private validateLevels(signal: Signal, dto: AmendSignalDto): string[] {
+    const errors: string[] = [];
+    const entry = new Big(signal.entryPrice);
+    const isBuy = signal.type === SignalType.BUY;
+
+    if (dto.targetPrice !== undefined) {
+      const target = new Big(dto.targetPrice);
+      if (target.lte(0)) {
+        errors.push('Target price must be positive');
+      } else if (isBuy ? target.lte(entry) : target.gte(entry)) {
+        errors.push(
+          `Target price must be ${isBuy ? 'above' : 'below'} the entry price of ${signal.entryPrice}`,
+        );
+      }
+    }
+
+    if (dto.stopLossPrice !== undefined) {
+      const stopLoss = new Big(dto.stopLossPrice);
+      if (stopLoss.lte(0)) {
+        errors.push('Stop loss price must be positive');
+      } else if (isBuy ? stopLoss.gte(entry) : stopLoss.lte(entry)) {
+        errors.push(
+          `Stop loss price must be ${isBuy ? 'below' : 'above'} the entry price of ${signal.entryPrice}`,
+        );
+      }
+    }
+
+    if (dto.expiresAt !== undefined && new Date(dto.expiresAt) <= new Date()) {
+      errors.push('Expiry must be in the future');
+    }
+
+    return errors;
+  }
+
+  private async notifyCopiers(
+    signal: Signal,
+    revision: SignalRevision,
+  ): Promise<void> {
+    const positions = await this.positionRepository.find({
+      where: { signalId: signal.id, status: PositionStatus.OPEN },
+    });
+
+    for (const position of positions) {
+      try {
+        await this.notificationService.notifySignalAmended(
+          position.userId,
+          signal,
+          position,
+          revision,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to notify user ${position.userId} of signal ${signal.id} amendment: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+}
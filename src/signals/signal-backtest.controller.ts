@@ -0,0 +1,22 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import {
+  BacktestResult,
+  SignalBacktestService,
+} from './services/signal-backtest.service';
+import { RunBacktestDto } from './dto';
+
+@Controller('backtests')
+export class SignalBacktestController {
+  constructor(private readonly signalBacktestService: SignalBacktestService) {}
+
+  /**
+   * Replay a provider's signal history, or an ad-hoc list of signals,
+   * against historical SDEX prices
+   * POST /backtests
+   */
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  async run(@Body() dto: RunBacktestDto): Promise<BacktestResult> {
+    return this.signalBacktestService.run(dto);
+  }
+}
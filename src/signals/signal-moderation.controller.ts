@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import {
+  SignalModerationService,
+  FlaggedSignal,
+} from './services/signal-moderation.service';
+import { SignalModeration } from './entities/signal-moderation.entity';
+import { ApproveSignalDto, RejectSignalDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/jwt-payload.interface';
+
+@Controller('moderation/signals')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+export class SignalModerationController {
+  constructor(
+    private readonly signalModerationService: SignalModerationService,
+  ) {}
+
+  /**
+   * Signals held back by AI validation
+   * GET /moderation/signals
+   */
+  @Get()
+  async listFlagged(): Promise<FlaggedSignal[]> {
+    return this.signalModerationService.listFlagged();
+  }
+
+  /**
+   * Return a flagged signal to the feed
+   * POST /moderation/signals/:id/approve
+   */
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: ApproveSignalDto,
+  ): Promise<SignalModeration> {
+    return this.signalModerationService.approve(id, user.publicKey, dto.reason);
+  }
+
+  /**
+   * Cancel a flagged signal and count it against the provider
+   * POST /moderation/signals/:id/reject
+   */
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: RejectSignalDto,
+  ): Promise<SignalModeration> {
+    return this.signalModerationService.reject(id, user.publicKey, dto.reason);
+  }
+
+  /**
+   * Flag and decisions for one signal, oldest first
+   * GET /moderation/signals/:id/history
+   */
+  @Get(':id/history')
+  async getHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<SignalModeration[]> {
+    return this.signalModerationService.getHistory(id);
+  }
+}
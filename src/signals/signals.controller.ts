@@ -8,18 +8,38 @@ import {
   HttpStatus,
   ParseUUIDPipe,
   NotFoundException,
+  UseGuards,
 } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
 import { SignalsService } from './signals.service';
-import { Signal } from './entities/signal.entity';
+import { Signal, SignalValidation } from './entities/signal.entity';
+import { SignalRevision } from './entities/signal-revision.entity';
+import { SignalRevisionService } from './services/signal-revision.service';
+import { AmendSignalDto, CreateSignalDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthenticatedUser } from '../auth/interfaces/jwt-payload.interface';
 
 @Controller('signals')
 export class SignalsController {
-  constructor(private readonly signalsService: SignalsService) {}
+  constructor(
+    private readonly signalsService: SignalsService,
+    private readonly signalRevisionService: SignalRevisionService,
+  ) {}
 
+  /**
+   * Publishes a signal as the authenticated wallet, subject to the
+   * provider's stake status.
+   */
   @Post()
   @HttpCode(HttpStatus.CREATED)
-  async createSignal(@Body() body: any): Promise<Signal> {
-    return this.signalsService.create(body);
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  async createSignal(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateSignalDto,
+  ): Promise<Signal> {
+    return this.signalsService.create(user.publicKey, dto);
   }
 
   @Get()
@@ -29,10 +49,41 @@ export class SignalsController {
 
   @Get(':id')
   async getSignal(@Param('id', ParseUUIDPipe) id: string): Promise<Signal> {
-    const signal = await this.signalsService.findOne(id);
+    const signal = await this.signalsService.findOneWithRevisions(id);
     if (!signal) {
       throw new NotFoundException(`Signal with ID ${id} not found`);
     }
+    await this.signalsService.recordView(id);
     return signal;
   }
+
+  @Get(':id/validation')
+  async getValidation(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<SignalValidation> {
+    return this.signalsService.getValidation(id);
+  }
+
+  /**
+   * Provider amendment of target, stop loss or expiry. Copiers with open
+   * positions are notified of the new levels.
+   */
+  @Post(':id/revisions')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  async amendSignal(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AmendSignalDto,
+  ): Promise<SignalRevision> {
+    return this.signalRevisionService.amend(id, user.publicKey, dto);
+  }
+
+  @Get(':id/revisions')
+  async getRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<SignalRevision[]> {
+    return this.signalRevisionService.getRevisions(id);
+  }
 }
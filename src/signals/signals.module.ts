@@ -3,12 +3,48 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bull';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { Signal } from './entities/signal.entity';
+import { ProviderFollow } from './entities/provider-follow.entity';
+import { ProviderStats } from './entities/provider-stats.entity';
+import { SignalRevision } from './entities/signal-revision.entity';
+import { CopiedPosition } from './entities/copied-position.entity';
+import { ExpirationNotification } from './entities/expiration-notification.entity';
+import { SignalModeration } from './entities/signal-moderation.entity';
+import { User } from '../users/entities/user.entity';
+import { Trade } from '../trades/entities/trade.entity';
+import { UsersModule } from '../users/users.module';
+import { ProvidersModule } from '../stake-verification/providers.module';
+import { QualityModule } from '../signals-scoring/qualitity/quality.module';
 import { SignalsService } from './signals.service';
 import { SignalsController } from './signals.controller';
+import { ProviderFollowService } from './services/provider-follow.service';
+import { SignalRevisionService } from './services/signal-revision.service';
+import { ExpirationNotificationService } from './services/expiration-notification.service';
+import { ProviderStatsService } from './services/provider-stats.service';
+import { SignalModerationService } from './services/signal-moderation.service';
+import { SignalBacktestService } from './services/signal-backtest.service';
+import { ProviderLeaderboardService } from './services/provider-leaderboard.service';
+import { ProviderProfileService } from './services/provider-profile.service';
+import { SdexPriceService } from './services/sdex-price.service';
+import { StellarConfigService } from '../config/stellar.service';
+import { ProviderFollowsController } from './provider-follows.controller';
+import { SignalModerationController } from './signal-moderation.controller';
+import { SignalBacktestController } from './signal-backtest.controller';
+import { LeaderboardController } from './leaderboard.controller';
+import { ProviderProfileController } from './provider-profile.controller';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Signal]),
+    TypeOrmModule.forFeature([
+      Signal,
+      ProviderFollow,
+      ProviderStats,
+      User,
+      SignalRevision,
+      CopiedPosition,
+      ExpirationNotification,
+      SignalModeration,
+      Trade,
+    ]),
     BullModule.registerQueueAsync({
       name: 'signal-tracking',
       imports: [ConfigModule],
@@ -31,9 +67,63 @@ import { SignalsController } from './signals.controller';
         },
       }),
     }),
+    // Consumed by SignalValidationProcessor in AiValidationModule
+    BullModule.registerQueueAsync({
+      name: 'signal-validation',
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('redis.host') ?? 'localhost',
+          port: configService.get<number>('redis.port') ?? 6379,
+          password: configService.get<string>('redis.password'),
+          db: configService.get<number>('redis.db') ?? 0,
+        },
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 100,
+          removeOnFail: 50,
+        },
+      }),
+    }),
+    UsersModule,
+    ProvidersModule,
+    QualityModule,
+  ],
+  providers: [
+    SignalsService,
+    ProviderFollowService,
+    SignalRevisionService,
+    ExpirationNotificationService,
+    ProviderStatsService,
+    SignalModerationService,
+    SignalBacktestService,
+    ProviderLeaderboardService,
+    ProviderProfileService,
+    SdexPriceService,
+    StellarConfigService,
+  ],
+  controllers: [
+    SignalsController,
+    ProviderFollowsController,
+    SignalModerationController,
+    SignalBacktestController,
+    LeaderboardController,
+    ProviderProfileController,
+  ],
+  exports: [
+    SignalsService,
+    ProviderFollowService,
+    SignalRevisionService,
+    ExpirationNotificationService,
+    SignalModerationService,
+    SignalBacktestService,
+    ProviderLeaderboardService,
+    TypeOrmModule,
   ],
-  providers: [SignalsService],
-  controllers: [SignalsController],
-  exports: [SignalsService, TypeOrmModule],
 })
 export class SignalsModule {}
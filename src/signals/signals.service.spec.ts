@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  ForbiddenException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { SignalsService } from './signals.service';
+import { Signal, SignalType } from './entities/signal.entity';
+import { ProviderFollow } from './entities/provider-follow.entity';
+import { CreateSignalDto } from './dto';
+import { UsersService } from '../users/users.service';
+import { StakeVerificationService } from '../stake-verification/stake-verification.service';
+
+// uuid ships ESM only, which jest cannot load; events only use it for correlation ids
+jest.mock('uuid', () => ({ v4: () => 'correlation-id' }));
+
+describe('SignalsService', () => {
+  let service: SignalsService;
+
+  const walletAddress = 'GPROVIDERWALLETADDRESS';
+  const provider = {
+    id: '22222222-2222-4222-8222-222222222222',
+    walletAddress,
+  };
+
+  const dto: CreateSignalDto = {
+    baseAsset: 'XLM',
+    counterAsset: 'USDC',
+    type: SignalType.BUY,
+    entryPrice: '0.10',
+    targetPrice: '0.12',
+    stopLossPrice: '0.09',
+  };
+
+  const mockSignalRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (data) => ({ id: 'signal-1', ...data })),
+    count: jest.fn(),
+  };
+
+  const mockFollowRepository = {
+    count: jest.fn(),
+  };
+
+  const mockValidationQueue = {
+    add: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findOrCreateByWalletAddress: jest.fn(),
+  };
+
+  const mockStakeVerificationService = {
+    getVerificationStatus: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: number) => defaultValue),
+  };
+
+  const mockEventEmitter = {
+    emit: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SignalsService,
+        { provide: getRepositoryToken(Signal), useValue: mockSignalRepository },
+        {
+          provide: getRepositoryToken(ProviderFollow),
+          useValue: mockFollowRepository,
+        },
+        {
+          provide: getQueueToken('signal-validation'),
+          useValue: mockValidationQueue,
+        },
+        { provide: UsersService, useValue: mockUsersService },
+        {
+          provide: StakeVerificationService,
+          useValue: mockStakeVerificationService,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<SignalsService>(SignalsService);
+    mockUsersService.findOrCreateByWalletAddress.mockResolvedValue(provider);
+    mockFollowRepository.count.mockResolvedValue(4);
+    mockSignalRepository.count.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish as the authenticated provider and queue validation before announcing it', async () => {
+    mockStakeVerificationService.getVerificationStatus.mockResolvedValue({
+      isVerified: true,
+      stakeAmount: '1000',
+      lastChecked: new Date(),
+    });
+
+    const signal = await service.create(walletAddress, dto);
+
+    expect(signal).toEqual(
+      expect.objectContaining({
+        id: 'signal-1',
+        providerId: provider.id,
+        followerCount: 4,
+      }),
+    );
+    expect(mockSignalRepository.count).not.toHaveBeenCalled();
+    expect(mockValidationQueue.add).toHaveBeenCalledWith('validate', {
+      signalId: 'signal-1',
+    });
+    // Copiers only hear about the signal once it clears validation
+    expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should announce a validated signal to copy trading', () => {
+    service.publishCreated({
+      id: 'signal-1',
+      providerId: provider.id,
+      baseAsset: 'XLM',
+      counterAsset: 'USDC',
+      type: SignalType.BUY,
+      targetPrice: '0.12',
+      stopLossPrice: null,
+      rationale: null,
+    } as Signal);
+
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'signal.created',
+      expect.objectContaining({ signalId: 'signal-1', userId: provider.id }),
+    );
+  });
+
+  it('should let an unstaked provider publish within the reduced quota', async () => {
+    mockStakeVerificationService.getVerificationStatus.mockResolvedValue({
+      isVerified: false,
+      stakeAmount: '0',
+      lastChecked: new Date(),
+    });
+    mockSignalRepository.count.mockResolvedValue(2);
+
+    await expect(service.create(walletAddress, dto)).resolves.toEqual(
+      expect.objectContaining({ id: 'signal-1' }),
+    );
+  });
+
+  it('should reject an unstaked provider over the reduced quota', async () => {
+    mockStakeVerificationService.getVerificationStatus.mockResolvedValue({
+      isVerified: false,
+      stakeAmount: '0',
+      lastChecked: new Date(),
+    });
+    mockSignalRepository.count.mockResolvedValue(3);
+
+    await expect(service.create(walletAddress, dto)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(mockSignalRepository.save).not.toHaveBeenCalled();
+    expect(mockValidationQueue.add).not.toHaveBeenCalled();
+  });
+
+  it('should apply the unstaked quota when the stake check fails', async () => {
+    mockStakeVerificationService.getVerificationStatus.mockRejectedValue(
+      new InternalServerErrorException('Stake contract not configured'),
+    );
+    mockSignalRepository.count.mockResolvedValue(3);
+
+    await expect(service.create(walletAddress, dto)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -1,54 +1,117 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, ForbiddenException, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Signal, SignalStatus, SignalType } from './entities/signal.entity';
+import { InjectQueue } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Queue } from 'bull';
+import { DeepPartial, MoreThanOrEqual, Repository } from 'typeorm';
+import { Signal, SignalOutcome, SignalStatus, SignalValidation } from './entities/signal.entity';
+import { ProviderFollow } from './entities/provider-follow.entity';
+import { CreateSignalDto } from './dto';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { StakeVerificationService } from '../stake-verification/stake-verification.service';
+import { SignalCreatedEvent, SignalType as SignalEventType } from '../events/signal.events';
 
 @Injectable()
 export class SignalsService {
+  private readonly logger = new Logger(SignalsService.name);
 
   constructor(
     @InjectRepository(Signal)
     private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(ProviderFollow)
+    private readonly followRepository: Repository<ProviderFollow>,
+    @InjectQueue('signal-validation')
+    private readonly validationQueue: Queue<{ signalId: string }>,
+    private readonly usersService: UsersService,
+    private readonly stakeVerificationService: StakeVerificationService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
-  async create(createSignalDto: any): Promise<Signal> {
-    // Validate required fields
-    if (!createSignalDto.providerId || !createSignalDto.baseAsset || !createSignalDto.counterAsset) {
-      throw new BadRequestException('providerId, baseAsset, and counterAsset are required');
-    }
+  /**
+   * Publishes a signal as the authenticated wallet. Providers without a
+   * verified stake are held to the reduced daily quota from signals config.
+   */
+  async create(walletAddress: string, dto: CreateSignalDto): Promise<Signal> {
+    const provider = await this.usersService.findOrCreateByWalletAddress(walletAddress);
+    await this.assertCanPublish(provider);
 
-    const signal = this.signalRepository.create({
-      providerId: createSignalDto.providerId,
-      baseAsset: createSignalDto.baseAsset,
-      counterAsset: createSignalDto.counterAsset,
-      type: createSignalDto.type || SignalType.BUY,
+    const draft: DeepPartial<Signal> = {
+      providerId: provider.id,
+      baseAsset: dto.baseAsset,
+      counterAsset: dto.counterAsset,
+      type: dto.type,
       status: SignalStatus.ACTIVE,
-      outcome: createSignalDto.outcome,
-      entryPrice: createSignalDto.entryPrice || '0',
-      targetPrice: createSignalDto.targetPrice || '0',
-      stopLossPrice: createSignalDto.stopLossPrice || null,
+      outcome: SignalOutcome.PENDING,
+      entryPrice: dto.entryPrice,
+      targetPrice: dto.targetPrice,
+      stopLossPrice: dto.stopLossPrice ?? null,
       currentPrice: null,
       closePrice: null,
       copiersCount: 0,
       totalCopiedVolume: '0',
-      expiresAt: createSignalDto.expiresAt || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days default
+      expiresAt: dto.expiresAt
+        ? new Date(dto.expiresAt)
+        : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days default
       gracePeriodEndsAt: null,
       closedAt: null,
-      rationale: createSignalDto.rationale || null,
-      confidenceScore: createSignalDto.confidenceScore || 50,
+      rationale: dto.rationale ?? null,
+      confidenceScore: dto.confidenceScore ?? 50,
       executedCount: 0,
       totalProfitLoss: '0',
       successRate: 0,
-      metadata: createSignalDto.metadata || null,
-    } as any);
+      viewCount: 0,
+      followerCount: await this.followRepository.count({
+        where: { providerId: provider.id },
+      }),
+      metadata: dto.metadata ?? null,
+    };
+
+    const saved = await this.signalRepository.save(
+      this.signalRepository.create(draft),
+    );
+    // signal.created follows once the signal clears validation
+    await this.enqueueValidation(saved);
 
-    return this.signalRepository.save(signal as any);
+    return saved;
   }
 
   async findOne(id: string): Promise<Signal | null> {
     return this.signalRepository.findOneBy({ id });
   }
 
+  /**
+   * Signal with its amendment timeline, oldest revision first
+   */
+  async findOneWithRevisions(id: string): Promise<Signal | null> {
+    return this.signalRepository.findOne({
+      where: { id },
+      relations: { revisions: true },
+      order: { revisions: { revision: 'ASC' } },
+    });
+  }
+
+  /**
+   * Validator verdict with per-criterion subscores. Not found until the
+   * validation job has run.
+   */
+  async getValidation(id: string): Promise<SignalValidation> {
+    const signal = await this.signalRepository.findOneBy({ id });
+    if (!signal) {
+      throw new NotFoundException(`Signal with ID ${id} not found`);
+    }
+    if (!signal.validation) {
+      throw new NotFoundException(`Signal ${id} has not been validated yet`);
+    }
+    return signal.validation;
+  }
+
+  async recordView(id: string): Promise<void> {
+    await this.signalRepository.increment({ id }, 'viewCount', 1);
+  }
+
   async findAll(): Promise<Signal[]> {
     return this.signalRepository.find({
       order: { createdAt: 'DESC' },
@@ -56,6 +119,77 @@ export class SignalsService {
     });
   }
 
+  private async assertCanPublish(provider: User): Promise<void> {
+    if (await this.hasVerifiedStake(provider.walletAddress)) {
+      return;
+    }
+
+    const quota = this.configService.get<number>('signals.unstakedDailyQuota', 3);
+    if (quota <= 0) {
+      throw new ForbiddenException('A verified provider stake is required to publish signals');
+    }
+
+    const published = await this.signalRepository.count({
+      where: {
+        providerId: provider.id,
+        createdAt: MoreThanOrEqual(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+      },
+    });
+    if (published >= quota) {
+      throw new ForbiddenException(
+        `Providers without a verified stake can publish ${quota} signals per 24 hours`,
+      );
+    }
+  }
+
+  /**
+   * An unreachable stake contract counts as unstaked rather than blocking
+   * every provider.
+   */
+  private async hasVerifiedStake(walletAddress: string): Promise<boolean> {
+    try {
+      const status = await this.stakeVerificationService.getVerificationStatus(walletAddress);
+      return status.isVerified;
+    } catch (error) {
+      this.logger.warn(
+        `Stake check failed for ${walletAddress}, applying unstaked quota: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  private async enqueueValidation(signal: Signal): Promise<void> {
+    try {
+      await this.validationQueue.add('validate', { signalId: signal.id });
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue validation for signal ${signal.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Copy trading and other listeners pick new signals up from here, so it is
+   * only called once a signal has passed validation or been approved by a
+   * moderator. A bad event must not fail the caller once the signal is stored.
+   */
+  publishCreated(signal: Signal): void {
+    try {
+      const event = new SignalCreatedEvent({
+        signalId: signal.id,
+        userId: signal.providerId,
+        symbol: `${signal.baseAsset}/${signal.counterAsset}`,
+        type: signal.type as unknown as SignalEventType,
+        targetPrice: parseFloat(signal.targetPrice),
+        stopLoss: signal.stopLossPrice ? parseFloat(signal.stopLossPrice) : undefined,
+        reasoning: signal.rationale ?? undefined,
+      });
+      this.eventEmitter.emit(event.eventName, event);
+    } catch (error) {
+      this.logger.warn(`Failed to publish signal ${signal.id}: ${(error as Error).message}`);
+    }
+  }
+
   async updateSignalStatus(id: string, status: SignalStatus): Promise<Signal | null> {
     await this.signalRepository.update(id, { status });
     return this.findOne(id);
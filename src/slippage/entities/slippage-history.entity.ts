@@ -0,0 +1,28 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Running slippage statistics per trading pair, folded in from each
+ * recorded execution.
+ */
+@Entity('slippage_history')
+export class SlippageHistory {
+  @PrimaryColumn({ length: 140 })
+  symbol!: string;
+
+  @Column({
+    name: 'average_slippage',
+    type: 'decimal',
+    precision: 18,
+    scale: 8,
+  })
+  averageSlippage!: string;
+
+  @Column({ name: 'max_slippage', type: 'decimal', precision: 18, scale: 8 })
+  maxSlippage!: string;
+
+  @Column({ name: 'sample_count', type: 'int' })
+  sampleCount!: number;
+
+  @UpdateDateColumn({ name: 'last_updated' })
+  lastUpdated!: Date;
+}
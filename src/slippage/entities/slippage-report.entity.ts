@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('slippage_reports')
+@Index(['symbol', 'timestamp'])
+export class SlippageReport {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ length: 140 })
+  symbol!: string;
+
+  @Column({ type: 'varchar', length: 4 })
+  side!: 'buy' | 'sell';
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  @Index()
+  userId?: string | null;
+
+  @Column({ name: 'order_id', type: 'varchar', nullable: true })
+  orderId?: string | null;
+
+  @Column({ name: 'expected_price', type: 'decimal', precision: 18, scale: 8 })
+  expectedPrice!: string;
+
+  @Column({ name: 'actual_price', type: 'decimal', precision: 18, scale: 8 })
+  actualPrice!: string;
+
+  @Column({ name: 'slippage_amount', type: 'decimal', precision: 18, scale: 8 })
+  slippageAmount!: string;
+
+  @Column({
+    name: 'slippage_percent',
+    type: 'decimal',
+    precision: 18,
+    scale: 8,
+  })
+  slippagePercent!: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 8 })
+  quantity!: string;
+
+  @Column({
+    name: 'total_slippage_cost',
+    type: 'decimal',
+    precision: 18,
+    scale: 8,
+  })
+  totalSlippageCost!: string;
+
+  @Column({ name: 'within_limits', type: 'boolean' })
+  withinLimits!: boolean;
+
+  @CreateDateColumn({ name: 'timestamp' })
+  timestamp!: Date;
+}
@@ -1,20 +1,74 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
 import { SlippageCalculatorService } from './slippage-calculator.service';
 import { SlippageToleranceLevel } from './dto/slippage-config.dto';
+import { SlippageHistory } from './entities/slippage-history.entity';
+import { SdexService } from '../sdex/sdex.service';
+
+const USDC_ISSUER = 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN';
+const XLM_USDC = `XLM/USDC:${USDC_ISSUER}`;
+const AQUA_USDC = `AQUA:GBNZILSTVQZ4R7IKQDGHYGY2QXL5QOFJYQMXPKWRRM5PAV7Y4M67AQUA/USDC:${USDC_ISSUER}`;
+
+// Twenty levels either side of 0.12; bid amounts are quoted in the counter asset
+const buildOrderbook = () => ({
+  assetPair: 'native:USDC',
+  bids: Array.from({ length: 20 }, (_, i) => {
+    const price = 0.12 - i * 0.0001;
+    return { price: price.toFixed(7), amount: (5 * price).toFixed(7) };
+  }),
+  asks: Array.from({ length: 20 }, (_, i) => ({
+    price: (0.12 + i * 0.0001).toFixed(7),
+    amount: '5.0000000',
+  })),
+  spread: 0.0017,
+  midPrice: '0.1200000',
+  lastUpdate: new Date(),
+});
 
 describe('SlippageCalculatorService', () => {
   let service: SlippageCalculatorService;
+  const history = new Map<string, SlippageHistory>();
+
+  const mockHistoryRepository = {
+    findOne: jest.fn(async ({ where }: { where: { symbol: string } }) =>
+      history.get(where.symbol) ?? null,
+    ),
+    save: jest.fn(async (entity: SlippageHistory) => {
+      const saved = { ...entity, lastUpdated: new Date() };
+      history.set(entity.symbol, saved);
+      return saved;
+    }),
+    delete: jest.fn(async ({ symbol }: { symbol: string }) => {
+      history.delete(symbol);
+    }),
+    clear: jest.fn(async () => {
+      history.clear();
+    }),
+  };
+
+  const mockSdexService = {
+    getOrderbook: jest.fn(async () => buildOrderbook()),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SlippageCalculatorService],
+      providers: [
+        SlippageCalculatorService,
+        {
+          provide: getRepositoryToken(SlippageHistory),
+          useValue: mockHistoryRepository,
+        },
+        { provide: SdexService, useValue: mockSdexService },
+      ],
     }).compile();
 
     service = module.get<SlippageCalculatorService>(SlippageCalculatorService);
   });
 
-  afterEach(() => {
-    service.clearHistoricalData();
+  afterEach(async () => {
+    await service.clearHistoricalData();
+    jest.clearAllMocks();
   });
 
   it('should be defined', () => {
@@ -24,7 +78,7 @@ describe('SlippageCalculatorService', () => {
   describe('estimateSlippage', () => {
     it('should estimate slippage for a buy order', async () => {
       const result = await service.estimateSlippage({
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy',
         quantity: 1.0,
       });
@@ -39,7 +93,7 @@ describe('SlippageCalculatorService', () => {
 
     it('should estimate slippage for a sell order', async () => {
       const result = await service.estimateSlippage({
-        symbol: 'ETH/USD',
+        symbol: AQUA_USDC,
         side: 'sell',
         quantity: 5.0,
       });
@@ -50,10 +104,10 @@ describe('SlippageCalculatorService', () => {
 
     it('should provide price range estimate', async () => {
       const result = await service.estimateSlippage({
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy',
-        quantity: 0.5,
-        expectedPrice: 45000,
+        quantity: 12, // Walks past the top two ask levels
+        expectedPrice: 0.12,
       });
 
       expect(result.estimatedPriceRange).toBeDefined();
@@ -65,7 +119,7 @@ describe('SlippageCalculatorService', () => {
 
     it('should recommend delay for very large orders', async () => {
       const result = await service.estimateSlippage({
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy',
         quantity: 100, // Very large order
       });
@@ -74,11 +128,58 @@ describe('SlippageCalculatorService', () => {
       expect(['caution', 'delay']).toContain(result.recommendation);
     });
 
+    it('should price buys from the SDEX asks', async () => {
+      const result = await service.estimateSlippage({
+        symbol: XLM_USDC,
+        side: 'buy',
+        quantity: 1.0,
+      });
+
+      expect(mockSdexService.getOrderbook).toHaveBeenCalled();
+      expect(result.currentMarketPrice).toBeCloseTo(0.12, 7);
+      expect(result.estimatedSlippagePercent).toBeCloseTo(0, 7);
+    });
+
+    it('should reject symbols that are not Stellar asset pairs', async () => {
+      await expect(
+        service.estimateSlippage({
+          symbol: 'BTC-USD',
+          side: 'buy',
+          quantity: 1.0,
+        }),
+      ).rejects.toThrow('Invalid symbol');
+    });
+
+    it('should accept native in either spelling and reject unissued assets', async () => {
+      await expect(
+        service.estimateSlippage({
+          symbol: `native/USDC:${USDC_ISSUER}`,
+          side: 'sell',
+          quantity: 1.0,
+        }),
+      ).resolves.toBeDefined();
+
+      await expect(
+        service.estimateSlippage({
+          symbol: 'XLM/USDC',
+          side: 'buy',
+          quantity: 1.0,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.estimateSlippage({
+          symbol: 'XLM/USDC:not-a-key',
+          side: 'buy',
+          quantity: 1.0,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
     it('should complete estimation quickly', async () => {
       const start = Date.now();
       
       await service.estimateSlippage({
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy',
         quantity: 1.0,
       });
@@ -140,41 +241,41 @@ describe('SlippageCalculatorService', () => {
   });
 
   describe('updateHistoricalSlippage', () => {
-    it('should initialize historical data for new symbol', () => {
-      service.updateHistoricalSlippage('BTC/USD', 0.25);
+    it('should initialize historical data for new symbol', async () => {
+      await service.updateHistoricalSlippage('BTC/USD', 0.25);
 
-      const stats = service['getHistoricalSlippage']('BTC/USD');
+      const stats = await service['getHistoricalSlippage']('BTC/USD');
       expect(stats).toBeDefined();
       expect(stats!.averageSlippage).toBe(0.25);
       expect(stats!.maxSlippage).toBe(0.25);
       expect(stats!.sampleCount).toBe(1);
     });
 
-    it('should update running average correctly', () => {
-      service.updateHistoricalSlippage('BTC/USD', 0.2);
-      service.updateHistoricalSlippage('BTC/USD', 0.4);
-      service.updateHistoricalSlippage('BTC/USD', 0.3);
+    it('should update running average correctly', async () => {
+      await service.updateHistoricalSlippage('BTC/USD', 0.2);
+      await service.updateHistoricalSlippage('BTC/USD', 0.4);
+      await service.updateHistoricalSlippage('BTC/USD', 0.3);
 
-      const stats = service['getHistoricalSlippage']('BTC/USD');
+      const stats = await service['getHistoricalSlippage']('BTC/USD');
       expect(stats!.averageSlippage).toBeCloseTo(0.3, 2);
       expect(stats!.sampleCount).toBe(3);
     });
 
-    it('should track maximum slippage', () => {
-      service.updateHistoricalSlippage('ETH/USD', 0.1);
-      service.updateHistoricalSlippage('ETH/USD', 0.5);
-      service.updateHistoricalSlippage('ETH/USD', 0.2);
+    it('should track maximum slippage', async () => {
+      await service.updateHistoricalSlippage('ETH/USD', 0.1);
+      await service.updateHistoricalSlippage('ETH/USD', 0.5);
+      await service.updateHistoricalSlippage('ETH/USD', 0.2);
 
-      const stats = service['getHistoricalSlippage']('ETH/USD');
+      const stats = await service['getHistoricalSlippage']('ETH/USD');
       expect(stats!.maxSlippage).toBe(0.5);
     });
 
-    it('should maintain separate data for different symbols', () => {
-      service.updateHistoricalSlippage('BTC/USD', 0.3);
-      service.updateHistoricalSlippage('ETH/USD', 0.6);
+    it('should maintain separate data for different symbols', async () => {
+      await service.updateHistoricalSlippage('BTC/USD', 0.3);
+      await service.updateHistoricalSlippage('ETH/USD', 0.6);
 
-      const btcStats = service['getHistoricalSlippage']('BTC/USD');
-      const ethStats = service['getHistoricalSlippage']('ETH/USD');
+      const btcStats = await service['getHistoricalSlippage']('BTC/USD');
+      const ethStats = await service['getHistoricalSlippage']('ETH/USD');
 
       expect(btcStats!.averageSlippage).toBe(0.3);
       expect(ethStats!.averageSlippage).toBe(0.6);
@@ -263,24 +364,24 @@ describe('SlippageCalculatorService', () => {
   });
 
   describe('clearHistoricalData', () => {
-    it('should clear data for specific symbol', () => {
-      service.updateHistoricalSlippage('BTC/USD', 0.3);
-      service.updateHistoricalSlippage('ETH/USD', 0.4);
+    it('should clear data for specific symbol', async () => {
+      await service.updateHistoricalSlippage('BTC/USD', 0.3);
+      await service.updateHistoricalSlippage('ETH/USD', 0.4);
 
-      service.clearHistoricalData('BTC/USD');
+      await service.clearHistoricalData('BTC/USD');
 
-      expect(service['getHistoricalSlippage']('BTC/USD')).toBeUndefined();
-      expect(service['getHistoricalSlippage']('ETH/USD')).toBeDefined();
+      expect(await service['getHistoricalSlippage']('BTC/USD')).toBeUndefined();
+      expect(await service['getHistoricalSlippage']('ETH/USD')).toBeDefined();
     });
 
-    it('should clear all data when no symbol specified', () => {
-      service.updateHistoricalSlippage('BTC/USD', 0.3);
-      service.updateHistoricalSlippage('ETH/USD', 0.4);
+    it('should clear all data when no symbol specified', async () => {
+      await service.updateHistoricalSlippage('BTC/USD', 0.3);
+      await service.updateHistoricalSlippage('ETH/USD', 0.4);
 
-      service.clearHistoricalData();
+      await service.clearHistoricalData();
 
-      expect(service['getHistoricalSlippage']('BTC/USD')).toBeUndefined();
-      expect(service['getHistoricalSlippage']('ETH/USD')).toBeUndefined();
+      expect(await service['getHistoricalSlippage']('BTC/USD')).toBeUndefined();
+      expect(await service['getHistoricalSlippage']('ETH/USD')).toBeUndefined();
     });
   });
 });
\ No newline at end of file
@@ -1,4 +1,10 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Asset } from '@stellar/stellar-sdk';
+import Big from 'big.js';
+import { SdexService } from '../sdex/sdex.service';
+import { SlippageHistory } from './entities/slippage-history.entity';
 import {
   SlippageEstimationDto,
   SlippageEstimateResponseDto,
@@ -22,7 +28,6 @@ interface HistoricalSlippage {
 @Injectable()
 export class SlippageCalculatorService {
   private readonly logger = new Logger(SlippageCalculatorService.name);
-  private readonly historicalSlippage = new Map<string, HistoricalSlippage>();
 
   // Default slippage tolerances by level
   private readonly TOLERANCE_PRESETS = {
@@ -31,6 +36,12 @@ export class SlippageCalculatorService {
     [SlippageToleranceLevel.RELAXED]: 1.0, // 1.0%
   };
 
+  constructor(
+    @InjectRepository(SlippageHistory)
+    private readonly historyRepository: Repository<SlippageHistory>,
+    private readonly sdexService: SdexService,
+  ) {}
+
   /**
    * Estimate slippage before trade execution
    */
@@ -70,7 +81,7 @@ export class SlippageCalculatorService {
       );
 
       // Get historical data for this symbol
-      const historical = this.getHistoricalSlippage(estimationDto.symbol);
+      const historical = await this.getHistoricalSlippage(estimationDto.symbol);
 
       // Determine price range
       const priceRange = this.calculatePriceRange(
@@ -283,31 +294,35 @@ export class SlippageCalculatorService {
   /**
    * Update historical slippage data
    */
-  updateHistoricalSlippage(symbol: string, actualSlippage: number): void {
-    const existing = this.historicalSlippage.get(symbol);
+  async updateHistoricalSlippage(
+    symbol: string,
+    actualSlippage: number,
+  ): Promise<void> {
+    const existing = await this.historyRepository.findOne({
+      where: { symbol },
+    });
 
     if (existing) {
       // Update running average
       const newCount = existing.sampleCount + 1;
       const newAverage =
-        (existing.averageSlippage * existing.sampleCount + actualSlippage) /
+        (Number(existing.averageSlippage) * existing.sampleCount +
+          actualSlippage) /
         newCount;
-      const newMax = Math.max(existing.maxSlippage, actualSlippage);
+      const newMax = Math.max(Number(existing.maxSlippage), actualSlippage);
 
-      this.historicalSlippage.set(symbol, {
+      await this.historyRepository.save({
         symbol,
-        averageSlippage: newAverage,
-        maxSlippage: newMax,
+        averageSlippage: newAverage.toFixed(8),
+        maxSlippage: newMax.toFixed(8),
         sampleCount: newCount,
-        lastUpdated: new Date(),
       });
     } else {
-      this.historicalSlippage.set(symbol, {
+      await this.historyRepository.save({
         symbol,
-        averageSlippage: actualSlippage,
-        maxSlippage: actualSlippage,
+        averageSlippage: actualSlippage.toFixed(8),
+        maxSlippage: actualSlippage.toFixed(8),
         sampleCount: 1,
-        lastUpdated: new Date(),
       });
     }
 
@@ -319,10 +334,24 @@ export class SlippageCalculatorService {
   /**
    * Get historical slippage data for a symbol
    */
-  private getHistoricalSlippage(
+  private async getHistoricalSlippage(
     symbol: string,
-  ): HistoricalSlippage | undefined {
-    return this.historicalSlippage.get(symbol);
+  ): Promise<HistoricalSlippage | undefined> {
+    const history = await this.historyRepository.findOne({
+      where: { symbol },
+    });
+
+    if (!history) {
+      return undefined;
+    }
+
+    return {
+      symbol: history.symbol,
+      averageSlippage: Number(history.averageSlippage),
+      maxSlippage: Number(history.maxSlippage),
+      sampleCount: history.sampleCount,
+      lastUpdated: history.lastUpdated,
+    };
   }
 
   /**
@@ -356,51 +385,103 @@ export class SlippageCalculatorService {
   }
 
   /**
-   * Mock method - replace with actual market data provider
+   * Whether the SDEX has any resting offers for the pair. Pairs without a
+   * book trade through other venues, so there is nothing to estimate from.
+   */
+  async hasOrderBook(symbol: string): Promise<boolean> {
+    const orderbook = await this.getOrderbook(symbol);
+    return orderbook.bids.length > 0 || orderbook.asks.length > 0;
+  }
+
+  /**
+   * Best price a market order on this side would start filling at: the top
+   * ask for a buy, the top bid for a sell, falling back to the mid price.
    */
   private async getCurrentMarketPrice(
     symbol: string,
-    _side: 'buy' | 'sell',
+    side: 'buy' | 'sell',
   ): Promise<number> {
-    // TODO: Replace with actual market data provider integration
-    // This is a placeholder that should connect to your exchange API
-    this.logger.debug(`Fetching current market price for ${symbol}`);
+    const orderbook = await this.getOrderbook(symbol);
+    const top = side === 'buy' ? orderbook.asks[0] : orderbook.bids[0];
+    const price = Number(top?.price ?? orderbook.midPrice);
+
+    if (!(price > 0)) {
+      throw new BadRequestException(`No SDEX liquidity for ${symbol}`);
+    }
 
-    // Simulated price - replace with real implementation
-    return 45000.0;
+    return price;
   }
 
   /**
-   * Mock method - replace with actual order book provider
+   * SDEX order book for the pair, with quantities in the base asset.
+   * Horizon quotes bid amounts in the counter asset, so they are converted.
    */
   private async getMarketDepth(symbol: string): Promise<MarketDepth> {
-    // TODO: Replace with actual order book data from exchange
-    // This is a placeholder that should connect to your exchange API
-    this.logger.debug(`Fetching market depth for ${symbol}`);
+    const orderbook = await this.getOrderbook(symbol);
 
-    // Simulated order book - replace with real implementation
     return {
-      bids: Array.from({ length: 20 }, (_, i) => ({
-        price: 45000 - i * 10,
-        quantity: 0.5 + Math.random() * 2,
+      bids: orderbook.bids.map((bid) => ({
+        price: Number(bid.price),
+        quantity: new Big(bid.amount).div(bid.price).toNumber(),
       })),
-      asks: Array.from({ length: 20 }, (_, i) => ({
-        price: 45000 + i * 10,
-        quantity: 0.5 + Math.random() * 2,
+      asks: orderbook.asks.map((ask) => ({
+        price: Number(ask.price),
+        quantity: Number(ask.amount),
       })),
-      timestamp: new Date(),
+      timestamp: new Date(orderbook.lastUpdate),
     };
   }
 
+  private getOrderbook(symbol: string) {
+    const [base, counter] = this.parseSymbol(symbol);
+    return this.sdexService.getOrderbook(base, counter);
+  }
+
+  /**
+   * Symbols are 'BASE/COUNTER' where each side is 'native', 'XLM' or
+   * 'CODE:ISSUER', matching the signal asset format.
+   */
+  private parseSymbol(symbol: string): [Asset, Asset] {
+    const parts = symbol.split('/');
+    if (parts.length !== 2) {
+      throw new BadRequestException(
+        `Invalid symbol: ${symbol}. Expected 'BASE/COUNTER'`,
+      );
+    }
+
+    return [this.parseAsset(parts[0]), this.parseAsset(parts[1])];
+  }
+
+  private parseAsset(assetString: string): Asset {
+    if (assetString === 'native' || assetString.toUpperCase() === 'XLM') {
+      return Asset.native();
+    }
+
+    const [code, issuer, ...rest] = assetString.split(':');
+    if (!issuer || rest.length > 0) {
+      throw new BadRequestException(
+        `Invalid asset: ${assetString}. Expected 'CODE:ISSUER', 'XLM' or 'native'`,
+      );
+    }
+
+    try {
+      return new Asset(code, issuer);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid asset ${assetString}: ${(error as Error).message}`,
+      );
+    }
+  }
+
   /**
    * Clear historical data for testing or reset
    */
-  clearHistoricalData(symbol?: string): void {
+  async clearHistoricalData(symbol?: string): Promise<void> {
     if (symbol) {
-      this.historicalSlippage.delete(symbol);
+      await this.historyRepository.delete({ symbol });
       this.logger.log(`Cleared historical slippage data for ${symbol}`);
     } else {
-      this.historicalSlippage.clear();
+      await this.historyRepository.clear();
       this.logger.log('Cleared all historical slippage data');
     }
   }
@@ -1,18 +1,158 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
 import { SlippageProtectionService } from './slippage-protection.service';
 import { SlippageCalculatorService } from './slippage-calculator.service';
 import { SlippageToleranceLevel } from './dto/slippage-config.dto';
+import { SlippageHistory } from './entities/slippage-history.entity';
+import { SlippageReport } from './entities/slippage-report.entity';
+import { SdexService } from '../sdex/sdex.service';
+import { SettingsService } from '../settings/settings.service';
+import {
+  SlippageOverride,
+  TradingSettings,
+} from '../settings/entities/user-settings.entity';
+
+const USDC_ISSUER = 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN';
+const XLM_USDC = `XLM/USDC:${USDC_ISSUER}`;
+const AQUA_USDC = `AQUA:GBNZILSTVQZ4R7IKQDGHYGY2QXL5QOFJYQMXPKWRRM5PAV7Y4M67AQUA/USDC:${USDC_ISSUER}`;
+
+const buildOrderbook = () => ({
+  assetPair: 'native:USDC',
+  bids: Array.from({ length: 20 }, (_, i) => {
+    const price = 0.12 - i * 0.0001;
+    return { price: price.toFixed(7), amount: (5 * price).toFixed(7) };
+  }),
+  asks: Array.from({ length: 20 }, (_, i) => ({
+    price: (0.12 + i * 0.0001).toFixed(7),
+    amount: '5.0000000',
+  })),
+  spread: 0.0017,
+  midPrice: '0.1200000',
+  lastUpdate: new Date(),
+});
+
+const matches = (value: unknown, condition: unknown): boolean => {
+  if (condition instanceof FindOperator) {
+    const bound = condition.value as Date | Date[];
+    switch (condition.type) {
+      case 'between':
+        return (
+          (value as Date) >= (bound as Date[])[0] &&
+          (value as Date) <= (bound as Date[])[1]
+        );
+      case 'moreThanOrEqual':
+        return (value as Date) >= bound;
+      case 'lessThanOrEqual':
+        return (value as Date) <= bound;
+    }
+  }
+  return value === condition;
+};
 
 describe('SlippageProtectionService', () => {
   let service: SlippageProtectionService;
   let calculatorService: SlippageCalculatorService;
+  const history = new Map<string, SlippageHistory>();
+  let reports: SlippageReport[] = [];
+
+  const mockHistoryRepository = {
+    findOne: jest.fn(async ({ where }: { where: { symbol: string } }) =>
+      history.get(where.symbol) ?? null,
+    ),
+    save: jest.fn(async (entity: SlippageHistory) => {
+      history.set(entity.symbol, { ...entity, lastUpdated: new Date() });
+      return entity;
+    }),
+    delete: jest.fn(async ({ symbol }: { symbol: string }) => {
+      history.delete(symbol);
+    }),
+    clear: jest.fn(async () => {
+      history.clear();
+    }),
+  };
+
+  const mockReportRepository = {
+    create: jest.fn((entity: Partial<SlippageReport>) => entity),
+    save: jest.fn(async (entity: SlippageReport) => {
+      const saved = { ...entity, id: `report-${reports.length + 1}` };
+      reports.push(saved);
+      return saved;
+    }),
+    find: jest.fn(
+      async ({
+        where,
+        take,
+      }: {
+        where: Record<string, unknown>;
+        take?: number;
+      }) =>
+        reports
+          .filter((report) =>
+            Object.entries(where).every(([key, condition]) =>
+              matches(report[key as keyof SlippageReport], condition),
+            ),
+          )
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+          .slice(0, take),
+    ),
+    clear: jest.fn(async () => {
+      reports = [];
+    }),
+  };
+
+  const mockSdexService = {
+    getOrderbook: jest.fn(async () => buildOrderbook()),
+  };
+
+  // Trading settings as the settings API would persist them
+  const tradingSettings = new Map<string, TradingSettings>();
+  const getTrading = (userId: string): TradingSettings =>
+    tradingSettings.get(userId) ?? {
+      defaultOrderType: 'market',
+      defaultSlippage: 1,
+      confirmTrades: true,
+    };
+
+  const mockSettingsService = {
+    getSettings: jest.fn(async (userId: string) => ({
+      userId,
+      settings: { trading: getTrading(userId) },
+      updatedAt: new Date(),
+    })),
+    updateSettings: jest.fn(
+      async (userId: string, dto: { trading?: Partial<TradingSettings> }) => {
+        tradingSettings.set(userId, { ...getTrading(userId), ...dto.trading });
+      },
+    ),
+    setSlippageOverride: jest.fn(
+      async (userId: string, dto: SlippageOverride & { pair: string }) => {
+        const { pair, ...override } = dto;
+        const trading = getTrading(userId);
+        tradingSettings.set(userId, {
+          ...trading,
+          slippageOverrides: { ...trading.slippageOverrides, [pair]: override },
+        });
+      },
+    ),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         SlippageProtectionService,
         SlippageCalculatorService,
+        {
+          provide: getRepositoryToken(SlippageHistory),
+          useValue: mockHistoryRepository,
+        },
+        {
+          provide: getRepositoryToken(SlippageReport),
+          useValue: mockReportRepository,
+        },
+        { provide: SdexService, useValue: mockSdexService },
+        { provide: SettingsService, useValue: mockSettingsService },
       ],
     }).compile();
 
@@ -22,10 +162,11 @@ describe('SlippageProtectionService', () => {
     );
   });
 
-  afterEach(() => {
-    service.clearReports();
-    service.clearUserPreferences();
-    calculatorService.clearHistoricalData();
+  afterEach(async () => {
+    await service.clearReports();
+    tradingSettings.clear();
+    await calculatorService.clearHistoricalData();
+    jest.clearAllMocks();
   });
 
   it('should be defined', () => {
@@ -35,10 +176,10 @@ describe('SlippageProtectionService', () => {
   describe('validateTradeExecution', () => {
     it('should allow trade within slippage limits', async () => {
       const context = {
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy' as const,
         quantity: 1.0,
-        expectedPrice: 45000,
+        expectedPrice: 0.12,
         timestamp: new Date(),
       };
 
@@ -47,14 +188,42 @@ describe('SlippageProtectionService', () => {
       expect(result.allowed).toBe(true);
       expect(result.recommendation).toBeDefined();
       expect(result.estimatedSlippage).toBeGreaterThanOrEqual(0);
+      expect(mockSdexService.getOrderbook).toHaveBeenCalled();
+    });
+
+    it('should skip the estimate for pairs without an SDEX book', async () => {
+      mockSdexService.getOrderbook.mockResolvedValueOnce({
+        ...buildOrderbook(),
+        bids: [],
+        asks: [],
+        midPrice: '0',
+      });
+
+      const result = await service.validateTradeExecution(
+        {
+          symbol: XLM_USDC,
+          side: 'buy' as const,
+          quantity: 1.0,
+          expectedPrice: 0.12,
+          timestamp: new Date(),
+        },
+        { maxSlippagePercent: 0.5 },
+      );
+
+      expect(result).toMatchObject({
+        allowed: true,
+        estimatedSlippage: 0,
+        maxAllowedSlippage: 0.5,
+        recommendation: 'caution',
+      });
     });
 
     it('should reject trade with custom strict limits', async () => {
       const context = {
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy' as const,
         quantity: 100, // Large order likely to cause high slippage
-        expectedPrice: 45000,
+        expectedPrice: 0.12,
         timestamp: new Date(),
       };
 
@@ -79,13 +248,13 @@ describe('SlippageProtectionService', () => {
         enableDynamicSlippage: false,
       };
 
-      service.setUserPreferences(userId, userConfig);
+      await service.setUserPreferences(userId, userConfig);
 
       const context = {
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy' as const,
         quantity: 1.0,
-        expectedPrice: 45000,
+        expectedPrice: 0.12,
         timestamp: new Date(),
         userId,
       };
@@ -98,10 +267,10 @@ describe('SlippageProtectionService', () => {
 
     it('should complete validation quickly (within execution time limit)', async () => {
       const context = {
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy' as const,
         quantity: 1.0,
-        expectedPrice: 45000,
+        expectedPrice: 0.12,
         timestamp: new Date(),
       };
 
@@ -127,23 +296,23 @@ describe('SlippageProtectionService', () => {
         toleranceLevel: SlippageToleranceLevel.STRICT,
       };
 
-      service.setUserPreferences(userId, defaultConfig);
-      service.setSymbolOverride(userId, 'BTC/USD', btcOverride);
+      await service.setUserPreferences(userId, defaultConfig);
+      await service.setSymbolOverride(userId, XLM_USDC, btcOverride);
 
       const btcContext = {
-        symbol: 'BTC/USD',
+        symbol: XLM_USDC,
         side: 'buy' as const,
         quantity: 1.0,
-        expectedPrice: 45000,
+        expectedPrice: 0.12,
         timestamp: new Date(),
         userId,
       };
 
       const ethContext = {
-        symbol: 'ETH/USD',
+        symbol: AQUA_USDC,
         side: 'buy' as const,
         quantity: 10.0,
-        expectedPrice: 3000,
+        expectedPrice: 0.12,
         timestamp: new Date(),
         userId,
       };
@@ -200,7 +369,7 @@ describe('SlippageProtectionService', () => {
         toleranceLevel: SlippageToleranceLevel.STRICT,
       };
 
-      service.setUserPreferences(userId, strictConfig);
+      await service.setUserPreferences(userId, strictConfig);
 
       const context = {
         symbol: 'BTC/USD',
@@ -229,7 +398,7 @@ describe('SlippageProtectionService', () => {
       await service.recordSlippage(context, 45050);
       await service.recordSlippage(context, 45100);
 
-      const stats = service.getSlippageStatistics('BTC/USD', 1);
+      const stats = await service.getSlippageStatistics('BTC/USD', 1);
 
       expect(stats.totalTrades).toBe(2);
       expect(stats.averageSlippage).toBeGreaterThan(0);
@@ -237,7 +406,7 @@ describe('SlippageProtectionService', () => {
   });
 
   describe('setUserPreferences', () => {
-    it('should set user preferences correctly', () => {
+    it('should set user preferences correctly', async () => {
       const userId = 'user123';
       const config = {
         maxSlippagePercent: 0.75,
@@ -245,9 +414,9 @@ describe('SlippageProtectionService', () => {
         enableDynamicSlippage: true,
       };
 
-      service.setUserPreferences(userId, config);
+      await service.setUserPreferences(userId, config);
 
-      const prefs = service.getUserPreferences(userId);
+      const prefs = await service.getUserPreferences(userId);
 
       expect(prefs).toBeDefined();
       expect(prefs!.userId).toBe(userId);
@@ -257,33 +426,33 @@ describe('SlippageProtectionService', () => {
       );
     });
 
-    it('should validate configuration', () => {
+    it('should validate configuration', async () => {
       const userId = 'user123';
       const invalidConfig = {
         maxSlippagePercent: 150, // Invalid: > 100
         toleranceLevel: SlippageToleranceLevel.MODERATE,
       };
 
-      expect(() => {
-        service.setUserPreferences(userId, invalidConfig);
-      }).toThrow(BadRequestException);
+      await expect(
+        service.setUserPreferences(userId, invalidConfig),
+      ).rejects.toThrow(BadRequestException);
     });
 
-    it('should reject negative slippage', () => {
+    it('should reject negative slippage', async () => {
       const userId = 'user123';
       const invalidConfig = {
         maxSlippagePercent: -0.5,
         toleranceLevel: SlippageToleranceLevel.MODERATE,
       };
 
-      expect(() => {
-        service.setUserPreferences(userId, invalidConfig);
-      }).toThrow(BadRequestException);
+      await expect(
+        service.setUserPreferences(userId, invalidConfig),
+      ).rejects.toThrow(BadRequestException);
     });
   });
 
   describe('setSymbolOverride', () => {
-    it('should set symbol-specific override', () => {
+    it('should set symbol-specific override', async () => {
       const userId = 'user123';
       const defaultConfig = {
         maxSlippagePercent: 0.5,
@@ -295,25 +464,30 @@ describe('SlippageProtectionService', () => {
         toleranceLevel: SlippageToleranceLevel.STRICT,
       };
 
-      service.setUserPreferences(userId, defaultConfig);
-      service.setSymbolOverride(userId, 'BTC/USD', btcConfig);
+      await service.setUserPreferences(userId, defaultConfig);
+      await service.setSymbolOverride(userId, 'BTC/USD', btcConfig);
 
-      const prefs = service.getUserPreferences(userId);
+      const prefs = await service.getUserPreferences(userId);
 
       expect(prefs!.symbolOverrides).toBeDefined();
-      expect(prefs!.symbolOverrides!.get('BTC/USD')).toEqual(btcConfig);
+      // Options the override leaves out are filled from the system defaults
+      expect(prefs!.symbolOverrides!.get('BTC/USD')).toEqual({
+        ...btcConfig,
+        enableDynamicSlippage: true,
+        maxExecutionTimeMs: 5000,
+      });
     });
 
-    it('should validate symbol override configuration', () => {
+    it('should validate symbol override configuration', async () => {
       const userId = 'user123';
       const invalidConfig = {
         maxSlippagePercent: 200,
         toleranceLevel: SlippageToleranceLevel.STRICT,
       };
 
-      expect(() => {
-        service.setSymbolOverride(userId, 'BTC/USD', invalidConfig);
-      }).toThrow(BadRequestException);
+      await expect(
+        service.setSymbolOverride(userId, 'BTC/USD', invalidConfig),
+      ).rejects.toThrow(BadRequestException);
     });
   });
 
@@ -349,26 +523,26 @@ describe('SlippageProtectionService', () => {
       }
     });
 
-    it('should return all reports without filters', () => {
-      const reports = service.getSlippageReports();
+    it('should return all reports without filters', async () => {
+      const reports = await service.getSlippageReports();
       expect(reports.length).toBe(3);
     });
 
-    it('should filter by symbol', () => {
-      const reports = service.getSlippageReports({ symbol: 'BTC/USD' });
+    it('should filter by symbol', async () => {
+      const reports = await service.getSlippageReports({ symbol: 'BTC/USD' });
       expect(reports.length).toBe(2);
       expect(reports.every(r => r.symbol === 'BTC/USD')).toBe(true);
     });
 
-    it('should filter by date range', () => {
-      const reports = service.getSlippageReports({
+    it('should filter by date range', async () => {
+      const reports = await service.getSlippageReports({
         startDate: new Date('2026-01-21'),
       });
       expect(reports.length).toBe(2);
     });
 
-    it('should limit results', () => {
-      const reports = service.getSlippageReports({ limit: 2 });
+    it('should limit results', async () => {
+      const reports = await service.getSlippageReports({ limit: 2 });
       expect(reports.length).toBe(2);
     });
 
@@ -386,13 +560,13 @@ describe('SlippageProtectionService', () => {
         timestamp: new Date(),
       };
 
-      service.setUserPreferences('user123', strictConfig);
+      await service.setUserPreferences('user123', strictConfig);
       await service.recordSlippage(
         { ...context, userId: 'user123' },
         45500,
       );
 
-      const exceeded = service.getSlippageReports({ onlyExceeded: true });
+      const exceeded = await service.getSlippageReports({ onlyExceeded: true });
       expect(exceeded.length).toBeGreaterThan(0);
       expect(exceeded.every(r => !r.withinLimits)).toBe(true);
     });
@@ -413,8 +587,8 @@ describe('SlippageProtectionService', () => {
       await service.recordSlippage(context, 45025); // 0.055% slippage
     });
 
-    it('should calculate statistics correctly', () => {
-      const stats = service.getSlippageStatistics('BTC/USD', 7);
+    it('should calculate statistics correctly', async () => {
+      const stats = await service.getSlippageStatistics('BTC/USD', 7);
 
       expect(stats.totalTrades).toBe(3);
       expect(stats.averageSlippage).toBeGreaterThan(0);
@@ -422,16 +596,16 @@ describe('SlippageProtectionService', () => {
       expect(stats.totalSlippageCost).toBeGreaterThan(0);
     });
 
-    it('should return zeros for symbol with no data', () => {
-      const stats = service.getSlippageStatistics('XRP/USD', 7);
+    it('should return zeros for symbol with no data', async () => {
+      const stats = await service.getSlippageStatistics('XRP/USD', 7);
 
       expect(stats.totalTrades).toBe(0);
       expect(stats.averageSlippage).toBe(0);
       expect(stats.maxSlippage).toBe(0);
     });
 
-    it('should respect date range', () => {
-      const stats = service.getSlippageStatistics('BTC/USD', 0); // 0 days back
+    it('should respect date range', async () => {
+      const stats = await service.getSlippageStatistics('BTC/USD', 0); // 0 days back
       // Should return no trades as all are from "today" or future
       expect(stats.totalTrades).toBeGreaterThanOrEqual(0);
     });
@@ -450,52 +624,49 @@ describe('SlippageProtectionService', () => {
       await service.recordSlippage(context, 45050);
     });
 
-    it('should export data for specific symbol', () => {
-      const data = service.exportSlippageData('BTC/USD');
+    it('should export data for specific symbol', async () => {
+      const data = await service.exportSlippageData('BTC/USD');
 
       expect(data.reports).toBeDefined();
       expect(data.statistics).toBeDefined();
       expect(data.reports.length).toBeGreaterThan(0);
     });
 
-    it('should export all data when no symbol specified', () => {
-      const data = service.exportSlippageData();
+    it('should export all data when no symbol specified', async () => {
+      const data = await service.exportSlippageData();
 
       expect(data.reports).toBeDefined();
       expect(data.statistics).toBeNull();
     });
   });
 
-  describe('clearUserPreferences', () => {
-    it('should clear specific user preferences', () => {
-      const userId = 'user123';
-      const config = {
-        maxSlippagePercent: 0.5,
-        toleranceLevel: SlippageToleranceLevel.MODERATE,
-      };
-
-      service.setUserPreferences(userId, config);
-      expect(service.getUserPreferences(userId)).toBeDefined();
+  describe('getApplicableConfig', () => {
+    it('should use the saved default slippage for a user without overrides', async () => {
+      const config = await service.getApplicableConfig('user123', XLM_USDC);
 
-      service.clearUserPreferences(userId);
-      expect(service.getUserPreferences(userId)).toBeUndefined();
+      expect(config.maxSlippagePercent).toBe(1);
+      expect(mockSettingsService.getSettings).toHaveBeenCalledWith('user123');
     });
 
-    it('should clear all preferences when no userId specified', () => {
-      service.setUserPreferences('user1', {
-        maxSlippagePercent: 0.5,
-        toleranceLevel: SlippageToleranceLevel.MODERATE,
-      });
-
-      service.setUserPreferences('user2', {
-        maxSlippagePercent: 0.3,
+    it('should apply a pair override quoted the other way round', async () => {
+      await service.setSymbolOverride('user123', XLM_USDC, {
+        maxSlippagePercent: 0.2,
         toleranceLevel: SlippageToleranceLevel.STRICT,
       });
 
-      service.clearUserPreferences();
+      const [base, counter] = XLM_USDC.split('/');
+      const config = await service.getApplicableConfig(
+        'user123',
+        `${counter}/${base}`,
+      );
+
+      expect(config.maxSlippagePercent).toBe(0.2);
+    });
+
+    it('should use the system default without a user', async () => {
+      const config = await service.getApplicableConfig(undefined, XLM_USDC);
 
-      expect(service.getUserPreferences('user1')).toBeUndefined();
-      expect(service.getUserPreferences('user2')).toBeUndefined();
+      expect(config.maxSlippagePercent).toBe(0.5);
     });
   });
 
@@ -510,10 +681,10 @@ describe('SlippageProtectionService', () => {
       };
 
       await service.recordSlippage(context, 45050);
-      expect(service.getSlippageReports().length).toBeGreaterThan(0);
+      expect((await service.getSlippageReports()).length).toBeGreaterThan(0);
 
-      service.clearReports();
-      expect(service.getSlippageReports().length).toBe(0);
+      await service.clearReports();
+      expect((await service.getSlippageReports()).length).toBe(0);
     });
   });
 });
\ No newline at end of file
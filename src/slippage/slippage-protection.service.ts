@@ -1,12 +1,23 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
 import { SlippageCalculatorService } from './slippage-calculator.service';
+import { SlippageReport } from './entities/slippage-report.entity';
+import { SettingsService } from '../settings/settings.service';
+import { SlippageOverride } from '../settings/entities/user-settings.entity';
 import {
   SlippageConfigDto,
   SlippageReportDto,
   SlippageToleranceLevel,
 } from './slippage-config.dto';
 
-interface TradeExecutionContext {
+export interface TradeExecutionContext {
   symbol: string;
   side: 'buy' | 'sell';
   quantity: number;
@@ -34,7 +45,6 @@ interface UserSlippagePreferences {
 @Injectable()
 export class SlippageProtectionService {
   private readonly logger = new Logger(SlippageProtectionService.name);
-  private readonly userPreferences = new Map<string, UserSlippagePreferences>();
   
   // Default configuration
   private readonly DEFAULT_CONFIG: SlippageConfigDto = {
@@ -44,12 +54,11 @@ export class SlippageProtectionService {
     maxExecutionTimeMs: 5000, // PRD requirement: <5s execution
   };
 
-  // Slippage reports storage (in production, use a database)
-  private readonly slippageReports: SlippageReportDto[] = [];
-  private readonly MAX_REPORTS_IN_MEMORY = 1000;
-
   constructor(
     private readonly slippageCalculator: SlippageCalculatorService,
+    @InjectRepository(SlippageReport)
+    private readonly reportRepository: Repository<SlippageReport>,
+    private readonly settingsService: SettingsService,
   ) {}
 
   /**
@@ -63,7 +72,7 @@ export class SlippageProtectionService {
     
     try {
       // Get applicable configuration
-      const config = this.getApplicableConfig(
+      const config = await this.getApplicableConfig(
         context.userId,
         context.symbol,
         userConfig,
@@ -72,6 +81,21 @@ export class SlippageProtectionService {
       // Check if execution time is about to exceed limit
       this.validateExecutionTiming(startTime, config.maxExecutionTimeMs);
 
+      // Without an SDEX book there is no depth to estimate against; the
+      // configured limit is reported and the trade goes ahead
+      if (!(await this.slippageCalculator.hasOrderBook(context.symbol))) {
+        this.logger.warn(
+          `No SDEX order book for ${context.symbol}, skipping slippage estimate`,
+        );
+        return {
+          allowed: true,
+          reason: 'No SDEX order book for this pair; slippage not estimated',
+          estimatedSlippage: 0,
+          maxAllowedSlippage: config.maxSlippagePercent,
+          recommendation: 'caution',
+        };
+      }
+
       // Estimate slippage
       const estimation = await this.slippageCalculator.estimateSlippage({
         symbol: context.symbol,
@@ -141,7 +165,7 @@ export class SlippageProtectionService {
     );
 
     // Get applicable config to check limits
-    const config = this.getApplicableConfig(context.userId, symbol);
+    const config = await this.getApplicableConfig(context.userId, symbol);
     const maxAllowed = config.maxSlippagePercent;
     const withinLimits = slippage.slippagePercent <= maxAllowed;
 
@@ -154,16 +178,17 @@ export class SlippageProtectionService {
       quantity,
       totalSlippageCost: slippage.totalCost,
       withinLimits,
-      timestamp: new Date(),
+      // The trade's own time, so reports filed after the fact stay in range
+      timestamp: context.timestamp,
       symbol,
       side,
     };
 
     // Store report
-    this.storeReport(report);
+    await this.storeReport(report, context);
 
     // Update historical data
-    this.slippageCalculator.updateHistoricalSlippage(
+    await this.slippageCalculator.updateHistoricalSlippage(
       symbol,
       slippage.slippagePercent,
     );
@@ -185,55 +210,79 @@ export class SlippageProtectionService {
   }
 
   /**
-   * Set user slippage preferences
+   * Set user slippage preferences. They are stored with the user's trading
+   * settings, so the settings API and this service edit the same values.
    */
-  setUserPreferences(
+  async setUserPreferences(
     userId: string,
     config: SlippageConfigDto,
     symbolOverrides?: Map<string, SlippageConfigDto>,
-  ): void {
+  ): Promise<void> {
     this.validateConfig(config);
 
     if (symbolOverrides) {
       symbolOverrides.forEach((override) => this.validateConfig(override));
     }
 
-    this.userPreferences.set(userId, {
-      userId,
-      defaultConfig: config,
-      symbolOverrides,
-      lastUpdated: new Date(),
+    await this.settingsService.updateSettings(userId, {
+      trading: {
+        defaultSlippage: config.maxSlippagePercent,
+        slippageOptions: {
+          toleranceLevel: config.toleranceLevel,
+          enableDynamicSlippage: config.enableDynamicSlippage,
+          maxExecutionTimeMs: config.maxExecutionTimeMs,
+        },
+      },
     });
 
+    for (const [symbol, override] of symbolOverrides ?? []) {
+      await this.settingsService.setSlippageOverride(userId, {
+        pair: symbol,
+        ...override,
+      });
+    }
+
     this.logger.log(`Updated slippage preferences for user ${userId}`);
   }
 
   /**
    * Get user slippage preferences
    */
-  getUserPreferences(userId: string): UserSlippagePreferences | undefined {
-    return this.userPreferences.get(userId);
+  async getUserPreferences(userId: string): Promise<UserSlippagePreferences> {
+    const { settings, updatedAt } =
+      await this.settingsService.getSettings(userId);
+    const { defaultSlippage, slippageOptions, slippageOverrides } =
+      settings.trading;
+
+    return {
+      userId,
+      defaultConfig: this.toConfig({
+        ...slippageOptions,
+        maxSlippagePercent: defaultSlippage,
+      }),
+      symbolOverrides: new Map(
+        Object.entries(slippageOverrides ?? {}).map(([symbol, override]) => [
+          symbol,
+          this.toConfig(override),
+        ]),
+      ),
+      lastUpdated: updatedAt,
+    };
   }
 
   /**
    * Set symbol-specific override for a user
    */
-  setSymbolOverride(
+  async setSymbolOverride(
     userId: string,
     symbol: string,
     config: SlippageConfigDto,
-  ): void {
+  ): Promise<void> {
     this.validateConfig(config);
 
-    const existing = this.userPreferences.get(userId);
-    const overrides = existing?.symbolOverrides || new Map();
-    overrides.set(symbol, config);
-
-    this.userPreferences.set(userId, {
-      userId,
-      defaultConfig: existing?.defaultConfig || this.DEFAULT_CONFIG,
-      symbolOverrides: overrides,
-      lastUpdated: new Date(),
+    await this.settingsService.setSlippageOverride(userId, {
+      pair: symbol,
+      ...config,
     });
 
     this.logger.log(
@@ -244,60 +293,58 @@ export class SlippageProtectionService {
   /**
    * Get slippage reports with filtering
    */
-  getSlippageReports(filters?: {
+  async getSlippageReports(filters?: {
     symbol?: string;
     startDate?: Date;
     endDate?: Date;
     onlyExceeded?: boolean;
     limit?: number;
-  }): SlippageReportDto[] {
-    let reports = [...this.slippageReports];
+  }): Promise<SlippageReportDto[]> {
+    const where: FindOptionsWhere<SlippageReport> = {};
 
     if (filters?.symbol) {
-      reports = reports.filter(r => r.symbol === filters.symbol);
+      where.symbol = filters.symbol;
     }
 
-    if (filters?.startDate) {
-      const startDate = filters.startDate;
-      reports = reports.filter(r => r.timestamp >= startDate);
-    }
-    
-    if (filters?.endDate) {
-      const endDate = filters.endDate;
-      reports = reports.filter(r => r.timestamp <= endDate);
+    if (filters?.startDate && filters?.endDate) {
+      where.timestamp = Between(filters.startDate, filters.endDate);
+    } else if (filters?.startDate) {
+      where.timestamp = MoreThanOrEqual(filters.startDate);
+    } else if (filters?.endDate) {
+      where.timestamp = LessThanOrEqual(filters.endDate);
     }
 
     if (filters?.onlyExceeded) {
-      reports = reports.filter(r => !r.withinLimits);
+      where.withinLimits = false;
     }
 
-    // Sort by timestamp descending
-    reports.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    if (filters?.limit) {
-      reports = reports.slice(0, filters.limit);
-    }
+    const reports = await this.reportRepository.find({
+      where,
+      order: { timestamp: 'DESC' },
+      take: filters?.limit,
+    });
 
-    return reports;
+    return reports.map((report) => this.toReportDto(report));
   }
 
   /**
    * Get slippage statistics for a symbol
    */
-  getSlippageStatistics(symbol: string, daysBack: number = 7): {
+  async getSlippageStatistics(symbol: string, daysBack: number = 7): Promise<{
     averageSlippage: number;
     maxSlippage: number;
     minSlippage: number;
     totalTrades: number;
     tradesExceededLimits: number;
     totalSlippageCost: number;
-  } {
+  }> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysBack);
 
-    const relevantReports = this.slippageReports.filter(
-      r => r.symbol === symbol && r.timestamp >= cutoffDate,
-    );
+    const relevantReports = await this.getSlippageReports({
+      symbol,
+      startDate: cutoffDate,
+    });
 
     if (relevantReports.length === 0) {
       return {
@@ -329,29 +376,53 @@ export class SlippageProtectionService {
   /**
    * Get applicable configuration for a trade
    */
-  private getApplicableConfig(
+  async getApplicableConfig(
     userId?: string,
     symbol?: string,
     override?: SlippageConfigDto,
-  ): SlippageConfigDto {
+  ): Promise<SlippageConfigDto> {
     // Priority: override > symbol-specific > user default > system default
     if (override) {
       return override;
     }
 
     if (userId) {
-      const userPrefs = this.userPreferences.get(userId);
-      if (userPrefs) {
-        if (symbol && userPrefs.symbolOverrides?.has(symbol)) {
-          return userPrefs.symbolOverrides.get(symbol)!;
-        }
-        return userPrefs.defaultConfig;
-      }
+      const userPrefs = await this.getUserPreferences(userId);
+      const symbolOverride = symbol
+        ? this.findSymbolOverride(userPrefs.symbolOverrides, symbol)
+        : undefined;
+
+      return symbolOverride ?? userPrefs.defaultConfig;
     }
 
     return this.DEFAULT_CONFIG;
   }
 
+  /**
+   * A pair override applies whichever way round the trade quotes the pair
+   */
+  private findSymbolOverride(
+    overrides: Map<string, SlippageConfigDto> | undefined,
+    symbol: string,
+  ): SlippageConfigDto | undefined {
+    const reversed = symbol.split('/').reverse().join('/');
+    return overrides?.get(symbol) ?? overrides?.get(reversed);
+  }
+
+  private toConfig(preference: SlippageOverride): SlippageConfigDto {
+    return {
+      maxSlippagePercent: preference.maxSlippagePercent,
+      toleranceLevel:
+        (preference.toleranceLevel as SlippageToleranceLevel | undefined) ??
+        this.DEFAULT_CONFIG.toleranceLevel,
+      enableDynamicSlippage:
+        preference.enableDynamicSlippage ??
+        this.DEFAULT_CONFIG.enableDynamicSlippage,
+      maxExecutionTimeMs:
+        preference.maxExecutionTimeMs ?? this.DEFAULT_CONFIG.maxExecutionTimeMs,
+    };
+  }
+
   /**
    * Calculate maximum allowed slippage with dynamic adjustment
    */
@@ -451,51 +522,62 @@ export class SlippageProtectionService {
   /**
    * Store slippage report
    */
-  private storeReport(report: SlippageReportDto): void {
-    this.slippageReports.push(report);
-
-    // Trim old reports if exceeding memory limit
-    if (this.slippageReports.length > this.MAX_REPORTS_IN_MEMORY) {
-      const toRemove = this.slippageReports.length - this.MAX_REPORTS_IN_MEMORY;
-      this.slippageReports.splice(0, toRemove);
-      this.logger.debug(`Trimmed ${toRemove} old slippage reports`);
-    }
+  private async storeReport(
+    report: SlippageReportDto,
+    context: TradeExecutionContext,
+  ): Promise<void> {
+    await this.reportRepository.save(
+      this.reportRepository.create({
+        symbol: report.symbol,
+        side: report.side,
+        userId: context.userId ?? null,
+        orderId: context.orderId ?? null,
+        expectedPrice: report.expectedPrice.toFixed(8),
+        actualPrice: report.actualPrice.toFixed(8),
+        slippageAmount: report.slippageAmount.toFixed(8),
+        slippagePercent: report.slippagePercent.toFixed(8),
+        quantity: report.quantity.toFixed(8),
+        totalSlippageCost: report.totalSlippageCost.toFixed(8),
+        withinLimits: report.withinLimits,
+        timestamp: report.timestamp,
+      }),
+    );
   }
 
-  /**
-   * Clear all user preferences (for testing)
-   */
-  clearUserPreferences(userId?: string): void {
-    if (userId) {
-      this.userPreferences.delete(userId);
-      this.logger.log(`Cleared preferences for user ${userId}`);
-    } else {
-      this.userPreferences.clear();
-      this.logger.log('Cleared all user preferences');
-    }
+  private toReportDto(report: SlippageReport): SlippageReportDto {
+    return {
+      expectedPrice: Number(report.expectedPrice),
+      actualPrice: Number(report.actualPrice),
+      slippageAmount: Number(report.slippageAmount),
+      slippagePercent: Number(report.slippagePercent),
+      quantity: Number(report.quantity),
+      totalSlippageCost: Number(report.totalSlippageCost),
+      withinLimits: report.withinLimits,
+      timestamp: report.timestamp,
+      symbol: report.symbol,
+      side: report.side,
+    };
   }
 
   /**
    * Clear slippage reports (for testing)
    */
-  clearReports(): void {
-    this.slippageReports.length = 0;
+  async clearReports(): Promise<void> {
+    await this.reportRepository.clear();
     this.logger.log('Cleared all slippage reports');
   }
 
   /**
    * Export slippage data for analysis
    */
-  exportSlippageData(symbol?: string): {
+  async exportSlippageData(symbol?: string): Promise<{
     reports: SlippageReportDto[];
     statistics: any;
-  } {
-    const reports = symbol
-      ? this.slippageReports.filter(r => r.symbol === symbol)
-      : this.slippageReports;
+  }> {
+    const reports = await this.getSlippageReports({ symbol });
 
     const statistics = symbol
-      ? this.getSlippageStatistics(symbol, 30)
+      ? await this.getSlippageStatistics(symbol, 30)
       : null;
 
     return {
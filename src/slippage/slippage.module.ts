@@ -1,8 +1,18 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SdexModule } from '../sdex/sdex.module';
+import { SettingsModule } from '../settings/settings.module';
 import { SlippageCalculatorService } from './slippage-calculator.service';
 import { SlippageProtectionService } from './slippage-protection.service';
+import { SlippageHistory } from './entities/slippage-history.entity';
+import { SlippageReport } from './entities/slippage-report.entity';
 
 @Module({
+  imports: [
+    TypeOrmModule.forFeature([SlippageHistory, SlippageReport]),
+    SdexModule,
+    SettingsModule,
+  ],
   providers: [
     SlippageCalculatorService,
     SlippageProtectionService,
@@ -158,7 +158,7 @@ export class TradingService {
       maxExecutionTimeMs: 5000, // PRD requirement
     };
 
-    this.slippageProtection.setUserPreferences(userId, config);
+    await this.slippageProtection.setUserPreferences(userId, config);
 
     this.logger.log(
       `Updated slippage preferences for user ${userId}: ` +
@@ -180,7 +180,7 @@ export class TradingService {
       maxExecutionTimeMs: 5000,
     };
 
-    this.slippageProtection.setSymbolOverride(userId, symbol, config);
+    await this.slippageProtection.setSymbolOverride(userId, symbol, config);
 
     this.logger.log(
       `Set ${symbol} slippage limit to ${maxSlippagePercent}% for user ${userId}`,
@@ -191,12 +191,12 @@ export class TradingService {
    * Example: Get slippage performance report
    */
   async getSlippagePerformanceReport(symbol: string, daysBack: number = 7) {
-    const statistics = this.slippageProtection.getSlippageStatistics(
+    const statistics = await this.slippageProtection.getSlippageStatistics(
       symbol,
       daysBack,
     );
 
-    const recentReports = this.slippageProtection.getSlippageReports({
+    const recentReports = await this.slippageProtection.getSlippageReports({
       symbol,
       limit: 10,
     });
@@ -1,4 +1,11 @@
-import { IsArray, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import {
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
 
 export class InvokeContractDto {
   @IsString()
@@ -12,12 +19,10 @@ export class InvokeContractDto {
   params?: unknown[];
 
   @IsString()
-  @IsOptional()
-  sourceSecret?: string;
-
-  @IsString()
-  @IsOptional()
-  sourceAccount?: string;
+  @Matches(/^G[A-Z2-7]{55}$/, {
+    message: 'sourceAccount must be a valid Stellar public key',
+  })
+  sourceAccount!: string;
 
   @IsNumber()
   @IsOptional()
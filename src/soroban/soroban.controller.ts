@@ -0,0 +1,35 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { SorobanService } from './soroban.service';
+import { InvokeContractDto } from './dto/invoke-contract.dto';
+import { ContractResult } from './interfaces/contract-result.interface';
+import { PreparedTransactionDto } from '../stellar/transactions/dto/prepared-transaction.dto';
+import { SubmitSignedTransactionDto } from '../stellar/transactions/dto/submit-signed-transaction.dto';
+
+@Controller('soroban')
+export class SorobanController {
+  constructor(private readonly sorobanService: SorobanService) {}
+
+  /**
+   * Simulate a contract call and return it unsigned for the wallet to sign
+   * POST /soroban/invocations/prepare
+   */
+  @Post('invocations/prepare')
+  @HttpCode(HttpStatus.OK)
+  async prepareInvocation(
+    @Body() dto: InvokeContractDto,
+  ): Promise<PreparedTransactionDto> {
+    return this.sorobanService.prepareInvocation(dto);
+  }
+
+  /**
+   * Submit a signed contract call and wait for its result
+   * POST /soroban/invocations/submit
+   */
+  @Post('invocations/submit')
+  @HttpCode(HttpStatus.OK)
+  async submitInvocation(
+    @Body() dto: SubmitSignedTransactionDto,
+  ): Promise<ContractResult> {
+    return this.sorobanService.submitInvocation(dto);
+  }
+}
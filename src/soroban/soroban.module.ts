@@ -1,8 +1,12 @@
 import { Module } from '@nestjs/common';
 import { SorobanService } from './soroban.service';
+import { SorobanController } from './soroban.controller';
 import { StellarConfigService } from '../config/stellar.service';
+import { StellarModule } from '../stellar/stellar.module';
 
 @Module({
+  imports: [StellarModule],
+  controllers: [SorobanController],
   providers: [SorobanService, StellarConfigService],
   exports: [SorobanService],
 })
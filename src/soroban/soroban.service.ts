@@ -17,6 +17,13 @@ import {
 } from '@stellar/stellar-sdk';
 import { StellarConfigService } from '../config/stellar.service';
 import { SorobanException } from '../common/exceptions';
+import { TransactionIntentService } from '../stellar/transactions/transaction-intent.service';
+import {
+  PreparedTransactionDto,
+  TransactionIntentType,
+} from '../stellar/transactions/dto/prepared-transaction.dto';
+import { SubmitSignedTransactionDto } from '../stellar/transactions/dto/submit-signed-transaction.dto';
+import { InvokeContractDto } from './dto/invoke-contract.dto';
 import {
   ContractEvent,
   ContractResult,
@@ -39,10 +46,17 @@ export class SorobanService {
   private readonly logger = new Logger(SorobanService.name);
   private readonly server: SorobanRpc.Server;
 
-  constructor(private readonly stellarConfig: StellarConfigService) {
+  constructor(
+    private readonly stellarConfig: StellarConfigService,
+    private readonly transactionIntents: TransactionIntentService,
+  ) {
     this.server = new SorobanRpc.Server(this.stellarConfig.sorobanRpcUrl);
   }
 
+  /**
+   * Invoke a contract with a server-held key (e.g. contract wrappers).
+   * User transactions go through prepareInvocation / submitInvocation.
+   */
   async invokeContract(
     contractId: string,
     method: string,
@@ -97,68 +111,123 @@ export class SorobanService {
 
       prepared.sign(sourceKeypair);
 
-      const sendResponse = await this.withTimeout(
-        this.server.sendTransaction(prepared),
-        'sendTransaction',
+      return await this.sendAndConfirm(
+        prepared,
+        contractId,
+        method,
         options.timeoutMs,
+        simulation?.result?.retval,
       );
-
-      if (sendResponse.status === 'ERROR') {
-        throw new SorobanException(
-          'Soroban transaction rejected',
-          contractId,
-          method,
-          sendResponse,
-        );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown Soroban error';
+      this.logger.error(
+        `Soroban invocation failed for ${contractId}.${method}: ${errorMessage}`,
+      );
+      if (error instanceof SorobanException) {
+        throw error;
       }
 
-      if (!sendResponse.hash) {
-        throw new SorobanException(
-          'Soroban transaction did not return a hash',
+      throw new SorobanException(
+        errorMessage,
+        contractId,
+        method,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Simulate and assemble a contract call for the caller's wallet to sign.
+   * The returned fee already includes the simulated resource fee.
+   */
+  async prepareInvocation(
+    dto: InvokeContractDto,
+  ): Promise<PreparedTransactionDto> {
+    const { contractId, method, sourceAccount, timeoutMs } = dto;
+
+    try {
+      const account = await this.withTimeout(
+        this.server.getAccount(sourceAccount),
+        'getAccount',
+        timeoutMs,
+      );
+      const operation = this.buildContractOperation(
+        contractId,
+        method,
+        dto.params || [],
+      );
+
+      const transaction = new TransactionBuilder(account, {
+        fee: BASE_FEE,
+        networkPassphrase: this.stellarConfig.networkPassphrase,
+      })
+        .addOperation(operation)
+        .setTimeout(this.stellarConfig.transactionIntentTtl)
+        .build();
+
+      const simulation = await this.simulateTransaction(transaction);
+      const prepared = await this.withTimeout(
+        this.server.prepareTransaction(transaction),
+        'prepareTransaction',
+        timeoutMs,
+      );
+
+      return await this.transactionIntents.createIntent(
+        TransactionIntentType.CONTRACT_INVOCATION,
+        prepared.toXDR(),
+        {
           contractId,
           method,
-          sendResponse,
-        );
-      }
-
-      const confirmed = await this.waitForTransaction(
-        sendResponse.hash,
-        options.timeoutMs,
+          resourceFee: SorobanRpc.Api.isSimulationSuccess(simulation)
+            ? simulation.minResourceFee
+            : undefined,
+          timeoutMs,
+        },
       );
-      const events = await this.getContractEvents(sendResponse.hash);
-      const result = this.parseScVal(simulation?.result?.retval);
-
-      const success = confirmed.status === 'SUCCESS';
-
-      return {
-        success,
-        hash: sendResponse.hash,
-        status: confirmed.status,
-        result,
-        events,
-        feeCharged: confirmed.feeCharged?.toString(),
-        error: success
-          ? undefined
-          : (confirmed as Record<string, unknown>).errorResultXdr?.toString() ||
-            (confirmed as Record<string, unknown>).resultXdr?.toString() ||
-            confirmed.status,
-      };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown Soroban error';
       this.logger.error(
-        `Soroban invocation failed for ${contractId}.${method}: ${errorMessage}`,
+        `Soroban preparation failed for ${contractId}.${method}: ${errorMessage}`,
       );
       if (error instanceof SorobanException) {
         throw error;
       }
 
-      throw new SorobanException(
-        errorMessage,
+      throw new SorobanException(errorMessage, contractId, method, error);
+    }
+  }
+
+  async submitInvocation(
+    dto: SubmitSignedTransactionDto,
+  ): Promise<ContractResult> {
+    const { intent, transaction } =
+      await this.transactionIntents.resolveSignedTransaction(
+        dto,
+        TransactionIntentType.CONTRACT_INVOCATION,
+      );
+    const contractId = String(intent.metadata.contractId);
+    const method = String(intent.metadata.method);
+
+    try {
+      return await this.sendAndConfirm(
+        transaction,
         contractId,
         method,
-        error,
+        intent.metadata.timeoutMs as number | undefined,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown Soroban error';
+      this.logger.error(
+        `Soroban submission failed for ${contractId}.${method}: ${errorMessage}`,
       );
+      if (error instanceof SorobanException) {
+        throw error;
+      }
+
+      throw new SorobanException(errorMessage, contractId, method, error);
     }
   }
 
@@ -228,11 +297,69 @@ export class SorobanService {
     };
   }
 
+  private async sendAndConfirm(
+    transaction: Transaction,
+    contractId: string,
+    method: string,
+    timeoutMs?: number,
+    simulatedResult?: unknown,
+  ): Promise<ContractResult> {
+    const sendResponse = await this.withTimeout(
+      this.server.sendTransaction(transaction),
+      'sendTransaction',
+      timeoutMs,
+    );
+
+    if (sendResponse.status === 'ERROR') {
+      throw new SorobanException(
+        'Soroban transaction rejected',
+        contractId,
+        method,
+        sendResponse,
+      );
+    }
+
+    if (!sendResponse.hash) {
+      throw new SorobanException(
+        'Soroban transaction did not return a hash',
+        contractId,
+        method,
+        sendResponse,
+      );
+    }
+
+    const confirmed = await this.waitForTransaction(
+      sendResponse.hash,
+      timeoutMs,
+    );
+    const events = await this.getContractEvents(sendResponse.hash);
+    const result = this.parseScVal(
+      simulatedResult ??
+        (confirmed.status === 'SUCCESS' ? confirmed.returnValue : undefined),
+    );
+
+    const success = confirmed.status === 'SUCCESS';
+
+    return {
+      success,
+      hash: sendResponse.hash,
+      status: confirmed.status,
+      result,
+      events,
+      feeCharged: confirmed.feeCharged?.toString(),
+      error: success
+        ? undefined
+        : (confirmed as Record<string, unknown>).errorResultXdr?.toString() ||
+          (confirmed as Record<string, unknown>).resultXdr?.toString() ||
+          confirmed.status,
+    };
+  }
+
   private buildContractOperation(
     contractId: string,
     method: string,
     params: unknown[],
-  ): Operation {
+  ): xdr.Operation {
     const contract = new Contract(contractId);
     const scVals = (params || []).map((param) =>
       this.toScVal(param),
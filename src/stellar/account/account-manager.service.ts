@@ -11,6 +11,7 @@ export interface AccountInfo {
     asset_issuer?: string;
     balance: string;
     limit?: string;
+    selling_liabilities?: string;
   }>;
   subentryCount: number;
   sequence: string;
@@ -0,0 +1,30 @@
+import { ReserveCalculatorService } from './reserve-calculator.service';
+
+describe('ReserveCalculatorService', () => {
+  const calculator = new ReserveCalculatorService();
+
+  it('requires two base reserves plus one per subentry', () => {
+    expect(calculator.calculateMinimumBalance(0)).toBe('1.0000000');
+    expect(calculator.calculateMinimumBalance(3)).toBe('2.5000000');
+  });
+
+  it('allows a trustline only when the balance covers the extra reserve', () => {
+    expect(calculator.canCreateTrustline('1.5', 0)).toBe(true);
+    expect(calculator.canCreateTrustline('1.4999999', 0)).toBe(false);
+  });
+
+  it('subtracts the reserve and selling liabilities from spendable XLM', () => {
+    expect(calculator.calculateSpendableNative('100', '10', 2)).toBe(
+      '88.0000000',
+    );
+    expect(calculator.calculateSpendableNative('100', undefined, 0)).toBe(
+      '99.0000000',
+    );
+  });
+
+  it('never reports a negative spendable balance', () => {
+    expect(calculator.calculateSpendableNative('1.2', '0.5', 1)).toBe(
+      '0.0000000',
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import Big from 'big.js';
+
+// Network base reserve in XLM
+const BASE_RESERVE = '0.5';
+// The account itself counts as two base reserves
+const ACCOUNT_BASE_ENTRIES = 2;
+const MAX_SUBENTRIES = 1000;
+
+/**
+ * Stellar minimum balance rules. Each subentry (trustline, offer, signer,
+ * data entry) locks one base reserve of XLM that cannot be spent.
+ */
+@Injectable()
+export class ReserveCalculatorService {
+  calculateMinimumBalance(subentryCount: number): string {
+    return new Big(BASE_RESERVE)
+      .times(ACCOUNT_BASE_ENTRIES + subentryCount)
+      .toFixed(7);
+  }
+
+  canCreateTrustline(xlmBalance: string, subentryCount: number): boolean {
+    return new Big(xlmBalance || '0').gte(
+      this.calculateMinimumBalance(subentryCount + 1),
+    );
+  }
+
+  getMaxSubentries(): number {
+    return MAX_SUBENTRIES;
+  }
+
+  /**
+   * XLM that can leave the account: the balance less the minimum reserve
+   * and the amount already committed to open sell offers
+   */
+  calculateSpendableNative(
+    balance: string,
+    sellingLiabilities: string | undefined,
+    subentryCount: number,
+  ): string {
+    const spendable = new Big(balance || '0')
+      .minus(sellingLiabilities || '0')
+      .minus(this.calculateMinimumBalance(subentryCount));
+    return (spendable.gt(0) ? spendable : new Big(0)).toFixed(7);
+  }
+}
@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { HorizonStreamService } from './horizon-stream.service';
-import { TrustlineService } from '../trustlines/trustline.service';
+import { TrustlineService, TrustlineResult } from '../trustlines/trustline.service';
 import { TradeEvent, PaymentEvent, TrustlineEvent, AccountMergeEvent } from '../interfaces/horizon-event.interface';
 
 @Injectable()
@@ -174,25 +174,25 @@ export class StellarIntegrationService {
     this.logger.debug(`Transaction ${transactionHash} status updated to: ${status}`);
   }
 
-  // Utility method to check if an account needs trustlines before trading
-  async ensureTrustlinesForTrade(publicKey: string, secretKey: string, assetCode: string, assetIssuer: string): Promise<boolean> {
+  // Utility method to check if an account needs trustlines before trading.
+  // When one is missing the result carries the transaction the wallet must sign first.
+  async ensureTrustlinesForTrade(publicKey: string, assetCode: string, assetIssuer: string): Promise<TrustlineResult> {
     try {
       if (assetCode === 'XLM') {
-        return true; // No trustline needed for native asset
+        return { success: true }; // No trustline needed for native asset
       }
 
       const asset = new (await import('stellar-sdk')).Asset(assetCode, assetIssuer);
-      const result = await this.trustlineService.autoCreateTrustlineForTrade(publicKey, secretKey, asset);
+      const result = await this.trustlineService.autoCreateTrustlineForTrade(publicKey, asset);
       
-      if (!result.success) {
+      if (!result.success && !result.preparedTransaction) {
         this.logger.error(`Failed to ensure trustline for ${assetCode}: ${result.error}`);
-        return false;
       }
       
-      return true;
+      return result;
     } catch (error) {
       this.logger.error(`Error ensuring trustlines for trade:`, error);
-      return false;
+      return { success: false, error: (error as Error).message || 'Unknown error occurred' };
     }
   }
 }
\ No newline at end of file
@@ -11,6 +11,7 @@ import { HorizonStreamController } from './services/horizon-stream.controller';
 import { HorizonStreamService } from './services/horizon-stream.service';
 import { EventProcessorService } from './services/event-processor.service';
 import { StellarIntegrationService } from './services/stellar-integration.service';
+import { TransactionIntentService } from './transactions/transaction-intent.service';
 
 @Module({
   imports: [
@@ -27,6 +28,7 @@ import { StellarIntegrationService } from './services/stellar-integration.servic
     HorizonStreamService,
     EventProcessorService,
     StellarIntegrationService,
+    TransactionIntentService,
   ],
   exports: [
     StellarConfigService,
@@ -36,6 +38,7 @@ import { StellarIntegrationService } from './services/stellar-integration.servic
     HorizonStreamService,
     EventProcessorService,
     StellarIntegrationService,
+    TransactionIntentService,
   ],
 })
 export class StellarModule {}
\ No newline at end of file
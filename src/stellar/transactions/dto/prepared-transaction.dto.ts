@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum TransactionIntentType {
+  LIMIT_ORDER = 'limit_order',
+  MARKET_ORDER = 'market_order',
+  CREATE_TRUSTLINE = 'create_trustline',
+  REMOVE_TRUSTLINE = 'remove_trustline',
+  CONTRACT_INVOCATION = 'contract_invocation',
+}
+
+export class PreparedTransactionDto {
+  @ApiProperty({
+    description: 'Intent ID to send back with the signed transaction',
+    example: '3f6c1d52-8a8e-4c1b-9a57-5b1c7f0e2d9a',
+  })
+  intentId!: string;
+
+  @ApiProperty({ enum: TransactionIntentType })
+  type!: TransactionIntentType;
+
+  @ApiProperty({
+    description:
+      'Unsigned transaction envelope (base64 XDR) for the wallet to sign',
+  })
+  unsignedXdr!: string;
+
+  @ApiProperty({ example: 'Test SDF Network ; September 2015' })
+  networkPassphrase!: string;
+
+  @ApiProperty({
+    description: 'Account that must sign the transaction',
+    example: 'GCLWGQPMKXQSPF776IU33AH4PZNOOWNAWGGKVTBQMIC5IMKUNP3E6NVU',
+  })
+  sourceAccount!: string;
+
+  @ApiProperty({
+    description: 'Maximum fee for the transaction in stroops',
+    example: '100',
+  })
+  fee!: string;
+
+  @ApiProperty({
+    description: 'Time after which the intent can no longer be submitted',
+  })
+  expiresAt!: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Context computed while preparing (order book analysis, simulation result)',
+  })
+  details?: Record<string, unknown>;
+}
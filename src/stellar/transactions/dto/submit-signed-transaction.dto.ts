@@ -0,0 +1,19 @@
+import { IsBase64, IsNotEmpty, IsString, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SubmitSignedTransactionDto {
+  @ApiProperty({
+    description: 'Intent ID returned by the prepare endpoint',
+    example: '3f6c1d52-8a8e-4c1b-9a57-5b1c7f0e2d9a',
+  })
+  @IsUUID()
+  intentId!: string;
+
+  @ApiProperty({
+    description: 'Transaction envelope (base64 XDR) signed by the wallet',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsBase64()
+  signedXdr!: string;
+}
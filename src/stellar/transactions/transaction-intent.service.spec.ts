@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Account,
+  Asset,
+  BASE_FEE,
+  Keypair,
+  Networks,
+  Operation,
+  TransactionBuilder,
+} from '@stellar/stellar-sdk';
+import { TransactionIntentService } from './transaction-intent.service';
+import { TransactionIntentType } from './dto/prepared-transaction.dto';
+import { StellarConfigService } from '../../config/stellar.service';
+import { CacheService } from '../../cache/cache.service';
+
+describe('TransactionIntentService', () => {
+  let service: TransactionIntentService;
+  const store = new Map<string, unknown>();
+  const source = Keypair.random();
+
+  const mockStellarConfig = {
+    networkPassphrase: Networks.TESTNET,
+    transactionIntentTtl: 300,
+  };
+
+  const mockCacheService = {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    setWithTTL: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+    }),
+    del: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+
+  const buildTransaction = () =>
+    new TransactionBuilder(new Account(source.publicKey(), '1'), {
+      fee: BASE_FEE,
+      networkPassphrase: Networks.TESTNET,
+    })
+      .addOperation(
+        Operation.payment({
+          destination: Keypair.random().publicKey(),
+          asset: Asset.native(),
+          amount: '1',
+        }),
+      )
+      .setTimeout(300)
+      .build();
+
+  beforeEach(async () => {
+    store.clear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionIntentService,
+        { provide: StellarConfigService, useValue: mockStellarConfig },
+        { provide: CacheService, useValue: mockCacheService },
+      ],
+    }).compile();
+
+    service = module.get<TransactionIntentService>(TransactionIntentService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store an intent for the unsigned transaction', async () => {
+    const transaction = buildTransaction();
+
+    const prepared = await service.createIntent(
+      TransactionIntentType.LIMIT_ORDER,
+      transaction.toXDR(),
+      { price: 1.5 },
+    );
+
+    expect(prepared.sourceAccount).toBe(source.publicKey());
+    expect(prepared.fee).toBe(BASE_FEE);
+    expect(prepared.details).toEqual({ price: 1.5 });
+    expect(mockCacheService.setWithTTL).toHaveBeenCalledWith(
+      expect.stringContaining(prepared.intentId),
+      expect.objectContaining({
+        transactionHash: transaction.hash().toString('hex'),
+      }),
+      300,
+    );
+  });
+
+  it('should resolve a transaction signed by the source account once', async () => {
+    const transaction = buildTransaction();
+    const prepared = await service.createIntent(
+      TransactionIntentType.LIMIT_ORDER,
+      transaction.toXDR(),
+    );
+
+    transaction.sign(source);
+    const dto = { intentId: prepared.intentId, signedXdr: transaction.toXDR() };
+
+    const resolved = await service.resolveSignedTransaction(
+      dto,
+      TransactionIntentType.LIMIT_ORDER,
+    );
+
+    expect(resolved.intent.id).toBe(prepared.intentId);
+    await expect(
+      service.resolveSignedTransaction(dto, TransactionIntentType.LIMIT_ORDER),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should reject a signed transaction that differs from the intent', async () => {
+    const prepared = await service.createIntent(
+      TransactionIntentType.MARKET_ORDER,
+      buildTransaction().toXDR(),
+    );
+
+    const other = buildTransaction();
+    other.sign(source);
+
+    await expect(
+      service.resolveSignedTransaction(
+        { intentId: prepared.intentId, signedXdr: other.toXDR() },
+        TransactionIntentType.MARKET_ORDER,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject a transaction signed by another key', async () => {
+    const transaction = buildTransaction();
+    const prepared = await service.createIntent(
+      TransactionIntentType.CREATE_TRUSTLINE,
+      transaction.toXDR(),
+    );
+
+    transaction.sign(Keypair.random());
+
+    await expect(
+      service.resolveSignedTransaction(
+        { intentId: prepared.intentId, signedXdr: transaction.toXDR() },
+        TransactionIntentType.CREATE_TRUSTLINE,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject an intent of a different type', async () => {
+    const transaction = buildTransaction();
+    const prepared = await service.createIntent(
+      TransactionIntentType.LIMIT_ORDER,
+      transaction.toXDR(),
+    );
+
+    transaction.sign(source);
+
+    await expect(
+      service.resolveSignedTransaction(
+        { intentId: prepared.intentId, signedXdr: transaction.toXDR() },
+        TransactionIntentType.MARKET_ORDER,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  FeeBumpTransaction,
+  Keypair,
+  Transaction,
+  TransactionBuilder,
+} from '@stellar/stellar-sdk';
+import { randomUUID } from 'crypto';
+import { CacheService, CachePrefix } from '../../cache/cache.service';
+import { StellarConfigService } from '../../config/stellar.service';
+import {
+  PreparedTransactionDto,
+  TransactionIntentType,
+} from './dto/prepared-transaction.dto';
+import { SubmitSignedTransactionDto } from './dto/submit-signed-transaction.dto';
+
+export interface TransactionIntent {
+  id: string;
+  type: TransactionIntentType;
+  sourceAccount: string;
+  transactionHash: string;
+  unsignedXdr: string;
+  fee: string;
+  createdAt: string;
+  expiresAt: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface ResolvedTransaction {
+  intent: TransactionIntent;
+  transaction: Transaction;
+}
+
+/**
+ * Keeps track of transactions the server has built for a wallet to sign.
+ * An intent is created when the unsigned XDR is handed out and consumed
+ * when the signed envelope comes back, so only the exact transaction we
+ * prepared can be submitted, and only once.
+ */
+@Injectable()
+export class TransactionIntentService {
+  private readonly logger = new Logger(TransactionIntentService.name);
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly stellarConfig: StellarConfigService,
+  ) {}
+
+  async createIntent(
+    type: TransactionIntentType,
+    unsignedXdr: string,
+    metadata: Record<string, unknown> = {},
+  ): Promise<PreparedTransactionDto> {
+    const transaction = this.parseTransaction(unsignedXdr);
+    const ttl = this.stellarConfig.transactionIntentTtl;
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttl * 1000);
+
+    const intent: TransactionIntent = {
+      id: randomUUID(),
+      type,
+      sourceAccount: transaction.source,
+      transactionHash: transaction.hash().toString('hex'),
+      unsignedXdr,
+      fee: transaction.fee,
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      metadata,
+    };
+
+    await this.cacheService.setWithTTL(
+      this.getCacheKey(intent.id),
+      intent,
+      ttl,
+    );
+
+    this.logger.log(
+      `Created ${type} intent ${intent.id} for ${intent.sourceAccount} (tx ${intent.transactionHash})`,
+    );
+
+    return {
+      intentId: intent.id,
+      type,
+      unsignedXdr,
+      networkPassphrase: this.stellarConfig.networkPassphrase,
+      sourceAccount: intent.sourceAccount,
+      fee: intent.fee,
+      expiresAt,
+      details: metadata,
+    };
+  }
+
+  /**
+   * Matches a signed envelope against its stored intent and consumes the
+   * intent. Throws if the intent is unknown, expired, of a different type,
+   * or if the wallet signed anything other than the prepared transaction.
+   */
+  async resolveSignedTransaction(
+    dto: SubmitSignedTransactionDto,
+    expectedType: TransactionIntentType,
+  ): Promise<ResolvedTransaction> {
+    const cacheKey = this.getCacheKey(dto.intentId);
+    const intent = await this.cacheService.get<TransactionIntent>(cacheKey);
+
+    if (!intent || new Date(intent.expiresAt).getTime() < Date.now()) {
+      throw new NotFoundException(
+        'Transaction intent not found or expired. Prepare the transaction again',
+      );
+    }
+
+    if (intent.type !== expectedType) {
+      throw new BadRequestException(
+        `Intent ${dto.intentId} is a ${intent.type} intent, not ${expectedType}`,
+      );
+    }
+
+    const transaction = this.parseTransaction(dto.signedXdr);
+    const hash = transaction.hash();
+
+    if (hash.toString('hex') !== intent.transactionHash) {
+      throw new BadRequestException(
+        'Signed transaction does not match the prepared transaction',
+      );
+    }
+
+    if (!this.isSignedBySource(transaction, hash, intent.sourceAccount)) {
+      throw new BadRequestException(
+        `Transaction is not signed by source account ${intent.sourceAccount}`,
+      );
+    }
+
+    // Single use: a replayed submit must go through prepare again
+    await this.cacheService.del(cacheKey);
+
+    return { intent, transaction };
+  }
+
+  private parseTransaction(envelopeXdr: string): Transaction {
+    let parsed: Transaction | FeeBumpTransaction;
+
+    try {
+      parsed = TransactionBuilder.fromXDR(
+        envelopeXdr,
+        this.stellarConfig.networkPassphrase,
+      );
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid transaction XDR: ${(error as Error).message}`,
+      );
+    }
+
+    if (parsed instanceof FeeBumpTransaction) {
+      throw new BadRequestException('Fee bump transactions are not supported');
+    }
+
+    return parsed;
+  }
+
+  private isSignedBySource(
+    transaction: Transaction,
+    hash: Buffer,
+    sourceAccount: string,
+  ): boolean {
+    const keypair = Keypair.fromPublicKey(sourceAccount);
+    const hint = keypair.signatureHint();
+
+    return transaction.signatures.some(
+      (signature) =>
+        signature.hint().equals(hint) &&
+        keypair.verify(hash, signature.signature()),
+    );
+  }
+
+  private getCacheKey(intentId: string): string {
+    return `${CachePrefix.TX_INTENT}${intentId}`;
+  }
+}
@@ -11,15 +11,6 @@ export class CreateTrustlineDto {
   @Matches(/^G[A-Z0-9]{55}$/, { message: 'Invalid Stellar public key format' })
   publicKey: string;
 
-  @ApiProperty({
-    description: 'Account secret key for signing transactions',
-    example: 'SCZANGBA5YHTNYVVV4C3U252E2B6P6F5T3U6MM63WBSBZATAQI3EBTQ4',
-  })
-  @IsString()
-  @IsNotEmpty()
-  @Matches(/^S[A-Z0-9]{55}$/, { message: 'Invalid Stellar secret key format' })
-  secretKey: string;
-
   @ApiProperty({
     description: 'Asset code (e.g., USDC, BTC)',
     example: 'USDC',
@@ -0,0 +1,32 @@
+import { IsString, IsNotEmpty, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RemoveTrustlineDto {
+  @ApiProperty({
+    description: 'Account public key (Stellar address)',
+    example: 'GCLWGQPMKXQSPF776IU33AH4PZNOOWNAWGGKVTBQMIC5IMKUNP3E6NVU',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^G[A-Z0-9]{55}$/, { message: 'Invalid Stellar public key format' })
+  publicKey!: string;
+
+  @ApiProperty({
+    description: 'Asset code (e.g., USDC, BTC)',
+    example: 'USDC',
+  })
+  @IsString()
+  @IsNotEmpty()
+  assetCode!: string;
+
+  @ApiProperty({
+    description: 'Asset issuer public key',
+    example: 'GA5ZSEJYB37JRC5AVCIA5MOP4RHTM335X2KGX3IHOJAPP5RE34K4KZVN',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^G[A-Z0-9]{55}$/, {
+    message: 'Invalid asset issuer public key format',
+  })
+  assetIssuer!: string;
+}
@@ -1,39 +1,54 @@
-import { Controller, Post, Get, Delete, Body, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Controller, Post, Get, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
 import { TrustlineService } from './trustline.service';
 import { CreateTrustlineDto } from './dto/create-trustline.dto';
+import { RemoveTrustlineDto } from './dto/remove-trustline.dto';
 import { TrustlineStatusDto } from './dto/trustline-status.dto';
+import { PreparedTransactionDto } from '../transactions/dto/prepared-transaction.dto';
+import { SubmitSignedTransactionDto } from '../transactions/dto/submit-signed-transaction.dto';
 
 @ApiTags('Trustlines')
 @Controller('api/v1/trustlines')
 export class TrustlineController {
   constructor(private readonly trustlineService: TrustlineService) {}
 
-  @Post()
-  @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Create a new trustline' })
-  @ApiResponse({ status: 201, description: 'Trustline created successfully' })
+  @Post('prepare')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Build an unsigned trustline transaction for the wallet to sign' })
+  @ApiResponse({ status: 200, description: 'Unsigned transaction prepared', type: PreparedTransactionDto })
   @ApiResponse({ status: 400, description: 'Invalid request or insufficient reserves' })
   @ApiResponse({ status: 409, description: 'Trustline already exists' })
-  async createTrustline(@Body() createTrustlineDto: CreateTrustlineDto) {
-    return this.trustlineService.createTrustline(createTrustlineDto);
+  async prepareCreateTrustline(@Body() createTrustlineDto: CreateTrustlineDto): Promise<PreparedTransactionDto> {
+    return this.trustlineService.prepareCreateTrustline(createTrustlineDto);
+  }
+
+  @Post('submit')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Submit a signed trustline transaction' })
+  @ApiResponse({ status: 201, description: 'Trustline created successfully' })
+  @ApiResponse({ status: 400, description: 'Signed transaction does not match the prepared one' })
+  @ApiResponse({ status: 404, description: 'Transaction intent not found or expired' })
+  async submitCreateTrustline(@Body() dto: SubmitSignedTransactionDto) {
+    return this.trustlineService.submitCreateTrustline(dto);
   }
 
-  @Delete(':publicKey/:assetCode/:assetIssuer')
+  @Post('remove/prepare')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Remove a trustline' })
-  @ApiParam({ name: 'publicKey', description: 'Account public key' })
-  @ApiParam({ name: 'assetCode', description: 'Asset code (e.g., USDC)' })
-  @ApiParam({ name: 'assetIssuer', description: 'Asset issuer public key' })
-  @ApiResponse({ status: 200, description: 'Trustline removed successfully' })
+  @ApiOperation({ summary: 'Build an unsigned trustline removal transaction for the wallet to sign' })
+  @ApiResponse({ status: 200, description: 'Unsigned transaction prepared', type: PreparedTransactionDto })
   @ApiResponse({ status: 400, description: 'Cannot remove trustline with balance or trustline not found' })
-  async removeTrustline(
-    @Param('publicKey') publicKey: string,
-    @Param('assetCode') assetCode: string,
-    @Param('assetIssuer') assetIssuer: string,
-    @Query('secretKey') secretKey: string,
-  ) {
-    return this.trustlineService.removeTrustline(publicKey, secretKey, assetCode, assetIssuer);
+  async prepareRemoveTrustline(@Body() removeTrustlineDto: RemoveTrustlineDto): Promise<PreparedTransactionDto> {
+    return this.trustlineService.prepareRemoveTrustline(removeTrustlineDto);
+  }
+
+  @Post('remove/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Submit a signed trustline removal transaction' })
+  @ApiResponse({ status: 200, description: 'Trustline removed successfully' })
+  @ApiResponse({ status: 400, description: 'Signed transaction does not match the prepared one' })
+  @ApiResponse({ status: 404, description: 'Transaction intent not found or expired' })
+  async submitRemoveTrustline(@Body() dto: SubmitSignedTransactionDto) {
+    return this.trustlineService.submitRemoveTrustline(dto);
   }
 
   @Get(':publicKey/status')
@@ -62,17 +77,17 @@ export class TrustlineController {
 
   @Post('auto-create-for-trade')
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Automatically create trustline for trade if needed' })
-  @ApiResponse({ status: 201, description: 'Trustline created or already exists' })
+  @ApiOperation({ summary: 'Prepare a trustline transaction for trade if needed' })
+  @ApiResponse({ status: 201, description: 'Trustline already exists or unsigned transaction prepared' })
   @ApiResponse({ status: 400, description: 'Cannot create trustline' })
   async autoCreateTrustlineForTrade(
-    @Body() body: { publicKey: string; secretKey: string; assetCode: string; assetIssuer: string }
+    @Body() body: { publicKey: string; assetCode: string; assetIssuer: string }
   ) {
-    const { publicKey, secretKey, assetCode, assetIssuer } = body;
+    const { publicKey, assetCode, assetIssuer } = body;
     const asset = assetCode === 'XLM' 
       ? new (await import('stellar-sdk')).Asset.native()
       : new (await import('stellar-sdk')).Asset(assetCode, assetIssuer);
     
-    return this.trustlineService.autoCreateTrustlineForTrade(publicKey, secretKey, asset);
+    return this.trustlineService.autoCreateTrustlineForTrade(publicKey, asset);
   }
 }
\ No newline at end of file
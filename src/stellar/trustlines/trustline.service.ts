@@ -1,14 +1,19 @@
 import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
-import { Server, Asset, Keypair, TransactionBuilder, Networks, Operation } from 'stellar-sdk';
+import { Server, Asset, TransactionBuilder } from 'stellar-sdk';
 import { StellarConfigService } from '../../config/stellar.service';
 import { AccountManagerService } from '../account/account-manager.service';
+import { TransactionIntentService } from '../transactions/transaction-intent.service';
+import { PreparedTransactionDto, TransactionIntentType } from '../transactions/dto/prepared-transaction.dto';
+import { SubmitSignedTransactionDto } from '../transactions/dto/submit-signed-transaction.dto';
 import { CreateTrustlineDto } from './dto/create-trustline.dto';
+import { RemoveTrustlineDto } from './dto/remove-trustline.dto';
 import { TrustlineStatusDto } from './dto/trustline-status.dto';
 
 export interface TrustlineResult {
   success: boolean;
   transactionHash?: string;
   error?: string;
+  preparedTransaction?: PreparedTransactionDto;
 }
 
 @Injectable()
@@ -19,50 +24,61 @@ export class TrustlineService {
   constructor(
     private stellarConfig: StellarConfigService,
     private accountManager: AccountManagerService,
+    private transactionIntents: TransactionIntentService,
   ) {
     this.server = new Server(this.stellarConfig.horizonUrl);
   }
 
-  async createTrustline(createTrustlineDto: CreateTrustlineDto): Promise<TrustlineResult> {
-    const { publicKey, secretKey, assetCode, assetIssuer, limit } = createTrustlineDto;
+  async prepareCreateTrustline(createTrustlineDto: CreateTrustlineDto): Promise<PreparedTransactionDto> {
+    const { publicKey, assetCode, assetIssuer, limit } = createTrustlineDto;
 
-    try {
-      // Validate asset
-      const asset = new Asset(assetCode, assetIssuer);
-      const assetValidation = await this.accountManager.validateAssetForTrustline(asset);
-      if (!assetValidation.valid) {
-        throw new BadRequestException(assetValidation.reason);
-      }
-
-      // Check if trustline already exists
-      const hasTrustline = await this.accountManager.hasTrustline(publicKey, asset);
-      if (hasTrustline) {
-        throw new ConflictException('Trustline already exists for this asset');
-      }
-
-      // Check if account can create trustline
-      const canCreate = await this.accountManager.canCreateTrustline(publicKey);
-      if (!canCreate.canCreate) {
-        throw new BadRequestException(canCreate.reason);
-      }
+    // Validate asset
+    const asset = new Asset(assetCode, assetIssuer);
+    const assetValidation = await this.accountManager.validateAssetForTrustline(asset);
+    if (!assetValidation.valid) {
+      throw new BadRequestException(assetValidation.reason);
+    }
 
-      // Build and submit transaction
-      const account = await this.server.loadAccount(publicKey);
-      const operation = this.accountManager.buildChangeTrustOperation(asset, limit);
-      
-      const transaction = new TransactionBuilder(account, {
-        fee: '100000', // 0.01 XLM
-        networkPassphrase: this.stellarConfig.networkPassphrase,
-      })
-        .addOperation(operation)
-        .setTimeout(30)
-        .build();
+    // Check if trustline already exists
+    const hasTrustline = await this.accountManager.hasTrustline(publicKey, asset);
+    if (hasTrustline) {
+      throw new ConflictException('Trustline already exists for this asset');
+    }
 
-      const keypair = Keypair.fromSecret(secretKey);
-      transaction.sign(keypair);
+    // Check if account can create trustline
+    const canCreate = await this.accountManager.canCreateTrustline(publicKey);
+    if (!canCreate.canCreate) {
+      throw new BadRequestException(canCreate.reason);
+    }
+
+    // Build the unsigned transaction for the wallet to sign
+    const account = await this.server.loadAccount(publicKey);
+    const operation = this.accountManager.buildChangeTrustOperation(asset, limit);
+
+    const transaction = new TransactionBuilder(account, {
+      fee: '100000', // 0.01 XLM
+      networkPassphrase: this.stellarConfig.networkPassphrase,
+    })
+      .addOperation(operation)
+      .setTimeout(this.stellarConfig.transactionIntentTtl)
+      .build();
+
+    return this.transactionIntents.createIntent(
+      TransactionIntentType.CREATE_TRUSTLINE,
+      transaction.toXDR(),
+      { assetCode, assetIssuer, limit },
+    );
+  }
 
+  async submitCreateTrustline(dto: SubmitSignedTransactionDto): Promise<TrustlineResult> {
+    const { transaction } = await this.transactionIntents.resolveSignedTransaction(
+      dto,
+      TransactionIntentType.CREATE_TRUSTLINE,
+    );
+
+    try {
       const result = await this.server.submitTransaction(transaction);
-      
+
       this.logger.log(`Trustline created successfully: ${result.hash}`);
       return {
         success: true,
@@ -78,43 +94,54 @@ export class TrustlineService {
     }
   }
 
-  async removeTrustline(publicKey: string, secretKey: string, assetCode: string, assetIssuer: string): Promise<TrustlineResult> {
-    try {
-      const asset = new Asset(assetCode, assetIssuer);
-      
-      // Check if trustline exists
-      const hasTrustline = await this.accountManager.hasTrustline(publicKey, asset);
-      if (!hasTrustline) {
-        throw new BadRequestException('Trustline does not exist for this asset');
-      }
+  async prepareRemoveTrustline(removeTrustlineDto: RemoveTrustlineDto): Promise<PreparedTransactionDto> {
+    const { publicKey, assetCode, assetIssuer } = removeTrustlineDto;
+    const asset = new Asset(assetCode, assetIssuer);
 
-      // Check if balance is zero
-      const trustlines = await this.accountManager.getTrustlines(publicKey);
-      const targetTrustline = trustlines.find(tl => 
-        tl.asset.getCode() === assetCode && tl.asset.getIssuer() === assetIssuer
-      );
+    // Check if trustline exists
+    const hasTrustline = await this.accountManager.hasTrustline(publicKey, asset);
+    if (!hasTrustline) {
+      throw new BadRequestException('Trustline does not exist for this asset');
+    }
 
-      if (targetTrustline && parseFloat(targetTrustline.balance) > 0) {
-        throw new BadRequestException('Cannot remove trustline with non-zero balance');
-      }
+    // Check if balance is zero
+    const trustlines = await this.accountManager.getTrustlines(publicKey);
+    const targetTrustline = trustlines.find(tl => 
+      tl.asset.getCode() === assetCode && tl.asset.getIssuer() === assetIssuer
+    );
 
-      // Build and submit transaction
-      const account = await this.server.loadAccount(publicKey);
-      const operation = this.accountManager.buildRemoveTrustlineOperation(asset);
-      
-      const transaction = new TransactionBuilder(account, {
-        fee: '100000',
-        networkPassphrase: this.stellarConfig.networkPassphrase,
-      })
-        .addOperation(operation)
-        .setTimeout(30)
-        .build();
+    if (targetTrustline && parseFloat(targetTrustline.balance) > 0) {
+      throw new BadRequestException('Cannot remove trustline with non-zero balance');
+    }
+
+    // Build the unsigned transaction for the wallet to sign
+    const account = await this.server.loadAccount(publicKey);
+    const operation = this.accountManager.buildRemoveTrustlineOperation(asset);
+
+    const transaction = new TransactionBuilder(account, {
+      fee: '100000',
+      networkPassphrase: this.stellarConfig.networkPassphrase,
+    })
+      .addOperation(operation)
+      .setTimeout(this.stellarConfig.transactionIntentTtl)
+      .build();
+
+    return this.transactionIntents.createIntent(
+      TransactionIntentType.REMOVE_TRUSTLINE,
+      transaction.toXDR(),
+      { assetCode, assetIssuer },
+    );
+  }
 
-      const keypair = Keypair.fromSecret(secretKey);
-      transaction.sign(keypair);
+  async submitRemoveTrustline(dto: SubmitSignedTransactionDto): Promise<TrustlineResult> {
+    const { transaction } = await this.transactionIntents.resolveSignedTransaction(
+      dto,
+      TransactionIntentType.REMOVE_TRUSTLINE,
+    );
 
+    try {
       const result = await this.server.submitTransaction(transaction);
-      
+
       this.logger.log(`Trustline removed successfully: ${result.hash}`);
       return {
         success: true,
@@ -177,7 +204,11 @@ export class TrustlineService {
     };
   }
 
-  async autoCreateTrustlineForTrade(publicKey: string, secretKey: string, asset: Asset): Promise<TrustlineResult> {
+  /**
+   * Returns success when the account can already hold the asset. Otherwise
+   * the result carries an unsigned change-trust transaction for the wallet.
+   */
+  async autoCreateTrustlineForTrade(publicKey: string, asset: Asset): Promise<TrustlineResult> {
     if (asset.isNative()) {
       return { success: true };
     }
@@ -195,11 +226,12 @@ export class TrustlineService {
       };
     }
 
-    return this.createTrustline({
+    const preparedTransaction = await this.prepareCreateTrustline({
       publicKey,
-      secretKey,
       assetCode: asset.getCode(),
       assetIssuer: asset.getIssuer()!,
     });
+
+    return { success: false, preparedTransaction };
   }
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { IsNumber, IsOptional, IsPositive } from 'class-validator';
+
+export class AmendLimitOrderDto {
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  price?: number;
+
+  @IsNumber()
+  @IsPositive()
+  @IsOptional()
+  amount?: number;
+}
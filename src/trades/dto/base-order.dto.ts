@@ -4,13 +4,16 @@ import {
   IsNumber,
   IsPositive,
   IsString,
+  Matches,
   ValidateIf,
 } from "class-validator";
 
 export class BaseOrderDto {
   @IsString()
-  @IsNotEmpty()
-  sourceSecret!: string;
+  @Matches(/^G[A-Z2-7]{55}$/, {
+    message: "sourcePublicKey must be a valid Stellar public key",
+  })
+  sourcePublicKey!: string;
 
   @Transform(({ value }) =>
     typeof value === "string" ? value.trim().toUpperCase() : value,
@@ -9,7 +9,7 @@ import {
   Min,
   Max,
 } from 'class-validator';
-import { TradeSide } from '../entities/trade.entity';
+import { TradeSide, TrailingStopType } from '../entities/trade.entity';
 
 export class ExecuteTradeDto {
   @IsUUID()
@@ -38,6 +38,15 @@ export class ExecuteTradeDto {
   @IsPositive()
   takeProfitPrice?: number;
 
+  @IsEnum(TrailingStopType)
+  @IsOptional()
+  trailingStopType?: TrailingStopType;
+
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsOptional()
+  @IsPositive()
+  trailingStopDistance?: number;
+
   @IsNumber({ maxDecimalPlaces: 2 })
   @IsOptional()
   @Min(0)
@@ -64,6 +73,24 @@ export class CloseTradeDto {
   exitPrice?: number;
 }
 
+export class SetTrailingStopDto {
+  @IsUUID()
+  @IsNotEmpty()
+  tradeId!: string;
+
+  @IsUUID()
+  @IsNotEmpty()
+  userId!: string;
+
+  @IsEnum(TrailingStopType)
+  @IsNotEmpty()
+  trailingStopType!: TrailingStopType;
+
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  trailingStopDistance!: number;
+}
+
 export class GetUserTradesDto {
   @IsUUID()
   @IsNotEmpty()
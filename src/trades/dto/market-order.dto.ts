@@ -1,14 +1,19 @@
 import { IsEnum, IsNumber, IsOptional, Max, Min } from "class-validator";
 import { BaseOrderDto } from "./base-order.dto";
-import { OrderType } from "./order-type.enum";
+import { MarketOrderRouting, OrderType } from "./order-type.enum";
 
 export class MarketOrderDto extends BaseOrderDto {
   @IsEnum(OrderType)
   orderType: OrderType = OrderType.MARKET;
 
+  // Falls back to the user's saved slippage preference for the pair
   @IsNumber()
   @IsOptional()
   @Min(0)
   @Max(100)
-  maxSlippagePercent = 1;
+  maxSlippagePercent?: number;
+
+  @IsEnum(MarketOrderRouting)
+  @IsOptional()
+  routing: MarketOrderRouting = MarketOrderRouting.ORDER_BOOK;
 }
@@ -9,13 +9,23 @@ export interface MarketOrderResponseDto {
   };
   slippagePercent: number;
   filledAmount: number;
+  route?: MarketOrderRouteDto;
   timestamp: Date;
 }
 
+export interface MarketOrderRouteDto {
+  type: 'direct' | 'path';
+  /** Intermediate assets between the selling and buying asset */
+  path: string[];
+  expectedAmount: number;
+  minimumAmount: number;
+}
+
 export interface LimitOrderResponseDto {
   hash: string;
+  orderId: string;
   orderType: 'limit';
-  status: 'open' | 'partially_filled' | 'filled';
+  status: 'open' | 'partially_filled' | 'filled' | 'cancelled';
   limitPrice: number;
   filledAmount?: number;
   remainingAmount?: number;
@@ -2,3 +2,10 @@ export enum OrderType {
   MARKET = "market",
   LIMIT = "limit",
 }
+
+export enum MarketOrderRouting {
+  /** Fill-or-kill sell offer against the direct order book */
+  ORDER_BOOK = "order_book",
+  /** Path payment over whichever route (direct or multi-hop) yields the most */
+  BEST_ROUTE = "best_route",
+}
@@ -1,4 +1,9 @@
-import { TradeStatus, TradeSide } from '../entities/trade.entity';
+import {
+  TradeStatus,
+  TradeSide,
+  TradeCloseReason,
+  TrailingStopType,
+} from '../entities/trade.entity';
 
 export class TradeResultDto {
   id!: string;
@@ -33,12 +38,17 @@ export class TradeDetailsDto {
   profitLoss?: string;
   profitLossPercentage?: string;
   stopLossPrice?: string;
-  takeProfitPrice?: string;
+  takeProfitPrice?: string | null;
+  trailingStopType?: TrailingStopType;
+  trailingStopDistance?: string;
+  highWaterMark?: string;
+  trailingStopPrice?: string;
   transactionHash?: string;
   sorobanContractId?: string;
   errorMessage?: string;
   executedAt?: Date;
   closedAt?: Date;
+  closeReason?: TradeCloseReason;
   createdAt!: Date;
   updatedAt!: Date;
 }
@@ -69,5 +79,6 @@ export class CloseTradeResultDto {
   profitLossPercentage!: string;
   transactionHash?: string;
   closedAt!: Date;
+  closeReason!: TradeCloseReason;
   message!: string;
 }
@@ -0,0 +1,107 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum LimitOrderStatus {
+  OPEN = 'open',
+  PARTIALLY_FILLED = 'partially_filled',
+  FILLED = 'filled',
+  CANCELLED = 'cancelled',
+}
+
+export interface LimitOrderFill {
+  eventId: string;
+  amount: string;
+  price: string;
+  filledAt: string;
+}
+
+@Entity('limit_orders')
+@Index(['accountId', 'status'])
+export class LimitOrder {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ name: 'account_id', length: 56 })
+  accountId!: string;
+
+  // Null when the order filled completely on submission and no offer was left on the book
+  @Column({ name: 'offer_id', type: 'varchar', length: 32, nullable: true })
+  @Index()
+  offerId?: string | null;
+
+  @Column({ name: 'selling_asset_code', length: 12 })
+  sellingAssetCode!: string;
+
+  @Column({
+    name: 'selling_asset_issuer',
+    type: 'varchar',
+    length: 56,
+    nullable: true,
+  })
+  sellingAssetIssuer?: string | null;
+
+  @Column({ name: 'buying_asset_code', length: 12 })
+  buyingAssetCode!: string;
+
+  @Column({
+    name: 'buying_asset_issuer',
+    type: 'varchar',
+    length: 56,
+    nullable: true,
+  })
+  buyingAssetIssuer?: string | null;
+
+  @Column({ type: 'decimal', precision: 18, scale: 7 })
+  price!: string;
+
+  @Column({ type: 'decimal', precision: 18, scale: 7 })
+  amount!: string;
+
+  @Column({
+    name: 'filled_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 7,
+    default: '0',
+  })
+  filledAmount!: string;
+
+  @Column({
+    name: 'remaining_amount',
+    type: 'decimal',
+    precision: 18,
+    scale: 7,
+  })
+  remainingAmount!: string;
+
+  @Column({
+    type: 'enum',
+    enum: LimitOrderStatus,
+    default: LimitOrderStatus.OPEN,
+  })
+  status!: LimitOrderStatus;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  fills!: LimitOrderFill[];
+
+  @Column({ name: 'transaction_hash', type: 'varchar', length: 64 })
+  transactionHash!: string;
+
+  @Column({ name: 'filled_at', type: 'timestamp', nullable: true })
+  filledAt?: Date | null;
+
+  @Column({ name: 'cancelled_at', type: 'timestamp', nullable: true })
+  cancelledAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt!: Date;
+}
@@ -23,6 +23,19 @@ export enum TradeSide {
   SELL = 'sell',
 }
 
+export enum TradeCloseReason {
+  MANUAL = 'manual',
+  STOP_LOSS = 'stop_loss',
+  TAKE_PROFIT = 'take_profit',
+  TRAILING_STOP = 'trailing_stop',
+  SIGNAL_CLOSED = 'signal_closed',
+}
+
+export enum TrailingStopType {
+  PERCENTAGE = 'percentage',
+  ABSOLUTE = 'absolute',
+}
+
 @Entity('trades')
 export class Trade {
   @PrimaryGeneratedColumn('uuid')
@@ -92,7 +105,17 @@ export class Trade {
   stopLossPrice?: string;
 
   @Column({ name: 'take_profit_price', type: 'decimal', precision: 18, scale: 8, nullable: true })
-  takeProfitPrice?: string;
+  takeProfitPrice?: string | null;
+
+  @Column({ name: 'trailing_stop_type', type: 'enum', enum: TrailingStopType, nullable: true })
+  trailingStopType?: TrailingStopType;
+
+  @Column({ name: 'trailing_stop_distance', type: 'decimal', precision: 18, scale: 8, nullable: true })
+  trailingStopDistance?: string;
+
+  // Best price seen since the trailing stop was armed: highest for buys, lowest for sells
+  @Column({ name: 'high_water_mark', type: 'decimal', precision: 18, scale: 8, nullable: true })
+  highWaterMark?: string;
 
   @Column({ name: 'error_message', type: 'text', nullable: true })
   errorMessage?: string;
@@ -103,6 +126,12 @@ export class Trade {
   @Column({ name: 'closed_at', type: 'timestamp', nullable: true })
   closedAt?: Date;
 
+  @Column({ name: 'close_reason', type: 'enum', enum: TradeCloseReason, nullable: true })
+  closeReason?: TradeCloseReason;
+
+  @Column({ name: 'close_transaction_hash', type: 'varchar', length: 128, nullable: true })
+  closeTransactionHash?: string;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata?: Record<string, unknown>;
 
@@ -0,0 +1,34 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  CHECK_OPEN_TRADES_JOB,
+  TRADE_MONITOR_QUEUE,
+  TradeMonitorResult,
+  TradeMonitorService,
+} from '../services/trade-monitor.service';
+
+@Processor(TRADE_MONITOR_QUEUE)
+export class MonitorOpenTradesJob {
+  private readonly logger = new Logger(MonitorOpenTradesJob.name);
+
+  constructor(private readonly tradeMonitorService: TradeMonitorService) {}
+
+  @Process(CHECK_OPEN_TRADES_JOB)
+  async checkOpenTrades(): Promise<TradeMonitorResult> {
+    const result = await this.tradeMonitorService.checkOpenTrades();
+
+    if (result.closed > 0 || result.errors > 0) {
+      this.logger.log(
+        `Trade monitor: ${result.checked} checked, ${result.closed} closed, ${result.errors} errors`,
+      );
+    }
+
+    return result;
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job, error: Error) {
+    this.logger.error(`Job ${job.id} failed with error: ${error.message}`);
+  }
+}
@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Account, Horizon, Keypair, Networks } from '@stellar/stellar-sdk';
+import { LimitOrderService } from './limit-order.service';
+import { LimitOrder, LimitOrderStatus } from '../entities/limit-order.entity';
+import { User } from '../../users/entities/user.entity';
+import { StellarConfigService } from '../../config/stellar.service';
+import { TransactionIntentService } from '../../stellar/transactions/transaction-intent.service';
+import { TradeEvent } from '../../stellar/interfaces/horizon-event.interface';
+
+describe('LimitOrderService', () => {
+  let service: LimitOrderService;
+
+  const account = Keypair.random().publicKey();
+  const usdcIssuer = Keypair.random().publicKey();
+  const otherIssuer = Keypair.random().publicKey();
+
+  const buildOrder = (overrides: Partial<LimitOrder> = {}): LimitOrder =>
+    ({
+      id: 'order-1',
+      accountId: account,
+      offerId: '1001',
+      sellingAssetCode: 'USDC',
+      sellingAssetIssuer: usdcIssuer,
+      buyingAssetCode: 'XLM',
+      buyingAssetIssuer: null,
+      price: '2.0000000',
+      amount: '100.0000000',
+      filledAmount: '0',
+      remainingAmount: '100.0000000',
+      status: LimitOrderStatus.OPEN,
+      fills: [],
+      transactionHash: 'hash-1',
+      ...overrides,
+    }) as LimitOrder;
+
+  const buildTradeEvent = (issuer: string): TradeEvent =>
+    ({
+      eventId: 'event-1',
+      eventType: 'trade',
+      accountId: account,
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+      data: {
+        seller: account,
+        buyer: Keypair.random().publicKey(),
+        soldAmount: '40',
+        soldAsset: { type: 'credit_alphanum4', code: 'USDC', issuer },
+        boughtAmount: '80',
+        boughtAsset: { type: 'native' },
+        price: '2',
+        offerId: '1001',
+      },
+    }) as unknown as TradeEvent;
+
+  const bookOffer = (id: string, amount: string) => ({
+    id,
+    amount,
+    price: '2.0000000',
+    selling: {
+      asset_type: 'credit_alphanum4',
+      asset_code: 'USDC',
+      asset_issuer: usdcIssuer,
+    },
+    buying: { asset_type: 'native' },
+  });
+
+  const mockOffers = (records: unknown[]) => {
+    const builder: any = {
+      forAccount: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      call: async () => ({ records }),
+    };
+    jest.spyOn(Horizon.Server.prototype, 'offers').mockReturnValue(builder);
+  };
+
+  const mockManager = {
+    findOne: jest.fn(),
+    save: jest.fn(async (order) => order),
+  };
+
+  const mockLimitOrderRepository = {
+    create: jest.fn((order) => order),
+    save: jest.fn(async (order) => order),
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(),
+    manager: {
+      transaction: jest.fn(async (work) => work(mockManager)),
+    },
+  };
+
+  const mockTransactionIntents = {
+    createIntent: jest.fn(async () => ({ intentId: 'intent-1' })),
+    resolveSignedTransaction: jest.fn(),
+  };
+
+  const mockStellarConfig = {
+    horizonUrl: 'https://horizon-testnet.stellar.org',
+    networkPassphrase: Networks.TESTNET,
+    transactionIntentTtl: 300,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LimitOrderService,
+        {
+          provide: getRepositoryToken(LimitOrder),
+          useValue: mockLimitOrderRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: {} },
+        { provide: StellarConfigService, useValue: mockStellarConfig },
+        { provide: TransactionIntentService, useValue: mockTransactionIntents },
+      ],
+    }).compile();
+
+    service = module.get<LimitOrderService>(LimitOrderService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('handleTradeEvent', () => {
+    it('records fills of the order asset', async () => {
+      const order = buildOrder();
+      mockManager.findOne.mockResolvedValue(order);
+
+      await service.handleTradeEvent(buildTradeEvent(usdcIssuer));
+
+      expect(mockManager.findOne).toHaveBeenCalledWith(LimitOrder, {
+        where: { offerId: '1001', accountId: account },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(order).toMatchObject({
+        status: LimitOrderStatus.PARTIALLY_FILLED,
+        filledAmount: '40.0000000',
+        remainingAmount: '60.0000000',
+      });
+      expect(mockManager.save).toHaveBeenCalledWith(order);
+    });
+
+    it('skips a trade already recorded as a fill', async () => {
+      const order = buildOrder({
+        filledAmount: '40.0000000',
+        remainingAmount: '60.0000000',
+        status: LimitOrderStatus.PARTIALLY_FILLED,
+        fills: [
+          {
+            eventId: 'event-1',
+            amount: '40.0000000',
+            price: '2',
+            filledAt: '2025-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+      mockManager.findOne.mockResolvedValue(order);
+
+      await service.handleTradeEvent(buildTradeEvent(usdcIssuer));
+
+      expect(order.remainingAmount).toBe('60.0000000');
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('ignores assets with the same code from another issuer', async () => {
+      mockManager.findOne.mockResolvedValue(buildOrder());
+
+      await service.handleTradeEvent(buildTradeEvent(otherIssuer));
+
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitOrder', () => {
+    const submitPlaceOrder = () => {
+      mockTransactionIntents.resolveSignedTransaction.mockResolvedValue({
+        intent: {
+          sourceAccount: account,
+          metadata: {
+            action: 'place',
+            sellingAssetCode: 'USDC',
+            sellingAssetIssuer: usdcIssuer,
+            buyingAssetCode: 'XLM',
+            buyingAssetIssuer: null,
+            amount: 100,
+            price: 2,
+          },
+        },
+        transaction: {},
+      });
+      jest
+        .spyOn(Horizon.Server.prototype, 'submitTransaction')
+        .mockResolvedValue({ hash: 'hash-1' } as any);
+
+      return service.submitOrder({
+        intentId: 'intent-1',
+        signedXdr: 'xdr',
+      } as any);
+    };
+
+    it('finds the offer on the book when Horizon omits offerResults', async () => {
+      mockOffers([bookOffer('2002', '75.0000000')]);
+
+      const response = await submitPlaceOrder();
+
+      expect(response).toMatchObject({
+        offerId: '2002',
+        status: LimitOrderStatus.PARTIALLY_FILLED,
+        filledAmount: 25,
+        remainingAmount: 75,
+      });
+    });
+
+    it('treats an offer missing from the book as filled on submission', async () => {
+      mockOffers([]);
+
+      const response = await submitPlaceOrder();
+
+      expect(response).toMatchObject({
+        status: LimitOrderStatus.FILLED,
+        filledAmount: 100,
+        remainingAmount: 0,
+      });
+    });
+  });
+
+  describe('prepareCancelOrder', () => {
+    it('resolves a missing offer ID before building the cancellation', async () => {
+      const order = buildOrder({ offerId: null });
+      mockLimitOrderRepository.findOne.mockResolvedValue(order);
+      mockOffers([bookOffer('3003', '100.0000000')]);
+      jest
+        .spyOn(Horizon.Server.prototype, 'loadAccount')
+        .mockResolvedValue(new Account(account, '1') as any);
+
+      await service.prepareCancelOrder('order-1');
+
+      expect(order.offerId).toBe('3003');
+      expect(mockLimitOrderRepository.save).toHaveBeenCalledWith(order);
+      expect(mockTransactionIntents.createIntent).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(String),
+        expect.objectContaining({ action: 'cancel', orderId: 'order-1' }),
+      );
+    });
+  });
+});
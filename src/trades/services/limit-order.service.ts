@@ -3,18 +3,35 @@ import {
   Injectable,
   InternalServerErrorException,
   Logger,
+  NotFoundException,
 } from "@nestjs/common";
+import { OnEvent } from "@nestjs/event-emitter";
+import { InjectRepository } from "@nestjs/typeorm";
+import { In, Repository } from "typeorm";
+import Big from "big.js";
 import {
   Asset,
   BASE_FEE,
   Horizon,
-  Keypair,
   Operation,
   TransactionBuilder,
 } from "@stellar/stellar-sdk";
 import { StellarConfigService } from "../../config/stellar.service";
+import {
+  PreparedTransactionDto,
+  TransactionIntentType,
+} from "../../stellar/transactions/dto/prepared-transaction.dto";
+import { SubmitSignedTransactionDto } from "../../stellar/transactions/dto/submit-signed-transaction.dto";
+import { TransactionIntentService } from "../../stellar/transactions/transaction-intent.service";
+import { TradeEvent } from "../../stellar/interfaces/horizon-event.interface";
+import { User } from "../../users/entities/user.entity";
+import { AmendLimitOrderDto } from "../dto/amend-limit-order.dto";
 import { LimitOrderDto } from "../dto/limit-order.dto";
 import { LimitOrderResponseDto } from "../dto/order-response.dto";
+import {
+  LimitOrder,
+  LimitOrderStatus,
+} from "../entities/limit-order.entity";
 import { buildAsset } from "./asset-utils";
 
 interface OrderBookAnalysis {
@@ -24,22 +41,63 @@ interface OrderBookAnalysis {
   liquidityAtPrice: number;
 }
 
+type LimitOrderAction = "place" | "amend" | "cancel";
+
+interface LimitOrderIntentDetails {
+  action: LimitOrderAction;
+  orderId?: string;
+  sellingAssetCode: string;
+  sellingAssetIssuer?: string | null;
+  buyingAssetCode: string;
+  buyingAssetIssuer?: string | null;
+  amount: number;
+  price: number;
+  orderBook?: OrderBookAnalysis;
+}
+
+/**
+ * Subset of the `offerResults` entry Horizon's submitTransaction attaches
+ * for manage offer operations (not part of the SDK's response typings).
+ */
+interface SubmittedOfferResult {
+  effect: "manageOfferCreated" | "manageOfferUpdated" | "manageOfferDeleted";
+  wasImmediatelyFilled: boolean;
+  wasPartiallyFilled: boolean;
+  amountSold: string | number;
+  currentOffer?: {
+    offerId: string;
+    amount: string;
+  };
+}
+
+const ACTIVE_STATUSES = [
+  LimitOrderStatus.OPEN,
+  LimitOrderStatus.PARTIALLY_FILLED,
+];
+
 @Injectable()
 export class LimitOrderService {
   private readonly server: Horizon.Server;
   private readonly logger = new Logger(LimitOrderService.name);
 
-  constructor(private readonly stellarConfig: StellarConfigService) {
+  constructor(
+    @InjectRepository(LimitOrder)
+    private readonly limitOrderRepository: Repository<LimitOrder>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly stellarConfig: StellarConfigService,
+    private readonly transactionIntents: TransactionIntentService,
+  ) {
     this.server = new Horizon.Server(this.stellarConfig.horizonUrl, {
       allowHttp: this.stellarConfig.horizonUrl.startsWith("http://"),
     });
   }
 
   /**
-   * Place a limit order (waits for specific price to be reached)
+   * Build an unsigned limit order (waits for specific price to be reached)
    * Limit orders use manageSellOffer with a specified price
    */
-  async placeOrder(dto: LimitOrderDto): Promise<LimitOrderResponseDto> {
+  async prepareOrder(dto: LimitOrderDto): Promise<PreparedTransactionDto> {
     try {
       // Validate and build assets
       const sellingAsset = buildAsset(
@@ -89,11 +147,8 @@ export class LimitOrderService {
         }
       }
 
-      // Load account and validate
-      const keypair = this.parseKeypair(dto.sourceSecret);
-      const account = await this.loadAccount(keypair.publicKey());
+      const account = await this.loadAccount(dto.sourcePublicKey);
 
-      // Build and submit transaction
       const transaction = new TransactionBuilder(account, {
         fee: BASE_FEE,
         networkPassphrase: this.stellarConfig.networkPassphrase,
@@ -107,41 +162,434 @@ export class LimitOrderService {
             offerId: "0", // New offer (use existing ID to update/cancel)
           }),
         )
-        .setTimeout(30)
+        .setTimeout(this.stellarConfig.transactionIntentTtl)
         .build();
 
-      transaction.sign(keypair);
+      const details: LimitOrderIntentDetails = {
+        action: "place",
+        sellingAssetCode: dto.sellingAssetCode,
+        sellingAssetIssuer: dto.sellingAssetIssuer ?? null,
+        buyingAssetCode: dto.buyingAssetCode,
+        buyingAssetIssuer: dto.buyingAssetIssuer ?? null,
+        amount: dto.amount,
+        price: dto.price,
+        orderBook: orderBookAnalysis,
+      };
+
+      return await this.transactionIntents.createIntent(
+        TransactionIntentType.LIMIT_ORDER,
+        transaction.toXDR(),
+        { ...details },
+      );
+    } catch (error) {
+      this.handleOrderError(error, dto);
+    }
+  }
+
+  /**
+   * Build an unsigned update of an open offer's price and/or remaining amount
+   * (manageSellOffer with the existing offer ID)
+   */
+  async prepareAmendOrder(
+    orderId: string,
+    dto: AmendLimitOrderDto,
+  ): Promise<PreparedTransactionDto> {
+    if (dto.price === undefined && dto.amount === undefined) {
+      throw new BadRequestException("Provide a new price and/or amount");
+    }
+
+    const order = await this.getActiveOrder(orderId);
+
+    return this.prepareOfferUpdate(order, {
+      action: "amend",
+      price: dto.price ?? Number(order.price),
+      amount: dto.amount ?? Number(order.remainingAmount),
+    });
+  }
+
+  /**
+   * Build an unsigned cancellation of an open offer (manageSellOffer with amount 0)
+   */
+  async prepareCancelOrder(orderId: string): Promise<PreparedTransactionDto> {
+    const order = await this.getActiveOrder(orderId);
+
+    return this.prepareOfferUpdate(order, {
+      action: "cancel",
+      price: Number(order.price),
+      amount: 0,
+    });
+  }
+
+  /**
+   * Submit a signed place, amend or cancel transaction and record the
+   * resulting offer state
+   */
+  async submitOrder(
+    dto: SubmitSignedTransactionDto,
+  ): Promise<LimitOrderResponseDto> {
+    const { intent, transaction } =
+      await this.transactionIntents.resolveSignedTransaction(
+        dto,
+        TransactionIntentType.LIMIT_ORDER,
+      );
+    const details = intent.metadata as unknown as LimitOrderIntentDetails;
 
+    try {
       this.logger.log(
-        `Submitting limit order transaction for ${keypair.publicKey()}`,
+        `Submitting limit order ${details.action} transaction for ${intent.sourceAccount}`,
       );
 
       const result = await this.server.submitTransaction(transaction);
+      let offerResult = (
+        result as unknown as { offerResults?: SubmittedOfferResult[] }
+      ).offerResults?.[0];
+
+      this.logger.log(
+        `Limit order ${details.action} submitted successfully: ${result.hash}`,
+      );
+
+      const order = details.orderId
+        ? await this.limitOrderRepository.findOneOrFail({
+            where: { id: details.orderId },
+          })
+        : this.limitOrderRepository.create({
+            accountId: intent.sourceAccount,
+            sellingAssetCode: details.sellingAssetCode,
+            sellingAssetIssuer: details.sellingAssetIssuer ?? null,
+            buyingAssetCode: details.buyingAssetCode,
+            buyingAssetIssuer: details.buyingAssetIssuer ?? null,
+            amount: this.formatAmount(details.amount),
+            filledAmount: "0",
+            fills: [],
+          });
+
+      order.price = this.formatPrice(details.price);
+      order.remainingAmount = this.formatAmount(details.amount);
+      order.transactionHash = result.hash;
+      if (details.action === "amend") {
+        // The amended amount replaces what was left, so keep the total consistent
+        order.amount = new Big(order.filledAmount)
+          .plus(order.remainingAmount)
+          .toFixed(7);
+      }
+
+      if (!offerResult && details.action !== "cancel") {
+        offerResult = await this.lookUpOfferResult(order);
+      }
+      this.applyOfferResult(order, details.action, offerResult);
+
+      const saved = await this.limitOrderRepository.save(order);
+
+      return this.toResponse(saved);
+    } catch (error) {
+      this.handleOrderError(error, details);
+    }
+  }
+
+  /**
+   * List a user's limit orders, open ones only unless a status is given
+   */
+  async getUserOrders(
+    userId: string,
+    status?: LimitOrderStatus,
+  ): Promise<LimitOrder[]> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    return this.limitOrderRepository.find({
+      where: {
+        accountId: user.walletAddress,
+        status: status ?? In(ACTIVE_STATUSES),
+      },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  /**
+   * Reconcile fills of our offers from the trade effects streamed by Horizon
+   */
+  @OnEvent("stellar.trade")
+  async handleTradeEvent(event: TradeEvent): Promise<void> {
+    const { offerId, soldAmount, soldAsset, price } = event.data;
+
+    try {
+      await this.limitOrderRepository.manager.transaction(async (manager) => {
+        // Locked so concurrent or redelivered trades apply their fills in turn
+        const order = await manager.findOne(LimitOrder, {
+          where: { offerId, accountId: event.accountId },
+          lock: { mode: "pessimistic_write" },
+        });
+
+        // Only the seller side of a trade against one of our offers counts as a fill
+        if (
+          !order ||
+          !this.matchesAsset(
+            soldAsset,
+            order.sellingAssetCode,
+            order.sellingAssetIssuer,
+          ) ||
+          order.fills.some((fill) => fill.eventId === event.eventId)
+        ) {
+          return;
+        }
+
+        const filled = new Big(soldAmount);
+        const remaining = new Big(order.remainingAmount).minus(filled);
+
+        order.fills = [
+          ...order.fills,
+          {
+            eventId: event.eventId,
+            amount: filled.toFixed(7),
+            price,
+            filledAt: event.timestamp.toISOString(),
+          },
+        ];
+        order.filledAmount = new Big(order.filledAmount)
+          .plus(filled)
+          .toFixed(7);
+        order.remainingAmount = remaining.gt(0) ? remaining.toFixed(7) : "0";
+
+        if (remaining.lte(0)) {
+          order.status = LimitOrderStatus.FILLED;
+          order.filledAt = event.timestamp;
+        } else if (order.status === LimitOrderStatus.OPEN) {
+          order.status = LimitOrderStatus.PARTIALLY_FILLED;
+        }
+
+        await manager.save(order);
+
+        this.logger.log(
+          `Limit order ${order.id} filled ${filled.toFixed(7)} ${order.sellingAssetCode} (${order.status})`,
+        );
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to reconcile fill for offer ${offerId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async getActiveOrder(orderId: string): Promise<LimitOrder> {
+    const order = await this.limitOrderRepository.findOne({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      throw new NotFoundException(`Limit order ${orderId} not found`);
+    }
+
+    // Placed without an offer ID when Horizon's response omitted it
+    if (ACTIVE_STATUSES.includes(order.status) && !order.offerId) {
+      const offerResult = await this.lookUpOfferResult(order);
+      if (offerResult) {
+        this.applyOfferResult(order, "place", offerResult);
+        await this.limitOrderRepository.save(order);
+      }
+    }
+
+    if (!ACTIVE_STATUSES.includes(order.status) || !order.offerId) {
+      throw new BadRequestException(
+        `Limit order ${orderId} is ${order.status} and can no longer be changed`,
+      );
+    }
+
+    return order;
+  }
+
+  private async prepareOfferUpdate(
+    order: LimitOrder,
+    update: { action: LimitOrderAction; price: number; amount: number },
+  ): Promise<PreparedTransactionDto> {
+    try {
+      const sellingAsset = buildAsset(
+        order.sellingAssetCode,
+        order.sellingAssetIssuer ?? undefined,
+        "Selling asset",
+      );
+      const buyingAsset = buildAsset(
+        order.buyingAssetCode,
+        order.buyingAssetIssuer ?? undefined,
+        "Buying asset",
+      );
+      const account = await this.loadAccount(order.accountId);
+
+      const transaction = new TransactionBuilder(account, {
+        fee: BASE_FEE,
+        networkPassphrase: this.stellarConfig.networkPassphrase,
+      })
+        .addOperation(
+          Operation.manageSellOffer({
+            selling: sellingAsset,
+            buying: buyingAsset,
+            amount: this.formatAmount(update.amount),
+            price: this.formatPrice(update.price),
+            offerId: order.offerId!,
+          }),
+        )
+        .setTimeout(this.stellarConfig.transactionIntentTtl)
+        .build();
 
-      this.logger.log(`Limit order placed successfully: ${result.hash}`);
+      const details: LimitOrderIntentDetails = {
+        action: update.action,
+        orderId: order.id,
+        sellingAssetCode: order.sellingAssetCode,
+        buyingAssetCode: order.buyingAssetCode,
+        amount: update.amount,
+        price: update.price,
+      };
 
-      // Determine initial status based on order book
-      // If price matches existing orders, it may fill immediately (partially or fully)
-      const status =
-        dto.price >= orderBookAnalysis.bestBidPrice &&
-        orderBookAnalysis.bestBidPrice > 0
-          ? "filled" // Price crosses spread, likely filled immediately
-          : "open"; // Price outside spread, waiting for match
+      return await this.transactionIntents.createIntent(
+        TransactionIntentType.LIMIT_ORDER,
+        transaction.toXDR(),
+        { ...details },
+      );
+    } catch (error) {
+      this.handleOrderError(error, {
+        amount: update.amount,
+        sellingAssetCode: order.sellingAssetCode,
+      });
+    }
+  }
 
+  /**
+   * Derive the order state from Horizon's analysis of the submitted offer.
+   * Without it we can only assume the offer rests on the book untouched.
+   */
+  private applyOfferResult(
+    order: LimitOrder,
+    action: LimitOrderAction,
+    offerResult?: SubmittedOfferResult,
+  ): void {
+    const amountSold = new Big(String(offerResult?.amountSold ?? 0));
+
+    if (amountSold.gt(0)) {
+      order.filledAmount = new Big(order.filledAmount)
+        .plus(amountSold)
+        .toFixed(7);
+    }
+
+    if (offerResult?.currentOffer) {
+      order.offerId = offerResult.currentOffer.offerId;
+      order.remainingAmount = new Big(offerResult.currentOffer.amount).toFixed(
+        7,
+      );
+    } else if (offerResult) {
+      order.remainingAmount = "0";
+    }
+
+    if (action === "cancel") {
+      order.status = LimitOrderStatus.CANCELLED;
+      order.cancelledAt = new Date();
+    } else if (offerResult?.effect === "manageOfferDeleted") {
+      order.status = LimitOrderStatus.FILLED;
+      order.filledAt = new Date();
+    } else if (new Big(order.filledAmount).gt(0)) {
+      order.status = LimitOrderStatus.PARTIALLY_FILLED;
+    } else {
+      order.status = LimitOrderStatus.OPEN;
+    }
+  }
+
+  /**
+   * Stand-in for the offerResults Horizon sometimes leaves out of the
+   * submit response. The order's offer is the account's newest one for the
+   * pair and price (or its known offer ID); if none is on the book the
+   * order filled completely on submission. Undefined when Horizon cannot
+   * be reached.
+   */
+  private async lookUpOfferResult(
+    order: LimitOrder,
+  ): Promise<SubmittedOfferResult | undefined> {
+    try {
+      const { records } = await this.server
+        .offers()
+        .forAccount(order.accountId)
+        .order("desc")
+        .limit(200)
+        .call();
+
+      const offer = records.find((record) =>
+        order.offerId
+          ? record.id === order.offerId
+          : this.matchesAsset(
+              {
+                type: record.selling.asset_type,
+                code: record.selling.asset_code,
+                issuer: record.selling.asset_issuer,
+              },
+              order.sellingAssetCode,
+              order.sellingAssetIssuer,
+            ) &&
+            this.matchesAsset(
+              {
+                type: record.buying.asset_type,
+                code: record.buying.asset_code,
+                issuer: record.buying.asset_issuer,
+              },
+              order.buyingAssetCode,
+              order.buyingAssetIssuer,
+            ) &&
+            new Big(record.price).eq(order.price),
+      );
+
+      if (!offer) {
+        return {
+          effect: "manageOfferDeleted",
+          wasImmediatelyFilled: true,
+          wasPartiallyFilled: false,
+          amountSold: order.remainingAmount,
+        };
+      }
+
+      const sold = new Big(order.remainingAmount).minus(offer.amount);
       return {
-        hash: result.hash,
-        orderType: "limit",
-        status: status as "open" | "partially_filled" | "filled",
-        limitPrice: dto.price,
-        filledAmount: status === "filled" ? dto.amount : undefined,
-        remainingAmount: status === "open" ? dto.amount : undefined,
-        timestamp: new Date(),
+        effect: order.offerId ? "manageOfferUpdated" : "manageOfferCreated",
+        wasImmediatelyFilled: false,
+        wasPartiallyFilled: sold.gt(0),
+        amountSold: sold.gt(0) ? sold.toFixed(7) : "0",
+        currentOffer: { offerId: String(offer.id), amount: offer.amount },
       };
     } catch (error) {
-      this.handleOrderError(error, dto);
+      this.logger.warn(
+        `Failed to look up offer for limit order ${order.id ?? "(new)"}: ${(error as Error).message}`,
+      );
+      return undefined;
     }
   }
 
+  /**
+   * Orders store XLM as the code "XLM" with no issuer; other assets need
+   * both code and issuer to match
+   */
+  private matchesAsset(
+    asset: { type: string; code?: string; issuer?: string },
+    code: string,
+    issuer?: string | null,
+  ): boolean {
+    if (code === "XLM" && !issuer) {
+      return asset.type === "native";
+    }
+
+    return asset.code === code && asset.issuer === issuer;
+  }
+
+  private toResponse(order: LimitOrder): LimitOrderResponseDto {
+    return {
+      hash: order.transactionHash,
+      orderId: order.id,
+      orderType: "limit",
+      status: order.status,
+      limitPrice: Number(order.price),
+      filledAmount: Number(order.filledAmount),
+      remainingAmount: Number(order.remainingAmount),
+      offerId: order.offerId ?? undefined,
+      timestamp: order.updatedAt ?? new Date(),
+    };
+  }
+
   /**
    * Analyze order book to provide context for limit order placement
    */
@@ -202,18 +650,6 @@ export class LimitOrderService {
     }
   }
 
-  /**
-   * Parse and validate keypair from secret
-   */
-  private parseKeypair(secret: string): Keypair {
-    try {
-      return Keypair.fromSecret(secret);
-    } catch (error) {
-      this.logger.error(`Invalid secret key format: ${(error as Error).message}`);
-      throw new BadRequestException("Invalid source secret key format");
-    }
-  }
-
   /**
    * Load account from Stellar network with error handling
    */
@@ -240,7 +676,10 @@ export class LimitOrderService {
   /**
    * Handle and format order execution errors
    */
-  private handleOrderError(error: any, dto: LimitOrderDto): never {
+  private handleOrderError(
+    error: any,
+    dto: Pick<LimitOrderDto, "amount" | "sellingAssetCode">,
+  ): never {
     if (
       error instanceof BadRequestException ||
       error instanceof InternalServerErrorException
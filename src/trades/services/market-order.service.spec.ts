@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Account, Horizon, Keypair, Networks } from '@stellar/stellar-sdk';
+import { MarketOrderService } from './market-order.service';
+import { User } from '../../users/entities/user.entity';
+import { StellarConfigService } from '../../config/stellar.service';
+import { TransactionIntentService } from '../../stellar/transactions/transaction-intent.service';
+import { SdexService } from '../../sdex/sdex.service';
+import { SlippageProtectionService } from '../../slippage/slippage-protection.service';
+import { MarketOrderDto } from '../dto/market-order.dto';
+import { MarketOrderRouting } from '../dto/order-type.enum';
+
+describe('MarketOrderService', () => {
+  let service: MarketOrderService;
+
+  const account = Keypair.random().publicKey();
+  const usdcIssuer = Keypair.random().publicKey();
+
+  const buildDto = (overrides: Partial<MarketOrderDto> = {}) =>
+    ({
+      sourcePublicKey: account,
+      sellingAssetCode: 'XLM',
+      buyingAssetCode: 'USDC',
+      buyingAssetIssuer: usdcIssuer,
+      amount: 100,
+      maxSlippagePercent: 5,
+      routing: MarketOrderRouting.BEST_ROUTE,
+      ...overrides,
+    }) as MarketOrderDto;
+
+  // destination amounts keyed by the amount sent
+  const mockPaths = (
+    quotes: Record<string, { amount: string; path?: any[] }>,
+  ) =>
+    jest
+      .spyOn(Horizon.Server.prototype, 'strictSendPaths')
+      .mockImplementation((_source, sendAmount) => {
+        const quote = quotes[sendAmount as string];
+        return {
+          call: async () => ({
+            records: quote
+              ? [
+                  {
+                    destination_amount: quote.amount,
+                    path: quote.path ?? [],
+                  },
+                ]
+              : [],
+          }),
+        } as any;
+      });
+
+  const mockSdexService = { getOrderbook: jest.fn() };
+
+  const mockTransactionIntents = {
+    createIntent: jest.fn(async (_type, _xdr, metadata) => ({ metadata })),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarketOrderService,
+        { provide: getRepositoryToken(User), useValue: {} },
+        {
+          provide: StellarConfigService,
+          useValue: {
+            horizonUrl: 'https://horizon-testnet.stellar.org',
+            networkPassphrase: Networks.TESTNET,
+            transactionIntentTtl: 300,
+          },
+        },
+        { provide: TransactionIntentService, useValue: mockTransactionIntents },
+        { provide: SdexService, useValue: mockSdexService },
+        { provide: SlippageProtectionService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<MarketOrderService>(MarketOrderService);
+
+    jest
+      .spyOn(Horizon.Server.prototype, 'loadAccount')
+      .mockResolvedValue(new Account(account, '1') as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('prepareOrder with best routing', () => {
+    it('sizes bids in the buying asset when quoting the direct route', async () => {
+      // 100 USDC at 0.5 takes up to 200 XLM
+      mockSdexService.getOrderbook.mockResolvedValue({
+        bids: [{ price: '0.5', amount: '100' }],
+      });
+      mockPaths({
+        '100.0000000': { amount: '49' },
+        '1.0000000': { amount: '0.5' },
+      });
+
+      const prepared: any = await service.prepareOrder(buildDto());
+
+      expect(prepared.metadata).toMatchObject({
+        slippagePercent: 0,
+        route: { type: 'direct', expectedAmount: 50, minimumAmount: 47.5 },
+      });
+    });
+
+    it('takes the path route when the book cannot fill the order', async () => {
+      // 25 USDC at 0.5 only absorbs 50 XLM
+      mockSdexService.getOrderbook.mockResolvedValue({
+        bids: [{ price: '0.5', amount: '25' }],
+      });
+      mockPaths({
+        '100.0000000': {
+          amount: '48',
+          path: [
+            {
+              asset_type: 'credit_alphanum4',
+              asset_code: 'EURC',
+              asset_issuer: usdcIssuer,
+            },
+          ],
+        },
+        '1.0000000': { amount: '0.5' },
+      });
+
+      const prepared: any = await service.prepareOrder(buildDto());
+
+      expect(prepared.metadata).toMatchObject({
+        slippagePercent: 4,
+        priceEstimate: { bestPrice: 0.5, averagePrice: 0.48 },
+        route: {
+          type: 'path',
+          path: [`EURC:${usdcIssuer}`],
+          expectedAmount: 48,
+        },
+      });
+    });
+
+    it('rejects a route whose slippage exceeds the limit', async () => {
+      mockSdexService.getOrderbook.mockRejectedValue(new Error('no book'));
+      mockPaths({
+        '100.0000000': { amount: '48' },
+        '1.0000000': { amount: '0.5' },
+      });
+
+      await expect(
+        service.prepareOrder(buildDto({ maxSlippagePercent: 1 })),
+      ).rejects.toThrow('Slippage 4.00% exceeds maximum allowed 1%');
+      expect(mockTransactionIntents.createIntent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prepareOrder on the order book', () => {
+    it('converts bid sizes to the selling asset before filling', async () => {
+      jest.spyOn(Horizon.Server.prototype, 'orderbook').mockReturnValue({
+        limit: () => ({
+          call: async () => ({ bids: [{ price: '0.5', amount: '25' }] }),
+        }),
+      } as any);
+
+      await expect(
+        service.prepareOrder(
+          buildDto({ routing: MarketOrderRouting.ORDER_BOOK }),
+        ),
+      ).rejects.toThrow('Can only fill 50.0000000 of 100 XLM');
+    });
+  });
+});
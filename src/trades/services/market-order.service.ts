@@ -7,16 +7,34 @@ import {
 import {
   Asset,
   BASE_FEE,
-  Keypair,
   Operation,
   TransactionBuilder,
   Horizon,
 } from "@stellar/stellar-sdk";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+import Big from "big.js";
 import { StellarConfigService } from "../../config/stellar.service";
+import {
+  PreparedTransactionDto,
+  TransactionIntentType,
+} from "../../stellar/transactions/dto/prepared-transaction.dto";
+import { SubmitSignedTransactionDto } from "../../stellar/transactions/dto/submit-signed-transaction.dto";
+import { TransactionIntentService } from "../../stellar/transactions/transaction-intent.service";
+import { SdexService } from "../../sdex/sdex.service";
+import { SlippageProtectionService } from "../../slippage/slippage-protection.service";
+import { User } from "../../users/entities/user.entity";
 import { MarketOrderDto } from "../dto/market-order.dto";
-import { MarketOrderResponseDto } from "../dto/order-response.dto";
+import {
+  MarketOrderResponseDto,
+  MarketOrderRouteDto,
+} from "../dto/order-response.dto";
+import { MarketOrderRouting } from "../dto/order-type.enum";
 import { buildAsset } from "./asset-utils";
 
+// Applied when neither the order nor a known user sets a limit
+const DEFAULT_MAX_SLIPPAGE_PERCENT = 1;
+
 interface MarketPriceEstimate {
   averagePrice: number;
   bestPrice: number;
@@ -25,22 +43,49 @@ interface MarketPriceEstimate {
   liquidityDepth: number;
 }
 
+interface MarketOrderIntentDetails {
+  sellingAssetCode: string;
+  buyingAssetCode: string;
+  amount: number;
+  slippagePercent: number;
+  priceEstimate: MarketPriceEstimate;
+  route?: MarketOrderRouteDto;
+}
+
+interface RouteCandidate {
+  type: MarketOrderRouteDto["type"];
+  path: Asset[];
+  expectedAmount: Big;
+  // Buying asset received per unit sold at the top of the route
+  bestPrice: Big;
+}
+
+// Share of the order sent through the path search to find the route's spot rate
+const PATH_PROBE_FRACTION = 0.01;
+
 @Injectable()
 export class MarketOrderService {
   private readonly server: Horizon.Server;
   private readonly logger = new Logger(MarketOrderService.name);
 
-  constructor(private readonly stellarConfig: StellarConfigService) {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly stellarConfig: StellarConfigService,
+    private readonly transactionIntents: TransactionIntentService,
+    private readonly sdexService: SdexService,
+    private readonly slippageProtection: SlippageProtectionService,
+  ) {
     this.server = new Horizon.Server(this.stellarConfig.horizonUrl, {
       allowHttp: this.stellarConfig.horizonUrl.startsWith("http://"),
     });
   }
 
   /**
-   * Execute a market order (immediate execution at best available price)
+   * Build an unsigned market order (immediate execution at best available price)
    * Market orders use manageSellOffer with price "0" for fill-or-kill behavior
    */
-  async executeOrder(dto: MarketOrderDto): Promise<MarketOrderResponseDto> {
+  async prepareOrder(dto: MarketOrderDto): Promise<PreparedTransactionDto> {
     try {
       // Validate and build assets
       const sellingAsset = buildAsset(
@@ -59,6 +104,21 @@ export class MarketOrderService {
         throw new BadRequestException("Cannot trade an asset for itself");
       }
 
+      const maxSlippagePercent = await this.resolveMaxSlippage(
+        dto,
+        sellingAsset,
+        buyingAsset,
+      );
+
+      if (dto.routing === MarketOrderRouting.BEST_ROUTE) {
+        return await this.prepareRoutedOrder(
+          dto,
+          sellingAsset,
+          buyingAsset,
+          maxSlippagePercent,
+        );
+      }
+
       // Estimate market price and check liquidity
       const priceEstimate = await this.estimateMarketPrice(
         sellingAsset,
@@ -73,22 +133,20 @@ export class MarketOrderService {
       );
 
       this.logger.log(
-        `Market order slippage: ${slippage.toFixed(4)}% (max: ${dto.maxSlippagePercent}%)`,
+        `Market order slippage: ${slippage.toFixed(4)}% (max: ${maxSlippagePercent}%)`,
       );
 
       // Check slippage protection
-      if (slippage > dto.maxSlippagePercent) {
+      if (slippage > maxSlippagePercent) {
         throw new BadRequestException(
-          `Slippage ${slippage.toFixed(2)}% exceeds maximum allowed ${dto.maxSlippagePercent}%. ` +
+          `Slippage ${slippage.toFixed(2)}% exceeds maximum allowed ${maxSlippagePercent}%. ` +
             `Best price: ${priceEstimate.bestPrice}, Average price: ${priceEstimate.averagePrice}`,
         );
       }
 
-      // Load account and validate
-      const keypair = this.parseKeypair(dto.sourceSecret);
-      const account = await this.loadAccount(keypair.publicKey());
+      const account = await this.loadAccount(dto.sourcePublicKey);
 
-      // Build and submit transaction with fill-or-kill behavior (price = "0")
+      // Build transaction with fill-or-kill behavior (price = "0")
       const transaction = new TransactionBuilder(account, {
         fee: BASE_FEE,
         networkPassphrase: this.stellarConfig.networkPassphrase,
@@ -102,13 +160,43 @@ export class MarketOrderService {
             offerId: "0", // New offer
           }),
         )
-        .setTimeout(30)
+        .setTimeout(this.stellarConfig.transactionIntentTtl)
         .build();
 
-      transaction.sign(keypair);
+      const details: MarketOrderIntentDetails = {
+        sellingAssetCode: dto.sellingAssetCode,
+        buyingAssetCode: dto.buyingAssetCode,
+        amount: dto.amount,
+        slippagePercent: Number(slippage.toFixed(4)),
+        priceEstimate,
+      };
+
+      return await this.transactionIntents.createIntent(
+        TransactionIntentType.MARKET_ORDER,
+        transaction.toXDR(),
+        { ...details },
+      );
+    } catch (error) {
+      this.handleOrderError(error, dto);
+    }
+  }
+
+  /**
+   * Submit a market order transaction signed by the user's wallet
+   */
+  async submitOrder(
+    dto: SubmitSignedTransactionDto,
+  ): Promise<MarketOrderResponseDto> {
+    const { intent, transaction } =
+      await this.transactionIntents.resolveSignedTransaction(
+        dto,
+        TransactionIntentType.MARKET_ORDER,
+      );
+    const details = intent.metadata as unknown as MarketOrderIntentDetails;
 
+    try {
       this.logger.log(
-        `Submitting market order: ${dto.amount} ${dto.sellingAssetCode} -> ${dto.buyingAssetCode}`,
+        `Submitting market order: ${details.amount} ${details.sellingAssetCode} -> ${details.buyingAssetCode}`,
       );
 
       const result = await this.server.submitTransaction(transaction);
@@ -120,17 +208,293 @@ export class MarketOrderService {
         orderType: "market",
         status: "filled",
         priceEstimate: {
-          averagePrice: priceEstimate.averagePrice,
-          bestPrice: priceEstimate.bestPrice,
-          worstPrice: priceEstimate.worstPrice,
+          averagePrice: details.priceEstimate.averagePrice,
+          bestPrice: details.priceEstimate.bestPrice,
+          worstPrice: details.priceEstimate.worstPrice,
         },
-        slippagePercent: Number(slippage.toFixed(4)),
-        filledAmount: dto.amount,
+        slippagePercent: details.slippagePercent,
+        filledAmount: details.amount,
+        route: details.route,
         timestamp: new Date(),
       };
     } catch (error) {
-      this.handleOrderError(error, dto);
+      this.handleOrderError(error, details);
+    }
+  }
+
+  /**
+   * Build an unsigned pathPaymentStrictSend over the best available route.
+   * The quote's slippage from the route's best price is checked up front;
+   * the whole amount is then sent, and destMin enforces the same tolerance
+   * against the route's expected output.
+   */
+  private async prepareRoutedOrder(
+    dto: MarketOrderDto,
+    sellingAsset: Asset,
+    buyingAsset: Asset,
+    maxSlippagePercent: number,
+  ): Promise<PreparedTransactionDto> {
+    const route = await this.findBestRoute(
+      sellingAsset,
+      buyingAsset,
+      dto.amount,
+    );
+
+    const averagePrice = route.expectedAmount.div(dto.amount).toNumber();
+    const slippage = this.calculateSlippage(
+      route.bestPrice.toNumber(),
+      averagePrice,
+    );
+
+    if (slippage > maxSlippagePercent) {
+      throw new BadRequestException(
+        `Slippage ${slippage.toFixed(2)}% exceeds maximum allowed ${maxSlippagePercent}%. ` +
+          `Best price: ${route.bestPrice.toNumber()}, Average price: ${averagePrice}`,
+      );
+    }
+
+    const destMin = route.expectedAmount
+      .times(new Big(100).minus(maxSlippagePercent))
+      .div(100)
+      .round(7, Big.roundDown);
+
+    if (destMin.lte(0)) {
+      throw new BadRequestException(
+        "Expected output is too small for the requested slippage tolerance",
+      );
+    }
+
+    this.logger.log(
+      `Routing market order via ${route.type} route [${route.path.map((asset) => asset.getCode()).join(" -> ")}]: ` +
+        `expected ${route.expectedAmount.toFixed(7)}, min ${destMin.toFixed(7)} ${buyingAsset.getCode()}`,
+    );
+
+    const account = await this.loadAccount(dto.sourcePublicKey);
+
+    const transaction = new TransactionBuilder(account, {
+      fee: BASE_FEE,
+      networkPassphrase: this.stellarConfig.networkPassphrase,
+    })
+      .addOperation(
+        Operation.pathPaymentStrictSend({
+          sendAsset: sellingAsset,
+          sendAmount: this.formatAmount(dto.amount),
+          destination: dto.sourcePublicKey,
+          destAsset: buyingAsset,
+          destMin: destMin.toFixed(7),
+          path: route.path,
+        }),
+      )
+      .setTimeout(this.stellarConfig.transactionIntentTtl)
+      .build();
+
+    const details: MarketOrderIntentDetails = {
+      sellingAssetCode: dto.sellingAssetCode,
+      buyingAssetCode: dto.buyingAssetCode,
+      amount: dto.amount,
+      slippagePercent: Number(slippage.toFixed(4)),
+      priceEstimate: {
+        averagePrice,
+        bestPrice: route.bestPrice.toNumber(),
+        worstPrice: destMin.div(dto.amount).toNumber(),
+        totalBids: 0,
+        liquidityDepth: dto.amount,
+      },
+      route: {
+        type: route.type,
+        path: route.path.map((asset) => this.formatAsset(asset)),
+        expectedAmount: route.expectedAmount.toNumber(),
+        minimumAmount: destMin.toNumber(),
+      },
+    };
+
+    return this.transactionIntents.createIntent(
+      TransactionIntentType.MARKET_ORDER,
+      transaction.toXDR(),
+      { ...details },
+    );
+  }
+
+  /**
+   * The order's own limit wins; otherwise the wallet owner's saved
+   * preference for the pair, or their default, applies.
+   */
+  private async resolveMaxSlippage(
+    dto: MarketOrderDto,
+    selling: Asset,
+    buying: Asset,
+  ): Promise<number> {
+    if (dto.maxSlippagePercent !== undefined) {
+      return dto.maxSlippagePercent;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { walletAddress: dto.sourcePublicKey },
+    });
+
+    if (!user) {
+      return DEFAULT_MAX_SLIPPAGE_PERCENT;
+    }
+
+    const config = await this.slippageProtection.getApplicableConfig(
+      user.id,
+      `${this.formatAsset(selling)}/${this.formatAsset(buying)}`,
+    );
+
+    return config.maxSlippagePercent;
+  }
+
+  /**
+   * Compare the direct order book quote with Horizon's strict-send path
+   * search and return whichever route delivers more of the buying asset.
+   * Both quotes are amounts of the buying asset for the full order.
+   */
+  private async findBestRoute(
+    selling: Asset,
+    buying: Asset,
+    amount: number,
+  ): Promise<RouteCandidate> {
+    const [direct, path] = await Promise.all([
+      this.quoteDirectRoute(selling, buying, amount),
+      this.quotePathRoute(selling, buying, amount),
+    ]);
+
+    if (!direct && !path) {
+      throw new BadRequestException(
+        `No route found to sell ${amount} ${selling.getCode()} for ${buying.getCode()}`,
+      );
+    }
+
+    if (!direct) {
+      return path!;
+    }
+
+    if (!path) {
+      return direct;
     }
+
+    return path.expectedAmount.gt(direct.expectedAmount) ? path : direct;
+  }
+
+  /**
+   * Walk the bids for the pair. Horizon prices bids in buying per selling
+   * but sizes them in the buying asset, so each level is converted to the
+   * selling asset before it is filled.
+   */
+  private async quoteDirectRoute(
+    selling: Asset,
+    buying: Asset,
+    amount: number,
+  ): Promise<RouteCandidate | null> {
+    try {
+      const { bids } = await this.sdexService.getOrderbook(selling, buying);
+
+      let remaining = new Big(amount);
+      let expectedAmount = new Big(0);
+
+      for (const bid of bids) {
+        const price = new Big(bid.price);
+        if (price.lte(0)) {
+          continue;
+        }
+
+        const available = new Big(bid.amount).div(price);
+        const take = remaining.lt(available) ? remaining : available;
+        expectedAmount = expectedAmount.plus(take.times(price));
+        remaining = remaining.minus(take);
+
+        if (remaining.lte(0)) {
+          break;
+        }
+      }
+
+      if (bids.length === 0 || remaining.gt(0)) {
+        this.logger.debug(
+          `Not enough ${selling.getCode()}/${buying.getCode()} bids to fill ${amount} directly`,
+        );
+        return null;
+      }
+
+      return {
+        type: "direct",
+        path: [],
+        expectedAmount: expectedAmount.round(7, Big.roundDown),
+        bestPrice: new Big(bids[0].price),
+      };
+    } catch (error) {
+      this.logger.debug(
+        `No direct quote for ${selling.getCode()}/${buying.getCode()}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private async quotePathRoute(
+    selling: Asset,
+    buying: Asset,
+    amount: number,
+  ): Promise<RouteCandidate | null> {
+    try {
+      const probeAmount = new Big(amount)
+        .times(PATH_PROBE_FRACTION)
+        .round(7, Big.roundDown);
+      const [best, probe] = await Promise.all([
+        this.findBestPath(selling, buying, new Big(amount)),
+        probeAmount.gt(0)
+          ? this.findBestPath(selling, buying, probeAmount)
+          : Promise.resolve(null),
+      ]);
+
+      if (!best) {
+        return null;
+      }
+
+      // A small probe approximates the spot rate. It may find a different
+      // path, so the order's own rate is the floor
+      const orderPrice = new Big(best.destination_amount).div(amount);
+      const probePrice = probe
+        ? new Big(probe.destination_amount).div(probeAmount)
+        : orderPrice;
+      const bestPrice = probePrice.gt(orderPrice) ? probePrice : orderPrice;
+
+      return {
+        type: best.path.length > 0 ? "path" : "direct",
+        path: best.path.map((hop) =>
+          hop.asset_type === "native"
+            ? Asset.native()
+            : new Asset(hop.asset_code, hop.asset_issuer),
+        ),
+        expectedAmount: new Big(best.destination_amount),
+        bestPrice,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Path search failed for ${selling.getCode()}/${buying.getCode()}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  private async findBestPath(
+    selling: Asset,
+    buying: Asset,
+    amount: Big,
+  ): Promise<Horizon.ServerApi.PaymentPathRecord | null> {
+    const { records } = await this.server
+      .strictSendPaths(selling, amount.toFixed(7), [buying])
+      .call();
+
+    return records.reduce<Horizon.ServerApi.PaymentPathRecord | null>(
+      (top, record) =>
+        !top || new Big(record.destination_amount).gt(top.destination_amount)
+          ? record
+          : top,
+      null,
+    );
+  }
+
+  private formatAsset(asset: Asset): string {
+    return asset.isNative() ? "XLM" : `${asset.getCode()}:${asset.getIssuer()}`;
   }
 
   /**
@@ -166,7 +530,8 @@ export class MarketOrderService {
       // Simulate order filling across order book
       for (const bid of bids) {
         const bidPrice = Number(bid.price);
-        const bidAmount = Number(bid.amount);
+        // Bids are sized in the buying asset; fill them in the selling asset
+        const bidAmount = Number(bid.amount) / bidPrice;
 
         // Validate bid data
         if (
@@ -243,18 +608,6 @@ export class MarketOrderService {
     return Math.abs(((bestPrice - averagePrice) / bestPrice) * 100);
   }
 
-  /**
-   * Parse and validate keypair from secret
-   */
-  private parseKeypair(secret: string): Keypair {
-    try {
-      return Keypair.fromSecret(secret);
-    } catch (error) {
-      this.logger.error(`Invalid secret key format: ${(error as Error).message}`);
-      throw new BadRequestException("Invalid source secret key format");
-    }
-  }
-
   /**
    * Load account from Stellar network with error handling
    */
@@ -281,7 +634,10 @@ export class MarketOrderService {
   /**
    * Handle and format order execution errors
    */
-  private handleOrderError(error: any, dto: MarketOrderDto): never {
+  private handleOrderError(
+    error: any,
+    dto: Pick<MarketOrderDto, "amount" | "sellingAssetCode">,
+  ): never {
     if (
       error instanceof BadRequestException ||
       error instanceof InternalServerErrorException
@@ -318,6 +674,14 @@ export class MarketOrderService {
             throw new BadRequestException(
               `Insufficient balance to sell ${dto.amount} ${dto.sellingAssetCode}`,
             );
+          case "op_under_dest_min":
+            throw new BadRequestException(
+              "Price moved beyond the allowed slippage before the order executed",
+            );
+          case "op_too_few_offers":
+            throw new BadRequestException(
+              "Not enough liquidity along the selected route",
+            );
           case "op_line_full":
             throw new BadRequestException(
               "Destination account trustline would exceed limit",
@@ -0,0 +1,92 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { RiskManagerService } from './risk-manager.service';
+import { Trade, TradeSide, TrailingStopType } from '../entities/trade.entity';
+
+describe('RiskManagerService', () => {
+  let service: RiskManagerService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RiskManagerService,
+        { provide: getRepositoryToken(Trade), useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RiskManagerService>(RiskManagerService);
+  });
+
+  describe('trailing stops', () => {
+    it('should only move the high-water mark in the trade direction', () => {
+      expect(service.advanceHighWaterMark(TradeSide.BUY, '1.0', '1.2')).toBe(
+        '1.20000000',
+      );
+      expect(service.advanceHighWaterMark(TradeSide.BUY, '1.2', '1.1')).toBe(
+        '1.20000000',
+      );
+      expect(service.advanceHighWaterMark(TradeSide.SELL, '1.0', '0.8')).toBe(
+        '0.80000000',
+      );
+      expect(service.advanceHighWaterMark(TradeSide.SELL, '0.8', '0.9')).toBe(
+        '0.80000000',
+      );
+    });
+
+    it('should trail below the mark for buys and above for sells', () => {
+      expect(
+        service.calculateTrailingStopPrice(
+          TradeSide.BUY,
+          '2.0',
+          TrailingStopType.PERCENTAGE,
+          '10',
+        ),
+      ).toBe('1.80000000');
+      expect(
+        service.calculateTrailingStopPrice(
+          TradeSide.SELL,
+          '2.0',
+          TrailingStopType.ABSOLUTE,
+          '0.25',
+        ),
+      ).toBe('2.25000000');
+    });
+
+    it('should reject incomplete or out-of-range trailing stops', () => {
+      expect(
+        service.validateTrailingStop(TradeSide.BUY, '1.0', undefined, 5),
+      ).toHaveLength(1);
+      expect(
+        service.validateTrailingStop(
+          TradeSide.BUY,
+          '1.0',
+          TrailingStopType.PERCENTAGE,
+          100,
+        ),
+      ).toHaveLength(1);
+      expect(
+        service.validateTrailingStop(
+          TradeSide.BUY,
+          '1.0',
+          TrailingStopType.ABSOLUTE,
+          1.5,
+        ),
+      ).toHaveLength(1);
+      expect(
+        service.validateTrailingStop(
+          TradeSide.SELL,
+          '1.0',
+          TrailingStopType.ABSOLUTE,
+          1.5,
+        ),
+      ).toEqual([]);
+    });
+  });
+});
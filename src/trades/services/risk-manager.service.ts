@@ -2,7 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import { Trade, TradeStatus } from '../entities/trade.entity';
+import { Trade, TradeSide, TradeStatus, TrailingStopType } from '../entities/trade.entity';
 import { ExecuteTradeDto } from '../dto/execute-trade.dto';
 import { TradeValidationResultDto } from '../dto/trade-result.dto';
 
@@ -107,6 +107,15 @@ export class RiskManagerService {
       errors.push(`Slippage tolerance exceeds maximum of ${this.riskParams.maxSlippageTolerance}%`);
     }
 
+    errors.push(
+      ...this.validateTrailingStop(
+        dto.side,
+        signalData.entryPrice,
+        dto.trailingStopType,
+        dto.trailingStopDistance,
+      ),
+    );
+
     // Warnings
     if (openPositions >= this.riskParams.maxOpenPositions - 2) {
       warnings.push(`Approaching maximum open positions limit (${openPositions}/${this.riskParams.maxOpenPositions})`);
@@ -195,6 +204,73 @@ export class RiskManagerService {
     };
   }
 
+  validateTrailingStop(
+    side: TradeSide,
+    referencePrice: string,
+    type?: TrailingStopType,
+    distance?: number,
+  ): string[] {
+    if (type === undefined && distance === undefined) {
+      return [];
+    }
+
+    if (type === undefined || distance === undefined) {
+      return ['Trailing stop requires both a type and a distance'];
+    }
+
+    if (distance <= 0) {
+      return ['Trailing stop distance must be greater than zero'];
+    }
+
+    if (type === TrailingStopType.PERCENTAGE && distance >= 100) {
+      return ['Trailing stop percentage must be below 100%'];
+    }
+
+    if (
+      type === TrailingStopType.ABSOLUTE &&
+      side === TradeSide.BUY &&
+      distance >= parseFloat(referencePrice)
+    ) {
+      return [`Trailing stop distance must be below the current price of ${referencePrice}`];
+    }
+
+    return [];
+  }
+
+  /**
+   * Moves the high-water mark only in the trade's favour: up for buys, down for sells.
+   */
+  advanceHighWaterMark(
+    side: TradeSide,
+    highWaterMark: string,
+    price: string,
+  ): string {
+    const mark = parseFloat(highWaterMark);
+    const current = parseFloat(price);
+    const improved = side === TradeSide.BUY ? current > mark : current < mark;
+
+    return improved ? current.toFixed(8) : mark.toFixed(8);
+  }
+
+  /**
+   * Stop level trailing the high-water mark by the configured distance.
+   */
+  calculateTrailingStopPrice(
+    side: TradeSide,
+    highWaterMark: string,
+    type: TrailingStopType,
+    distance: string,
+  ): string {
+    const mark = parseFloat(highWaterMark);
+    const trail =
+      type === TrailingStopType.PERCENTAGE
+        ? mark * (parseFloat(distance) / 100)
+        : parseFloat(distance);
+    const stop = side === TradeSide.BUY ? mark - trail : mark + trail;
+
+    return Math.max(stop, 0).toFixed(8);
+  }
+
   async checkDuplicateTrade(userId: string, signalId: string): Promise<boolean> {
     const existingTrade = await this.tradeRepository.findOne({
       where: {
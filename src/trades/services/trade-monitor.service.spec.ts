@@ -0,0 +1,297 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { Keypair } from '@stellar/stellar-sdk';
+import {
+  CHECK_OPEN_TRADES_JOB,
+  TRADE_MONITOR_QUEUE,
+  TradeMonitorService,
+} from './trade-monitor.service';
+import { RiskManagerService } from './risk-manager.service';
+import { TradesService } from '../trades.service';
+import { PriceOracleService } from '../../prices/price-oracle.service';
+import { SdexService } from '../../sdex/sdex.service';
+import { SocketManagerService } from '../../websocket/services/socket-manager.service';
+import {
+  Trade,
+  TradeCloseReason,
+  TradeSide,
+  TrailingStopType,
+} from '../entities/trade.entity';
+
+// Both pull in modules that ts-jest cannot compile on their own; the monitor
+// only needs the injection tokens
+jest.mock('../trades.service', () => ({ TradesService: class {} }));
+jest.mock('../../prices/price-oracle.service', () => ({
+  PriceOracleService: class {},
+}));
+
+describe('TradeMonitorService', () => {
+  let service: TradeMonitorService;
+
+  const buildTrade = (overrides: Partial<Trade> = {}): Trade =>
+    ({
+      id: 'trade-1',
+      userId: 'user-1',
+      user: { walletAddress: 'GWALLET' },
+      side: TradeSide.BUY,
+      baseAsset: 'XLM',
+      counterAsset: 'USDC',
+      stopLossPrice: null,
+      takeProfitPrice: null,
+      trailingStopType: null,
+      trailingStopDistance: null,
+      highWaterMark: null,
+      ...overrides,
+    }) as Trade;
+
+  const queryBuilder = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockTradeRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+    update: jest.fn(),
+  };
+
+  const mockQueue = { add: jest.fn() };
+  const mockTradesService = { closeTrade: jest.fn(async () => ({})) };
+  const mockPriceOracle = { getPrice: jest.fn() };
+  const mockSdexService = { getOrderbook: jest.fn() };
+  const mockSocketManager = { emitTradeUpdated: jest.fn() };
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TradeMonitorService,
+        RiskManagerService,
+        { provide: getRepositoryToken(Trade), useValue: mockTradeRepository },
+        { provide: getQueueToken(TRADE_MONITOR_QUEUE), useValue: mockQueue },
+        { provide: TradesService, useValue: mockTradesService },
+        { provide: PriceOracleService, useValue: mockPriceOracle },
+        { provide: SdexService, useValue: mockSdexService },
+        { provide: SocketManagerService, useValue: mockSocketManager },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<TradeMonitorService>(TradeMonitorService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('onModuleInit', () => {
+    it('schedules one repeatable check at the configured interval', async () => {
+      mockConfigService.get.mockImplementationOnce(() => 5000);
+
+      await service.onModuleInit();
+
+      expect(mockConfigService.get).toHaveBeenCalledWith(
+        'trade.monitorIntervalMs',
+        15000,
+      );
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        CHECK_OPEN_TRADES_JOB,
+        {},
+        expect.objectContaining({
+          repeat: { every: 5000 },
+          jobId: CHECK_OPEN_TRADES_JOB,
+        }),
+      );
+    });
+  });
+
+  describe('evaluateTrade', () => {
+    it('checks stops below and targets above the price for buys', () => {
+      const trade = buildTrade({
+        stopLossPrice: '0.9',
+        takeProfitPrice: '1.2',
+      });
+
+      expect(service.evaluateTrade(trade, '0.89')).toBe(
+        TradeCloseReason.STOP_LOSS,
+      );
+      expect(service.evaluateTrade(trade, '1.0')).toBeNull();
+      expect(service.evaluateTrade(trade, '1.2')).toBe(
+        TradeCloseReason.TAKE_PROFIT,
+      );
+    });
+
+    it('mirrors the levels for sells', () => {
+      const trade = buildTrade({
+        side: TradeSide.SELL,
+        stopLossPrice: '1.1',
+        takeProfitPrice: '0.8',
+      });
+
+      expect(service.evaluateTrade(trade, '1.15')).toBe(
+        TradeCloseReason.STOP_LOSS,
+      );
+      expect(service.evaluateTrade(trade, '0.75')).toBe(
+        TradeCloseReason.TAKE_PROFIT,
+      );
+    });
+
+    it('trails the stop behind the high-water mark', () => {
+      const trade = buildTrade({
+        trailingStopType: TrailingStopType.PERCENTAGE,
+        trailingStopDistance: '10',
+        highWaterMark: '2.0',
+      });
+
+      expect(service.evaluateTrade(trade, '1.85')).toBeNull();
+      expect(service.evaluateTrade(trade, '1.8')).toBe(
+        TradeCloseReason.TRAILING_STOP,
+      );
+    });
+
+    it('trails by a fixed amount, above the low for sells', () => {
+      const buy = buildTrade({
+        trailingStopType: TrailingStopType.ABSOLUTE,
+        trailingStopDistance: '0.25',
+        highWaterMark: '2.0',
+      });
+      expect(service.evaluateTrade(buy, '1.76')).toBeNull();
+      expect(service.evaluateTrade(buy, '1.75')).toBe(
+        TradeCloseReason.TRAILING_STOP,
+      );
+
+      const sell = buildTrade({
+        side: TradeSide.SELL,
+        trailingStopType: TrailingStopType.PERCENTAGE,
+        trailingStopDistance: '5',
+        highWaterMark: '1.0',
+      });
+      expect(service.evaluateTrade(sell, '1.04')).toBeNull();
+      expect(service.evaluateTrade(sell, '1.05')).toBe(
+        TradeCloseReason.TRAILING_STOP,
+      );
+    });
+  });
+
+  describe('checkOpenTrades', () => {
+    it('closes trades past their levels and prices each pair once', async () => {
+      queryBuilder.getMany.mockResolvedValue([
+        buildTrade({ id: 'trade-1', stopLossPrice: '0.9' }),
+        buildTrade({ id: 'trade-2', takeProfitPrice: '2.0' }),
+      ]);
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 0.85 });
+
+      const result = await service.checkOpenTrades();
+
+      expect(result).toEqual({ checked: 2, closed: 1, errors: 0 });
+      expect(mockPriceOracle.getPrice).toHaveBeenCalledTimes(1);
+      expect(mockPriceOracle.getPrice).toHaveBeenCalledWith('XLM-USDC');
+      expect(mockTradesService.closeTrade).toHaveBeenCalledWith(
+        { tradeId: 'trade-1', userId: 'user-1', exitPrice: 0.85 },
+        TradeCloseReason.STOP_LOSS,
+      );
+      expect(mockSocketManager.emitTradeUpdated).toHaveBeenCalledWith(
+        'GWALLET',
+        {},
+      );
+    });
+
+    it('falls back to the SDEX mid price and counts failed closes', async () => {
+      queryBuilder.getMany.mockResolvedValue([
+        buildTrade({
+          counterAsset: `USDC:${Keypair.random().publicKey()}`,
+          takeProfitPrice: '1.1',
+        }),
+      ]);
+      mockPriceOracle.getPrice.mockRejectedValue(new Error('stale'));
+      mockSdexService.getOrderbook.mockResolvedValue({ midPrice: '1.2' });
+      mockTradesService.closeTrade.mockRejectedValueOnce(new Error('boom'));
+
+      const result = await service.checkOpenTrades();
+
+      expect(result).toEqual({ checked: 1, closed: 0, errors: 1 });
+      expect(mockTradesService.closeTrade).toHaveBeenCalledWith(
+        expect.objectContaining({ exitPrice: 1.2 }),
+        TradeCloseReason.TAKE_PROFIT,
+      );
+    });
+
+    it('persists a new high-water mark for trailing stops', async () => {
+      queryBuilder.getMany.mockResolvedValue([
+        buildTrade({
+          trailingStopType: TrailingStopType.ABSOLUTE,
+          trailingStopDistance: '0.1',
+          highWaterMark: '1.0',
+        }),
+      ]);
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 1.25 });
+
+      await service.checkOpenTrades();
+
+      expect(mockTradeRepository.update).toHaveBeenCalledWith('trade-1', {
+        highWaterMark: '1.25000000',
+      });
+      expect(mockTradesService.closeTrade).not.toHaveBeenCalled();
+    });
+
+    it('seeds a missing high-water mark from the current price', async () => {
+      queryBuilder.getMany.mockResolvedValue([
+        buildTrade({
+          trailingStopType: TrailingStopType.PERCENTAGE,
+          trailingStopDistance: '10',
+        }),
+      ]);
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 1.5 });
+
+      await service.checkOpenTrades();
+
+      expect(mockTradeRepository.update).toHaveBeenCalledWith('trade-1', {
+        highWaterMark: '1.50000000',
+      });
+      expect(mockTradesService.closeTrade).not.toHaveBeenCalled();
+    });
+
+    it('never lowers the mark and closes once the price falls through the trail', async () => {
+      const trade = buildTrade({
+        trailingStopType: TrailingStopType.PERCENTAGE,
+        trailingStopDistance: '10',
+        highWaterMark: '2.0',
+      });
+      queryBuilder.getMany.mockResolvedValue([trade]);
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 1.79 });
+
+      const result = await service.checkOpenTrades();
+
+      expect(mockTradeRepository.update).not.toHaveBeenCalled();
+      expect(trade.highWaterMark).toBe('2.0');
+      expect(result).toEqual({ checked: 1, closed: 1, errors: 0 });
+      expect(mockTradesService.closeTrade).toHaveBeenCalledWith(
+        { tradeId: 'trade-1', userId: 'user-1', exitPrice: 1.79 },
+        TradeCloseReason.TRAILING_STOP,
+      );
+    });
+
+    it('lowers the mark of a sell as the price falls', async () => {
+      const trade = buildTrade({
+        side: TradeSide.SELL,
+        trailingStopType: TrailingStopType.ABSOLUTE,
+        trailingStopDistance: '0.1',
+        highWaterMark: '1.0',
+      });
+      queryBuilder.getMany.mockResolvedValue([trade]);
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 0.9 });
+
+      await service.checkOpenTrades();
+
+      expect(mockTradeRepository.update).toHaveBeenCalledWith('trade-1', {
+        highWaterMark: '0.90000000',
+      });
+      expect(mockTradesService.closeTrade).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { Brackets, IsNull, Repository } from 'typeorm';
+import { Asset } from '@stellar/stellar-sdk';
+import Big from 'big.js';
+import {
+  Trade,
+  TradeCloseReason,
+  TradeSide,
+  TradeStatus,
+} from '../entities/trade.entity';
+import { TradesService } from '../trades.service';
+import { RiskManagerService } from './risk-manager.service';
+import { PriceOracleService } from '../../prices/price-oracle.service';
+import { SdexService } from '../../sdex/sdex.service';
+import { SocketManagerService } from '../../websocket/services/socket-manager.service';
+
+export const TRADE_MONITOR_QUEUE = 'trade-monitor';
+export const CHECK_OPEN_TRADES_JOB = 'check-open-trades';
+
+export interface TradeMonitorResult {
+  checked: number;
+  closed: number;
+  errors: number;
+}
+
+/**
+ * Enforces stop-loss, trailing-stop and take-profit levels on open trades.
+ * A repeatable Bull job calls checkOpenTrades; each trade whose threshold is
+ * crossed is closed through TradesService at the observed price.
+ */
+@Injectable()
+export class TradeMonitorService implements OnModuleInit {
+  private readonly logger = new Logger(TradeMonitorService.name);
+
+  constructor(
+    @InjectRepository(Trade)
+    private readonly tradeRepository: Repository<Trade>,
+    @InjectQueue(TRADE_MONITOR_QUEUE)
+    private readonly monitorQueue: Queue,
+    private readonly tradesService: TradesService,
+    private readonly riskManager: RiskManagerService,
+    private readonly priceOracle: PriceOracleService,
+    private readonly sdexService: SdexService,
+    private readonly socketManager: SocketManagerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const every = this.configService.get<number>(
+      'trade.monitorIntervalMs',
+      15000,
+    );
+
+    // A fixed jobId keeps a single repeatable job across restarts and instances
+    await this.monitorQueue.add(
+      CHECK_OPEN_TRADES_JOB,
+      {},
+      {
+        repeat: { every },
+        jobId: CHECK_OPEN_TRADES_JOB,
+        removeOnComplete: true,
+        removeOnFail: 50,
+      },
+    );
+
+    this.logger.log(`Trade exit monitor scheduled every ${every}ms`);
+  }
+
+  async checkOpenTrades(): Promise<TradeMonitorResult> {
+    const trades = await this.getMonitoredTrades();
+    const prices = new Map<string, Promise<string | null>>();
+
+    let closed = 0;
+    let errors = 0;
+
+    for (const trade of trades) {
+      const pair = `${trade.baseAsset}/${trade.counterAsset}`;
+      if (!prices.has(pair)) {
+        prices.set(
+          pair,
+          this.getMarketPrice(trade.baseAsset, trade.counterAsset),
+        );
+      }
+
+      const price = await prices.get(pair)!;
+      if (!price) {
+        continue;
+      }
+
+      try {
+        await this.trackHighWaterMark(trade, price);
+      } catch (error) {
+        this.logger.error(
+          `Failed to update high-water mark for trade ${trade.id}: ${(error as Error).message}`,
+        );
+      }
+
+      const reason = this.evaluateTrade(trade, price);
+      if (!reason) {
+        continue;
+      }
+
+      try {
+        await this.closeTrade(trade, price, reason);
+        closed++;
+      } catch (error) {
+        errors++;
+        this.logger.error(
+          `Failed to auto-close trade ${trade.id} (${reason}): ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return { checked: trades.length, closed, errors };
+  }
+
+  /**
+   * Returns the threshold the price has crossed, if any. For a buy the stops
+   * sit below the price and the target above; a sell is the mirror image.
+   */
+  evaluateTrade(trade: Trade, price: string): TradeCloseReason | null {
+    const current = new Big(price);
+    const isBuy = trade.side === TradeSide.BUY;
+
+    if (trade.stopLossPrice) {
+      const stop = new Big(trade.stopLossPrice);
+      if (isBuy ? current.lte(stop) : current.gte(stop)) {
+        return TradeCloseReason.STOP_LOSS;
+      }
+    }
+
+    if (
+      trade.trailingStopType &&
+      trade.trailingStopDistance &&
+      trade.highWaterMark
+    ) {
+      const trailingStop = new Big(
+        this.riskManager.calculateTrailingStopPrice(
+          trade.side,
+          trade.highWaterMark,
+          trade.trailingStopType,
+          trade.trailingStopDistance,
+        ),
+      );
+      if (isBuy ? current.lte(trailingStop) : current.gte(trailingStop)) {
+        return TradeCloseReason.TRAILING_STOP;
+      }
+    }
+
+    if (trade.takeProfitPrice) {
+      const target = new Big(trade.takeProfitPrice);
+      if (isBuy ? current.gte(target) : current.lte(target)) {
+        return TradeCloseReason.TAKE_PROFIT;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ratchets the trailing stop. The mark is persisted so the trail survives
+   * restarts instead of resetting to the price seen after boot.
+   */
+  private async trackHighWaterMark(trade: Trade, price: string): Promise<void> {
+    if (!trade.trailingStopType) {
+      return;
+    }
+
+    const highWaterMark = trade.highWaterMark
+      ? this.riskManager.advanceHighWaterMark(
+          trade.side,
+          trade.highWaterMark,
+          price,
+        )
+      : new Big(price).toFixed(8);
+
+    if (trade.highWaterMark && new Big(highWaterMark).eq(trade.highWaterMark)) {
+      return;
+    }
+
+    await this.tradeRepository.update(trade.id, { highWaterMark });
+    trade.highWaterMark = highWaterMark;
+  }
+
+  private async closeTrade(
+    trade: Trade,
+    price: string,
+    reason: TradeCloseReason,
+  ): Promise<void> {
+    this.logger.log(`Trade ${trade.id} hit ${reason} at ${price}, closing`);
+
+    const result = await this.tradesService.closeTrade(
+      { tradeId: trade.id, userId: trade.userId, exitPrice: Number(price) },
+      reason,
+    );
+
+    if (trade.user?.walletAddress) {
+      this.socketManager.emitTradeUpdated(trade.user.walletAddress, result);
+    }
+  }
+
+  private getMonitoredTrades(): Promise<Trade[]> {
+    return this.tradeRepository
+      .createQueryBuilder('trade')
+      .leftJoinAndSelect('trade.user', 'user')
+      .where('trade.status = :status', { status: TradeStatus.COMPLETED })
+      .andWhere({ closedAt: IsNull() })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('trade.stop_loss_price IS NOT NULL')
+            .orWhere('trade.take_profit_price IS NOT NULL')
+            .orWhere('trade.trailing_stop_distance IS NOT NULL');
+        }),
+      )
+      .getMany();
+  }
+
+  /**
+   * Oracle price first (the same source manual closes use), falling back to
+   * the SDEX mid price. Returns null when neither is available.
+   */
+  private async getMarketPrice(
+    baseAsset: string,
+    counterAsset: string,
+  ): Promise<string | null> {
+    try {
+      const priceData = await this.priceOracle.getPrice(
+        `${this.toOracleAsset(baseAsset)}-${this.toOracleAsset(counterAsset)}`,
+      );
+      return priceData.price.toFixed(8);
+    } catch (error) {
+      this.logger.debug(
+        `Oracle price unavailable for ${baseAsset}/${counterAsset}: ${(error as Error).message}`,
+      );
+    }
+
+    try {
+      const orderbook = await this.sdexService.getOrderbook(
+        this.toStellarAsset(baseAsset),
+        this.toStellarAsset(counterAsset),
+      );
+      if (new Big(orderbook.midPrice).gt(0)) {
+        return orderbook.midPrice;
+      }
+    } catch (error) {
+      this.logger.debug(
+        `SDEX price unavailable for ${baseAsset}/${counterAsset}: ${(error as Error).message}`,
+      );
+    }
+
+    this.logger.warn(
+      `No price for ${baseAsset}/${counterAsset}, skipping its open trades`,
+    );
+    return null;
+  }
+
+  private toOracleAsset(asset: string): string {
+    return asset === 'native' ? 'XLM' : asset;
+  }
+
+  private toStellarAsset(asset: string): Asset {
+    if (asset === 'XLM' || asset === 'native') {
+      return Asset.native();
+    }
+
+    const [code, issuer] = asset.split(':');
+    return new Asset(code, issuer);
+  }
+}
@@ -7,11 +7,25 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  ParseEnumPipe,
   ParseUUIDPipe,
 } from '@nestjs/common';
 import { TradesService } from './trades.service';
 import { RiskManagerService } from './services/risk-manager.service';
-import { ExecuteTradeDto, CloseTradeDto } from './dto/execute-trade.dto';
+import { LimitOrderService } from './services/limit-order.service';
+import { MarketOrderService } from './services/market-order.service';
+import {
+  ExecuteTradeDto,
+  CloseTradeDto,
+  SetTrailingStopDto,
+} from './dto/execute-trade.dto';
+import { LimitOrderDto } from './dto/limit-order.dto';
+import { AmendLimitOrderDto } from './dto/amend-limit-order.dto';
+import { MarketOrderDto } from './dto/market-order.dto';
+import {
+  LimitOrderResponseDto,
+  MarketOrderResponseDto,
+} from './dto/order-response.dto';
 import {
   TradeResultDto,
   TradeDetailsDto,
@@ -19,12 +33,17 @@ import {
   UserTradesSummaryDto,
   CloseTradeResultDto,
 } from './dto/trade-result.dto';
+import { LimitOrder, LimitOrderStatus } from './entities/limit-order.entity';
+import { PreparedTransactionDto } from '../stellar/transactions/dto/prepared-transaction.dto';
+import { SubmitSignedTransactionDto } from '../stellar/transactions/dto/submit-signed-transaction.dto';
 
 @Controller('trades')
 export class TradesController {
   constructor(
     private readonly tradesService: TradesService,
     private readonly riskManager: RiskManagerService,
+    private readonly limitOrderService: LimitOrderService,
+    private readonly marketOrderService: MarketOrderService,
   ) {}
 
   /**
@@ -43,7 +62,9 @@ export class TradesController {
    */
   @Post('validate')
   @HttpCode(HttpStatus.OK)
-  async validateTrade(@Body() dto: ExecuteTradeDto): Promise<TradeValidationResultDto> {
+  async validateTrade(
+    @Body() dto: ExecuteTradeDto,
+  ): Promise<TradeValidationResultDto> {
     return this.tradesService.validateTradePreview(dto);
   }
 
@@ -57,6 +78,91 @@ export class TradesController {
     return this.tradesService.closeTrade(dto);
   }
 
+  /**
+   * Arm or adjust a trailing stop on an open trade
+   * POST /trades/trailing-stop
+   */
+  @Post('trailing-stop')
+  @HttpCode(HttpStatus.OK)
+  async setTrailingStop(
+    @Body() dto: SetTrailingStopDto,
+  ): Promise<TradeDetailsDto> {
+    return this.tradesService.setTrailingStop(dto);
+  }
+
+  /**
+   * Build an unsigned limit order for the user's wallet to sign
+   * POST /trades/orders/limit/prepare
+   */
+  @Post('orders/limit/prepare')
+  @HttpCode(HttpStatus.OK)
+  async prepareLimitOrder(
+    @Body() dto: LimitOrderDto,
+  ): Promise<PreparedTransactionDto> {
+    return this.limitOrderService.prepareOrder(dto);
+  }
+
+  /**
+   * Build an unsigned price/amount change for an open limit order
+   * POST /trades/orders/limit/:orderId/amend
+   */
+  @Post('orders/limit/:orderId/amend')
+  @HttpCode(HttpStatus.OK)
+  async amendLimitOrder(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+    @Body() dto: AmendLimitOrderDto,
+  ): Promise<PreparedTransactionDto> {
+    return this.limitOrderService.prepareAmendOrder(orderId, dto);
+  }
+
+  /**
+   * Build an unsigned cancellation for an open limit order
+   * POST /trades/orders/limit/:orderId/cancel
+   */
+  @Post('orders/limit/:orderId/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancelLimitOrder(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+  ): Promise<PreparedTransactionDto> {
+    return this.limitOrderService.prepareCancelOrder(orderId);
+  }
+
+  /**
+   * Submit a signed limit order placement, amendment or cancellation
+   * POST /trades/orders/limit/submit
+   */
+  @Post('orders/limit/submit')
+  @HttpCode(HttpStatus.CREATED)
+  async submitLimitOrder(
+    @Body() dto: SubmitSignedTransactionDto,
+  ): Promise<LimitOrderResponseDto> {
+    return this.limitOrderService.submitOrder(dto);
+  }
+
+  /**
+   * Build an unsigned market order for the user's wallet to sign
+   * POST /trades/orders/market/prepare
+   */
+  @Post('orders/market/prepare')
+  @HttpCode(HttpStatus.OK)
+  async prepareMarketOrder(
+    @Body() dto: MarketOrderDto,
+  ): Promise<PreparedTransactionDto> {
+    return this.marketOrderService.prepareOrder(dto);
+  }
+
+  /**
+   * Submit a signed market order
+   * POST /trades/orders/market/submit
+   */
+  @Post('orders/market/submit')
+  @HttpCode(HttpStatus.CREATED)
+  async submitMarketOrder(
+    @Body() dto: SubmitSignedTransactionDto,
+  ): Promise<MarketOrderResponseDto> {
+    return this.marketOrderService.submitOrder(dto);
+  }
+
   /**
    * Get trade by ID
    * GET /trades/:tradeId
@@ -99,6 +205,19 @@ export class TradesController {
     return this.tradesService.getUserTradesSummary(userId);
   }
 
+  /**
+   * Get user's limit orders (open ones unless a status is given)
+   * GET /trades/user/:userId/orders/limit
+   */
+  @Get('user/:userId/orders/limit')
+  async getUserLimitOrders(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query('status', new ParseEnumPipe(LimitOrderStatus, { optional: true }))
+    status?: LimitOrderStatus,
+  ): Promise<LimitOrder[]> {
+    return this.limitOrderService.getUserOrders(userId, status);
+  }
+
   /**
    * Get user's open positions
    * GET /trades/user/:userId/positions
@@ -1,20 +1,62 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { BullModule } from '@nestjs/bull';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { Trade } from './entities/trade.entity';
+import { LimitOrder } from './entities/limit-order.entity';
 import { TradesController } from './trades.controller';
 import { TradesService } from './trades.service';
 import { RiskManagerService } from './services/risk-manager.service';
 import { TradeExecutorService } from './services/trade-executor.service';
+import { LimitOrderService } from './services/limit-order.service';
+import { MarketOrderService } from './services/market-order.service';
+import {
+  TradeMonitorService,
+  TRADE_MONITOR_QUEUE,
+} from './services/trade-monitor.service';
+import { MonitorOpenTradesJob } from './jobs/monitor-open-trades.job';
 import { StellarConfigService } from '../config/stellar.service';
 import { RiskManagerModule } from '../risk/risk-manager.module';
+import { Signal } from '../signals/entities/signal.entity';
+import { User } from '../users/entities/user.entity';
+import { StellarModule } from '../stellar/stellar.module';
+import { PriceOracleModule } from '../prices/price-oracle.module';
+import { SdexModule } from '../sdex/sdex.module';
+import { WebsocketModule } from '../websocket/websocket.module';
+import { SlippageModule } from '../slippage/slippage.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Trade]), RiskManagerModule],
+  imports: [
+    TypeOrmModule.forFeature([Trade, LimitOrder, Signal, User]),
+    RiskManagerModule,
+    StellarModule,
+    PriceOracleModule,
+    SdexModule,
+    WebsocketModule,
+    SlippageModule,
+    BullModule.registerQueueAsync({
+      name: TRADE_MONITOR_QUEUE,
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        redis: {
+          host: configService.get<string>('redis.host') ?? 'localhost',
+          port: configService.get<number>('redis.port') ?? 6379,
+          password: configService.get<string>('redis.password'),
+          db: configService.get<number>('redis.db') ?? 0,
+        },
+      }),
+    }),
+  ],
   controllers: [TradesController],
   providers: [
     TradesService,
     RiskManagerService,
     TradeExecutorService,
+    LimitOrderService,
+    MarketOrderService,
+    TradeMonitorService,
+    MonitorOpenTradesJob,
     StellarConfigService,
   ],
   exports: [TradesService, RiskManagerService],
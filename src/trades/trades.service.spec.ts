@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { TradesService } from './trades.service';
+import { RiskManagerService } from './services/risk-manager.service';
+import { TradeExecutorService } from './services/trade-executor.service';
+import { RiskManagerService as VelocityRiskManager } from '../risk/risk-manager.service';
+import { AccountManagerService } from '../stellar/account/account-manager.service';
+import { ReserveCalculatorService } from '../stellar/account/reserve-calculator.service';
+import { PriceOracleService } from '../prices/price-oracle.service';
+import { SlippageProtectionService } from '../slippage/slippage-protection.service';
+import { Signal } from '../signals/entities/signal.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  Trade,
+  TradeSide,
+  TradeStatus,
+  TrailingStopType,
+} from './entities/trade.entity';
+
+// These pull in modules that ts-jest cannot compile on their own; the
+// service only needs the injection tokens
+jest.mock('../risk/risk-manager.service', () => ({
+  RiskManagerService: class {},
+}));
+jest.mock('../stellar/account/account-manager.service', () => ({
+  AccountManagerService: class {},
+}));
+jest.mock('../prices/price-oracle.service', () => ({
+  PriceOracleService: class {},
+}));
+
+describe('TradesService', () => {
+  let service: TradesService;
+
+  const buildTrade = (overrides: Partial<Trade> = {}): Trade =>
+    ({
+      id: 'trade-1',
+      userId: 'user-1',
+      status: TradeStatus.COMPLETED,
+      side: TradeSide.BUY,
+      baseAsset: 'XLM',
+      counterAsset: 'USDC',
+      takeProfitPrice: '1.5',
+      closedAt: undefined,
+      ...overrides,
+    }) as Trade;
+
+  const mockTradeRepository = {
+    findOne: jest.fn(),
+    save: jest.fn(async (trade) => trade),
+  };
+
+  const mockPriceOracle = { getPrice: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TradesService,
+        RiskManagerService,
+        { provide: getRepositoryToken(Trade), useValue: mockTradeRepository },
+        { provide: getRepositoryToken(Signal), useValue: {} },
+        { provide: getRepositoryToken(User), useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (_key: string, defaultValue?: unknown) => defaultValue,
+          },
+        },
+        { provide: TradeExecutorService, useValue: {} },
+        { provide: VelocityRiskManager, useValue: {} },
+        { provide: AccountManagerService, useValue: {} },
+        { provide: ReserveCalculatorService, useValue: {} },
+        { provide: PriceOracleService, useValue: mockPriceOracle },
+        { provide: SlippageProtectionService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<TradesService>(TradesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('setTrailingStop', () => {
+    it('seeds the high-water mark from the oracle price and drops the target', async () => {
+      const trade = buildTrade();
+      mockTradeRepository.findOne.mockResolvedValue(trade);
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 2 });
+
+      const details = await service.setTrailingStop({
+        tradeId: 'trade-1',
+        userId: 'user-1',
+        trailingStopType: TrailingStopType.PERCENTAGE,
+        trailingStopDistance: 10,
+      });
+
+      expect(mockPriceOracle.getPrice).toHaveBeenCalledWith('XLM-USDC');
+      expect(mockTradeRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          trailingStopType: TrailingStopType.PERCENTAGE,
+          trailingStopDistance: '10',
+          highWaterMark: '2.00000000',
+          takeProfitPrice: null,
+        }),
+      );
+      expect(details.trailingStopPrice).toBe('1.80000000');
+    });
+
+    it('keeps the mark already reached when the trail is changed', async () => {
+      mockTradeRepository.findOne.mockResolvedValue(
+        buildTrade({
+          side: TradeSide.SELL,
+          trailingStopType: TrailingStopType.PERCENTAGE,
+          trailingStopDistance: '10',
+          highWaterMark: '0.80000000',
+        }),
+      );
+
+      const details = await service.setTrailingStop({
+        tradeId: 'trade-1',
+        userId: 'user-1',
+        trailingStopType: TrailingStopType.ABSOLUTE,
+        trailingStopDistance: 0.05,
+      });
+
+      expect(mockPriceOracle.getPrice).not.toHaveBeenCalled();
+      expect(details).toMatchObject({
+        highWaterMark: '0.80000000',
+        trailingStopPrice: '0.85000000',
+      });
+    });
+
+    it('rejects an absolute distance at or above the price of a buy', async () => {
+      mockTradeRepository.findOne.mockResolvedValue(buildTrade());
+      mockPriceOracle.getPrice.mockResolvedValue({ price: 2 });
+
+      await expect(
+        service.setTrailingStop({
+          tradeId: 'trade-1',
+          userId: 'user-1',
+          trailingStopType: TrailingStopType.ABSOLUTE,
+          trailingStopDistance: 2,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockTradeRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('only arms trailing stops on open trades', async () => {
+      mockTradeRepository.findOne.mockResolvedValue(
+        buildTrade({ closedAt: new Date() }),
+      );
+
+      await expect(
+        service.setTrailingStop({
+          tradeId: 'trade-1',
+          userId: 'user-1',
+          trailingStopType: TrailingStopType.PERCENTAGE,
+          trailingStopDistance: 5,
+        }),
+      ).rejects.toThrow('Trailing stops can only be set on open trades');
+    });
+  });
+});
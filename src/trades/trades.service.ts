@@ -1,8 +1,8 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Trade, TradeStatus, TradeSide } from './entities/trade.entity';
-import { ExecuteTradeDto, CloseTradeDto, GetUserTradesDto } from './dto/execute-trade.dto';
+import { Trade, TradeStatus, TradeSide, TradeCloseReason } from './entities/trade.entity';
+import { ExecuteTradeDto, CloseTradeDto, GetUserTradesDto, SetTrailingStopDto } from './dto/execute-trade.dto';
 import {
   TradeResultDto,
   TradeDetailsDto,
@@ -13,6 +13,15 @@ import {
 import { RiskManagerService, UserBalance } from './services/risk-manager.service';
 import { TradeExecutorService } from './services/trade-executor.service';
 import { RiskManagerService as VelocityRiskManager } from '../risk/risk-manager.service';
+import { Signal } from '../signals/entities/signal.entity';
+import { User } from '../users/entities/user.entity';
+import { AccountInfo, AccountManagerService } from '../stellar/account/account-manager.service';
+import { ReserveCalculatorService } from '../stellar/account/reserve-calculator.service';
+import { PriceOracleService } from '../prices/price-oracle.service';
+import {
+  SlippageProtectionService,
+  TradeExecutionContext,
+} from '../slippage/slippage-protection.service';
 
 interface SignalData {
   id: string;
@@ -25,6 +34,11 @@ interface SignalData {
   targetPrice?: string;
 }
 
+export interface TradeLevels {
+  stopLossPrice?: string;
+  takeProfitPrice?: string;
+}
+
 @Injectable()
 export class TradesService {
   private readonly logger = new Logger(TradesService.name);
@@ -35,6 +49,14 @@ export class TradesService {
     private readonly riskManager: RiskManagerService,
     private readonly tradeExecutor: TradeExecutorService,
     private readonly velocityRiskManager: VelocityRiskManager,
+    @InjectRepository(Signal)
+    private readonly signalRepository: Repository<Signal>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly accountManager: AccountManagerService,
+    private readonly reserveCalculator: ReserveCalculatorService,
+    private readonly priceOracle: PriceOracleService,
+    private readonly slippageProtection: SlippageProtectionService,
   ) {}
 
   async executeTrade(dto: ExecuteTradeDto): Promise<TradeResultDto> {
@@ -46,11 +68,8 @@ export class TradesService {
       throw new BadRequestException('A pending trade already exists for this signal');
     }
 
-    // Get signal data (in production, fetch from SignalsService)
     const signalData = await this.getSignalData(dto.signalId);
-
-    // Get user balance (in production, fetch from UserService/WalletService)
-    const userBalance = await this.getUserBalance(dto.userId);
+    const userBalance = await this.getUserBalance(dto.userId, signalData, dto.side);
 
     // Validate trade with velocity checks
     const validation = await this.riskManager.validateTrade(dto, signalData, userBalance);
@@ -75,6 +94,28 @@ export class TradesService {
       parseFloat(userBalance.available),
     );
 
+    // Reject before submission if the book would fill beyond the user's slippage limit
+    const slippageContext: TradeExecutionContext = {
+      symbol: `${signalData.baseAsset}/${signalData.counterAsset}`,
+      side: dto.side === TradeSide.BUY ? 'buy' : 'sell',
+      quantity: dto.amount,
+      expectedPrice: parseFloat(signalData.entryPrice),
+      timestamp: new Date(),
+      userId: dto.userId,
+    };
+    const slippageCheck = await this.slippageProtection.validateTradeExecution(
+      slippageContext,
+      dto.slippageTolerance !== undefined ? { maxSlippagePercent: dto.slippageTolerance } : undefined,
+    );
+    if (!slippageCheck.allowed) {
+      throw new BadRequestException({
+        message: 'Trade rejected by slippage protection',
+        reason: slippageCheck.reason,
+        estimatedSlippage: slippageCheck.estimatedSlippage,
+        maxAllowedSlippage: slippageCheck.maxAllowedSlippage,
+      });
+    }
+
     // Create trade record
     const trade = this.tradeRepository.create({
       userId: dto.userId,
@@ -86,7 +127,10 @@ export class TradesService {
       amount: dto.amount.toString(),
       totalValue: (dto.amount * parseFloat(signalData.entryPrice)).toFixed(8),
       stopLossPrice: dto.stopLossPrice?.toString() || signalData.stopLossPrice,
-      takeProfitPrice: dto.takeProfitPrice?.toString() || signalData.targetPrice,
+      // A trailing stop replaces the signal's fixed target unless one is given explicitly
+      takeProfitPrice: dto.takeProfitPrice?.toString() || (dto.trailingStopType ? undefined : signalData.targetPrice),
+      trailingStopType: dto.trailingStopType,
+      trailingStopDistance: dto.trailingStopDistance?.toString(),
       status: TradeStatus.PENDING,
     });
 
@@ -111,8 +155,16 @@ export class TradesService {
         trade.totalValue = (parseFloat(trade.amount) * parseFloat(executionResult.executedPrice)).toFixed(8);
       }
 
+      if (trade.trailingStopType) {
+        trade.highWaterMark = trade.entryPrice;
+      }
+
       await this.tradeRepository.save(trade);
 
+      if (executionResult.executedPrice) {
+        await this.recordSlippage(slippageContext, trade);
+      }
+
       // Record trade execution for velocity tracking
       await this.velocityRiskManager.recordTradeExecution({
         userId: trade.userId,
@@ -154,7 +206,10 @@ export class TradesService {
     }
   }
 
-  async closeTrade(dto: CloseTradeDto): Promise<CloseTradeResultDto> {
+  async closeTrade(
+    dto: CloseTradeDto,
+    reason: TradeCloseReason = TradeCloseReason.MANUAL,
+  ): Promise<CloseTradeResultDto> {
     const trade = await this.tradeRepository.findOne({
       where: { id: dto.tradeId, userId: dto.userId },
     });
@@ -185,6 +240,8 @@ export class TradesService {
       trade.profitLoss = profitLoss;
       trade.profitLossPercentage = profitLossPercentage;
       trade.closedAt = new Date();
+      trade.closeReason = reason;
+      trade.closeTransactionHash = closeResult.transactionHash;
 
       await this.tradeRepository.save(trade);
 
@@ -193,7 +250,7 @@ export class TradesService {
         await this.velocityRiskManager.handleTradeLoss(trade.userId, Math.abs(parseFloat(profitLoss)));
       }
 
-      this.logger.log(`Trade ${trade.id} closed. P&L: ${profitLoss} (${profitLossPercentage}%)`);
+      this.logger.log(`Trade ${trade.id} closed (${reason}). P&L: ${profitLoss} (${profitLossPercentage}%)`);
 
       return {
         id: trade.id,
@@ -203,6 +260,7 @@ export class TradesService {
         profitLossPercentage,
         transactionHash: closeResult.transactionHash,
         closedAt: trade.closedAt,
+        closeReason: reason,
         message: 'Trade closed successfully',
       };
     } else {
@@ -213,6 +271,103 @@ export class TradesService {
     }
   }
 
+  /**
+   * Arm or adjust a trailing stop on an open trade. The trail starts from the
+   * current price (or the existing high-water mark when re-configuring) and
+   * replaces any fixed take-profit target.
+   */
+  async setTrailingStop(dto: SetTrailingStopDto): Promise<TradeDetailsDto> {
+    const trade = await this.tradeRepository.findOne({
+      where: { id: dto.tradeId, userId: dto.userId },
+    });
+
+    if (!trade) {
+      throw new NotFoundException('Trade not found');
+    }
+
+    if (trade.status !== TradeStatus.COMPLETED || trade.closedAt) {
+      throw new BadRequestException('Trailing stops can only be set on open trades');
+    }
+
+    const highWaterMark = trade.highWaterMark ?? await this.getCurrentPrice(trade.baseAsset, trade.counterAsset);
+    const errors = this.riskManager.validateTrailingStop(
+      trade.side,
+      highWaterMark,
+      dto.trailingStopType,
+      dto.trailingStopDistance,
+    );
+
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid trailing stop', errors });
+    }
+
+    trade.trailingStopType = dto.trailingStopType;
+    trade.trailingStopDistance = dto.trailingStopDistance.toString();
+    trade.highWaterMark = highWaterMark;
+    trade.takeProfitPrice = null;
+
+    await this.tradeRepository.save(trade);
+
+    this.logger.log(`Trailing stop set on trade ${trade.id}: ${dto.trailingStopDistance} (${dto.trailingStopType})`);
+
+    return this.mapToTradeDetails(trade);
+  }
+
+  /**
+   * Move the stop loss and/or take-profit of an open trade, e.g. to follow a
+   * provider's amended signal. A take-profit is not set while a trailing stop
+   * is armed, since the trail replaces it.
+   */
+  async updateTradeLevels(tradeId: string, userId: string, levels: TradeLevels): Promise<TradeDetailsDto> {
+    const trade = await this.tradeRepository.findOne({
+      where: { id: tradeId, userId },
+    });
+
+    if (!trade) {
+      throw new NotFoundException('Trade not found');
+    }
+
+    if (trade.status !== TradeStatus.COMPLETED || trade.closedAt) {
+      throw new BadRequestException('Levels can only be changed on open trades');
+    }
+
+    const currentPrice = parseFloat(await this.getCurrentPrice(trade.baseAsset, trade.counterAsset));
+    const isBuy = trade.side === TradeSide.BUY;
+    const errors: string[] = [];
+
+    if (levels.stopLossPrice !== undefined) {
+      const stopLoss = parseFloat(levels.stopLossPrice);
+      if (isBuy ? stopLoss >= currentPrice : stopLoss <= currentPrice) {
+        errors.push(`Stop loss must be ${isBuy ? 'below' : 'above'} the current price of ${currentPrice}`);
+      }
+    }
+
+    const setTakeProfit = levels.takeProfitPrice !== undefined && !trade.trailingStopType;
+    if (setTakeProfit) {
+      const takeProfit = parseFloat(levels.takeProfitPrice!);
+      if (isBuy ? takeProfit <= currentPrice : takeProfit >= currentPrice) {
+        errors.push(`Take-profit must be ${isBuy ? 'above' : 'below'} the current price of ${currentPrice}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid trade levels', errors });
+    }
+
+    if (levels.stopLossPrice !== undefined) {
+      trade.stopLossPrice = levels.stopLossPrice;
+    }
+    if (setTakeProfit) {
+      trade.takeProfitPrice = levels.takeProfitPrice;
+    }
+
+    await this.tradeRepository.save(trade);
+
+    this.logger.log(`Levels updated on trade ${trade.id}: SL ${trade.stopLossPrice ?? '-'}, TP ${trade.takeProfitPrice ?? '-'}`);
+
+    return this.mapToTradeDetails(trade);
+  }
+
   async getTradeById(tradeId: string, userId: string): Promise<TradeDetailsDto> {
     const trade = await this.tradeRepository.findOne({
       where: { id: tradeId, userId },
@@ -276,10 +431,23 @@ export class TradesService {
 
   async validateTradePreview(dto: ExecuteTradeDto): Promise<TradeValidationResultDto> {
     const signalData = await this.getSignalData(dto.signalId);
-    const userBalance = await this.getUserBalance(dto.userId);
+    const userBalance = await this.getUserBalance(dto.userId, signalData, dto.side);
     return this.riskManager.validateTrade(dto, signalData, userBalance);
   }
 
+  /**
+   * Spendable balance for a trade on the signal, in counter-asset units
+   * for either side (see getUserBalance).
+   */
+  async getAvailableBalance(
+    userId: string,
+    signalId: string,
+    side: TradeSide,
+  ): Promise<UserBalance> {
+    const signalData = await this.getSignalData(signalId);
+    return this.getUserBalance(userId, signalData, side);
+  }
+
   async getOpenPositions(userId: string): Promise<TradeDetailsDto[]> {
     const trades = await this.tradeRepository.find({
       where: {
@@ -318,42 +486,143 @@ export class TradesService {
       profitLossPercentage: trade.profitLossPercentage,
       stopLossPrice: trade.stopLossPrice,
       takeProfitPrice: trade.takeProfitPrice,
+      trailingStopType: trade.trailingStopType,
+      trailingStopDistance: trade.trailingStopDistance,
+      highWaterMark: trade.highWaterMark,
+      trailingStopPrice:
+        trade.trailingStopType && trade.trailingStopDistance && trade.highWaterMark
+          ? this.riskManager.calculateTrailingStopPrice(
+              trade.side,
+              trade.highWaterMark,
+              trade.trailingStopType,
+              trade.trailingStopDistance,
+            )
+          : undefined,
       transactionHash: trade.transactionHash,
       sorobanContractId: trade.sorobanContractId,
       errorMessage: trade.errorMessage,
       executedAt: trade.executedAt,
       closedAt: trade.closedAt,
+      closeReason: trade.closeReason,
       createdAt: trade.createdAt,
       updatedAt: trade.updatedAt,
     };
   }
 
-  // Mock methods - in production, these would call other services
+  private async recordSlippage(
+    context: TradeExecutionContext,
+    trade: Trade,
+  ): Promise<void> {
+    try {
+      await this.slippageProtection.recordSlippage(
+        { ...context, orderId: trade.id, timestamp: trade.executedAt ?? new Date() },
+        parseFloat(trade.entryPrice),
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to record slippage for trade ${trade.id}: ${(error as Error).message}`);
+    }
+  }
+
   private async getSignalData(signalId: string): Promise<SignalData> {
-    // In production, call SignalsService to get actual signal data
+    const signal = await this.signalRepository.findOne({
+      where: { id: signalId },
+    });
+
+    if (!signal) {
+      throw new NotFoundException('Signal not found');
+    }
+
     return {
-      id: signalId,
-      entryPrice: '0.15000000',
-      status: 'active',
-      expiresAt: new Date(Date.now() + 3600000), // 1 hour from now
-      baseAsset: 'XLM',
-      counterAsset: 'USDC',
-      stopLossPrice: '0.14000000',
-      targetPrice: '0.18000000',
+      id: signal.id,
+      entryPrice: signal.entryPrice,
+      // RiskManagerService compares against the lowercase status
+      status: signal.status.toLowerCase(),
+      expiresAt: signal.expiresAt,
+      baseAsset: signal.baseAsset,
+      counterAsset: signal.counterAsset,
+      stopLossPrice: signal.stopLossPrice ?? undefined,
+      targetPrice: signal.targetPrice,
     };
   }
 
-  private async getUserBalance(_userId: string): Promise<UserBalance> {
-    // In production, call UserService/WalletService to get actual balance
+  /**
+   * Resolves the user's spendable balance from their Horizon account, net
+   * of selling liabilities and, for XLM, the minimum reserve. Buys spend
+   * the counter asset; sells spend the base asset, which is converted to
+   * counter units at the signal entry price so it can be compared against
+   * the trade value in validateTrade.
+   */
+  private async getUserBalance(
+    userId: string,
+    signalData: SignalData,
+    side: TradeSide,
+  ): Promise<UserBalance> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    let accountInfo: AccountInfo;
+    try {
+      accountInfo = await this.accountManager.getAccountInfo(user.walletAddress);
+    } catch (error) {
+      this.logger.warn(`Unable to load Stellar account for user ${userId}: ${(error as Error).message}`);
+      throw new BadRequestException('Unable to load wallet balances from the Stellar network');
+    }
+
+    const spendAsset = side === TradeSide.BUY ? signalData.counterAsset : signalData.baseAsset;
+    const line = accountInfo.balances.find((balance) => this.matchesAsset(balance, spendAsset));
+
+    const total = parseFloat(line?.balance ?? '0');
+    // XLM also holds back the account's minimum reserve
+    const available =
+      line?.asset_type === 'native'
+        ? parseFloat(
+            this.reserveCalculator.calculateSpendableNative(
+              line.balance,
+              line.selling_liabilities,
+              accountInfo.subentryCount,
+            ),
+          )
+        : Math.max(total - parseFloat(line?.selling_liabilities ?? '0'), 0);
+    const rate = side === TradeSide.BUY ? 1 : parseFloat(signalData.entryPrice);
+
     return {
-      available: '10000.00000000',
-      locked: '0.00000000',
-      total: '10000.00000000',
+      available: (available * rate).toFixed(8),
+      locked: ((total - available) * rate).toFixed(8),
+      total: (total * rate).toFixed(8),
     };
   }
 
-  private async getCurrentPrice(_baseAsset: string, _counterAsset: string): Promise<string> {
-    // In production, call price feed service
-    return '0.16000000';
+  private async getCurrentPrice(baseAsset: string, counterAsset: string): Promise<string> {
+    const assetPair = `${this.toOracleAsset(baseAsset)}-${this.toOracleAsset(counterAsset)}`;
+
+    try {
+      const priceData = await this.priceOracle.getPrice(assetPair);
+      return priceData.price.toFixed(8);
+    } catch (error) {
+      this.logger.error(`Failed to fetch price for ${assetPair}: ${(error as Error).message}`);
+      throw new BadRequestException(`No market price available for ${assetPair}`);
+    }
+  }
+
+  /**
+   * Signal assets are stored as 'XLM'/'native' or 'CODE:ISSUER'
+   */
+  private matchesAsset(
+    balance: { asset_type: string; asset_code?: string; asset_issuer?: string },
+    asset: string,
+  ): boolean {
+    if (asset === 'XLM' || asset === 'native') {
+      return balance.asset_type === 'native';
+    }
+
+    const [code, issuer] = asset.split(':');
+    return balance.asset_code === code && (!issuer || balance.asset_issuer === issuer);
+  }
+
+  private toOracleAsset(asset: string): string {
+    return asset === 'native' ? 'XLM' : asset;
   }
 }
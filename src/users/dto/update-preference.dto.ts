@@ -3,9 +3,6 @@ import {
     IsEnum,
     IsOptional,
     IsString,
-    IsNumber,
-    Min,
-    Max,
     Length,
 } from 'class-validator';
 import { RiskLevel } from '../entities/user-preference.entity';
@@ -36,10 +33,4 @@ export class UpdatePreferenceDto {
     @IsString()
     @Length(3, 10)
     preferredCurrency?: string;
-
-    @IsOptional()
-    @IsNumber()
-    @Min(0)
-    @Max(100)
-    defaultSlippagePercent?: number;
 }
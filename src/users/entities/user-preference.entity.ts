@@ -49,9 +49,6 @@ export class UserPreference {
     @Column({ default: 'USD', length: 10 })
     preferredCurrency!: string;
 
-    @Column({ type: 'decimal', precision: 5, scale: 2, default: 1.0 })
-    defaultSlippagePercent!: number;
-
     @CreateDateColumn()
     createdAt!: Date;
 
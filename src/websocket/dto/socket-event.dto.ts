@@ -3,6 +3,9 @@ export enum SocketEvent {
   SIGNAL_PERFORMANCE = 'signal:performance',
   PORTFOLIO_CHANGED = 'portfolio:changed',
   NEW_SIGNAL = 'signal:new',
+  ORDERBOOK_UPDATED = 'orderbook:updated',
+  TICKER_UPDATED = 'ticker:updated',
+  LEADERBOARD_UPDATED = 'leaderboard:updated',
 }
 
 export enum SocketRoom {
@@ -10,8 +13,24 @@ export enum SocketRoom {
   LEADERBOARD_TOP100 = 'leaderboard:top100',
 }
 
+/**
+ * Per-pair rooms, named `<channel>:<base>:<counter>` where each asset is
+ * `XLM` or `CODE:ISSUER`, e.g. `orderbook:XLM:USDC:GA5Z...`.
+ */
+export enum MarketChannel {
+  ORDERBOOK = 'orderbook',
+  TICKER = 'ticker',
+}
+
+export interface MarketRoom {
+  channel: MarketChannel;
+  base: string;
+  counter: string;
+}
+
 export interface RoomSubscriptionDto {
-  room: SocketRoom;
+  // A SocketRoom or a market room
+  room: string;
 }
 
 export interface SocketEventPayload<T = unknown> {
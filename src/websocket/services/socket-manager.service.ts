@@ -1,6 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
 import { Server, Socket } from 'socket.io';
-import { SocketEvent, SocketRoom } from '../dto/socket-event.dto';
+import { StrKey } from '@stellar/stellar-sdk';
+import {
+  MarketChannel,
+  MarketRoom,
+  SocketEvent,
+  SocketRoom,
+} from '../dto/socket-event.dto';
+import {
+  ORDERBOOK_UPDATED_EVENT,
+  OrderbookUpdate,
+  TICKER_UPDATED_EVENT,
+  TickerUpdate,
+} from '../../sdex/sdex-stream.service';
+import {
+  LEADERBOARD_UPDATED_EVENT,
+  LeaderboardUpdate,
+} from '../../signals/services/provider-leaderboard.service';
 
 const HEARTBEAT_INTERVAL_MS = 30000;
 const HEARTBEAT_TIMEOUT_MS = 65000;
@@ -20,6 +37,60 @@ export class SocketManagerService {
     return `user:${walletAddress}`;
   }
 
+  getMarketRoom(channel: MarketChannel, base: string, counter: string): string {
+    return `${channel}:${base}:${counter}`;
+  }
+
+  /**
+   * Parses `<channel>:<base>:<counter>`. The native asset is a single `XLM`
+   * (or `native`, in any case) segment and comes back as `XLM`; any other
+   * asset is `CODE:ISSUER`. Returns null for anything else, including codes
+   * without an issuer.
+   */
+  parseMarketRoom(room: string): MarketRoom | null {
+    const [channel, ...segments] = room.split(':');
+    if (!Object.values(MarketChannel).includes(channel as MarketChannel)) {
+      return null;
+    }
+
+    const assets: string[] = [];
+    let index = 0;
+    while (index < segments.length && assets.length < 2) {
+      const code = segments[index];
+      if (code.toUpperCase() === 'XLM' || code.toLowerCase() === 'native') {
+        assets.push('XLM');
+        index++;
+        continue;
+      }
+
+      const issuer = segments[index + 1];
+      if (
+        !/^[a-zA-Z0-9]{1,12}$/.test(code) ||
+        !issuer ||
+        !StrKey.isValidEd25519PublicKey(issuer)
+      ) {
+        return null;
+      }
+
+      assets.push(`${code}:${issuer}`);
+      index += 2;
+    }
+
+    if (
+      assets.length !== 2 ||
+      index !== segments.length ||
+      assets[0] === assets[1]
+    ) {
+      return null;
+    }
+
+    return {
+      channel: channel as MarketChannel,
+      base: assets[0],
+      counter: assets[1],
+    };
+  }
+
   registerClient(client: Socket): void {
     this.lastPongAt.set(client.id, Date.now());
     client.on('pong', () => {
@@ -59,6 +130,35 @@ export class SocketManagerService {
     this.server?.to(SocketRoom.SIGNALS_FEED).emit(SocketEvent.NEW_SIGNAL, payload);
   }
 
+  @OnEvent(ORDERBOOK_UPDATED_EVENT)
+  emitOrderbookUpdated(payload: OrderbookUpdate): void {
+    this.server
+      ?.to(
+        this.getMarketRoom(
+          MarketChannel.ORDERBOOK,
+          payload.base,
+          payload.counter,
+        ),
+      )
+      .emit(SocketEvent.ORDERBOOK_UPDATED, payload);
+  }
+
+  @OnEvent(TICKER_UPDATED_EVENT)
+  emitTickerUpdated(payload: TickerUpdate): void {
+    this.server
+      ?.to(
+        this.getMarketRoom(MarketChannel.TICKER, payload.base, payload.counter),
+      )
+      .emit(SocketEvent.TICKER_UPDATED, payload);
+  }
+
+  @OnEvent(LEADERBOARD_UPDATED_EVENT)
+  emitLeaderboardUpdated(payload: LeaderboardUpdate): void {
+    this.server
+      ?.to(SocketRoom.LEADERBOARD_TOP100)
+      .emit(SocketEvent.LEADERBOARD_UPDATED, payload);
+  }
+
   private startHeartbeat(client: Socket): void {
     if (this.heartbeatIntervals.has(client.id)) {
       return;
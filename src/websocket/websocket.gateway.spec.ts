@@ -0,0 +1,82 @@
+import { JwtService } from '@nestjs/jwt';
+import { WsException } from '@nestjs/websockets';
+import { Keypair } from '@stellar/stellar-sdk';
+import { Socket } from 'socket.io';
+import { WebsocketGateway } from './websocket.gateway';
+import { SocketManagerService } from './services/socket-manager.service';
+import { SdexStreamService } from '../sdex/sdex-stream.service';
+
+describe('WebsocketGateway', () => {
+  let gateway: WebsocketGateway;
+
+  const issuer = Keypair.random().publicKey();
+  const usdc = `USDC:${issuer}`;
+
+  const mockSdexStream = {
+    watchPair: jest.fn(),
+    unwatchPair: jest.fn(),
+    getOrderbookSnapshot: jest.fn(() => null),
+  };
+
+  const buildClient = () =>
+    ({
+      id: 'socket-1',
+      join: jest.fn(),
+      leave: jest.fn(),
+      emit: jest.fn(),
+    }) as unknown as Socket;
+
+  beforeEach(() => {
+    gateway = new WebsocketGateway(
+      {} as JwtService,
+      new SocketManagerService(),
+      mockSdexStream as unknown as SdexStreamService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('handleSubscribe', () => {
+    it('joins native spellings under the room updates are emitted to', async () => {
+      const client = buildClient();
+
+      await gateway.handleSubscribe(client, {
+        room: `orderbook:native:${usdc}`,
+      });
+      await gateway.handleSubscribe(client, { room: `orderbook:xlm:${usdc}` });
+
+      expect(client.join).toHaveBeenCalledTimes(1);
+      expect(client.join).toHaveBeenCalledWith(`orderbook:XLM:${usdc}`);
+      expect(mockSdexStream.watchPair).toHaveBeenCalledWith('XLM', usdc);
+    });
+
+    it('rejects rooms it cannot parse', async () => {
+      const client = buildClient();
+
+      await expect(
+        gateway.handleSubscribe(client, { room: 'orderbook:XLM:USDC' }),
+      ).rejects.toThrow(WsException);
+      await expect(
+        gateway.handleSubscribe(client, { room: 'candles:XLM:USDC' }),
+      ).rejects.toThrow('Unknown room candles:XLM:USDC');
+      expect(client.join).not.toHaveBeenCalled();
+      expect(mockSdexStream.watchPair).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleUnsubscribe', () => {
+    it('leaves the canonical room whichever spelling is used', async () => {
+      const client = buildClient();
+      await gateway.handleSubscribe(client, { room: `ticker:XLM:${usdc}` });
+
+      await gateway.handleUnsubscribe(client, {
+        room: `ticker:native:${usdc}`,
+      });
+
+      expect(client.leave).toHaveBeenCalledWith(`ticker:XLM:${usdc}`);
+      expect(mockSdexStream.unwatchPair).toHaveBeenCalledWith('XLM', usdc);
+    });
+  });
+});
@@ -7,13 +7,21 @@ import {
   SubscribeMessage,
   WebSocketGateway,
   WebSocketServer,
+  WsException,
 } from '@nestjs/websockets';
 import { Logger, UnauthorizedException } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { JwtService } from '@nestjs/jwt';
 import { SocketManagerService } from './services/socket-manager.service';
-import { RoomSubscriptionDto, SocketRoom } from './dto/socket-event.dto';
+import {
+  MarketChannel,
+  MarketRoom,
+  RoomSubscriptionDto,
+  SocketEvent,
+  SocketRoom,
+} from './dto/socket-event.dto';
 import { JwtPayload } from '../auth/interfaces/jwt-payload.interface';
+import { SdexStreamService } from '../sdex/sdex-stream.service';
 
 @WebSocketGateway({
   cors: {
@@ -29,10 +37,13 @@ export class WebsocketGateway
   server!: Server;
 
   private readonly logger = new Logger(WebsocketGateway.name);
+  // Market rooms each socket has joined, released on unsubscribe or disconnect
+  private readonly marketRooms = new Map<string, Set<string>>();
 
   constructor(
     private readonly jwtService: JwtService,
     private readonly socketManager: SocketManagerService,
+    private readonly sdexStream: SdexStreamService,
   ) {}
 
   afterInit(server: Server): void {
@@ -66,6 +77,12 @@ export class WebsocketGateway
 
   handleDisconnect(@ConnectedSocket() client: Socket): void {
     this.socketManager.unregisterClient(client);
+
+    for (const room of this.marketRooms.get(client.id) ?? []) {
+      this.releaseMarketRoom(room);
+    }
+    this.marketRooms.delete(client.id);
+
     this.logger.log(`Socket disconnected: ${client.id}`);
   }
 
@@ -74,11 +91,12 @@ export class WebsocketGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() body: RoomSubscriptionDto,
   ): Promise<void> {
-    if (!this.isAllowedRoom(body?.room)) {
+    if (this.isAllowedRoom(body?.room)) {
+      await client.join(body.room);
       return;
     }
 
-    await client.join(body.room);
+    await this.joinMarketRoom(client, this.resolveMarketRoom(body?.room));
   }
 
   @SubscribeMessage('unsubscribe')
@@ -86,11 +104,90 @@ export class WebsocketGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() body: RoomSubscriptionDto,
   ): Promise<void> {
-    if (!this.isAllowedRoom(body?.room)) {
+    if (this.isAllowedRoom(body?.room)) {
+      await client.leave(body.room);
+      return;
+    }
+
+    const room = this.toRoomName(this.resolveMarketRoom(body?.room));
+    const rooms = this.marketRooms.get(client.id);
+    if (!rooms?.has(room)) {
+      return;
+    }
+
+    await client.leave(room);
+    rooms.delete(room);
+    this.releaseMarketRoom(room);
+  }
+
+  /**
+   * Parses a market room from the client. Rooms are joined under their
+   * canonical name, the one SocketManagerService emits to, so `native` and
+   * `XLM` spellings land in the same room.
+   */
+  private resolveMarketRoom(room?: string): MarketRoom {
+    const market =
+      typeof room === 'string'
+        ? this.socketManager.parseMarketRoom(room)
+        : null;
+    if (!market) {
+      throw new WsException(
+        `Unknown room ${room}. Market rooms are <channel>:<base>:<counter>, ` +
+          `each asset XLM or CODE:ISSUER, e.g. orderbook:XLM:USDC:G...`,
+      );
+    }
+
+    return market;
+  }
+
+  private toRoomName(market: MarketRoom): string {
+    return this.socketManager.getMarketRoom(
+      market.channel,
+      market.base,
+      market.counter,
+    );
+  }
+
+  private async joinMarketRoom(
+    client: Socket,
+    market: MarketRoom,
+  ): Promise<void> {
+    const room = this.toRoomName(market);
+    const rooms = this.marketRooms.get(client.id) ?? new Set<string>();
+    if (rooms.has(room)) {
       return;
     }
 
-    await client.leave(body.room);
+    try {
+      this.sdexStream.watchPair(market.base, market.counter);
+    } catch (error) {
+      this.logger.warn(
+        `Cannot stream ${room} for ${client.id}: ${(error as Error).message}`,
+      );
+      throw new WsException(`Cannot stream ${room}`);
+    }
+
+    rooms.add(room);
+    this.marketRooms.set(client.id, rooms);
+    await client.join(room);
+
+    // Later subscribers only receive diffs, so start them from the current book
+    if (market.channel === MarketChannel.ORDERBOOK) {
+      const snapshot = this.sdexStream.getOrderbookSnapshot(
+        market.base,
+        market.counter,
+      );
+      if (snapshot) {
+        client.emit(SocketEvent.ORDERBOOK_UPDATED, snapshot);
+      }
+    }
+  }
+
+  private releaseMarketRoom(room: string): void {
+    const market = this.socketManager.parseMarketRoom(room);
+    if (market) {
+      this.sdexStream.unwatchPair(market.base, market.counter);
+    }
   }
 
   private extractToken(client: Socket): string | null {
@@ -3,6 +3,7 @@ import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { WebsocketGateway } from './websocket.gateway';
 import { SocketManagerService } from './services/socket-manager.service';
+import { SdexModule } from '../sdex/sdex.module';
 
 @Module({
   imports: [
@@ -14,6 +15,7 @@ import { SocketManagerService } from './services/socket-manager.service';
         secret: configService.get<string>('jwt.secret'),
       }),
     }),
+    SdexModule,
   ],
   providers: [WebsocketGateway, SocketManagerService],
   exports: [SocketManagerService],